@@ -13,16 +13,56 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as alertDelivery from "../alertDelivery.js";
+import type * as alertRules from "../alertRules.js";
+import type * as alerts from "../alerts.js";
 import type * as apiHistory from "../apiHistory.js";
 import type * as apiTester from "../apiTester.js";
+import type * as assertions from "../assertions.js";
 import type * as auth from "../auth.js";
+import type * as collectionRuns from "../collectionRuns.js";
+import type * as collections from "../collections.js";
+import type * as crons from "../crons.js";
 import type * as dashboard from "../dashboard.js";
+import type * as egress from "../egress.js";
+import type * as egressPolicy from "../egressPolicy.js";
+import type * as email from "../email.js";
+import type * as environments from "../environments.js";
+import type * as executions from "../executions.js";
+import type * as extractions from "../extractions.js";
+import type * as har from "../har.js";
 import type * as http from "../http.js";
+import type * as importExport from "../importExport.js";
+import type * as jsonSchema from "../jsonSchema.js";
 import type * as middleware from "../middleware.js";
+import type * as migrations from "../migrations.js";
+import type * as mockRoutes from "../mockRoutes.js";
+import type * as mocks from "../mocks.js";
+import type * as monitors from "../monitors.js";
+import type * as oauthTokens from "../oauthTokens.js";
+import type * as openapiImport from "../openapiImport.js";
 import type * as otp from "../otp.js";
+import type * as pagination from "../pagination.js";
+import type * as postman from "../postman.js";
+import type * as rateLimits from "../rateLimits.js";
+import type * as requestAuth from "../requestAuth.js";
+import type * as requestBody from "../requestBody.js";
+import type * as requestControl from "../requestControl.js";
+import type * as requestFiles from "../requestFiles.js";
+import type * as requestSettings from "../requestSettings.js";
+import type * as responseBody from "../responseBody.js";
 import type * as router from "../router.js";
+import type * as savedRequests from "../savedRequests.js";
+import type * as secretVault from "../secretVault.js";
+import type * as secrets from "../secrets.js";
 import type * as sessions from "../sessions.js";
+import type * as streamClient from "../streamClient.js";
+import type * as streamFormats from "../streamFormats.js";
+import type * as streams from "../streams.js";
+import type * as usage from "../usage.js";
 import type * as users from "../users.js";
+import type * as validators from "../validators.js";
+import type * as variables from "../variables.js";
 
 /**
  * A utility for referencing Convex functions in your app's API.
@@ -33,16 +73,56 @@ import type * as users from "../users.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  alertDelivery: typeof alertDelivery;
+  alertRules: typeof alertRules;
+  alerts: typeof alerts;
   apiHistory: typeof apiHistory;
   apiTester: typeof apiTester;
+  assertions: typeof assertions;
   auth: typeof auth;
+  collectionRuns: typeof collectionRuns;
+  collections: typeof collections;
+  crons: typeof crons;
   dashboard: typeof dashboard;
+  egress: typeof egress;
+  egressPolicy: typeof egressPolicy;
+  email: typeof email;
+  environments: typeof environments;
+  executions: typeof executions;
+  extractions: typeof extractions;
+  har: typeof har;
   http: typeof http;
+  importExport: typeof importExport;
+  jsonSchema: typeof jsonSchema;
   middleware: typeof middleware;
+  migrations: typeof migrations;
+  mockRoutes: typeof mockRoutes;
+  mocks: typeof mocks;
+  monitors: typeof monitors;
+  oauthTokens: typeof oauthTokens;
+  openapiImport: typeof openapiImport;
   otp: typeof otp;
+  pagination: typeof pagination;
+  postman: typeof postman;
+  rateLimits: typeof rateLimits;
+  requestAuth: typeof requestAuth;
+  requestBody: typeof requestBody;
+  requestControl: typeof requestControl;
+  requestFiles: typeof requestFiles;
+  requestSettings: typeof requestSettings;
+  responseBody: typeof responseBody;
   router: typeof router;
+  savedRequests: typeof savedRequests;
+  secretVault: typeof secretVault;
+  secrets: typeof secrets;
   sessions: typeof sessions;
+  streamClient: typeof streamClient;
+  streamFormats: typeof streamFormats;
+  streams: typeof streams;
+  usage: typeof usage;
   users: typeof users;
+  validators: typeof validators;
+  variables: typeof variables;
 }>;
 export declare const api: FilterApi<
   typeof fullApi,
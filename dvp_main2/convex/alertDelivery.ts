@@ -0,0 +1,140 @@
+"use node";
+
+import { action, internalAction, ActionCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { AlertNotice, alertNotice } from "./validators";
+import { alertSubject, alertText, slackPayload, webhookPayload } from "./alertRules";
+import { escapeHtml, sendEmail } from "./email";
+import { egressGuard, guardedFetch, takeRateLimit } from "./apiTester";
+import { isUsableChannel } from "./alerts";
+
+// Sends alert notifications. Webhook URLs are user-supplied, so they go
+// through the egress policy like any other request; to test delivery
+// against a local HTTP sink, an admin has to allow its host first. Email
+// goes only to addresses their owner confirmed, and the sends users start
+// themselves count against their request rate limit.
+
+// Give up on a webhook after this long
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+interface DeliveryResult {
+  success: boolean;
+  status?: number;
+  error?: string;
+}
+
+async function deliver(
+  channel: Doc<"alertChannels">,
+  notice: AlertNotice,
+  webhookFetch: typeof fetch
+): Promise<DeliveryResult> {
+  try {
+    if (!isUsableChannel(channel)) return { success: false, error: "Email address not confirmed" };
+    if (channel.type === "email") {
+      await sendEmail({ to: channel.target, subject: alertSubject(notice), text: alertText(notice) });
+      return { success: true };
+    }
+
+    const response = await webhookFetch(channel.target, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "User-Agent": "DataVision-Pro-Alerts" },
+      body: JSON.stringify(channel.type === "slack" ? slackPayload(notice) : webhookPayload(notice)),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (response.ok) return { success: true, status: response.status };
+    const detail = (await response.text().catch(() => "")).slice(0, 200);
+    return { success: false, status: response.status, error: detail || response.statusText };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : "Delivery failed" };
+  }
+}
+
+async function deliverAll(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+  channels: Doc<"alertChannels">[],
+  notice: AlertNotice,
+  ruleId?: Id<"alertRules">
+) {
+  const guard = egressGuard(await ctx.runQuery(internal.egressPolicy.loadEgressPolicy, {}));
+  const webhookFetch = guardedFetch(guard);
+  return await Promise.all(
+    channels.map(async (channel) => {
+      const result = await deliver(channel, notice, webhookFetch);
+      await ctx.runMutation(internal.alerts.logDelivery, {
+        userId,
+        ruleId,
+        channelId: channel._id,
+        event: notice.event,
+        ...result,
+      });
+      return result;
+    })
+  );
+}
+
+export const deliverAlert = internalAction({
+  args: {
+    userId: v.id("users"),
+    ruleId: v.id("alertRules"),
+    channelIds: v.array(v.id("alertChannels")),
+    notice: alertNotice,
+  },
+  handler: async (ctx, args) => {
+    const channels = await ctx.runQuery(internal.alerts.getChannels, {
+      userId: args.userId,
+      channelIds: args.channelIds,
+    });
+    await deliverAll(ctx, args.userId, channels, args.notice, args.ruleId);
+  },
+});
+
+// Sends a sample notification so a channel can be checked before a rule
+// depends on it
+export const sendTestAlert = action({
+  args: { channelId: v.id("alertChannels") },
+  handler: async (ctx, args): Promise<DeliveryResult> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const [channel] = await ctx.runQuery(internal.alerts.getChannels, { userId, channelIds: [args.channelId] });
+    if (!channel) throw new Error("Channel not found");
+    if (!isUsableChannel(channel)) throw new Error("Confirm this email address before sending to it");
+    const limit = await takeRateLimit(ctx, userId, false);
+    if (!limit.allowed) throw new Error(limit.error);
+
+    const [result] = await deliverAll(ctx, userId, [channel], {
+      event: "test",
+      ruleName: `Test notification for ${channel.name}`,
+      monitorName: "Example monitor",
+      condition: "Sent from the alert settings",
+      at: Date.now(),
+    });
+    return result;
+  },
+});
+
+// Emails a code that confirms the owner of an email channel's address
+export const sendChannelConfirmation = action({
+  args: { channelId: v.id("alertChannels") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    const limit = await takeRateLimit(ctx, userId, false);
+    if (!limit.allowed) throw new Error(limit.error);
+
+    const { target, code } = await ctx.runMutation(internal.alerts.startChannelConfirmation, {
+      userId,
+      channelId: args.channelId,
+    });
+    await sendEmail({
+      to: target,
+      subject: "Confirm your alert email address",
+      text: `Enter this code in the alert settings to receive alerts at this address: ${code}\n\nIf you did not ask for alerts, ignore this email.`,
+      html: `Enter this code in the alert settings to receive alerts at this address: <strong>${escapeHtml(code)}</strong><br><br>If you did not ask for alerts, ignore this email.`,
+    });
+  },
+});
@@ -0,0 +1,103 @@
+import type { AlertCondition, AlertEvent, AlertNotice, MonitorOutcome } from "./validators";
+
+// Alert rule evaluation and the notifications it produces. Rules are
+// evaluated as each monitor run is recorded; everything here is pure so the
+// alert editor can share the descriptions.
+
+export const MAX_CONSECUTIVE_RUNS = 20;
+
+export interface EvaluatedRun {
+  outcome: MonitorOutcome;
+  durationMs?: number;
+}
+
+export interface AlertRuleState {
+  condition: AlertCondition;
+  firing: boolean;
+  // 0 notifies only when the rule fires and recovers
+  renotifyMinutes: number;
+  lastNotifiedAt?: number;
+}
+
+export function describeCondition(condition: AlertCondition) {
+  const runs = condition.consecutiveRuns === 1 ? "the latest run" : `${condition.consecutiveRuns} consecutive runs`;
+  return condition.type === "monitor_down"
+    ? `Down for ${runs}`
+    : `Latency above ${condition.thresholdMs} ms for ${runs}`;
+}
+
+function breaches(condition: AlertCondition, run: EvaluatedRun) {
+  if (condition.type === "monitor_down") return run.outcome === "down";
+  return run.durationMs !== undefined && run.durationMs > condition.thresholdMs;
+}
+
+// The rule's next state and what to send, given its monitor's latest runs
+// newest first. A firing rule notifies once, then again every
+// `renotifyMinutes` while it keeps firing, and once more when the latest run
+// no longer breaches the condition.
+export function nextAlertState(
+  rule: AlertRuleState,
+  runs: EvaluatedRun[],
+  now: number
+): { firing: boolean; event: AlertEvent | null } {
+  const latest = runs[0];
+  if (!latest) return { firing: rule.firing, event: null };
+
+  if (!rule.firing) {
+    const window = runs.slice(0, rule.condition.consecutiveRuns);
+    const fires =
+      window.length === rule.condition.consecutiveRuns && window.every((run) => breaches(rule.condition, run));
+    return { firing: fires, event: fires ? "triggered" : null };
+  }
+
+  if (!breaches(rule.condition, latest)) return { firing: false, event: "recovered" };
+  const remind =
+    rule.renotifyMinutes > 0 && now - (rule.lastNotifiedAt ?? 0) >= rule.renotifyMinutes * 60 * 1000;
+  return { firing: true, event: remind ? "reminder" : null };
+}
+
+export function alertSubject(notice: AlertNotice) {
+  switch (notice.event) {
+    case "triggered":
+      return `[ALERT] ${notice.monitorName}: ${notice.ruleName}`;
+    case "reminder":
+      return `[STILL FAILING] ${notice.monitorName}: ${notice.ruleName}`;
+    case "recovered":
+      return `[RECOVERED] ${notice.monitorName}: ${notice.ruleName}`;
+    case "test":
+      return `[TEST] ${notice.ruleName}`;
+  }
+}
+
+export function alertText(notice: AlertNotice) {
+  const lines = [alertSubject(notice), "", `Condition: ${notice.condition}`];
+  if (notice.status !== undefined) lines.push(`Status: ${notice.status}`);
+  if (notice.durationMs !== undefined) lines.push(`Latency: ${notice.durationMs} ms`);
+  if (notice.error) lines.push(`Error: ${notice.error}`);
+  if (notice.since !== undefined) lines.push(`Failing since: ${new Date(notice.since).toISOString()}`);
+  lines.push(`At: ${new Date(notice.at).toISOString()}`);
+  return lines.join("\n");
+}
+
+// Body posted to generic webhooks
+export function webhookPayload(notice: AlertNotice) {
+  return {
+    event: `alert.${notice.event}`,
+    rule: notice.ruleName,
+    monitor: notice.monitorName,
+    condition: notice.condition,
+    status: notice.status ?? null,
+    durationMs: notice.durationMs ?? null,
+    error: notice.error ?? null,
+    since: notice.since !== undefined ? new Date(notice.since).toISOString() : null,
+    at: new Date(notice.at).toISOString(),
+  };
+}
+
+// Body for Slack incoming webhooks and the many services that accept the
+// same `{ text }` shape
+export function slackPayload(notice: AlertNotice) {
+  const icon = { triggered: ":red_circle:", reminder: ":red_circle:", recovered: ":large_green_circle:", test: ":bell:" };
+  const [title, , ...details] = alertText(notice).split("\n");
+  return { text: `${icon[notice.event]} *${title}*\n${details.join("\n")}` };
+}
@@ -0,0 +1,367 @@
+import { v } from "convex/values";
+import { mutation, query, internalMutation, internalQuery, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { AlertCondition, alertChannelType, AlertChannelType, alertCondition, alertEvent } from "./validators";
+import { describeCondition, MAX_CONSECUTIVE_RUNS, nextAlertState } from "./alertRules";
+
+// Alert channels and rules. Rules are evaluated by `evaluateAlertRules` as
+// monitor runs are recorded; notifications are sent by alertDelivery.ts.
+
+// Delivery log entries kept per user
+const DELIVERY_LOG_LIMIT = 200;
+
+const MAX_RENOTIFY_MINUTES = 7 * 24 * 60;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Email channels have to be confirmed with a code sent to the address, so
+// they cannot be used to mail people who did not ask for it
+const CONFIRMATION_TTL_MS = 60 * 60 * 1000;
+const CONFIRMATION_RESEND_MS = 60 * 1000;
+const MAX_CONFIRMATION_ATTEMPTS = 5;
+
+export const isUsableChannel = (channel: Doc<"alertChannels">) =>
+  channel.type !== "email" || channel.confirmedAt !== undefined;
+
+function validateChannel(type: AlertChannelType, name: string, target: string) {
+  if (!name.trim()) throw new Error("Channel name is required");
+  if (type === "email") {
+    if (!EMAIL_PATTERN.test(target.trim())) throw new Error("Invalid email address");
+    return;
+  }
+  let url: URL;
+  try {
+    url = new URL(target.trim());
+  } catch {
+    throw new Error("Invalid webhook URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error("Webhook URLs must use http or https");
+}
+
+function validateRule(name: string, condition: AlertCondition, renotifyMinutes: number) {
+  if (!name.trim()) throw new Error("Rule name is required");
+  const runs = condition.consecutiveRuns;
+  if (!Number.isInteger(runs) || runs < 1 || runs > MAX_CONSECUTIVE_RUNS) {
+    throw new Error(`Consecutive runs must be between 1 and ${MAX_CONSECUTIVE_RUNS}`);
+  }
+  if (condition.type === "latency_above" && !(condition.thresholdMs > 0)) {
+    throw new Error("Latency threshold must be positive");
+  }
+  if (!Number.isInteger(renotifyMinutes) || renotifyMinutes < 0 || renotifyMinutes > MAX_RENOTIFY_MINUTES) {
+    throw new Error(`Re-notify interval must be between 0 and ${MAX_RENOTIFY_MINUTES} minutes`);
+  }
+}
+
+async function checkRuleTargets(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  monitorId: Id<"monitors">,
+  channelIds: Id<"alertChannels">[]
+) {
+  const monitor = await ctx.db.get(monitorId);
+  if (!monitor) throw new Error("Monitor not found");
+  if (monitor.userId !== userId) throw new Error("Unauthorized");
+  if (channelIds.length === 0) throw new Error("Choose at least one channel");
+  for (const channelId of channelIds) {
+    const channel = await ctx.db.get(channelId);
+    if (!channel) throw new Error("Channel not found");
+    if (channel.userId !== userId) throw new Error("Unauthorized");
+    if (!isUsableChannel(channel)) throw new Error(`Confirm the address of "${channel.name}" first`);
+  }
+}
+
+export const listAlertChannels = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const channels = await ctx.db
+      .query("alertChannels")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .collect();
+    // The pending code only ever goes to the address itself
+    return channels.map(({ confirmation, ...channel }) => ({ ...channel, confirmationSent: confirmation !== undefined }));
+  },
+});
+
+export const createAlertChannel = mutation({
+  args: { name: v.string(), type: alertChannelType, target: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    validateChannel(args.type, args.name, args.target);
+
+    const now = Date.now();
+    return await ctx.db.insert("alertChannels", {
+      userId,
+      name: args.name.trim(),
+      type: args.type,
+      target: args.target.trim(),
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Stores a new confirmation code for an email channel and returns it with
+// the address to send it to (see alertDelivery.sendChannelConfirmation)
+export const startChannelConfirmation = internalMutation({
+  args: { userId: v.id("users"), channelId: v.id("alertChannels") },
+  handler: async (ctx, args) => {
+    const channel = await ctx.db.get(args.channelId);
+    if (!channel || channel.userId !== args.userId) throw new Error("Channel not found");
+    if (channel.type !== "email") throw new Error("Only email channels need confirming");
+    if (channel.confirmedAt !== undefined) throw new Error("This address is already confirmed");
+
+    const now = Date.now();
+    if (channel.confirmation && now - channel.confirmation.sentAt < CONFIRMATION_RESEND_MS) {
+      throw new Error("A code was sent less than a minute ago");
+    }
+    const code = String(crypto.getRandomValues(new Uint32Array(1))[0] % 1000000).padStart(6, "0");
+    await ctx.db.patch(channel._id, {
+      confirmation: { code, sentAt: now, expiresAt: now + CONFIRMATION_TTL_MS, attempts: 0 },
+    });
+    return { target: channel.target, code };
+  },
+});
+
+// Wrong codes are reported rather than thrown so the attempt still counts
+export const confirmAlertChannel = mutation({
+  args: { id: v.id("alertChannels"), code: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const channel = await ctx.db.get(args.id);
+    if (!channel) throw new Error("Channel not found");
+    if (channel.userId !== userId) throw new Error("Unauthorized");
+    if (channel.confirmedAt !== undefined) return { success: true };
+
+    const { confirmation } = channel;
+    if (!confirmation || confirmation.expiresAt < Date.now()) {
+      return { success: false, error: "The code has expired; send a new one" };
+    }
+    if (confirmation.code !== args.code.trim()) {
+      const attempts = confirmation.attempts + 1;
+      const exhausted = attempts >= MAX_CONFIRMATION_ATTEMPTS;
+      await ctx.db.patch(args.id, { confirmation: exhausted ? undefined : { ...confirmation, attempts } });
+      return { success: false, error: exhausted ? "Too many wrong codes; send a new one" : "Wrong code" };
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.id, { confirmedAt: now, confirmation: undefined, updatedAt: now });
+    return { success: true };
+  },
+});
+
+// Also removes the channel from the rules that use it
+export const deleteAlertChannel = mutation({
+  args: { id: v.id("alertChannels") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const channel = await ctx.db.get(args.id);
+    if (!channel) throw new Error("Channel not found");
+    if (channel.userId !== userId) throw new Error("Unauthorized");
+
+    const rules = await ctx.db
+      .query("alertRules")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .collect();
+    for (const rule of rules) {
+      if (rule.channelIds.includes(args.id)) {
+        await ctx.db.patch(rule._id, { channelIds: rule.channelIds.filter((id) => id !== args.id) });
+      }
+    }
+    await ctx.db.delete(args.id);
+  },
+});
+
+export const listAlertRules = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const rules = await ctx.db
+      .query("alertRules")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .collect();
+    return await Promise.all(
+      rules.map(async (rule) => ({
+        ...rule,
+        monitorName: (await ctx.db.get(rule.monitorId))?.name ?? null,
+        description: describeCondition(rule.condition),
+      }))
+    );
+  },
+});
+
+const ruleFields = {
+  name: v.string(),
+  monitorId: v.id("monitors"),
+  condition: alertCondition,
+  channelIds: v.array(v.id("alertChannels")),
+  renotifyMinutes: v.number(),
+};
+
+export const createAlertRule = mutation({
+  args: ruleFields,
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    validateRule(args.name, args.condition, args.renotifyMinutes);
+    await checkRuleTargets(ctx, userId, args.monitorId, args.channelIds);
+
+    const now = Date.now();
+    return await ctx.db.insert("alertRules", {
+      userId,
+      ...args,
+      name: args.name.trim(),
+      enabled: true,
+      firing: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Changing the condition or monitor starts the rule over as not firing
+export const updateAlertRule = mutation({
+  args: { id: v.id("alertRules"), ...ruleFields, enabled: v.boolean() },
+  handler: async (ctx, { id, ...args }) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const rule = await ctx.db.get(id);
+    if (!rule) throw new Error("Rule not found");
+    if (rule.userId !== userId) throw new Error("Unauthorized");
+    validateRule(args.name, args.condition, args.renotifyMinutes);
+    await checkRuleTargets(ctx, userId, args.monitorId, args.channelIds);
+
+    const reset =
+      !args.enabled ||
+      args.monitorId !== rule.monitorId ||
+      JSON.stringify(args.condition) !== JSON.stringify(rule.condition);
+    await ctx.db.patch(id, {
+      ...args,
+      name: args.name.trim(),
+      ...(reset ? { firing: false, firingSince: undefined, lastNotifiedAt: undefined } : {}),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const deleteAlertRule = mutation({
+  args: { id: v.id("alertRules") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const rule = await ctx.db.get(args.id);
+    if (!rule) throw new Error("Rule not found");
+    if (rule.userId !== userId) throw new Error("Unauthorized");
+    await ctx.db.delete(args.id);
+  },
+});
+
+export const listAlertDeliveries = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const deliveries = await ctx.db
+      .query("alertDeliveries")
+      .withIndex("by_user_and_date", (q) => q.eq("userId", userId))
+      .order("desc")
+      .take(50);
+    return await Promise.all(
+      deliveries.map(async (delivery) => ({
+        ...delivery,
+        channelName: (await ctx.db.get(delivery.channelId))?.name ?? null,
+        ruleName: delivery.ruleId ? ((await ctx.db.get(delivery.ruleId))?.name ?? null) : null,
+      }))
+    );
+  },
+});
+
+// Updates the monitor's rules after `run` was recorded and queues the
+// notifications they call for
+export async function evaluateAlertRules(ctx: MutationCtx, monitor: Doc<"monitors">, run: Doc<"monitorRuns">) {
+  const rules = await ctx.db
+    .query("alertRules")
+    .withIndex("by_monitor_id", (q) => q.eq("monitorId", monitor._id))
+    .collect();
+  const enabled = rules.filter((rule) => rule.enabled);
+  if (enabled.length === 0) return;
+
+  const window = Math.max(...enabled.map((rule) => rule.condition.consecutiveRuns));
+  const runs = await ctx.db
+    .query("monitorRuns")
+    .withIndex("by_monitor_and_date", (q) => q.eq("monitorId", monitor._id))
+    .order("desc")
+    .take(window);
+
+  for (const rule of enabled) {
+    const { firing, event } = nextAlertState(rule, runs, run.createdAt);
+    const firingSince = firing ? (rule.firingSince ?? run.createdAt) : undefined;
+    await ctx.db.patch(rule._id, {
+      firing,
+      firingSince,
+      ...(event ? { lastNotifiedAt: run.createdAt } : {}),
+    });
+    if (!event || rule.channelIds.length === 0) continue;
+
+    await ctx.scheduler.runAfter(0, internal.alertDelivery.deliverAlert, {
+      userId: rule.userId,
+      ruleId: rule._id,
+      channelIds: rule.channelIds,
+      notice: {
+        event,
+        ruleName: rule.name,
+        monitorName: monitor.name,
+        condition: describeCondition(rule.condition),
+        status: run.status,
+        durationMs: run.durationMs,
+        error: run.error,
+        since: rule.firingSince ?? run.createdAt,
+        at: run.createdAt,
+      },
+    });
+  }
+}
+
+export const getChannels = internalQuery({
+  args: { userId: v.id("users"), channelIds: v.array(v.id("alertChannels")) },
+  handler: async (ctx, args) => {
+    const channels = await Promise.all(args.channelIds.map((id) => ctx.db.get(id)));
+    return channels.filter((channel): channel is Doc<"alertChannels"> => channel?.userId === args.userId);
+  },
+});
+
+export const logDelivery = internalMutation({
+  args: {
+    userId: v.id("users"),
+    ruleId: v.optional(v.id("alertRules")),
+    channelId: v.id("alertChannels"),
+    event: alertEvent,
+    success: v.boolean(),
+    status: v.optional(v.number()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("alertDeliveries", { ...args, createdAt: Date.now() });
+
+    const deliveries = await ctx.db
+      .query("alertDeliveries")
+      .withIndex("by_user_and_date", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .collect();
+    await Promise.all(deliveries.slice(DELIVERY_LOG_LIMIT).map((delivery) => ctx.db.delete(delivery._id)));
+  },
+});
@@ -1,28 +1,34 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { requestFields } from "./validators";
+import { removeExecution } from "./executions";
 
 export const saveApiRequest = mutation({
   args: {
     name: v.string(),
-    url: v.string(),
-    method: v.union(v.literal("GET"), v.literal("POST")),
-    headers: v.record(v.string(), v.string()),
-    body: v.optional(v.string()),
+    ...requestFields,
+    // The response makeRequest recorded for this request
+    executionId: v.optional(v.id("executions")),
   },
   async handler(ctx, args) {
     const userId = await getAuthUserId(ctx);
     if (!userId) throw new Error("Unauthorized");
 
-    return await ctx.db.insert("apiHistory", {
+    const { executionId, ...request } = args;
+    const historyId = await ctx.db.insert("apiHistory", {
       userId,
-      name: args.name,
-      url: args.url,
-      method: args.method,
-      headers: args.headers,
-      body: args.body,
+      ...request,
       createdAt: Date.now(),
     });
+
+    if (executionId) {
+      const execution = await ctx.db.get(executionId);
+      if (execution && execution.userId === userId) {
+        await ctx.db.patch(executionId, { historyId });
+      }
+    }
+    return historyId;
   },
 });
 
@@ -36,6 +42,11 @@ export const deleteApiRequest = mutation({
     if (!request) throw new Error("Request not found");
     if (request.userId !== userId) throw new Error("Unauthorized");
 
+    const executions = await ctx.db
+      .query("executions")
+      .withIndex("by_history_id", q => q.eq("historyId", args.id))
+      .collect();
+    await Promise.all(executions.map(execution => removeExecution(ctx, execution)));
     await ctx.db.delete(args.id);
   },
 });
@@ -71,5 +82,12 @@ export const clearAll = mutation({
 
     // Delete all requests for the user
     await Promise.all(userRequests.map(request => ctx.db.delete(request._id)));
+
+    // Along with every recorded response
+    const executions = await ctx.db
+      .query("executions")
+      .withIndex("by_user_id", q => q.eq("userId", userId))
+      .collect();
+    await Promise.all(executions.map(execution => removeExecution(ctx, execution)));
   },
 });
\ No newline at end of file
@@ -1,107 +1,881 @@
 "use node";
 
-import { action } from "./_generated/server";
-import { v } from "convex/values";
+import { lookup } from "node:dns/promises";
+import type { LookupFunction } from "node:net";
+import { Agent } from "undici";
+import { action, ActionCtx, internalAction } from "./_generated/server";
+import { ObjectType, v } from "convex/values";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import {
+  EgressPolicy,
+  HttpMethod,
+  httpMethod,
+  METHODS_WITH_BODY,
+  OAuth2Auth,
+  pagination,
+  requestAuth,
+  requestBody,
+  requestSettings,
+} from "./validators";
+import {
+  findVariables,
+  isSecretReference,
+  redactSecrets,
+  resolveRecord,
+  resolveVariables,
+  SECRET_PREFIX,
+  toVariableMap,
+} from "./variables";
+import {
+  applyAuth,
+  isTokenFresh,
+  oauth2CacheKey,
+  OAuth2Token,
+  requestOAuth2Token,
+  resolveAuth,
+} from "./requestAuth";
+import { bodyStorageIds, bodyTemplates, DEFAULT_CONTENT_TYPES, normalizeBody, resolveBody, toFetchBody } from "./requestBody";
+import { evaluateAssertions } from "./assertions";
+import { applyExtractions, extractedValues } from "./extractions";
+import { validateResponse } from "./jsonSchema";
+import { requestsInTreeOrder } from "./collections";
+import { clampLimits, firstPageUrl, nextPageUrl, readItems } from "./pagination";
+import { INLINE_BODY_LIMIT } from "./executions";
+import { BINARY_INLINE_LIMIT, BinaryBody, isTextBody } from "./responseBody";
+import { fetchWithRedirects, normalizeSettings, retryDelay, sleep } from "./requestSettings";
+import { checkEgress, EgressPolicyError, hostnameOf, normalizeHost, parseIp } from "./egress";
+import { canSeal, loadSecrets, openValue, sealValue } from "./secretVault";
+import { RateLimitCheck } from "./rateLimits";
 
-export const makeRequest = action({
-  args: {
-    url: v.string(),
-    method: v.union(v.literal("GET"), v.literal("POST")),
-    headers: v.optional(v.record(v.string(), v.string())),
-    body: v.optional(v.string()),
-  },
-  handler: async (ctx, args) => {
-    try {
-      // Validate URL
-      let url: URL;
+export interface EgressGuard {
+  // Checks a URL against the egress policy, resolving its hostname first
+  check: (url: URL) => Promise<void>;
+  // Connections only go to the addresses `check` approved for a hostname, so
+  // a DNS answer that changes after the check (DNS rebinding) is never used.
+  // `lookup` is for sockets opened outside fetch, such as WebSockets.
+  lookup: LookupFunction;
+  fetch: typeof fetch;
+}
+
+export function egressGuard(policy: EgressPolicy): EgressGuard {
+  const approved = new Map<string, { address: string; family: number }[]>();
+
+  const check = async (url: URL) => {
+    const hostname = hostnameOf(url);
+    let addresses: { address: string; family: number }[] = [];
+    if (hostname && !parseIp(hostname)) {
       try {
-        url = new URL(args.url);
+        addresses = await lookup(hostname, { all: true, verbatim: true });
       } catch {
+        throw new Error(`Could not resolve host ${hostname}`);
+      }
+    }
+    checkEgress(url, addresses.map((entry) => entry.address), policy);
+    if (addresses.length > 0) approved.set(hostname, addresses);
+  };
+
+  const pinnedLookup: LookupFunction = (hostname, options, callback) => {
+    const addresses = (approved.get(normalizeHost(hostname)) ?? []).filter(
+      (entry) => !options.family || entry.family === options.family
+    );
+    if (addresses.length === 0) {
+      callback(new EgressPolicyError(`${hostname} was not checked before connecting`), "", 0);
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  };
+
+  const dispatcher = new Agent({ connect: { lookup: pinnedLookup } });
+  return {
+    check,
+    lookup: pinnedLookup,
+    // `dispatcher` is the Node extension to fetch's options
+    fetch: (input, init) => fetch(input, { ...init, dispatcher } as RequestInit),
+  };
+}
+
+// fetch for token endpoints and alert webhooks: checked against the policy
+// and not following redirects, which would skip the check
+export function guardedFetch(guard: EgressGuard): typeof fetch {
+  return async (input, init) => {
+    await guard.check(new URL(input instanceof Request ? input.url : input));
+    return await guard.fetch(input, { ...init, redirect: "manual" });
+  };
+}
+
+// Cached tokens are sealed with the vault key whenever there is one, which
+// is always the case for tokens obtained with vault credentials
+const tokenPurpose = (cacheKey: string, field: string) => `oauth:${cacheKey}:${field}`;
+
+function sealToken(userId: Id<"users">, cacheKey: string, token: OAuth2Token) {
+  if (!canSeal()) return token;
+  return {
+    ...token,
+    accessToken: sealValue(userId, tokenPurpose(cacheKey, "access"), token.accessToken),
+    refreshToken: token.refreshToken && sealValue(userId, tokenPurpose(cacheKey, "refresh"), token.refreshToken),
+    encrypted: true,
+  };
+}
+
+// The cached token in the clear, or null when it cannot be decrypted
+function openToken(
+  userId: Id<"users">,
+  cacheKey: string,
+  cached: { accessToken: string; tokenType: string; refreshToken?: string; encrypted?: boolean; expiresAt?: number }
+): OAuth2Token | null {
+  const { accessToken, tokenType, refreshToken, encrypted, expiresAt } = cached;
+  if (!encrypted) return { accessToken, tokenType, refreshToken, expiresAt };
+  const openedAccess = openValue(userId, tokenPurpose(cacheKey, "access"), accessToken);
+  const openedRefresh = refreshToken && openValue(userId, tokenPurpose(cacheKey, "refresh"), refreshToken);
+  if (openedAccess === null || openedRefresh === null) return null;
+  return { accessToken: openedAccess, tokenType, refreshToken: openedRefresh, expiresAt };
+}
+
+// Returns a cached OAuth2 token while it is fresh, otherwise refreshes it
+// (falling back to a new grant) and caches the result.
+async function getOAuth2Token(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+  auth: OAuth2Auth,
+  fetchImpl: typeof fetch,
+  forceRefresh = false
+) {
+  const cacheKey = await oauth2CacheKey(auth);
+  const stored = await ctx.runQuery(internal.oauthTokens.getCachedToken, { userId, cacheKey });
+  const cached = stored && openToken(userId, cacheKey, stored);
+  if (cached && !forceRefresh && isTokenFresh(cached)) {
+    return cached;
+  }
+
+  let token: OAuth2Token | undefined;
+  if (cached?.refreshToken) {
+    try {
+      token = await requestOAuth2Token(auth, cached.refreshToken, fetchImpl);
+    } catch {
+      // Refresh tokens can be revoked or expire; request a new token instead
+    }
+  }
+  token ??= await requestOAuth2Token(auth, undefined, fetchImpl);
+
+  await ctx.runMutation(internal.oauthTokens.storeToken, { userId, cacheKey, ...sealToken(userId, cacheKey, token) });
+  return token;
+}
+
+const requestArgs = {
+  url: v.string(),
+  method: httpMethod,
+  headers: v.optional(v.record(v.string(), v.string())),
+  body: v.optional(requestBody),
+  auth: v.optional(requestAuth),
+  settings: v.optional(requestSettings),
+  environmentId: v.optional(v.id("environments")),
+};
+
+// How often an in-flight request checks whether it was cancelled
+const CANCEL_POLL_MS = 500;
+
+// Aborts `controller` once the request is flagged as cancelled. The returned
+// function stops polling.
+function watchCancellation(ctx: ActionCtx, id: Id<"activeRequests">, controller: AbortController) {
+  const stopped = new AbortController();
+  const done = (async () => {
+    while (!stopped.signal.aborted) {
+      await sleep(CANCEL_POLL_MS, stopped.signal);
+      if (stopped.signal.aborted) return;
+      if (await ctx.runQuery(internal.requestControl.isCancelled, { id })) {
+        controller.abort();
+        return;
+      }
+    }
+  })();
+  return async () => {
+    stopped.abort();
+    await done;
+  };
+}
+
+// Takes one request from the user's rate limit. Runners pass `wait` to sit
+// out an empty token bucket; an exhausted daily quota is reported either way.
+export async function takeRateLimit(ctx: ActionCtx, userId: Id<"users">, wait: boolean): Promise<RateLimitCheck> {
+  for (;;) {
+    const result = await ctx.runMutation(internal.usage.consumeRequest, { userId });
+    if (result.allowed || !wait || result.reason === "quota") return result;
+    await new Promise((resolve) => setTimeout(resolve, result.retryAfterMs));
+  }
+}
+
+// The variables for resolving `templates`: the environment's, then
+// `runVariables`, then the {{secret:name}} values the templates reference.
+// Secrets are decrypted here and nowhere else; `secrets` lists their values
+// so responses that echo them back can be masked.
+export async function loadVariables(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+  environmentId: Id<"environments"> | undefined,
+  templates: (string | undefined)[],
+  runVariables: Record<string, string> = {}
+): Promise<{ vars: Record<string, string>; secrets: string[] } | { error: string }> {
+  let vars: Record<string, string> = {};
+  if (environmentId) {
+    const variables = await ctx.runQuery(internal.environments.getEnvironmentVariables, {
+      userId,
+      id: environmentId,
+    });
+    if (!variables) return { error: "Environment not found" };
+    vars = toVariableMap(variables);
+  }
+
+  const secretNames = findVariables(...templates)
+    .filter(isSecretReference)
+    .map((name) => name.slice(SECRET_PREFIX.length));
+  let secrets: Record<string, string>;
+  try {
+    secrets = await loadSecrets(ctx, userId, secretNames);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Failed to load secrets" };
+  }
+  return { vars: { ...vars, ...runVariables, ...secrets }, secrets: Object.values(secrets) };
+}
+
+// Sends one request on behalf of `userId`, whose environments, secrets and
+// tokens it uses; scheduled runs have no signed-in user, so it is passed
+// explicitly. Failures are returned as `{ success: false, error }` rather
+// than thrown so the UI and the runners can report them. Aborting `signal`
+// cancels the request; `waitForRateLimit` is for runners (see takeRateLimit).
+async function executeRequest(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+  args: ObjectType<typeof requestArgs>,
+  {
+    signal,
+    waitForRateLimit = false,
+    runVariables = {},
+  }: {
+    signal?: AbortSignal;
+    waitForRateLimit?: boolean;
+    // Extracted earlier in a collection run; these win over the environment
+    runVariables?: Record<string, string>;
+  } = {}
+) {
+  try {
+    const limit = await takeRateLimit(ctx, userId, waitForRateLimit);
+    if (!limit.allowed) {
+      return { success: false, error: limit.error, rateLimited: true, retryAfterMs: limit.retryAfterMs };
+    }
+
+    const loaded = await loadVariables(
+      ctx,
+      userId,
+      args.environmentId,
+      [
+        args.url,
+        ...Object.entries(args.headers ?? {}).flat(),
+        ...bodyTemplates(args.body),
+        ...Object.values(args.auth ?? {}).filter((value): value is string => typeof value === "string"),
+      ],
+      runVariables
+    );
+    if ("error" in loaded) {
+      return {
+        success: false,
+        error: loaded.error,
+      };
+    }
+    const { vars } = loaded;
+    const redact = (text: string) => redactSecrets(text, loaded.secrets);
+
+    const resolvedUrl = resolveVariables(args.url, vars);
+    const resolvedHeaders = resolveRecord(args.headers ?? {}, vars);
+    const sendsBody = METHODS_WITH_BODY.includes(args.method) && args.body !== undefined;
+    const resolvedBody = sendsBody && args.body ? resolveBody(args.body, vars) : undefined;
+    const resolvedAuth = args.auth ? resolveAuth(args.auth, vars) : undefined;
+    const unresolved = [
+      ...new Set([
+        ...resolvedUrl.missing,
+        ...resolvedHeaders.missing,
+        ...(resolvedBody?.missing ?? []),
+        ...(resolvedAuth?.missing ?? []),
+      ]),
+    ];
+    if (unresolved.length > 0) {
+      return {
+        success: false,
+        error: `Unresolved variables: ${unresolved.join(", ")}`,
+        unresolvedVariables: unresolved,
+      };
+    }
+    const body = resolvedBody?.value;
+
+    // Validate URL
+    let url: URL;
+    try {
+      url = new URL(resolvedUrl.value);
+    } catch {
+      return {
+        success: false,
+        error: "Invalid URL format",
+      };
+    }
+
+    // Every URL the request touches, including redirects and the OAuth2
+    // token endpoint, is checked against the egress policy
+    const guard = egressGuard(await ctx.runQuery(internal.egressPolicy.loadEgressPolicy, {}));
+
+    // Prepare request options
+    const auth = resolvedAuth?.value;
+    const requestHeaders: Record<string, string> = {
+      "User-Agent": "ConvexApiTester/1.0",
+      ...resolvedHeaders.value,
+    };
+    const requestOptions: RequestInit & { headers: Record<string, string> } = {
+      method: args.method,
+      headers: requestHeaders,
+    };
+
+    let oauthToken: OAuth2Token | undefined;
+    if (auth?.type === "oauth2") {
+      try {
+        oauthToken = await getOAuth2Token(ctx, userId, auth, guardedFetch(guard));
+      } catch (error) {
         return {
           success: false,
-          error: "Invalid URL format",
+          error: error instanceof Error ? error.message : "OAuth2 token request failed",
+          policyViolation: error instanceof EgressPolicyError || undefined,
         };
       }
+    }
+    const authHeaders = applyAuth(auth, url, requestHeaders, oauthToken);
+    // Headers filled in from the vault, by their resolved names
+    const secretHeaders = Object.entries(args.headers ?? {})
+      .filter(([name, value]) => findVariables(name, value).some(isSecretReference))
+      .map(([name]) => resolveVariables(name, vars).value);
 
-      // Prepare request options
-      const requestOptions: RequestInit = {
-        method: args.method,
-        headers: {
-          "Content-Type": "application/json",
-          "User-Agent": "ConvexApiTester/1.0",
-          ...args.headers,
-        },
-      };
+    // Add body for methods that carry one
+    if (body) {
+      const storageIds = bodyStorageIds(body);
+      if (
+        storageIds.length > 0 &&
+        !(await ctx.runQuery(internal.requestFiles.ownsFiles, { userId, storageIds }))
+      ) {
+        return {
+          success: false,
+          error: "Request body references a file you do not own",
+        };
+      }
 
-      // Add body for POST requests
-      if (args.method === "POST" && args.body) {
-        try {
-          // Validate JSON if content-type is application/json
-          const headers = requestOptions.headers as Record<string, string>;
-          const contentType = headers?.["Content-Type"] || headers?.["content-type"];
-          if (contentType?.includes("application/json")) {
-            JSON.parse(args.body); // Validate JSON
-          }
-          requestOptions.body = args.body;
-        } catch {
-          return {
-            success: false,
-            error: "Invalid JSON in request body",
-          };
-        }
+      try {
+        requestOptions.body = await toFetchBody(body, (storageId) => ctx.storage.get(storageId));
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Invalid request body",
+        };
       }
 
-      // Make the request
-      const response = await fetch(args.url, requestOptions);
-      
-      // Get response headers
-      const responseHeaders: Record<string, string> = {};
-      response.headers.forEach((value, key) => {
-        responseHeaders[key] = value;
-      });
+      // An explicit Content-Type header wins, except for multipart where
+      // fetch must generate the boundary itself
+      const contentTypeHeader = Object.keys(requestHeaders).find(
+        (key) => key.toLowerCase() === "content-type"
+      );
+      if (body.type === "multipart") {
+        if (contentTypeHeader) delete requestHeaders[contentTypeHeader];
+      } else if (!contentTypeHeader) {
+        const contentType =
+          body.type === "text" ? body.contentType :
+          body.type === "binary" ? body.contentType ?? DEFAULT_CONTENT_TYPES.binary :
+          DEFAULT_CONTENT_TYPES[body.type];
+        if (contentType) requestHeaders["Content-Type"] = contentType;
+      }
+    }
 
-      // Parse response data
-      let responseData: any;
-      const contentType = response.headers.get("content-type") || "";
-      
-      try {
-        if (contentType.includes("application/json")) {
-          responseData = await response.json();
-        } else if (contentType.includes("text/")) {
-          responseData = await response.text();
+    // Make the request. Timing, and the timeout, cover redirects, retries,
+    // the OAuth2 retry and reading the body.
+    const settings = normalizeSettings(args.settings);
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort("timeout"), settings.timeoutMs);
+    signal?.addEventListener("abort", () => controller.abort("cancelled"));
+    const send = () =>
+      fetchWithRedirects(url, requestOptions, settings, controller.signal, guard.check, guard.fetch, [
+        ...authHeaders,
+        ...secretHeaders,
+      ]);
+
+    const startedAt = Date.now();
+    let sent: Awaited<ReturnType<typeof send>>;
+    let attempts = 1;
+    let bytes: Uint8Array;
+    try {
+      sent = await send();
+
+      // A 401 with OAuth2 usually means the token was revoked or expired
+      // before its advertised lifetime: refresh it and retry once.
+      if (sent.response.status === 401 && auth?.type === "oauth2") {
+        oauthToken = await getOAuth2Token(ctx, userId, auth, guardedFetch(guard), true);
+        applyAuth(auth, url, requestHeaders, oauthToken);
+        sent = await send();
+      }
+
+      while (attempts <= settings.retries && settings.retryOn.includes(sent.response.status)) {
+        await sent.response.body?.cancel();
+        await sleep(retryDelay(settings, attempts), controller.signal);
+        controller.signal.throwIfAborted();
+        attempts++;
+        sent = await send();
+      }
+
+      bytes = args.method === "HEAD" ? new Uint8Array() : new Uint8Array(await sent.response.arrayBuffer());
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return {
+          success: false,
+          error:
+            controller.signal.reason === "cancelled"
+              ? "Request cancelled"
+              : `Request timed out after ${settings.timeoutMs} ms`,
+        };
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+    const { response } = sent;
+    const redirects = sent.redirects.map((hop) => ({ ...hop, url: redact(hop.url), location: redact(hop.location) }));
+
+    // Get response headers
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      responseHeaders[key] = redact(value);
+    });
+
+    // Parse response data. HEAD responses never carry a body and OPTIONS
+    // (or 204) responses usually don't, so an empty body is reported as
+    // null rather than as a parse failure. Binary bodies are returned
+    // base64-encoded, or stored when large, instead of as `data`.
+    let responseData: any = null;
+    let binary: BinaryBody | undefined;
+    // Large binary bodies are only written to storage by recordExecution, so
+    // callers that do not record the execution leave nothing behind
+    let largeBody: Uint8Array | undefined;
+    let size = 0;
+    const contentType = response.headers.get("content-type") || "";
+
+    if (args.method !== "HEAD") {
+      size = bytes.byteLength;
+      if (size > 0 && !isTextBody(contentType, bytes)) {
+        binary = { contentType: contentType || "application/octet-stream", size };
+        if (size > BINARY_INLINE_LIMIT) {
+          largeBody = bytes;
         } else {
-          // For other content types, try to get as text
-          responseData = await response.text();
+          binary.base64 = Buffer.from(bytes).toString("base64");
+        }
+      } else if (size > 0) {
+        const text = redact(new TextDecoder().decode(bytes));
+        try {
+          responseData = contentType.includes("application/json") ? JSON.parse(text) : text;
+        } catch (parseError) {
+          responseData = "Unable to parse response data";
         }
-      } catch (parseError) {
-        responseData = "Unable to parse response data";
       }
+    }
+
+    const durationMs = Date.now() - startedAt;
+
+    // GraphQL reports failures in an `errors` array, usually with HTTP 200
+    const graphqlErrors =
+      body?.type === "graphql" && Array.isArray(responseData?.errors) ? responseData.errors : undefined;
 
+    return {
+      success: true,
+      response: {
+        data: responseData,
+        graphqlErrors,
+        status: response.status,
+        statusText: response.statusText,
+        headers: responseHeaders,
+        // Where the request ended up after redirects
+        url: redact(sent.url.toString()),
+        method: args.method,
+        durationMs,
+        size,
+        binary,
+        largeBody,
+        redirects,
+        attempts,
+      },
+    };
+  } catch (error) {
+    if (error instanceof EgressPolicyError) {
       return {
-        success: true,
-        response: {
-          data: responseData,
-          status: response.status,
-          statusText: response.statusText,
-          headers: responseHeaders,
-          url: args.url,
-          method: args.method,
-        },
+        success: false,
+        error: error.message,
+        policyViolation: true,
       };
+    }
+    console.error("API request failed:", error);
+    
+    let errorMessage = "Request failed";
+    if (error instanceof Error) {
+      errorMessage = error.message;
+    } else if (typeof error === "string") {
+      errorMessage = error;
+    }
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+interface ExecutedResponse {
+  data: unknown;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  url: string;
+  durationMs: number;
+  size: number;
+  binary?: BinaryBody;
+  largeBody?: Uint8Array;
+}
+
+// Records a response in `executions`. Bodies too large to keep inline are
+// written to file storage, and removed again if the record cannot be saved.
+async function recordExecution(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+  request: { method: HttpMethod; url: string; savedRequestId?: Id<"savedRequests"> },
+  response: ExecutedResponse
+): Promise<{ id: Id<"executions">; bodyStorageId?: Id<"_storage"> }> {
+  const body =
+    response.data === null ? undefined :
+    typeof response.data === "string" ? response.data :
+    JSON.stringify(response.data, null, 2);
+  const contentType = response.headers["content-type"];
+
+  let bodyStorageId: Id<"_storage"> | undefined;
+  if (response.binary) {
+    const bytes = response.largeBody ?? Buffer.from(response.binary.base64 ?? "", "base64");
+    bodyStorageId = await ctx.storage.store(new Blob([bytes], { type: response.binary.contentType }));
+  } else if (body !== undefined && body.length > INLINE_BODY_LIMIT) {
+    bodyStorageId = await ctx.storage.store(new Blob([body], { type: contentType || "text/plain" }));
+  }
+
+  try {
+    const id = await ctx.runMutation(internal.executions.recordExecution, {
+      userId,
+      ...request,
+      resolvedUrl: response.url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      durationMs: response.durationMs,
+      size: response.size,
+      contentType,
+      body: bodyStorageId ? undefined : body,
+      bodyStorageId,
+    });
+    return { id, bodyStorageId };
+  } catch (error) {
+    if (bodyStorageId) await ctx.storage.delete(bodyStorageId);
+    throw error;
+  }
+}
+
+export const makeRequest = action({
+  args: {
+    ...requestArgs,
+    // Links the recorded execution to the saved request it was sent from
+    savedRequestId: v.optional(v.id("savedRequests")),
+    // Chosen by the client to cancel the request with `cancelRequest`
+    requestKey: v.optional(v.string()),
+  },
+  handler: async (ctx, { savedRequestId, requestKey, ...args }) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    let result: Awaited<ReturnType<typeof executeRequest>>;
+    if (requestKey) {
+      const activeId: Id<"activeRequests"> = await ctx.runMutation(internal.requestControl.startRequest, {
+        requestKey,
+      });
+      const cancel = new AbortController();
+      const stopWatching = watchCancellation(ctx, activeId, cancel);
+      try {
+        result = await executeRequest(ctx, userId, args, { signal: cancel.signal });
+      } finally {
+        await stopWatching();
+        await ctx.runMutation(internal.requestControl.finishRequest, { id: activeId });
+      }
+    } else {
+      result = await executeRequest(ctx, userId, args);
+    }
+    if (!result.success || !result.response) return result;
+    const { largeBody: _largeBody, ...response } = result.response;
+
+    // A response that cannot be recorded is still returned, though a large
+    // binary body then has nowhere to be downloaded from
+    try {
+      const execution = await recordExecution(ctx, userId, { method: args.method, url: args.url, savedRequestId }, result.response);
+      if (response.binary && response.binary.base64 === undefined && execution.bodyStorageId) {
+        response.binary = {
+          ...response.binary,
+          storageId: execution.bodyStorageId,
+          url: (await ctx.storage.getUrl(execution.bodyStorageId)) ?? undefined,
+        };
+      }
+      return { ...result, response, executionId: execution.id };
     } catch (error) {
-      console.error("API request failed:", error);
-      
-      let errorMessage = "Request failed";
-      if (error instanceof Error) {
-        errorMessage = error.message;
-      } else if (typeof error === "string") {
-        errorMessage = error;
+      console.error("Failed to record execution:", error);
+      return { ...result, response };
+    }
+  },
+});
+
+// Follows a request's pagination, fetching page after page until there is
+// no next page or a cap is reached, and returns the pages' items as one
+// array. Items collected before a page fails are still returned.
+export const fetchAllPages = action({
+  args: {
+    ...requestArgs,
+    pagination,
+    savedRequestId: v.optional(v.id("savedRequests")),
+  },
+  handler: async (ctx, { pagination, savedRequestId, ...args }) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const { maxPages, maxItems } = clampLimits(pagination);
+    const items: unknown[] = [];
+    const pages: { url: string; status: number; items: number; durationMs: number }[] = [];
+    let stoppedBy: "end" | "maxPages" | "maxItems" | "error" = "end";
+    let error: string | undefined;
+    const requested = new Set<string>();
+
+    let url: string | null = firstPageUrl(pagination, args.url);
+    while (url !== null) {
+      if (pages.length >= maxPages) {
+        stoppedBy = "maxPages";
+        break;
       }
+      // A server that keeps pointing at the same page would never end
+      if (requested.has(url)) {
+        stoppedBy = "error";
+        error = `Page ${pages.length} links back to ${url}, which was already fetched`;
+        break;
+      }
+      requested.add(url);
 
-      return {
-        success: false,
-        error: errorMessage,
-      };
+      const result = await executeRequest(ctx, userId, { ...args, url }, { waitForRateLimit: true });
+      const response = result.success ? result.response : undefined;
+      if (!response) {
+        stoppedBy = "error";
+        error = result.error ?? "Request failed";
+        break;
+      }
+      try {
+        await recordExecution(ctx, userId, { method: args.method, url, savedRequestId }, response);
+      } catch (recordError) {
+        console.error("Failed to record execution:", recordError);
+      }
+      if (response.status >= 400) {
+        stoppedBy = "error";
+        error = `Page ${pages.length + 1} failed with HTTP ${response.status}`;
+        break;
+      }
+      const read = readItems(response.data, pagination.itemsPath);
+      if ("error" in read) {
+        stoppedBy = "error";
+        error = `Page ${pages.length + 1}: ${read.error}`;
+        break;
+      }
+
+      pages.push({ url: response.url, status: response.status, items: read.items.length, durationMs: response.durationMs });
+      const room = maxItems - items.length;
+      items.push(...read.items.slice(0, room));
+      const next = nextPageUrl(pagination, {
+        url,
+        responseUrl: response.url,
+        headers: response.headers,
+        data: response.data,
+        pageItems: read.items.length,
+        totalItems: items.length,
+        pages: pages.length,
+      });
+      if ("error" in next) {
+        stoppedBy = "error";
+        error = `Page ${pages.length}: ${next.error}`;
+        break;
+      }
+      url = next.url;
+      if (read.items.length > room || (items.length >= maxItems && url !== null)) {
+        stoppedBy = "maxItems";
+        break;
+      }
+    }
+
+    return { items, pages, stoppedBy, error };
+  },
+});
+
+// Runs every saved request of a collection in tree order, evaluating each
+// request's assertions, and records the report in `collectionRuns`.
+export const runCollection = action({
+  args: {
+    collectionId: v.id("collections"),
+    environmentId: v.optional(v.id("environments")),
+    // Run only this folder and its subfolders
+    folderId: v.optional(v.id("collectionFolders")),
+  },
+  handler: async (ctx, args): Promise<Id<"collectionRuns">> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const contents = await ctx.runQuery(api.collections.getCollectionContents, {
+      collectionId: args.collectionId,
+    });
+    if (!contents) throw new Error("Collection not found");
+    if (args.folderId && !contents.folders.some((folder) => folder._id === args.folderId)) {
+      throw new Error("Folder not found");
+    }
+
+    const runId: Id<"collectionRuns"> = await ctx.runMutation(internal.collectionRuns.createRun, args);
+    // Values extracted by earlier requests, for the requests after them
+    const runVariables: Record<string, string> = {};
+    try {
+      for (const request of requestsInTreeOrder(contents.folders, contents.requests, args.folderId)) {
+        const result = await executeRequest(
+          ctx,
+          userId,
+          {
+            url: request.url,
+            method: request.method,
+            headers: request.headers,
+            body: normalizeBody(request.body),
+            auth: request.auth,
+            settings: request.settings,
+            environmentId: args.environmentId,
+          },
+          { waitForRateLimit: true, runVariables }
+        );
+
+        const response = result.success ? result.response : undefined;
+        // A failed write is reported on this step rather than ending the run
+        let recordError: string | undefined;
+        if (response) {
+          try {
+            await recordExecution(ctx, userId, { method: request.method, url: request.url, savedRequestId: request._id }, response);
+          } catch (error) {
+            console.error("Failed to record execution:", error);
+            recordError = `Failed to record execution: ${error instanceof Error ? error.message : "unknown error"}`;
+          }
+        }
+        const assertions = response ? evaluateAssertions(request.assertions, response) : [];
+        const extracted = response ? applyExtractions(request.extractions, response) : [];
+        const schemaViolations = response ? validateResponse(request.responseSchema, response) : undefined;
+        const environmentValues = extractedValues(extracted, "environment");
+        Object.assign(runVariables, extractedValues(extracted, "run"));
+        if (!args.environmentId) {
+          // Nowhere to store them, but later requests in the run still see them
+          Object.assign(runVariables, environmentValues);
+        } else if (Object.keys(environmentValues).length > 0) {
+          await ctx.runMutation(internal.environments.storeExtractedValues, {
+            userId,
+            id: args.environmentId,
+            values: environmentValues,
+          });
+        }
+        await ctx.runMutation(internal.collectionRuns.appendRunResult, {
+          runId,
+          result: {
+            savedRequestId: request._id,
+            name: request.name,
+            method: request.method,
+            url: response?.url ?? request.url,
+            status: response?.status,
+            durationMs: response?.durationMs,
+            error: result.success ? recordError : result.error,
+            assertions,
+            ...(extracted.length > 0 && { extracted }),
+            ...(schemaViolations && { schemaViolations }),
+            passed:
+              !!response &&
+              !recordError &&
+              assertions.every((assertion) => assertion.passed) &&
+              (schemaViolations?.length ?? 0) === 0,
+          },
+        });
+      }
+      await ctx.runMutation(internal.collectionRuns.finishRun, { runId, status: "completed" });
+    } catch (error) {
+      await ctx.runMutation(internal.collectionRuns.finishRun, {
+        runId,
+        status: "failed",
+        error: error instanceof Error ? error.message : "Run failed",
+      });
+    }
+    return runId;
+  },
+});
+
+// One run of a monitor (see monitors.ts). Scheduled runs have no signed-in
+// user, so the request is sent as the monitor's owner. Recording the run
+// queues the next one.
+export const runMonitor = internalAction({
+  args: { monitorId: v.id("monitors"), runToken: v.string() },
+  handler: async (ctx, args) => {
+    const target = await ctx.runQuery(internal.monitors.getMonitorTarget, args);
+    if (!target) return;
+    const { monitor, request } = target;
+
+    const result = await executeRequest(
+      ctx,
+      monitor.userId,
+      {
+        url: request.url,
+        method: request.method,
+        headers: request.headers,
+        body: normalizeBody(request.body),
+        auth: request.auth,
+        settings: request.settings,
+        environmentId: monitor.environmentId,
+      },
+      { waitForRateLimit: true }
+    );
+
+    const response = result.success ? result.response : undefined;
+    const assertions = response ? evaluateAssertions(request.assertions, response) : [];
+    const failed = assertions.filter((assertion) => !assertion.passed);
+    const violations = (response && validateResponse(request.responseSchema, response)) ?? [];
+    // Without assertions, any response below 400 counts as up
+    const up =
+      !!response &&
+      (assertions.length > 0 ? failed.length === 0 : response.status < 400) &&
+      violations.length === 0;
+
+    let error: string | undefined;
+    if (!result.success) {
+      error = result.error;
+    } else if (failed.length > 0) {
+      error = `${failed[0].description}${failed[0].message ? `: ${failed[0].message}` : ""}`;
+    } else if (violations.length > 0) {
+      error = `Schema violation at ${violations[0].path}: ${violations[0].message}`;
+    } else if (!up && response) {
+      error = `HTTP ${response.status}`;
     }
+
+    await ctx.runMutation(internal.monitors.recordMonitorRun, {
+      ...args,
+      status: response?.status,
+      durationMs: response?.durationMs,
+      outcome: up ? "up" : "down",
+      error,
+      assertionsPassed: assertions.length - failed.length,
+      assertionsFailed: failed.length,
+    });
   },
 });
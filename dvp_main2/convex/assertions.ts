@@ -0,0 +1,182 @@
+import type { Assertion, AssertionOperator, AssertionResult } from "./validators";
+
+// Evaluation of response assertions, shared by the request builder (single
+// sends) and the collection runner.
+
+export interface AssertableResponse {
+  status: number;
+  headers: Record<string, string>;
+  data: unknown;
+  durationMs: number;
+}
+
+export const OPERATOR_LABELS: Record<AssertionOperator, string> = {
+  equals: "equals",
+  notEquals: "does not equal",
+  contains: "contains",
+  matches: "matches",
+  exists: "exists",
+  isType: "is of type",
+  lessThan: "is less than",
+  greaterThan: "is greater than",
+};
+
+// Reads a value by path such as `$.data.items[0].name` or `data['a b']`.
+// `length` also works on arrays and strings, e.g. `data.items.length`.
+export function readJsonPath(data: unknown, path: string): { found: boolean; value?: unknown } {
+  const trimmed = path.trim().replace(/^\$/, "");
+  const segments: string[] = [];
+  const pattern = /\.?([^.[\]]+)|\[(\d+)\]|\[['"](.*?)['"]\]/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(trimmed)) !== null) {
+    segments.push(match[1] ?? match[2] ?? match[3]);
+  }
+
+  let current: unknown = data;
+  for (const segment of segments) {
+    if (current !== null && typeof current === "object" && segment in current) {
+      current = (current as Record<string, unknown>)[segment];
+    } else if (segment === "length" && (Array.isArray(current) || typeof current === "string")) {
+      current = current.length;
+    } else {
+      return { found: false };
+    }
+  }
+  return { found: true, value: current };
+}
+
+export function typeName(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined) return "(missing)";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+// `expected` as JSON when it parses, otherwise as a plain string
+function parseExpected(expected: string): unknown {
+  try {
+    return JSON.parse(expected);
+  } catch {
+    return expected;
+  }
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every((key) =>
+      deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+    )
+  );
+}
+
+function valuesEqual(actual: unknown, expected: string): boolean {
+  if (typeof actual === "string") return actual === expected;
+  return deepEqual(actual, parseExpected(expected));
+}
+
+// Returns an error message when the comparison fails, undefined when it passes
+function compare(actual: unknown, operator: AssertionOperator, expected: string): string | undefined {
+  switch (operator) {
+    case "exists":
+      return actual === undefined ? "Value is missing" : undefined;
+    case "equals":
+      return valuesEqual(actual, expected) ? undefined : `Expected ${expected}`;
+    case "notEquals":
+      return valuesEqual(actual, expected) ? `Expected anything but ${expected}` : undefined;
+    case "contains": {
+      const found =
+        typeof actual === "string" ? actual.includes(expected) :
+        Array.isArray(actual) ? actual.some((item) => valuesEqual(item, expected)) :
+        actual !== null && typeof actual === "object" ? expected in actual :
+        false;
+      return found ? undefined : `Expected to contain ${expected}`;
+    }
+    case "matches": {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(expected);
+      } catch {
+        return `Invalid regular expression: ${expected}`;
+      }
+      return actual !== undefined && regex.test(stringify(actual)) ? undefined : `Expected to match /${expected}/`;
+    }
+    case "isType":
+      return typeName(actual) === expected.trim() ? undefined : `Expected type ${expected}`;
+    case "lessThan":
+    case "greaterThan": {
+      const a = Number(actual);
+      const b = Number(expected);
+      if (actual === undefined || actual === null || Number.isNaN(a) || Number.isNaN(b)) {
+        return `Cannot compare ${stringify(actual)} with ${expected} as numbers`;
+      }
+      const passed = operator === "lessThan" ? a < b : a > b;
+      return passed ? undefined : `Expected ${OPERATOR_LABELS[operator]} ${expected}`;
+    }
+  }
+}
+
+export function describeAssertion(assertion: Assertion): string {
+  if (assertion.type === "responseTime") {
+    return `Response time below ${assertion.maxMs} ms`;
+  }
+  const subject =
+    assertion.type === "status" ? "Status" :
+    assertion.type === "header" ? `Header ${assertion.name}` :
+    assertion.path;
+  const expected = assertion.operator === "exists" ? "" : ` ${assertion.expected}`;
+  return `${subject} ${OPERATOR_LABELS[assertion.operator]}${expected}`;
+}
+
+export function evaluateAssertion(assertion: Assertion, response: AssertableResponse): AssertionResult {
+  const description = describeAssertion(assertion);
+
+  if (assertion.type === "responseTime") {
+    const passed = response.durationMs < assertion.maxMs;
+    return {
+      description,
+      passed,
+      actual: `${response.durationMs} ms`,
+      ...(!passed && { message: `Took ${response.durationMs} ms` }),
+    };
+  }
+
+  let actual: unknown;
+  if (assertion.type === "status") {
+    actual = response.status;
+  } else if (assertion.type === "header") {
+    const name = assertion.name.trim().toLowerCase();
+    const key = Object.keys(response.headers).find((header) => header.toLowerCase() === name);
+    actual = key === undefined ? undefined : response.headers[key];
+  } else {
+    const result = readJsonPath(response.data, assertion.path);
+    actual = result.found ? result.value : undefined;
+  }
+
+  const message = compare(actual, assertion.operator, assertion.expected);
+  return {
+    description,
+    passed: message === undefined,
+    actual: stringify(actual),
+    ...(message !== undefined && { message }),
+  };
+}
+
+// Evaluates the enabled assertions in order
+export function evaluateAssertions(
+  assertions: Assertion[] | undefined,
+  response: AssertableResponse
+): AssertionResult[] {
+  return (assertions ?? [])
+    .filter((assertion) => assertion.enabled)
+    .map((assertion) => evaluateAssertion(assertion, response));
+}
@@ -0,0 +1,85 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { getOwnedCollection } from "./collections";
+import { runResult } from "./validators";
+
+// Reports of collection runs. The run itself happens in the
+// `apiTester.runCollection` action, which records results here as it goes.
+
+const RECENT_RUNS = 10;
+
+export const listCollectionRuns = query({
+  args: { collectionId: v.id("collections") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+    const collection = await ctx.db.get(args.collectionId);
+    if (!collection || collection.userId !== userId) return [];
+
+    return await ctx.db
+      .query("collectionRuns")
+      .withIndex("by_collection_and_date", (q) => q.eq("collectionId", args.collectionId))
+      .order("desc")
+      .take(RECENT_RUNS);
+  },
+});
+
+export const createRun = internalMutation({
+  args: {
+    collectionId: v.id("collections"),
+    environmentId: v.optional(v.id("environments")),
+    folderId: v.optional(v.id("collectionFolders")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    await getOwnedCollection(ctx, args.collectionId, userId);
+
+    return await ctx.db.insert("collectionRuns", {
+      userId,
+      collectionId: args.collectionId,
+      environmentId: args.environmentId,
+      folderId: args.folderId,
+      status: "running",
+      results: [],
+      startedAt: Date.now(),
+    });
+  },
+});
+
+export const appendRunResult = internalMutation({
+  args: { runId: v.id("collectionRuns"), result: runResult },
+  handler: async (ctx, args) => {
+    const run = await ctx.db.get(args.runId);
+    if (!run) throw new Error("Run not found");
+    await ctx.db.patch(args.runId, { results: [...run.results, args.result] });
+  },
+});
+
+export const finishRun = internalMutation({
+  args: {
+    runId: v.id("collectionRuns"),
+    status: v.union(v.literal("completed"), v.literal("failed")),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.runId, {
+      status: args.status,
+      error: args.error,
+      finishedAt: Date.now(),
+    });
+  },
+});
+
+export const deleteCollectionRun = mutation({
+  args: { id: v.id("collectionRuns") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    const run = await ctx.db.get(args.id);
+    if (!run) throw new Error("Run not found");
+    if (run.userId !== userId) throw new Error("Unauthorized");
+    await ctx.db.delete(args.id);
+  },
+});
@@ -0,0 +1,309 @@
+import { v } from "convex/values";
+import { mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { removeRequestMonitors } from "./monitors";
+
+export async function getOwnedCollection(
+  ctx: QueryCtx,
+  id: Id<"collections">,
+  userId: Id<"users">
+) {
+  const collection = await ctx.db.get(id);
+  if (!collection) throw new Error("Collection not found");
+  if (collection.userId !== userId) throw new Error("Unauthorized");
+  return collection;
+}
+
+export async function getOwnedFolder(
+  ctx: QueryCtx,
+  id: Id<"collectionFolders">,
+  userId: Id<"users">
+) {
+  const folder = await ctx.db.get(id);
+  if (!folder) throw new Error("Folder not found");
+  if (folder.userId !== userId) throw new Error("Unauthorized");
+  return folder;
+}
+
+// Ids of a folder and every folder nested below it
+async function collectFolderTree(ctx: QueryCtx, folderId: Id<"collectionFolders">) {
+  const folder = await ctx.db.get(folderId);
+  if (!folder) return [];
+
+  const ids: Id<"collectionFolders">[] = [folderId];
+  const children = await ctx.db
+    .query("collectionFolders")
+    .withIndex("by_collection_and_parent", (q) =>
+      q.eq("collectionId", folder.collectionId).eq("parentId", folderId)
+    )
+    .collect();
+  for (const child of children) {
+    ids.push(...(await collectFolderTree(ctx, child._id)));
+  }
+  return ids;
+}
+
+async function deleteFolderTree(ctx: MutationCtx, folderId: Id<"collectionFolders">) {
+  const folder = await ctx.db.get(folderId);
+  if (!folder) return;
+
+  for (const id of await collectFolderTree(ctx, folderId)) {
+    const requests = await ctx.db
+      .query("savedRequests")
+      .withIndex("by_collection_and_folder", (q) =>
+        q.eq("collectionId", folder.collectionId).eq("folderId", id)
+      )
+      .collect();
+    for (const request of requests) await removeRequestMonitors(ctx, request._id);
+    await Promise.all(requests.map((request) => ctx.db.delete(request._id)));
+    await ctx.db.delete(id);
+  }
+}
+
+// Saved requests in the order the tree shows them: depth-first, folders
+// before the requests beside them. Used by the collection runner.
+export function requestsInTreeOrder(
+  folders: Doc<"collectionFolders">[],
+  requests: Doc<"savedRequests">[],
+  parentId?: Id<"collectionFolders">
+): Doc<"savedRequests">[] {
+  const byOrder = <T extends { order: number }>(a: T, b: T) => a.order - b.order;
+  return [
+    ...folders
+      .filter((folder) => folder.parentId === parentId)
+      .sort(byOrder)
+      .flatMap((folder) => requestsInTreeOrder(folders, requests, folder._id)),
+    ...requests.filter((request) => request.folderId === parentId).sort(byOrder),
+  ];
+}
+
+export const listCollections = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    return await ctx.db
+      .query("collections")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .collect();
+  },
+});
+
+// Folders and saved requests of a collection, each sorted by `order`. The
+// client assembles the tree from `parentId` / `folderId`.
+export const getCollectionContents = query({
+  args: { collectionId: v.id("collections") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const collection = await ctx.db.get(args.collectionId);
+    if (!collection || collection.userId !== userId) return null;
+
+    const folders = await ctx.db
+      .query("collectionFolders")
+      .withIndex("by_collection_id", (q) => q.eq("collectionId", args.collectionId))
+      .collect();
+    const requests = await ctx.db
+      .query("savedRequests")
+      .withIndex("by_collection_id", (q) => q.eq("collectionId", args.collectionId))
+      .collect();
+
+    return {
+      collection,
+      folders: folders.sort((a, b) => a.order - b.order),
+      requests: requests.sort((a, b) => a.order - b.order),
+    };
+  },
+});
+
+export const createCollection = mutation({
+  args: {
+    name: v.string(),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const name = args.name.trim();
+    if (!name) throw new Error("Collection name is required");
+
+    return await ctx.db.insert("collections", {
+      userId,
+      name,
+      description: args.description,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const updateCollection = mutation({
+  args: {
+    id: v.id("collections"),
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    await getOwnedCollection(ctx, args.id, userId);
+
+    const name = args.name?.trim();
+    if (name !== undefined && !name) throw new Error("Collection name is required");
+
+    await ctx.db.patch(args.id, {
+      ...(name !== undefined && { name }),
+      ...(args.description !== undefined && { description: args.description }),
+    });
+  },
+});
+
+export const deleteCollection = mutation({
+  args: { id: v.id("collections") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    await getOwnedCollection(ctx, args.id, userId);
+
+    const requests = await ctx.db
+      .query("savedRequests")
+      .withIndex("by_collection_id", (q) => q.eq("collectionId", args.id))
+      .collect();
+    const folders = await ctx.db
+      .query("collectionFolders")
+      .withIndex("by_collection_id", (q) => q.eq("collectionId", args.id))
+      .collect();
+
+    const runs = await ctx.db
+      .query("collectionRuns")
+      .withIndex("by_collection_and_date", (q) => q.eq("collectionId", args.id))
+      .collect();
+
+    for (const request of requests) await removeRequestMonitors(ctx, request._id);
+    await Promise.all([
+      ...requests.map((request) => ctx.db.delete(request._id)),
+      ...folders.map((folder) => ctx.db.delete(folder._id)),
+      ...runs.map((run) => ctx.db.delete(run._id)),
+    ]);
+    await ctx.db.delete(args.id);
+  },
+});
+
+export const createFolder = mutation({
+  args: {
+    collectionId: v.id("collections"),
+    parentId: v.optional(v.id("collectionFolders")),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    await getOwnedCollection(ctx, args.collectionId, userId);
+
+    if (args.parentId) {
+      const parent = await getOwnedFolder(ctx, args.parentId, userId);
+      if (parent.collectionId !== args.collectionId) {
+        throw new Error("Parent folder belongs to another collection");
+      }
+    }
+
+    const name = args.name.trim();
+    if (!name) throw new Error("Folder name is required");
+
+    const siblings = await ctx.db
+      .query("collectionFolders")
+      .withIndex("by_collection_and_parent", (q) =>
+        q.eq("collectionId", args.collectionId).eq("parentId", args.parentId)
+      )
+      .collect();
+
+    return await ctx.db.insert("collectionFolders", {
+      userId,
+      collectionId: args.collectionId,
+      parentId: args.parentId,
+      name,
+      order: siblings.length,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const renameFolder = mutation({
+  args: {
+    id: v.id("collectionFolders"),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    await getOwnedFolder(ctx, args.id, userId);
+
+    const name = args.name.trim();
+    if (!name) throw new Error("Folder name is required");
+
+    await ctx.db.patch(args.id, { name });
+  },
+});
+
+// Moves a folder under a new parent (or the collection root) at `index`
+// among its new siblings, renumbering both the old and new sibling lists.
+export const moveFolder = mutation({
+  args: {
+    id: v.id("collectionFolders"),
+    parentId: v.optional(v.id("collectionFolders")),
+    index: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    const folder = await getOwnedFolder(ctx, args.id, userId);
+
+    if (args.parentId) {
+      const parent = await getOwnedFolder(ctx, args.parentId, userId);
+      if (parent.collectionId !== folder.collectionId) {
+        throw new Error("Folders can only be moved within their collection");
+      }
+      const subtree = await collectFolderTree(ctx, args.id);
+      if (subtree.includes(args.parentId)) {
+        throw new Error("A folder cannot be moved into itself");
+      }
+    }
+
+    const siblingsOf = async (parentId: Id<"collectionFolders"> | undefined) =>
+      (
+        await ctx.db
+          .query("collectionFolders")
+          .withIndex("by_collection_and_parent", (q) =>
+            q.eq("collectionId", folder.collectionId).eq("parentId", parentId)
+          )
+          .collect()
+      )
+        .filter((sibling) => sibling._id !== args.id)
+        .sort((a, b) => a.order - b.order);
+
+    if (folder.parentId !== args.parentId) {
+      const oldSiblings = await siblingsOf(folder.parentId);
+      await Promise.all(oldSiblings.map((sibling, order) => ctx.db.patch(sibling._id, { order })));
+    }
+
+    const siblings = await siblingsOf(args.parentId);
+    const index = Math.max(0, Math.min(args.index, siblings.length));
+    const ordered = [...siblings.slice(0, index), folder, ...siblings.slice(index)];
+    await ctx.db.patch(args.id, { parentId: args.parentId });
+    await Promise.all(ordered.map((sibling, order) => ctx.db.patch(sibling._id, { order })));
+  },
+});
+
+export const deleteFolder = mutation({
+  args: { id: v.id("collectionFolders") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    await getOwnedFolder(ctx, args.id, userId);
+
+    await deleteFolderTree(ctx, args.id);
+  },
+});
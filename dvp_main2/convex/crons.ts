@@ -0,0 +1,8 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+crons.interval("restart stalled monitors", { minutes: 5 }, internal.monitors.restartStalledMonitors, {});
+
+export default crons;
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkEgress,
+  DEFAULT_EGRESS_POLICY,
+  EgressPolicyError,
+  hostnameOf,
+  invalidHostPatterns,
+  matchesHost,
+  nonPublicRange,
+} from "./egress";
+import type { EgressPolicy } from "./validators";
+
+const policy = (overrides: Partial<EgressPolicy> = {}): EgressPolicy => ({ ...DEFAULT_EGRESS_POLICY, ...overrides });
+
+const check = (url: string, resolved: string[], rules: Partial<EgressPolicy> = {}) =>
+  checkEgress(new URL(url), resolved, policy(rules));
+
+describe("matchesHost", () => {
+  it("matches hostnames exactly and without case", () => {
+    expect(matchesHost("api.example.com", "api.example.com", [])).toBe(true);
+    expect(matchesHost(" API.Example.com ", "api.example.com", [])).toBe(true);
+    expect(matchesHost("example.com", "api.example.com", [])).toBe(false);
+  });
+
+  it("matches subdomains of a wildcard but not the domain itself", () => {
+    expect(matchesHost("*.example.com", "api.example.com", [])).toBe(true);
+    expect(matchesHost("*.example.com", "a.b.example.com", [])).toBe(true);
+    expect(matchesHost("*.example.com", "example.com", [])).toBe(false);
+    expect(matchesHost("*.example.com", "badexample.com", [])).toBe(false);
+  });
+
+  it("matches IPs and CIDR ranges against the resolved addresses", () => {
+    expect(matchesHost("10.0.0.0/8", "internal.example.com", ["10.1.2.3"])).toBe(true);
+    expect(matchesHost("10.0.0.0/8", "internal.example.com", ["192.168.1.1"])).toBe(false);
+    expect(matchesHost("fd00::/8", "v6.example.com", ["fd12::1"])).toBe(true);
+    expect(matchesHost("10.1.2.3", "10.1.2.3", ["10.1.2.3"])).toBe(true);
+  });
+
+  it("ignores the trailing dot of fully qualified patterns", () => {
+    expect(matchesHost("blocked.example.com.", "blocked.example.com", [])).toBe(true);
+    expect(matchesHost("*.example.com.", "api.example.com", [])).toBe(true);
+  });
+
+  it("ignores blank patterns", () => {
+    expect(matchesHost("  ", "example.com", [])).toBe(false);
+  });
+});
+
+describe("hostnameOf", () => {
+  it("drops brackets, case and the trailing dot", () => {
+    expect(hostnameOf(new URL("http://Blocked.Example.com./path"))).toBe("blocked.example.com");
+    expect(hostnameOf(new URL("http://[::1]:8080/"))).toBe("::1");
+  });
+});
+
+describe("invalidHostPatterns", () => {
+  it("accepts hostnames, wildcards, IPs and ranges, with or without a trailing dot", () => {
+    expect(invalidHostPatterns(["example.com.", "*.example.com.", "10.0.0.0/8", "::1"])).toEqual([]);
+    expect(invalidHostPatterns(["http://example.com", "*", "a..b"])).toEqual(["http://example.com", "*", "a..b"]);
+  });
+});
+
+describe("nonPublicRange", () => {
+  it("names non-public ranges and passes public addresses", () => {
+    expect(nonPublicRange("127.0.0.1")).toBe("loopback");
+    expect(nonPublicRange("10.0.0.1")).toBe("private");
+    expect(nonPublicRange("169.254.169.254")).toBe("link-local");
+    expect(nonPublicRange("::1")).toBe("loopback");
+    expect(nonPublicRange("8.8.8.8")).toBeNull();
+    expect(nonPublicRange("2606:4700::1111")).toBeNull();
+  });
+
+  it("checks IPv4-mapped addresses as IPv4 and rejects other wrappers", () => {
+    expect(nonPublicRange("::ffff:127.0.0.1")).toBe("loopback");
+    expect(nonPublicRange("::ffff:8.8.8.8")).toBeNull();
+    expect(nonPublicRange("::127.0.0.1")).toBe("IPv4-compatible");
+    expect(nonPublicRange("64:ff9b::10.0.0.1")).toBe("NAT64");
+    expect(nonPublicRange("2002:7f00:1::")).toBe("6to4");
+  });
+});
+
+describe("checkEgress", () => {
+  it("allows public hosts", () => {
+    expect(() => check("https://api.example.com/v1", ["93.184.216.34"])).not.toThrow();
+  });
+
+  it("blocks hosts that resolve to private addresses", () => {
+    expect(() => check("http://internal.example.com", ["10.0.0.5"])).toThrow(
+      "internal.example.com resolves to 10.0.0.5, a private address"
+    );
+    expect(() => check("http://internal.example.com", ["93.184.216.34", "127.0.0.1"])).toThrow(EgressPolicyError);
+  });
+
+  it("checks IP hostnames as they are", () => {
+    expect(() => check("http://127.0.0.1:8080", [])).toThrow("127.0.0.1 is a loopback address");
+    expect(() => check("http://[::1]/", [])).toThrow("::1 is a loopback address");
+    expect(() => check("http://[::ffff:7f00:1]/", [])).toThrow(EgressPolicyError);
+  });
+
+  it("only allows http and WebSocket schemes", () => {
+    expect(() => check("file:///etc/passwd", [])).toThrow("file: URLs are not allowed");
+    expect(() => check("wss://stream.example.com", ["93.184.216.34"])).not.toThrow();
+  });
+
+  it("applies port rules", () => {
+    expect(() => check("https://api.example.com:8443", ["93.184.216.34"], { denyPorts: [8443] })).toThrow(
+      "port 8443 is denied"
+    );
+    expect(() => check("https://api.example.com", ["93.184.216.34"], { allowPorts: [8443] })).toThrow(
+      "port 443 is not in the allowed ports"
+    );
+  });
+
+  it("lets allowed hosts reach private addresses", () => {
+    expect(() => check("http://db.internal", ["10.0.0.5"], { allowHosts: ["db.internal"] })).not.toThrow();
+    expect(() => check("http://db.internal", ["10.0.0.5"], { allowHosts: ["10.0.0.0/24"] })).not.toThrow();
+    expect(() => check("http://db.internal", ["10.0.0.5"], { allowPrivateNetworks: true })).not.toThrow();
+  });
+
+  it("applies host rules to fully qualified names", () => {
+    expect(() => check("http://blocked.example.com./", ["93.184.216.34"], { denyHosts: ["blocked.example.com"] })).toThrow(
+      "blocked.example.com is denied"
+    );
+    expect(() => check("http://api.example.com./", ["93.184.216.34"], { denyHosts: ["*.example.com."] })).toThrow(
+      "api.example.com is denied"
+    );
+    expect(() => check("http://db.internal./", ["10.0.0.5"], { allowHosts: ["db.internal"] })).not.toThrow();
+    expect(() => check("http://db.example.com./", ["10.0.0.5"], { allowHosts: ["*.example.com"] })).not.toThrow();
+  });
+
+  it("denies hosts even when they are also allowed", () => {
+    const rules = { allowHosts: ["*.example.com"], denyHosts: ["secret.example.com"] };
+    expect(() => check("https://secret.example.com", ["93.184.216.34"], rules)).toThrow("secret.example.com is denied");
+    expect(() => check("https://api.example.com", ["93.184.216.34"], rules)).not.toThrow();
+  });
+});
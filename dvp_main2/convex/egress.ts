@@ -0,0 +1,203 @@
+import type { EgressPolicy } from "./validators";
+
+// The egress policy makeRequest enforces before every request and redirect
+// hop. Resolving hostnames needs Node, so callers pass in the addresses a
+// hostname resolved to; everything here is pure.
+
+export const DEFAULT_EGRESS_POLICY: EgressPolicy = {
+  allowPrivateNetworks: false,
+  allowHosts: [],
+  denyHosts: [],
+  allowPorts: [],
+  denyPorts: [],
+};
+
+export class EgressPolicyError extends Error {
+  constructor(reason: string) {
+    super(`Blocked by egress policy: ${reason}`);
+    this.name = "EgressPolicyError";
+  }
+}
+
+interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+function parseIPv4(text: string): bigint | null {
+  const parts = text.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null;
+  return parts.reduce((value, part) => (value << 8n) | BigInt(part), 0n);
+}
+
+function parseIPv6(text: string): bigint | null {
+  let address = text.replace(/%.*$/, "");
+  // A trailing dotted quad, as in ::ffff:127.0.0.1
+  const dotted = /^(.*:)(\d+\.\d+\.\d+\.\d+)$/.exec(address);
+  if (dotted) {
+    const ipv4 = parseIPv4(dotted[2]);
+    if (ipv4 === null) return null;
+    address = `${dotted[1]}${(ipv4 >> 16n).toString(16)}:${(ipv4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = address.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/i.test(group))) return null;
+  return groups.reduce((value, group) => (value << 16n) | BigInt(parseInt(group, 16)), 0n);
+}
+
+// Accepts bracketed IPv6 literals as they appear in URL hostnames
+export function parseIp(text: string): ParsedIp | null {
+  const address = text.replace(/^\[(.*)\]$/, "$1");
+  const ipv4 = parseIPv4(address);
+  if (ipv4 !== null) return { version: 4, value: ipv4 };
+  const ipv6 = address.includes(":") ? parseIPv6(address) : null;
+  return ipv6 !== null ? { version: 6, value: ipv6 } : null;
+}
+
+interface Cidr {
+  version: 4 | 6;
+  base: bigint;
+  prefix: number;
+}
+
+function parseCidr(text: string): Cidr | null {
+  const [address, prefixText, ...rest] = text.split("/");
+  const ip = parseIp(address);
+  if (!ip || rest.length > 0) return null;
+  const bits = ip.version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) return null;
+  return { version: ip.version, base: ip.value, prefix };
+}
+
+function inCidr(ip: ParsedIp, cidr: Cidr) {
+  if (ip.version !== cidr.version) return false;
+  const shift = BigInt((ip.version === 4 ? 32 : 128) - cidr.prefix);
+  return ip.value >> shift === cidr.base >> shift;
+}
+
+const NON_PUBLIC_RANGES: [string, string][] = [
+  ["0.0.0.0/8", "reserved"],
+  ["10.0.0.0/8", "private"],
+  ["100.64.0.0/10", "shared (carrier-grade NAT)"],
+  ["127.0.0.0/8", "loopback"],
+  ["169.254.0.0/16", "link-local"],
+  ["172.16.0.0/12", "private"],
+  ["192.0.0.0/24", "reserved"],
+  ["192.0.2.0/24", "documentation"],
+  ["192.168.0.0/16", "private"],
+  ["198.18.0.0/15", "benchmarking"],
+  ["198.51.100.0/24", "documentation"],
+  ["203.0.113.0/24", "documentation"],
+  ["224.0.0.0/4", "multicast"],
+  ["240.0.0.0/4", "reserved"],
+  ["::/128", "unspecified"],
+  ["::1/128", "loopback"],
+  ["::/96", "IPv4-compatible"],
+  ["64:ff9b::/96", "NAT64"],
+  ["64:ff9b:1::/48", "NAT64"],
+  ["100::/64", "discard-only"],
+  ["2001::/32", "Teredo"],
+  ["2001:2::/48", "benchmarking"],
+  ["2001:db8::/32", "documentation"],
+  ["2002::/16", "6to4"],
+  ["3fff::/20", "documentation"],
+  ["fc00::/7", "private"],
+  ["fe80::/10", "link-local"],
+  ["ff00::/8", "multicast"],
+];
+const NON_PUBLIC_CIDRS = NON_PUBLIC_RANGES.map(([range, label]) => ({ cidr: parseCidr(range)!, label }));
+
+// IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry.
+// Other forms that wrap IPv4 (IPv4-compatible, NAT64, 6to4, Teredo) are not
+// public at all, since the address inside may be private.
+const MAPPED_IPV4 = parseCidr("::ffff:0:0/96")!;
+
+// Why an address is not public, or null when it is
+export function nonPublicRange(address: string): string | null {
+  const parsed = parseIp(address);
+  if (!parsed) return null;
+  const ip: ParsedIp = inCidr(parsed, MAPPED_IPV4) ? { version: 4, value: parsed.value & 0xffffffffn } : parsed;
+  return NON_PUBLIC_CIDRS.find(({ cidr }) => inCidr(ip, cidr))?.label ?? null;
+}
+
+// Hostnames and host patterns compare without case and without the trailing
+// dot of a fully qualified name, which resolves to the same host
+export const normalizeHost = (name: string) => name.trim().toLowerCase().replace(/\.$/, "");
+
+export const hostnameOf = (url: URL) => normalizeHost(url.hostname.replace(/^\[(.*)\]$/, "$1"));
+
+// Schemes requests may use; WebSocket URLs come from the streaming client
+const ALLOWED_PROTOCOLS = ["http:", "https:", "ws:", "wss:"];
+
+export function portOf(url: URL) {
+  if (url.port) return Number(url.port);
+  return url.protocol === "https:" || url.protocol === "wss:" ? 443 : 80;
+}
+
+// Patterns match the hostname (exactly, or any subdomain for `*.domain`) or,
+// for IPs and CIDR ranges, any of the addresses it resolved to
+export function matchesHost(pattern: string, hostname: string, addresses: string[]) {
+  const normalized = normalizeHost(pattern);
+  if (!normalized) return false;
+  const cidr = parseCidr(normalized);
+  if (cidr) {
+    return addresses.some((address) => {
+      const ip = parseIp(address);
+      return ip !== null && inCidr(ip, cidr);
+    });
+  }
+  if (normalized.startsWith("*.")) return hostname.endsWith(normalized.slice(1));
+  return hostname === normalized;
+}
+
+// Throws EgressPolicyError when the policy does not allow `url`. `resolved`
+// are the IPs its hostname resolved to; an IP hostname is checked as is.
+export function checkEgress(url: URL, resolved: string[], policy: EgressPolicy) {
+  if (!ALLOWED_PROTOCOLS.includes(url.protocol)) {
+    throw new EgressPolicyError(`${url.protocol} URLs are not allowed`);
+  }
+
+  const port = portOf(url);
+  if (policy.denyPorts.includes(port)) {
+    throw new EgressPolicyError(`port ${port} is denied`);
+  }
+  if (policy.allowPorts.length > 0 && !policy.allowPorts.includes(port)) {
+    throw new EgressPolicyError(`port ${port} is not in the allowed ports`);
+  }
+
+  const hostname = hostnameOf(url);
+  const addresses = parseIp(hostname) ? [hostname] : resolved;
+  if (policy.denyHosts.some((pattern) => matchesHost(pattern, hostname, addresses))) {
+    throw new EgressPolicyError(`${hostname} is denied`);
+  }
+  if (policy.allowPrivateNetworks || policy.allowHosts.some((pattern) => matchesHost(pattern, hostname, addresses))) {
+    return;
+  }
+
+  for (const address of addresses) {
+    const range = nonPublicRange(address);
+    if (range) {
+      throw new EgressPolicyError(
+        address === hostname
+          ? `${hostname} is a ${range} address`
+          : `${hostname} resolves to ${address}, a ${range} address`
+      );
+    }
+  }
+}
+
+// Host patterns as an admin may type them; returns the ones that are invalid
+export function invalidHostPatterns(patterns: string[]) {
+  return patterns.filter((pattern) => {
+    const normalized = normalizeHost(pattern);
+    if (parseCidr(normalized)) return false;
+    return !/^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(normalized);
+  });
+}
@@ -0,0 +1,60 @@
+import { mutation, query, internalQuery, QueryCtx } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { egressPolicy } from "./validators";
+import { DEFAULT_EGRESS_POLICY, invalidHostPatterns, normalizeHost } from "./egress";
+import { isAdmin } from "./users";
+
+async function readPolicy(ctx: QueryCtx) {
+  const stored = await ctx.db.query("egressPolicy").first();
+  if (!stored) return DEFAULT_EGRESS_POLICY;
+  const { _id, _creationTime, updatedBy: _updatedBy, updatedAt: _updatedAt, ...policy } = stored;
+  return policy;
+}
+
+// Every user may read the policy so the UI can explain blocked requests
+export const getEgressPolicy = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    return {
+      policy: await readPolicy(ctx),
+      canEdit: await isAdmin(ctx, userId),
+    };
+  },
+});
+
+export const loadEgressPolicy = internalQuery({
+  args: {},
+  handler: async (ctx) => await readPolicy(ctx),
+});
+
+const validPort = (port: number) => Number.isInteger(port) && port >= 1 && port <= 65535;
+
+export const updateEgressPolicy = mutation({
+  args: { policy: egressPolicy },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    if (!(await isAdmin(ctx, userId))) throw new Error("Forbidden: Insufficient permissions");
+
+    const { policy } = args;
+    const invalidHosts = invalidHostPatterns([...policy.allowHosts, ...policy.denyHosts]);
+    if (invalidHosts.length > 0) throw new Error(`Invalid hosts: ${invalidHosts.join(", ")}`);
+    const invalidPorts = [...policy.allowPorts, ...policy.denyPorts].filter((port) => !validPort(port));
+    if (invalidPorts.length > 0) throw new Error(`Invalid ports: ${invalidPorts.join(", ")}`);
+
+    const normalized = {
+      ...policy,
+      allowHosts: policy.allowHosts.map(normalizeHost),
+      denyHosts: policy.denyHosts.map(normalizeHost),
+    };
+    const existing = await ctx.db.query("egressPolicy").first();
+    if (existing) {
+      await ctx.db.patch(existing._id, { ...normalized, updatedBy: userId, updatedAt: Date.now() });
+    } else {
+      await ctx.db.insert("egressPolicy", { ...normalized, updatedBy: userId, updatedAt: Date.now() });
+    }
+  },
+});
@@ -0,0 +1,53 @@
+// Outgoing email for OTP codes and alerts. Mail is sent through Resend's
+// HTTP API when RESEND_API_KEY is set and only logged otherwise.
+// EMAIL_API_URL points the provider elsewhere, e.g. a local HTTP sink in
+// development; EMAIL_FROM sets the sender.
+
+const DEFAULT_EMAIL_API_URL = "https://api.resend.com/emails";
+const DEFAULT_EMAIL_FROM = "DataVision Pro <noreply@yourapp.com>";
+
+// Give up on the provider after this long
+const EMAIL_TIMEOUT_MS = 10 * 1000;
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+const HTML_ENTITIES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+// For values placed in `html`
+export function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
+}
+
+export async function sendEmail(message: EmailMessage) {
+  const apiKey = process.env.RESEND_API_KEY;
+  const apiUrl = process.env.EMAIL_API_URL ?? DEFAULT_EMAIL_API_URL;
+  if (!apiKey && !process.env.EMAIL_API_URL) {
+    console.log(`Email to ${message.to}: ${message.subject}\n${message.text}`);
+    return;
+  }
+
+  const response = await fetch(apiUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      from: process.env.EMAIL_FROM ?? DEFAULT_EMAIL_FROM,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    }),
+    signal: AbortSignal.timeout(EMAIL_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new Error(`Email provider returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`);
+  }
+}
@@ -0,0 +1,180 @@
+import { v } from "convex/values";
+import { mutation, query, internalQuery, internalMutation, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+const variablesValidator = v.array(
+  v.object({
+    key: v.string(),
+    value: v.string(),
+  })
+);
+
+// Creates the named environment, or adds the keys an existing one is missing
+// without touching the values already there. Used by the importers.
+export async function mergeEnvironment(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  name: string,
+  variables: { key: string; value: string }[]
+) {
+  const now = Date.now();
+  const environment = await ctx.db
+    .query("environments")
+    .withIndex("by_user_and_name", (q) => q.eq("userId", userId).eq("name", name))
+    .first();
+  if (!environment) {
+    return await ctx.db.insert("environments", { userId, name, variables, createdAt: now, updatedAt: now });
+  }
+
+  const keys = new Set(environment.variables.map((variable) => variable.key));
+  const missing = variables.filter((variable) => !keys.has(variable.key));
+  if (missing.length > 0) {
+    await ctx.db.patch(environment._id, { variables: [...environment.variables, ...missing], updatedAt: now });
+  }
+  return environment._id;
+}
+
+// Sets `values` on an environment, replacing the value of keys it already has
+// and appending the others. Used to store values extracted from responses.
+async function setValues(ctx: MutationCtx, id: Id<"environments">, values: Record<string, string>) {
+  const environment = await ctx.db.get(id);
+  if (!environment) return;
+
+  const remaining = new Map(Object.entries(values));
+  if (remaining.size === 0) return;
+  const variables = environment.variables.map((variable) => {
+    const value = remaining.get(variable.key);
+    if (value === undefined) return variable;
+    remaining.delete(variable.key);
+    return { ...variable, value };
+  });
+  for (const [key, value] of remaining) variables.push({ key, value });
+  await ctx.db.patch(id, { variables, updatedAt: Date.now() });
+}
+
+export const listEnvironments = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    return await ctx.db
+      .query("environments")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .collect();
+  },
+});
+
+export const createEnvironment = mutation({
+  args: {
+    name: v.string(),
+    variables: variablesValidator,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const name = args.name.trim();
+    if (!name) throw new Error("Environment name is required");
+
+    const existing = await ctx.db
+      .query("environments")
+      .withIndex("by_user_and_name", (q) => q.eq("userId", userId).eq("name", name))
+      .first();
+    if (existing) throw new Error(`An environment named "${name}" already exists`);
+
+    const now = Date.now();
+    return await ctx.db.insert("environments", {
+      userId,
+      name,
+      variables: args.variables,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const updateEnvironment = mutation({
+  args: {
+    id: v.id("environments"),
+    name: v.optional(v.string()),
+    variables: v.optional(variablesValidator),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const environment = await ctx.db.get(args.id);
+    if (!environment) throw new Error("Environment not found");
+    if (environment.userId !== userId) throw new Error("Unauthorized");
+
+    const name = args.name?.trim();
+    if (name !== undefined && !name) throw new Error("Environment name is required");
+
+    await ctx.db.patch(args.id, {
+      ...(name !== undefined && { name }),
+      ...(args.variables !== undefined && { variables: args.variables }),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const deleteEnvironment = mutation({
+  args: { id: v.id("environments") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const environment = await ctx.db.get(args.id);
+    if (!environment) throw new Error("Environment not found");
+    if (environment.userId !== userId) throw new Error("Unauthorized");
+
+    await ctx.db.delete(args.id);
+  },
+});
+
+export const setEnvironmentValues = mutation({
+  args: {
+    id: v.id("environments"),
+    values: v.record(v.string(), v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const environment = await ctx.db.get(args.id);
+    if (!environment) throw new Error("Environment not found");
+    if (environment.userId !== userId) throw new Error("Unauthorized");
+
+    await setValues(ctx, args.id, args.values);
+  },
+});
+
+// Used by the collection runner to store extracted values; only writes to
+// environments owned by `userId`.
+export const storeExtractedValues = internalMutation({
+  args: {
+    userId: v.id("users"),
+    id: v.id("environments"),
+    values: v.record(v.string(), v.string()),
+  },
+  handler: async (ctx, args) => {
+    const environment = await ctx.db.get(args.id);
+    if (!environment || environment.userId !== args.userId) return;
+
+    await setValues(ctx, args.id, args.values);
+  },
+});
+
+// Used by makeRequest to resolve {{variables}}; only returns environments
+// owned by `userId`.
+export const getEnvironmentVariables = internalQuery({
+  args: { userId: v.id("users"), id: v.id("environments") },
+  handler: async (ctx, args) => {
+    const environment = await ctx.db.get(args.id);
+    if (!environment || environment.userId !== args.userId) return null;
+
+    return environment.variables;
+  },
+});
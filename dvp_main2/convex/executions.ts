@@ -0,0 +1,143 @@
+import { v } from "convex/values";
+import { mutation, query, internalMutation, MutationCtx } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { httpMethod } from "./validators";
+
+// Responses recorded for every executed request, so earlier results can be
+// looked up and compared. Bodies above INLINE_BODY_LIMIT characters are
+// written to file storage by the action that recorded them.
+
+export const INLINE_BODY_LIMIT = 64 * 1024;
+
+// Timeline entries returned per request. Older executions of a request are
+// deleted as new ones are recorded, since nothing shows them any more.
+const TIMELINE_LIMIT = 50;
+
+// Old executions removed per recorded execution
+const TRIM_BATCH = 10;
+
+// Recent executions a response schema is inferred from
+const SAMPLE_LIMIT = 20;
+
+export async function removeExecution(ctx: MutationCtx, execution: Doc<"executions">) {
+  if (execution.bodyStorageId) await ctx.storage.delete(execution.bodyStorageId);
+  await ctx.db.delete(execution._id);
+}
+
+export const recordExecution = internalMutation({
+  args: {
+    userId: v.id("users"),
+    method: httpMethod,
+    url: v.string(),
+    resolvedUrl: v.string(),
+    savedRequestId: v.optional(v.id("savedRequests")),
+    status: v.number(),
+    statusText: v.string(),
+    headers: v.record(v.string(), v.string()),
+    durationMs: v.number(),
+    size: v.number(),
+    contentType: v.optional(v.string()),
+    body: v.optional(v.string()),
+    bodyStorageId: v.optional(v.id("_storage")),
+  },
+  handler: async (ctx, args) => {
+    const id = await ctx.db.insert("executions", { ...args, createdAt: Date.now() });
+
+    // One execution is added per call, so a few beyond the limit is all
+    // there is to trim
+    const executions = await ctx.db
+      .query("executions")
+      .withIndex("by_user_and_request", (q) =>
+        q.eq("userId", args.userId).eq("method", args.method).eq("url", args.url)
+      )
+      .order("desc")
+      .take(TIMELINE_LIMIT + TRIM_BATCH);
+    await Promise.all(executions.slice(TIMELINE_LIMIT).map((execution) => removeExecution(ctx, execution)));
+    return id;
+  },
+});
+
+// Executions of one request (same method and URL as written), newest first.
+// Bodies are left out; `getExecutionBody` loads them one at a time.
+export const listExecutions = query({
+  args: {
+    method: httpMethod,
+    url: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const executions = await ctx.db
+      .query("executions")
+      .withIndex("by_user_and_request", (q) =>
+        q.eq("userId", userId).eq("method", args.method).eq("url", args.url)
+      )
+      .order("desc")
+      .take(TIMELINE_LIMIT);
+    return executions.map(({ body, bodyStorageId, ...execution }) => ({
+      ...execution,
+      hasBody: body !== undefined || bodyStorageId !== undefined,
+    }));
+  },
+});
+
+// Recent JSON bodies of one request, for inferring its response schema.
+// Bodies in file storage are too large to sample and only counted; parsing
+// is left to the caller since JSON keys are not always valid Convex fields.
+export const getExecutionSamples = query({
+  args: {
+    method: httpMethod,
+    url: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return { bodies: [], skipped: 0 };
+
+    const executions = await ctx.db
+      .query("executions")
+      .withIndex("by_user_and_request", (q) =>
+        q.eq("userId", userId).eq("method", args.method).eq("url", args.url)
+      )
+      .order("desc")
+      .take(SAMPLE_LIMIT);
+    const bodies = executions
+      .filter((execution) => execution.status < 300 && execution.contentType?.includes("json"))
+      .flatMap((execution) => (execution.body !== undefined ? [execution.body] : []));
+    return { bodies, skipped: executions.length - bodies.length };
+  },
+});
+
+// The body inline, or a URL to download it from when it is in file storage
+export const getExecutionBody = query({
+  args: { id: v.id("executions") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const execution = await ctx.db.get(args.id);
+    if (!execution) throw new Error("Execution not found");
+    if (execution.userId !== userId) throw new Error("Unauthorized");
+
+    return {
+      body: execution.body,
+      bodyUrl: execution.bodyStorageId ? await ctx.storage.getUrl(execution.bodyStorageId) : null,
+      contentType: execution.contentType,
+    };
+  },
+});
+
+export const deleteExecution = mutation({
+  args: { id: v.id("executions") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const execution = await ctx.db.get(args.id);
+    if (!execution) throw new Error("Execution not found");
+    if (execution.userId !== userId) throw new Error("Unauthorized");
+
+    await removeExecution(ctx, execution);
+  },
+});
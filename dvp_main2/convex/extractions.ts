@@ -0,0 +1,79 @@
+import type { ExtractionResult, ExtractionRule } from "./validators";
+import { readJsonPath } from "./assertions";
+
+// Extraction rules copy values out of a response into variables, so that a
+// login request can hand its token to the requests after it. Shared by the
+// request builder (single sends) and the collection runner.
+
+// Variable names as {{variable}} references accept them
+export const VARIABLE_NAME_PATTERN = /^[\w.-]+$/;
+
+export interface ExtractableResponse {
+  headers: Record<string, string>;
+  data: unknown;
+}
+
+export function describeExtraction(rule: ExtractionRule): string {
+  const source =
+    rule.source === "jsonPath" ? rule.path :
+    rule.source === "header" ? `Header ${rule.name}` :
+    `/${rule.pattern}/`;
+  return `${source} → {{${rule.variable}}}`;
+}
+
+function stringify(value: unknown) {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+// The extracted text, or an error message when there is none
+function extract(rule: ExtractionRule, response: ExtractableResponse): { value?: string; error?: string } {
+  switch (rule.source) {
+    case "jsonPath": {
+      const result = readJsonPath(response.data, rule.path);
+      return result.found && result.value !== undefined
+        ? { value: stringify(result.value) }
+        : { error: `Nothing at ${rule.path}` };
+    }
+    case "header": {
+      const name = rule.name.trim().toLowerCase();
+      const key = Object.keys(response.headers).find((header) => header.toLowerCase() === name);
+      return key === undefined ? { error: `No ${rule.name} header` } : { value: response.headers[key] };
+    }
+    case "regex": {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(rule.pattern);
+      } catch {
+        return { error: `Invalid regular expression: ${rule.pattern}` };
+      }
+      const body = response.data === null || response.data === undefined ? "" : stringify(response.data);
+      const match = regex.exec(body);
+      if (!match) return { error: `No match for /${rule.pattern}/` };
+      return { value: match.length > 1 ? (match[1] ?? "") : match[0] };
+    }
+  }
+}
+
+// Applies the enabled rules in order
+export function applyExtractions(
+  rules: ExtractionRule[] | undefined,
+  response: ExtractableResponse
+): ExtractionResult[] {
+  return (rules ?? [])
+    .filter((rule) => rule.enabled && rule.variable.trim())
+    .map((rule) => ({
+      variable: rule.variable.trim(),
+      scope: rule.scope,
+      description: describeExtraction(rule),
+      ...extract(rule, response),
+    }));
+}
+
+// The extracted values by variable name, later rules winning
+export function extractedValues(results: ExtractionResult[], scope: ExtractionResult["scope"]) {
+  const values: Record<string, string> = {};
+  for (const result of results) {
+    if (result.scope === scope && result.value !== undefined) values[result.variable] = result.value;
+  }
+  return values;
+}
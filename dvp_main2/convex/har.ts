@@ -0,0 +1,223 @@
+import type { HttpMethod, RequestAuth, RequestBody, RequestFields, StoredRequestFields } from "./validators";
+import { DEFAULT_CONTENT_TYPES, normalizeBody } from "./requestBody";
+import { basicCredentials } from "./requestAuth";
+
+// Converts between HAR 1.2 archives and requests. Imported entries become
+// history items; exported requests have an empty response since saved
+// requests do not keep one.
+
+export interface HarEntry extends RequestFields {
+  name: string;
+  createdAt: number;
+}
+
+type Json = any;
+
+const METHODS: HttpMethod[] = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"];
+
+// Set by the browser or by fetch, not by the user
+const SKIPPED_HEADERS = new Set(["host", "content-length", "connection"]);
+
+const text = (value: Json) => (value === undefined || value === null ? "" : String(value));
+
+function nameFor(method: string, url: string) {
+  try {
+    return `${method} ${new URL(url).pathname}`;
+  } catch {
+    return `${method} ${url}`;
+  }
+}
+
+function bodyFromPostData(
+  postData: Json,
+  headers: Record<string, string>,
+  warnings: string[],
+  where: string
+): RequestBody | undefined {
+  if (!postData) return undefined;
+  const mimeType = text(postData.mimeType);
+  const params: Json[] = Array.isArray(postData.params) ? postData.params : [];
+  const content = text(postData.text);
+
+  if (mimeType.includes("application/x-www-form-urlencoded")) {
+    const fields = content
+      ? [...new URLSearchParams(content)].map(([key, value]) => ({ key, value, enabled: true }))
+      : params.map((param) => ({ key: text(param.name), value: text(param.value), enabled: true }));
+    return { type: "formUrlEncoded", fields };
+  }
+  if (mimeType.includes("multipart/form-data") && params.length > 0) {
+    const parts = params.filter((param) => param.fileName === undefined);
+    if (parts.length < params.length) warnings.push(`${where}: file fields were skipped; attach the files again`);
+    // fetch sets a new boundary, so the captured header must go
+    for (const name of Object.keys(headers)) {
+      if (name.toLowerCase() === "content-type") delete headers[name];
+    }
+    return {
+      type: "multipart",
+      parts: parts.map((param) => ({ kind: "text" as const, key: text(param.name), value: text(param.value), enabled: true })),
+    };
+  }
+  if (!content) return undefined;
+  if (mimeType.includes("json")) return { type: "json", content };
+  if (mimeType.includes("xml")) return { type: "xml", content };
+  // Includes multipart bodies captured as text; the header keeps their boundary
+  return { type: "text", content, contentType: mimeType || "text/plain" };
+}
+
+export function fromHar(doc: Json): { entries: HarEntry[]; warnings: string[] } {
+  const harEntries = doc?.log?.entries;
+  if (!Array.isArray(harEntries)) throw new Error("Not a HAR archive: log.entries is missing");
+
+  const warnings: string[] = [];
+  const entries: HarEntry[] = [];
+  harEntries.forEach((entry: Json, index: number) => {
+    const request = entry?.request;
+    const url = text(request?.url);
+    if (!url) return;
+    const method = text(request.method).toUpperCase() as HttpMethod;
+    const where = `Entry ${index + 1} (${url})`;
+    if (!METHODS.includes(method)) {
+      warnings.push(`${where}: ${method} requests are not supported and were skipped`);
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const header of Array.isArray(request.headers) ? request.headers : []) {
+      const name = text(header.name);
+      // HTTP/2 pseudo-headers such as :authority start with a colon
+      if (!name || name.startsWith(":") || SKIPPED_HEADERS.has(name.toLowerCase())) continue;
+      const separator = name.toLowerCase() === "cookie" ? "; " : ", ";
+      headers[name] = headers[name] ? `${headers[name]}${separator}${text(header.value)}` : text(header.value);
+    }
+
+    entries.push({
+      name: nameFor(method, url),
+      url,
+      method,
+      headers,
+      body: bodyFromPostData(request.postData, headers, warnings, where),
+      createdAt: Date.parse(entry.startedDateTime) || Date.now(),
+    });
+  });
+  return { entries, warnings: [...new Set(warnings)] };
+}
+
+const nameValues = (entries: [string, string][]) => entries.map(([name, value]) => ({ name, value }));
+
+// Auth as the headers or query parameter it turns into. OAuth2 tokens are
+// fetched when the request is sent, so there is nothing to add for them.
+function withAuth(url: string, headers: Record<string, string>, auth: RequestAuth | undefined) {
+  switch (auth?.type) {
+    case "bearer":
+      return { url, headers: { ...headers, Authorization: `Bearer ${auth.token}` } };
+    case "basic":
+      return { url, headers: { ...headers, Authorization: basicCredentials(auth.username, auth.password) } };
+    case "apiKey":
+      if (auth.addTo === "query") {
+        return { url: `${url}${url.includes("?") ? "&" : "?"}${auth.key}=${auth.value}`, headers };
+      }
+      return { url, headers: { ...headers, [auth.key]: auth.value } };
+  }
+  return { url, headers };
+}
+
+// The URL is the source of truth for what is sent; disabled params are left out
+function queryStringOf(url: string) {
+  const search = url.split("#")[0].split("?")[1];
+  return search ? nameValues([...new URLSearchParams(search)]) : [];
+}
+
+function toPostData(body: RequestBody | undefined) {
+  switch (body?.type) {
+    case undefined:
+      return undefined;
+    case "json":
+    case "xml":
+      return { mimeType: DEFAULT_CONTENT_TYPES[body.type], text: body.content };
+    case "text":
+      return { mimeType: body.contentType, text: body.content };
+    case "formUrlEncoded": {
+      const fields = body.fields.filter((field) => field.enabled).map((field): [string, string] => [field.key, field.value]);
+      return {
+        mimeType: DEFAULT_CONTENT_TYPES.formUrlEncoded,
+        text: new URLSearchParams(fields).toString(),
+        params: nameValues(fields),
+      };
+    }
+    case "multipart":
+      return {
+        mimeType: "multipart/form-data",
+        text: "",
+        params: body.parts
+          .filter((part) => part.enabled)
+          .map((part) =>
+            part.kind === "text"
+              ? { name: part.key, value: part.value }
+              : { name: part.key, fileName: part.fileName, contentType: part.contentType }
+          ),
+      };
+    case "graphql": {
+      let variables: unknown;
+      try {
+        variables = body.variables.trim() ? JSON.parse(body.variables) : undefined;
+      } catch {
+        variables = undefined;
+      }
+      return {
+        mimeType: DEFAULT_CONTENT_TYPES.graphql,
+        text: JSON.stringify({ query: body.query, variables, operationName: body.operationName }),
+      };
+    }
+    case "binary":
+      return { mimeType: body.contentType ?? DEFAULT_CONTENT_TYPES.binary, text: "", comment: body.fileName };
+  }
+}
+
+export function toHar(requests: (StoredRequestFields & { createdAt: number })[]) {
+  const entries = requests.map((request) => {
+    const body = normalizeBody(request.body);
+    const postData = toPostData(body);
+    const { url, headers } = withAuth(request.url, { ...request.headers }, request.auth);
+    // A multipart header needs the boundary, which only exists once sent
+    if (postData?.mimeType && body?.type !== "multipart" && !Object.keys(headers).some((name) => name.toLowerCase() === "content-type")) {
+      headers["Content-Type"] = postData.mimeType;
+    }
+
+    return {
+      startedDateTime: new Date(request.createdAt).toISOString(),
+      time: 0,
+      request: {
+        method: request.method,
+        url,
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: nameValues(Object.entries(headers)),
+        queryString: queryStringOf(url),
+        postData,
+        headersSize: -1,
+        bodySize: postData ? new TextEncoder().encode(postData.text).length : 0,
+      },
+      response: {
+        status: 0,
+        statusText: "",
+        httpVersion: "",
+        cookies: [],
+        headers: [],
+        content: { size: 0, mimeType: "" },
+        redirectURL: "",
+        headersSize: -1,
+        bodySize: -1,
+      },
+      cache: {},
+      timings: { send: 0, wait: 0, receive: 0 },
+    };
+  });
+
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "DataVision Pro", version: "1.0" },
+      entries,
+    },
+  };
+}
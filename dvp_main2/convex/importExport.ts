@@ -0,0 +1,230 @@
+import { v } from "convex/values";
+import { action, internalMutation, ActionCtx } from "./_generated/server";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { requestFields } from "./validators";
+import { getOwnedCollection, getOwnedFolder, requestsInTreeOrder } from "./collections";
+import { mergeEnvironment } from "./environments";
+import { fromPostmanCollection, toPostmanCollection, PostmanFolder } from "./postman";
+import { fromHar, toHar } from "./har";
+
+// Postman collection and HAR archive import and export. Files travel through
+// Convex storage rather than function arguments so large archives are read,
+// converted and written here in batches without holding up the browser.
+
+// Documents written per mutation
+const BATCH_SIZE = 100;
+
+// Exports are one-off downloads and are deleted after this long
+const EXPORT_TTL_MS = 60 * 60 * 1000;
+
+async function readUpload(ctx: ActionCtx, storageId: Id<"_storage">) {
+  // Request files belong to saved requests and are never import uploads
+  if (await ctx.runQuery(internal.requestFiles.isRequestFile, { storageId })) {
+    throw new Error("Invalid import file");
+  }
+  const blob = await ctx.storage.get(storageId);
+  if (!blob) throw new Error("Uploaded file not found");
+
+  let text: string;
+  try {
+    text = await blob.text();
+  } finally {
+    await ctx.storage.delete(storageId);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+}
+
+async function storeExport(ctx: ActionCtx, content: unknown, fileName: string) {
+  const storageId = await ctx.storage.store(
+    new Blob([JSON.stringify(content, null, 2)], { type: "application/json" })
+  );
+  await ctx.scheduler.runAfter(EXPORT_TTL_MS, internal.importExport.deleteExport, { storageId });
+  const url = await ctx.storage.getUrl(storageId);
+  if (!url) throw new Error("Failed to store export");
+  return { url, fileName };
+}
+
+const safeFileName = (name: string) => name.replace(/[^\w.-]+/g, "_") || "collection";
+
+export const createImportedCollection = internalMutation({
+  args: {
+    name: v.string(),
+    description: v.optional(v.string()),
+    variables: v.array(v.object({ key: v.string(), value: v.string() })),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const collectionId = await ctx.db.insert("collections", {
+      userId,
+      name: args.name,
+      description: args.description,
+      createdAt: Date.now(),
+    });
+    if (args.variables.length > 0) {
+      await mergeEnvironment(ctx, userId, args.name, args.variables);
+    }
+    return collectionId;
+  },
+});
+
+export const createImportedFolder = internalMutation({
+  args: {
+    collectionId: v.id("collections"),
+    parentId: v.optional(v.id("collectionFolders")),
+    name: v.string(),
+    order: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    await getOwnedCollection(ctx, args.collectionId, userId);
+
+    return await ctx.db.insert("collectionFolders", { userId, ...args, createdAt: Date.now() });
+  },
+});
+
+export const insertImportedRequests = internalMutation({
+  args: {
+    collectionId: v.id("collections"),
+    folderId: v.optional(v.id("collectionFolders")),
+    // Order of the first request; the rest follow
+    order: v.number(),
+    requests: v.array(v.object({ name: v.string(), ...requestFields })),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    await getOwnedCollection(ctx, args.collectionId, userId);
+    if (args.folderId) await getOwnedFolder(ctx, args.folderId, userId);
+
+    const now = Date.now();
+    for (const [index, request] of args.requests.entries()) {
+      await ctx.db.insert("savedRequests", {
+        userId,
+        collectionId: args.collectionId,
+        folderId: args.folderId,
+        order: args.order + index,
+        ...request,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  },
+});
+
+export const insertHistoryEntries = internalMutation({
+  args: {
+    entries: v.array(v.object({ name: v.string(), createdAt: v.number(), ...requestFields })),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    for (const entry of args.entries) {
+      await ctx.db.insert("apiHistory", { userId, ...entry });
+    }
+  },
+});
+
+export const deleteExport = internalMutation({
+  args: { storageId: v.id("_storage") },
+  handler: async (ctx, args) => {
+    await ctx.storage.delete(args.storageId);
+  },
+});
+
+async function importPostmanFolder(
+  ctx: ActionCtx,
+  collectionId: Id<"collections">,
+  folder: Omit<PostmanFolder, "name">,
+  parentId?: Id<"collectionFolders">
+): Promise<number> {
+  let imported = 0;
+  for (const [order, child] of folder.folders.entries()) {
+    const folderId: Id<"collectionFolders"> = await ctx.runMutation(internal.importExport.createImportedFolder, {
+      collectionId,
+      parentId,
+      name: child.name,
+      order,
+    });
+    imported += await importPostmanFolder(ctx, collectionId, child, folderId);
+  }
+  for (let start = 0; start < folder.requests.length; start += BATCH_SIZE) {
+    await ctx.runMutation(internal.importExport.insertImportedRequests, {
+      collectionId,
+      folderId: parentId,
+      order: start,
+      requests: folder.requests.slice(start, start + BATCH_SIZE),
+    });
+  }
+  return imported + folder.requests.length;
+}
+
+// Imports an uploaded Postman collection (into a new collection, with its
+// variables as an environment) or HAR archive (into the request history)
+export const importFile = action({
+  args: { storageId: v.id("_storage") },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ format: "postman" | "har"; imported: number; collectionId?: Id<"collections">; warnings: string[] }> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const doc = await readUpload(ctx, args.storageId);
+    if (doc?.log) {
+      const { entries, warnings } = fromHar(doc);
+      for (let start = 0; start < entries.length; start += BATCH_SIZE) {
+        await ctx.runMutation(internal.importExport.insertHistoryEntries, {
+          entries: entries.slice(start, start + BATCH_SIZE),
+        });
+      }
+      return { format: "har", imported: entries.length, warnings };
+    }
+
+    const { name, description, variables, warnings, ...tree } = fromPostmanCollection(doc);
+    const collectionId: Id<"collections"> = await ctx.runMutation(internal.importExport.createImportedCollection, {
+      name,
+      description,
+      variables,
+    });
+    const imported = await importPostmanFolder(ctx, collectionId, tree);
+    return { format: "postman", imported, collectionId, warnings };
+  },
+});
+
+async function getContents(ctx: ActionCtx, collectionId: Id<"collections">) {
+  const contents = await ctx.runQuery(api.collections.getCollectionContents, { collectionId });
+  if (!contents) throw new Error("Collection not found");
+  return contents;
+}
+
+// Writes a collection as a Postman v2.1 collection and returns a download URL
+export const exportPostmanCollection = action({
+  args: { collectionId: v.id("collections") },
+  handler: async (ctx, args): Promise<{ url: string; fileName: string }> => {
+    const { collection, folders, requests } = await getContents(ctx, args.collectionId);
+    return await storeExport(
+      ctx,
+      toPostmanCollection(collection, folders, requests),
+      `${safeFileName(collection.name)}.postman_collection.json`
+    );
+  },
+});
+
+// Writes a collection's requests, in tree order, as a HAR 1.2 archive
+export const exportHar = action({
+  args: { collectionId: v.id("collections") },
+  handler: async (ctx, args): Promise<{ url: string; fileName: string }> => {
+    const { collection, folders, requests } = await getContents(ctx, args.collectionId);
+    return await storeExport(ctx, toHar(requestsInTreeOrder(folders, requests)), `${safeFileName(collection.name)}.har`);
+  },
+});
@@ -0,0 +1,279 @@
+import type { ResponseSchema, SchemaViolation } from "./validators";
+
+// JSON Schema for response contracts: inferring a schema from sample
+// responses, and validating responses against an inferred or hand-written
+// one. Validation covers the common draft 2020-12 keywords (types, enums,
+// objects, arrays, strings, numbers, combinators and local $refs); other
+// keywords are ignored rather than rejected.
+
+export const SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+// Validation stops collecting after this many violations
+export const MAX_VIOLATIONS = 100;
+
+// Strings are inferred as an enum when at most this many distinct values
+// each appear at least twice
+const ENUM_MAX_VALUES = 5;
+
+// Guards against $refs that point back at themselves
+const MAX_DEPTH = 64;
+
+type SchemaObject = { [keyword: string]: unknown };
+export type JsonSchema = boolean | SchemaObject;
+
+const FORMATS: Record<string, RegExp> = {
+  "date-time": /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  uri: /^[a-z][a-z\d+.-]*:\/\/\S+$/i,
+  ipv4: /^((25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(25[0-5]|2[0-4]\d|1?\d?\d)$/,
+};
+
+// Order of types in inferred `type` lists
+const TYPE_ORDER = ["object", "array", "string", "number", "integer", "boolean", "null"];
+
+function jsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Keys such as "constructor" or "toString" only count when set on the object
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+function inferFormat(strings: string[]) {
+  return Object.keys(FORMATS).find((format) => strings.every((text) => FORMATS[format].test(text)));
+}
+
+// The schema of every value that appeared at one place in the samples
+function inferValues(values: unknown[]): SchemaObject {
+  const types = new Set(values.map(jsonType));
+  if (types.has("number")) types.delete("integer");
+  if (types.size === 0) return {};
+
+  const typeList = TYPE_ORDER.filter((type) => types.has(type));
+  const schema: SchemaObject = { type: typeList.length === 1 ? typeList[0] : typeList };
+
+  const strings = values.filter((value): value is string => typeof value === "string");
+  if (strings.length > 0) {
+    const format = inferFormat(strings);
+    const distinct = [...new Set(strings)];
+    if (format) {
+      schema.format = format;
+    } else if (distinct.length <= ENUM_MAX_VALUES && strings.length >= distinct.length * 2) {
+      schema.enum = [...distinct, ...(types.has("null") ? [null] : [])];
+    }
+  }
+
+  const objects = values.filter(isObject);
+  if (objects.length > 0) {
+    const keys = [...new Set(objects.flatMap((object) => Object.keys(object)))];
+    schema.properties = Object.fromEntries(
+      keys.map((key) => [key, inferValues(objects.filter((object) => key in object).map((object) => object[key]))])
+    );
+    const required = keys.filter((key) => objects.every((object) => key in object));
+    if (required.length > 0) schema.required = required;
+  }
+
+  const arrays = values.filter(Array.isArray);
+  if (arrays.length > 0) {
+    const items = arrays.flat();
+    if (items.length > 0) schema.items = inferValues(items);
+  }
+  return schema;
+}
+
+// A schema every sample matches. Fields are required when every sample has
+// them and nullable when any sample has null there.
+export function inferSchema(samples: unknown[]): SchemaObject {
+  return { $schema: SCHEMA_DIALECT, ...inferValues(samples) };
+}
+
+export function parseSchema(text: string): { schema: JsonSchema } | { error: string } {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Invalid JSON" };
+  }
+  if (typeof schema !== "boolean" && !isObject(schema)) return { error: "A schema must be an object or a boolean" };
+  return { schema };
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => key in b && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+const childPath = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}['${key}']`;
+
+const preview = (value: unknown) => {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+};
+
+// Resolves `#` and `#/json/pointer` references within the root schema
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | undefined {
+  if (!ref.startsWith("#")) return undefined;
+  let current: unknown = root;
+  for (const part of ref.slice(1).split("/").filter(Boolean)) {
+    const key = decodeURIComponent(part).replace(/~1/g, "/").replace(/~0/g, "~");
+    if (!isObject(current) && !Array.isArray(current)) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return typeof current === "boolean" || isObject(current) ? current : undefined;
+}
+
+function check(
+  root: JsonSchema,
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  out: SchemaViolation[],
+  depth: number
+) {
+  if (out.length >= MAX_VIOLATIONS) return;
+  const fail = (message: string) => {
+    if (out.length < MAX_VIOLATIONS) out.push({ path, message });
+  };
+  if (schema === true) return;
+  if (schema === false) return fail("No value is allowed here");
+  if (depth > MAX_DEPTH) return fail("Schema nests too deeply");
+  const sub = (subschema: unknown, subValue: unknown, subPath: string, into = out) => {
+    if (typeof subschema === "boolean" || isObject(subschema)) check(root, subschema, subValue, subPath, into, depth + 1);
+  };
+  // Violations a subschema would report, without reporting them
+  const violationsOf = (subschema: unknown) => {
+    const found: SchemaViolation[] = [];
+    sub(subschema, value, path, found);
+    return found;
+  };
+
+  if (typeof schema.$ref === "string") {
+    const target = resolveRef(root, schema.$ref);
+    if (target === undefined) fail(`Cannot resolve $ref ${schema.$ref}`);
+    else sub(target, value, path);
+  }
+
+  const actual = jsonType(value);
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches =
+      allowed.includes(actual) ||
+      (actual === "integer" && allowed.includes("number")) ||
+      // OpenAPI 3.0 marks nullable fields this way
+      (actual === "null" && schema.nullable === true);
+    if (!matches) return fail(`Expected ${allowed.join(" or ")}, got ${actual === "integer" ? "number" : actual}`);
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqual(option, value))) {
+    fail(`Must be one of ${schema.enum.map(preview).join(", ")}, got ${preview(value)}`);
+  }
+  if ("const" in schema && !deepEqual(schema.const, value)) {
+    fail(`Must be ${preview(schema.const)}, got ${preview(value)}`);
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      fail(`Shorter than ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      fail(`Longer than ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === "string") {
+      try {
+        if (!new RegExp(schema.pattern, "u").test(value)) fail(`Does not match /${schema.pattern}/`);
+      } catch {
+        fail(`Invalid pattern /${schema.pattern}/`);
+      }
+    }
+    if (typeof schema.format === "string" && FORMATS[schema.format] && !FORMATS[schema.format].test(value)) {
+      fail(`Not a valid ${schema.format}: ${preview(value)}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) fail(`Less than ${schema.minimum}`);
+    if (typeof schema.maximum === "number" && value > schema.maximum) fail(`Greater than ${schema.maximum}`);
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+      fail(`Not greater than ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+      fail(`Not less than ${schema.exclusiveMaximum}`);
+    }
+    if (typeof schema.multipleOf === "number" && schema.multipleOf > 0 && !Number.isInteger(value / schema.multipleOf)) {
+      fail(`Not a multiple of ${schema.multipleOf}`);
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = isObject(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (typeof key === "string" && !hasOwn(value, key)) {
+          if (out.length < MAX_VIOLATIONS) out.push({ path: childPath(path, key), message: "Required property is missing" });
+        }
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      if (hasOwn(properties, key)) {
+        sub(properties[key], item, childPath(path, key));
+      } else if (schema.additionalProperties === false) {
+        if (out.length < MAX_VIOLATIONS) out.push({ path: childPath(path, key), message: "Property is not allowed" });
+      } else if (isObject(schema.additionalProperties)) {
+        sub(schema.additionalProperties, item, childPath(path, key));
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) fail(`Fewer than ${schema.minItems} items`);
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) fail(`More than ${schema.maxItems} items`);
+    if (schema.uniqueItems === true && value.some((item, i) => value.findIndex((other) => deepEqual(other, item)) !== i)) {
+      fail("Items are not unique");
+    }
+    // Tuples: `prefixItems`, or an `items` array in older drafts
+    const prefix = Array.isArray(schema.prefixItems) ? schema.prefixItems : Array.isArray(schema.items) ? schema.items : [];
+    value.forEach((item, i) => {
+      if (i < prefix.length) sub(prefix[i], item, childPath(path, i));
+      else if (!Array.isArray(schema.items) && schema.items !== undefined) sub(schema.items, item, childPath(path, i));
+    });
+  }
+
+  if (Array.isArray(schema.allOf)) schema.allOf.forEach((subschema) => sub(subschema, value, path));
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some((subschema) => violationsOf(subschema).length === 0)) {
+    fail("Does not match any of the allowed schemas (anyOf)");
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matching = schema.oneOf.filter((subschema) => violationsOf(subschema).length === 0).length;
+    if (matching !== 1) fail(`Matches ${matching} of the oneOf schemas instead of exactly one`);
+  }
+  if (schema.not !== undefined && violationsOf(schema.not).length === 0) fail("Matches a schema it must not match (not)");
+}
+
+// Where `data` breaks `schema`, as JSON paths such as `$.items[0].id`
+export function validateSchema(schema: JsonSchema, data: unknown): SchemaViolation[] {
+  const out: SchemaViolation[] = [];
+  check(schema, schema, data, "$", out, 0);
+  return out;
+}
+
+// Checks a response body against a request's saved contract. Undefined when
+// the request has none.
+export function validateResponse(contract: ResponseSchema | undefined, response: { data: unknown }) {
+  if (!contract) return undefined;
+  const parsed = parseSchema(contract.schema);
+  if ("error" in parsed) return [{ path: "$", message: `The saved schema is invalid: ${parsed.error}` }];
+  return validateSchema(parsed.schema, response.data);
+}
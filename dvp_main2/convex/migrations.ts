@@ -0,0 +1,48 @@
+import { v } from "convex/values";
+import { internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { normalizeBody } from "./requestBody";
+import { countRun } from "./monitors";
+
+// One-off data migrations. Run with `npx convex run migrations:<name>`.
+
+// Rewrites plain-string bodies saved before bodies were typed into
+// `{ type: "json", content }`.
+export const migrateRequestBodies = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    let migrated = 0;
+    for (const table of ["apiHistory", "savedRequests"] as const) {
+      for await (const doc of ctx.db.query(table)) {
+        if (typeof doc.body === "string") {
+          await ctx.db.patch(doc._id, { body: normalizeBody(doc.body) });
+          migrated++;
+        }
+      }
+    }
+    return { migrated };
+  },
+});
+
+// Counts monitor runs recorded before monitorStats existed. Pass the time
+// that version was deployed as `until`; later runs were counted already.
+// Continues itself a page at a time.
+export const backfillMonitorStats = internalMutation({
+  args: { until: v.number(), cursor: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("monitorRuns")
+      .paginate({ numItems: 200, cursor: args.cursor ?? null });
+    for (const run of page.page) {
+      if (run.createdAt < args.until && (await ctx.db.get(run.monitorId))) {
+        await countRun(ctx, run.monitorId, run);
+      }
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.migrations.backfillMonitorStats, {
+        until: args.until,
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
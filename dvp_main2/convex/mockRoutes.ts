@@ -0,0 +1,104 @@
+import { resolveVariables } from "./variables";
+
+// Path patterns and body templates for mock endpoints. A pattern is a path
+// whose segments may be `:name` parameters; a final `*` matches the rest of
+// the path, available as the `wildcard` parameter. Shared by the HTTP router
+// and the mock editor.
+
+// Requests to /mock/<prefix>/<path> are served from the owner's mocks
+export const MOCK_PATH_PREFIX = "/mock/";
+
+export const MAX_MOCK_DELAY_MS = 10 * 1000;
+
+const PARAM_SEGMENT = /^:(\w+)$/;
+
+export function normalizeMockPath(path: string) {
+  const segments = path.split("/").filter(Boolean);
+  return `/${segments.join("/")}`;
+}
+
+// Why a pattern is invalid, or null when it is fine
+export function mockPathError(pattern: string): string | null {
+  const segments = normalizeMockPath(pattern).split("/").filter(Boolean);
+  const names = new Set<string>();
+  for (const [index, segment] of segments.entries()) {
+    if (segment === "*") {
+      if (index !== segments.length - 1) return "* may only be the last segment";
+      continue;
+    }
+    if (segment.startsWith(":")) {
+      const name = PARAM_SEGMENT.exec(segment)?.[1];
+      if (!name) return `Invalid parameter "${segment}"`;
+      if (names.has(name)) return `Parameter ":${name}" is used twice`;
+      names.add(name);
+    } else if (/[?#\s]/.test(segment)) {
+      return `Invalid segment "${segment}"`;
+    }
+  }
+  return null;
+}
+
+function safeDecode(segment: string) {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+// The parameters of `path` when it matches `pattern`, otherwise null
+export function matchMockPath(pattern: string, path: string): Record<string, string> | null {
+  const expected = normalizeMockPath(pattern).split("/").filter(Boolean);
+  const actual = normalizeMockPath(path).split("/").filter(Boolean);
+  const params: Record<string, string> = {};
+
+  for (const [index, segment] of expected.entries()) {
+    if (segment === "*") {
+      params.wildcard = actual.slice(index).join("/");
+      return params;
+    }
+    if (index >= actual.length) return null;
+    const name = PARAM_SEGMENT.exec(segment)?.[1];
+    if (name) {
+      params[name] = safeDecode(actual[index]);
+    } else if (segment !== actual[index]) {
+      return null;
+    }
+  }
+  return expected.length === actual.length ? params : null;
+}
+
+// Sorts more specific patterns first: literal segments beat parameters,
+// which beat a wildcard
+export function compareMockPaths(a: string, b: string) {
+  const score = (segment: string) => (segment === "*" ? 0 : segment.startsWith(":") ? 1 : 2);
+  const left = normalizeMockPath(a).split("/").filter(Boolean).map(score);
+  const right = normalizeMockPath(b).split("/").filter(Boolean).map(score);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (right[i] ?? -1) - (left[i] ?? -1);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+export interface MockRequestContext {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+}
+
+// Fills {{params.id}}, {{query.page}}, {{headers.x-api-key}}, {{now}},
+// {{timestamp}} and {{uuid}}. Unknown placeholders are left as written.
+export function renderMockTemplate(template: string, context: MockRequestContext) {
+  const vars: Record<string, string> = {
+    now: new Date().toISOString(),
+    timestamp: String(Date.now()),
+    uuid: crypto.randomUUID(),
+  };
+  for (const [scope, values] of Object.entries(context)) {
+    for (const [name, value] of Object.entries(values as Record<string, string>)) {
+      vars[`${scope}.${name}`] = value;
+    }
+  }
+  return resolveVariables(template, vars).value;
+}
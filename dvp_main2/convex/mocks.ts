@@ -0,0 +1,288 @@
+import { v } from "convex/values";
+import { mutation, query, internalMutation, internalQuery, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { HttpMethod, httpMethod, MockEndpoint, mockEndpointFields } from "./validators";
+import { compareMockPaths, matchMockPath, MAX_MOCK_DELAY_MS, MOCK_PATH_PREFIX, mockPathError, normalizeMockPath } from "./mockRoutes";
+
+// Mock endpoints and their request log. The HTTP router (router.ts) serves
+// them; everything else here backs the mock editor.
+
+// Log entries kept per user
+const LOG_LIMIT = 200;
+
+// Old entries removed per logged request
+const LOG_TRIM_BATCH = 10;
+
+// Logged request bodies are cut to this many characters
+const LOGGED_BODY_LIMIT = 16 * 1024;
+
+// Response headers that describe the original transfer rather than the body
+const SKIPPED_RESPONSE_HEADERS = [
+  "connection",
+  "content-encoding",
+  "content-length",
+  "date",
+  "keep-alive",
+  "set-cookie",
+  "transfer-encoding",
+];
+
+const newPrefix = () => crypto.randomUUID().replace(/-/g, "").slice(0, 16);
+
+const mockBaseUrl = (prefix: string) => `${process.env.CONVEX_SITE_URL ?? ""}${MOCK_PATH_PREFIX}${prefix}`;
+
+async function ensureMockServer(ctx: MutationCtx, userId: Id<"users">) {
+  const existing = await ctx.db
+    .query("mockServers")
+    .withIndex("by_user_id", (q) => q.eq("userId", userId))
+    .unique();
+  if (!existing) {
+    await ctx.db.insert("mockServers", { userId, prefix: newPrefix(), createdAt: Date.now() });
+  }
+}
+
+// Returns the endpoint with its path normalized, or throws
+function validateMock(mock: MockEndpoint): MockEndpoint {
+  if (!mock.name.trim()) throw new Error("Mock name is required");
+  const pathError = mockPathError(mock.path);
+  if (pathError) throw new Error(pathError);
+  if (!Number.isInteger(mock.status) || mock.status < 100 || mock.status > 599) {
+    throw new Error("Status must be between 100 and 599");
+  }
+  if (mock.delayMs < 0 || mock.delayMs > MAX_MOCK_DELAY_MS) {
+    throw new Error(`Delay must be between 0 and ${MAX_MOCK_DELAY_MS} ms`);
+  }
+  return { ...mock, name: mock.name.trim(), path: normalizeMockPath(mock.path) };
+}
+
+export const getMockServer = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const server = await ctx.db
+      .query("mockServers")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .unique();
+    return server ? { prefix: server.prefix, baseUrl: mockBaseUrl(server.prefix) } : null;
+  },
+});
+
+// Moves the mocks to a new prefix; the old URLs stop working
+export const regenerateMockPrefix = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const server = await ctx.db
+      .query("mockServers")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .unique();
+    if (!server) throw new Error("Mock server not found");
+    await ctx.db.patch(server._id, { prefix: newPrefix() });
+  },
+});
+
+export const listMockEndpoints = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const mocks = await ctx.db
+      .query("mockEndpoints")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .collect();
+    return mocks.sort((a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method));
+  },
+});
+
+export const createMockEndpoint = mutation({
+  args: mockEndpointFields,
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    await ensureMockServer(ctx, userId);
+    const now = Date.now();
+    return await ctx.db.insert("mockEndpoints", { userId, ...validateMock(args), createdAt: now, updatedAt: now });
+  },
+});
+
+export const updateMockEndpoint = mutation({
+  args: {
+    id: v.id("mockEndpoints"),
+    ...mockEndpointFields,
+  },
+  handler: async (ctx, { id, ...args }) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const mock = await ctx.db.get(id);
+    if (!mock) throw new Error("Mock not found");
+    if (mock.userId !== userId) throw new Error("Unauthorized");
+
+    await ctx.db.patch(id, { ...validateMock(args), updatedAt: Date.now() });
+  },
+});
+
+export const deleteMockEndpoint = mutation({
+  args: { id: v.id("mockEndpoints") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const mock = await ctx.db.get(args.id);
+    if (!mock) throw new Error("Mock not found");
+    if (mock.userId !== userId) throw new Error("Unauthorized");
+
+    await ctx.db.delete(args.id);
+  },
+});
+
+// Turns a recorded response into a mock of the same method and path
+export const createMockFromExecution = mutation({
+  args: { executionId: v.id("executions") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const execution = await ctx.db.get(args.executionId);
+    if (!execution) throw new Error("Execution not found");
+    if (execution.userId !== userId) throw new Error("Unauthorized");
+    if (execution.bodyStorageId) {
+      throw new Error("Only text responses kept inline can be turned into mocks");
+    }
+
+    let path = "/";
+    try {
+      path = new URL(execution.resolvedUrl).pathname;
+    } catch {
+      // Keep the root path for URLs that no longer parse
+    }
+    const headers = Object.fromEntries(
+      Object.entries(execution.headers).filter(([name]) => !SKIPPED_RESPONSE_HEADERS.includes(name.toLowerCase()))
+    );
+
+    await ensureMockServer(ctx, userId);
+    const now = Date.now();
+    return await ctx.db.insert("mockEndpoints", {
+      userId,
+      ...validateMock({
+        name: `${execution.method} ${path}`,
+        method: execution.method,
+        path,
+        status: execution.status,
+        headers,
+        body: execution.body ?? "",
+        delayMs: 0,
+        enabled: true,
+      }),
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// The enabled mock for a request to /mock/<prefix><path>. HEAD requests fall
+// back to GET mocks. Returns null when the prefix is unknown.
+export const findMock = internalQuery({
+  args: {
+    prefix: v.string(),
+    method: v.string(),
+    path: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const server = await ctx.db
+      .query("mockServers")
+      .withIndex("by_prefix", (q) => q.eq("prefix", args.prefix))
+      .unique();
+    if (!server) return null;
+
+    // Mocks only exist for the standard methods
+    const methods = (args.method === "HEAD" ? ["HEAD", "GET"] : [args.method]).filter((method): method is HttpMethod =>
+      httpMethod.members.some((member) => member.value === method)
+    );
+    const mocks = (
+      await Promise.all(
+        methods.map((method) =>
+          ctx.db
+            .query("mockEndpoints")
+            .withIndex("by_user_and_method", (q) => q.eq("userId", server.userId).eq("method", method))
+            .collect()
+        )
+      )
+    ).flat();
+    const candidates = mocks
+      .filter((mock) => mock.enabled)
+      .flatMap((mock) => {
+        const params = matchMockPath(mock.path, args.path);
+        return params ? [{ mock, params }] : [];
+      })
+      .sort(
+        (a, b) =>
+          methods.indexOf(a.mock.method) - methods.indexOf(b.mock.method) || compareMockPaths(a.mock.path, b.mock.path)
+      );
+    return { userId: server.userId, match: candidates[0] ?? null };
+  },
+});
+
+export const logMockRequest = internalMutation({
+  args: {
+    userId: v.id("users"),
+    mockId: v.optional(v.id("mockEndpoints")),
+    method: v.string(),
+    path: v.string(),
+    query: v.string(),
+    headers: v.record(v.string(), v.string()),
+    body: v.optional(v.string()),
+    status: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.insert("mockRequests", {
+      ...args,
+      body: args.body?.slice(0, LOGGED_BODY_LIMIT),
+      createdAt: Date.now(),
+    });
+
+    // One entry is added per call, so a few beyond the limit is all there
+    // is to trim
+    const entries = await ctx.db
+      .query("mockRequests")
+      .withIndex("by_user_and_date", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .take(LOG_LIMIT + LOG_TRIM_BATCH);
+    await Promise.all(entries.slice(LOG_LIMIT).map((entry) => ctx.db.delete(entry._id)));
+  },
+});
+
+export const listMockRequests = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    return await ctx.db
+      .query("mockRequests")
+      .withIndex("by_user_and_date", (q) => q.eq("userId", userId))
+      .order("desc")
+      .take(LOG_LIMIT);
+  },
+});
+
+export const clearMockRequests = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const entries = await ctx.db
+      .query("mockRequests")
+      .withIndex("by_user_and_date", (q) => q.eq("userId", userId))
+      .collect();
+    await Promise.all(entries.map((entry) => ctx.db.delete(entry._id)));
+  },
+});
@@ -0,0 +1,459 @@
+import { v } from "convex/values";
+import { mutation, query, internalMutation, internalQuery, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { monitorOutcome } from "./validators";
+import { evaluateAlertRules } from "./alerts";
+
+// Monitors send a saved request every `intervalMinutes`. Each run is an
+// `apiTester.runMonitor` scheduled by the previous one; the monitor's
+// `runToken` identifies the current chain so that rescheduling (or
+// disabling) a monitor makes any run already queued do nothing. A cron
+// (crons.ts) restarts chains that broke because a run failed.
+//
+// Uptime and latency come from per-hour and per-day counts in
+// `monitorStats` rather than from the runs themselves: a 1-minute monitor
+// records about 43k runs in 30 days, more than one query may read.
+
+const MIN_INTERVAL_MINUTES = 1;
+const MAX_INTERVAL_MINUTES = 24 * 60;
+
+// Runs older than this are deleted as new ones are recorded
+const HISTORY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Expired runs deleted per recorded run, to keep the mutation small
+const PRUNE_BATCH = 20;
+
+// Runs returned with a monitor's stats
+const RECENT_RUNS = 50;
+
+const STATS_PERIOD_MS = { hour: 60 * 60 * 1000, day: 24 * 60 * 60 * 1000 };
+type StatsPeriod = keyof typeof STATS_PERIOD_MS;
+
+// Windows up to this long are summarized from hourly counts, longer ones
+// from daily counts
+const HOURLY_STATS_MAX_HOURS = 7 * 24;
+
+// Upper bounds of the latency histogram buckets; slower runs go in one more
+// bucket after the last. Percentiles are reported as a bucket's bound, or
+// as the slowest run for that last bucket.
+const LATENCY_BOUNDS_MS = [
+  5, 10, 20, 30, 40, 50, 75, 100, 125, 150, 200, 250, 300, 400, 500, 600, 750, 1000, 1250, 1500, 2000, 2500, 3000,
+  4000, 5000, 7500, 10000, 15000, 20000, 30000, 60000,
+];
+
+// A monitor whose run is this late is restarted by the cron
+const STALL_GRACE_MS = 10 * 60 * 1000;
+
+// Monitors checked per cron run
+const SWEEP_BATCH = 100;
+
+// Runs or counts deleted per mutation when a monitor is removed
+const HISTORY_DELETE_BATCH = 500;
+
+function validateInterval(intervalMinutes: number) {
+  if (
+    !Number.isInteger(intervalMinutes) ||
+    intervalMinutes < MIN_INTERVAL_MINUTES ||
+    intervalMinutes > MAX_INTERVAL_MINUTES
+  ) {
+    throw new Error(`Interval must be between ${MIN_INTERVAL_MINUTES} and ${MAX_INTERVAL_MINUTES} minutes`);
+  }
+}
+
+async function getOwnedMonitor(ctx: MutationCtx, id: Id<"monitors">, userId: Id<"users">) {
+  const monitor = await ctx.db.get(id);
+  if (!monitor) throw new Error("Monitor not found");
+  if (monitor.userId !== userId) throw new Error("Unauthorized");
+  return monitor;
+}
+
+async function cancelQueuedRun(ctx: MutationCtx, monitor: Doc<"monitors">) {
+  if (!monitor.scheduledRunId) return;
+  const scheduled = await ctx.db.system.get(monitor.scheduledRunId);
+  if (scheduled?.state.kind === "pending") await ctx.scheduler.cancel(monitor.scheduledRunId);
+}
+
+// Cancels the queued run, if any, and queues a new one after `delayMs`
+// unless the monitor is disabled
+async function reschedule(ctx: MutationCtx, monitor: Doc<"monitors">, enabled: boolean, delayMs: number) {
+  await cancelQueuedRun(ctx, monitor);
+
+  const runToken = crypto.randomUUID();
+  const scheduledRunId = enabled
+    ? await ctx.scheduler.runAfter(delayMs, internal.apiTester.runMonitor, { monitorId: monitor._id, runToken })
+    : undefined;
+  const nextRunAt = enabled ? Date.now() + delayMs : undefined;
+  await ctx.db.patch(monitor._id, { enabled, runToken, scheduledRunId, nextRunAt });
+}
+
+// Deletes a monitor with its alert rules; its runs and counts are deleted
+// in batches afterwards. Also used when the monitored request is deleted.
+export async function removeMonitor(ctx: MutationCtx, monitor: Doc<"monitors">) {
+  await cancelQueuedRun(ctx, monitor);
+  const rules = await ctx.db
+    .query("alertRules")
+    .withIndex("by_monitor_id", (q) => q.eq("monitorId", monitor._id))
+    .collect();
+  await Promise.all(rules.map((rule) => ctx.db.delete(rule._id)));
+  await ctx.db.delete(monitor._id);
+  await ctx.scheduler.runAfter(0, internal.monitors.deleteMonitorHistory, { monitorId: monitor._id });
+}
+
+// Removes the monitors of a saved request that is being deleted
+export async function removeRequestMonitors(ctx: MutationCtx, savedRequestId: Id<"savedRequests">) {
+  const monitors = await ctx.db
+    .query("monitors")
+    .withIndex("by_saved_request_id", (q) => q.eq("savedRequestId", savedRequestId))
+    .collect();
+  for (const monitor of monitors) await removeMonitor(ctx, monitor);
+}
+
+function latencyBucket(durationMs: number) {
+  const index = LATENCY_BOUNDS_MS.findIndex((bound) => durationMs <= bound);
+  return index === -1 ? LATENCY_BOUNDS_MS.length : index;
+}
+
+// Adds a run to the hour and the day it falls in
+export async function countRun(
+  ctx: MutationCtx,
+  monitorId: Id<"monitors">,
+  run: { createdAt: number; outcome: Doc<"monitorRuns">["outcome"]; durationMs?: number }
+) {
+  for (const period of ["hour", "day"] as const) {
+    const start = run.createdAt - (run.createdAt % STATS_PERIOD_MS[period]);
+    const existing = await ctx.db
+      .query("monitorStats")
+      .withIndex("by_monitor_period_and_start", (q) =>
+        q.eq("monitorId", monitorId).eq("period", period).eq("start", start)
+      )
+      .unique();
+    const latencyCounts = existing?.latencyCounts ?? Array<number>(LATENCY_BOUNDS_MS.length + 1).fill(0);
+    const counts = {
+      runs: (existing?.runs ?? 0) + 1,
+      up: (existing?.up ?? 0) + (run.outcome === "up" ? 1 : 0),
+      timedRuns: (existing?.timedRuns ?? 0) + (run.durationMs === undefined ? 0 : 1),
+      totalDurationMs: (existing?.totalDurationMs ?? 0) + (run.durationMs ?? 0),
+      maxDurationMs: Math.max(existing?.maxDurationMs ?? 0, run.durationMs ?? 0),
+      latencyCounts:
+        run.durationMs === undefined
+          ? latencyCounts
+          : latencyCounts.map((count, index) => (index === latencyBucket(run.durationMs!) ? count + 1 : count)),
+    };
+    if (existing) {
+      await ctx.db.patch(existing._id, counts);
+    } else {
+      await ctx.db.insert("monitorStats", { monitorId, period, start, ...counts });
+    }
+  }
+}
+
+// Counts since `since`, to the start of the hour or day it falls in
+async function loadStats(ctx: QueryCtx, monitorId: Id<"monitors">, period: StatsPeriod, since: number) {
+  const from = since - (since % STATS_PERIOD_MS[period]);
+  return await ctx.db
+    .query("monitorStats")
+    .withIndex("by_monitor_period_and_start", (q) =>
+      q.eq("monitorId", monitorId).eq("period", period).gte("start", from)
+    )
+    .collect();
+}
+
+const statsPeriodFor = (windowHours: number): StatsPeriod =>
+  windowHours <= HOURLY_STATS_MAX_HOURS ? "hour" : "day";
+
+// The bucket bound below which `fraction` of the counted runs fall
+function percentile(counts: number[], maxDurationMs: number, fraction: number) {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return null;
+  const target = Math.max(1, Math.ceil(fraction * total));
+  let seen = 0;
+  const index = counts.findIndex((count) => (seen += count) >= target);
+  return Math.min(LATENCY_BOUNDS_MS[index] ?? maxDurationMs, maxDurationMs);
+}
+
+function summarizeStats(stats: Doc<"monitorStats">[]) {
+  const runs = stats.reduce((sum, bucket) => sum + bucket.runs, 0);
+  const up = stats.reduce((sum, bucket) => sum + bucket.up, 0);
+  const counts = Array<number>(LATENCY_BOUNDS_MS.length + 1).fill(0);
+  stats.forEach((bucket) => bucket.latencyCounts.forEach((count, index) => (counts[index] += count)));
+  const maxDurationMs = Math.max(0, ...stats.map((bucket) => bucket.maxDurationMs));
+  return {
+    runs,
+    uptime: runs > 0 ? (up / runs) * 100 : null,
+    p50: percentile(counts, maxDurationMs, 0.5),
+    p90: percentile(counts, maxDurationMs, 0.9),
+    p95: percentile(counts, maxDurationMs, 0.95),
+    p99: percentile(counts, maxDurationMs, 0.99),
+  };
+}
+
+// The user's monitors with uptime and latency over the last `windowHours`
+export const listMonitors = query({
+  args: { windowHours: v.number() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const since = Date.now() - args.windowHours * 60 * 60 * 1000;
+    const monitors = await ctx.db
+      .query("monitors")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .collect();
+
+    return await Promise.all(
+      monitors.map(async (monitor) => {
+        const request = await ctx.db.get(monitor.savedRequestId);
+        const stats = await loadStats(ctx, monitor._id, statsPeriodFor(args.windowHours), since);
+        return {
+          ...monitor,
+          request: request ? { name: request.name, method: request.method, url: request.url } : null,
+          stats: summarizeStats(stats),
+        };
+      })
+    );
+  },
+});
+
+// Hourly uptime and average latency of one monitor over the last
+// `windowHours`, oldest first, with the same stats as listMonitors and the
+// most recent runs newest first
+export const getMonitorRuns = query({
+  args: { monitorId: v.id("monitors"), windowHours: v.number() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+    const monitor = await ctx.db.get(args.monitorId);
+    if (!monitor || monitor.userId !== userId) return null;
+
+    const since = Date.now() - args.windowHours * 60 * 60 * 1000;
+    const hourly = await loadStats(ctx, args.monitorId, "hour", since);
+    const period = statsPeriodFor(args.windowHours);
+    const stats = period === "hour" ? hourly : await loadStats(ctx, args.monitorId, period, since);
+    const recent = await ctx.db
+      .query("monitorRuns")
+      .withIndex("by_monitor_and_date", (q) => q.eq("monitorId", args.monitorId).gte("createdAt", since))
+      .order("desc")
+      .take(RECENT_RUNS);
+    return {
+      hours: hourly.map((hour) => ({
+        start: hour.start,
+        runs: hour.runs,
+        up: hour.up,
+        averageMs: hour.timedRuns > 0 ? Math.round(hour.totalDurationMs / hour.timedRuns) : null,
+      })),
+      stats: summarizeStats(stats),
+      recent,
+    };
+  },
+});
+
+export const createMonitor = mutation({
+  args: {
+    savedRequestId: v.id("savedRequests"),
+    name: v.string(),
+    intervalMinutes: v.number(),
+    environmentId: v.optional(v.id("environments")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const request = await ctx.db.get(args.savedRequestId);
+    if (!request) throw new Error("Request not found");
+    if (request.userId !== userId) throw new Error("Unauthorized");
+    if (args.environmentId) {
+      const environment = await ctx.db.get(args.environmentId);
+      if (!environment) throw new Error("Environment not found");
+      if (environment.userId !== userId) throw new Error("Unauthorized");
+    }
+    validateInterval(args.intervalMinutes);
+
+    const id = await ctx.db.insert("monitors", {
+      userId,
+      savedRequestId: args.savedRequestId,
+      name: args.name.trim() || request.name,
+      intervalMinutes: args.intervalMinutes,
+      environmentId: args.environmentId,
+      enabled: true,
+      runToken: "",
+      createdAt: Date.now(),
+    });
+    // The first run happens right away
+    await reschedule(ctx, (await ctx.db.get(id))!, true, 0);
+    return id;
+  },
+});
+
+export const updateMonitor = mutation({
+  args: {
+    id: v.id("monitors"),
+    name: v.string(),
+    intervalMinutes: v.number(),
+    environmentId: v.optional(v.id("environments")),
+    enabled: v.boolean(),
+  },
+  handler: async (ctx, { id, ...args }) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const monitor = await getOwnedMonitor(ctx, id, userId);
+    if (args.environmentId) {
+      const environment = await ctx.db.get(args.environmentId);
+      if (!environment) throw new Error("Environment not found");
+      if (environment.userId !== userId) throw new Error("Unauthorized");
+    }
+    validateInterval(args.intervalMinutes);
+
+    await ctx.db.patch(id, {
+      name: args.name.trim() || monitor.name,
+      intervalMinutes: args.intervalMinutes,
+      environmentId: args.environmentId,
+    });
+    // A changed schedule takes effect now; otherwise the queued run is kept
+    const scheduleChanged =
+      args.enabled !== monitor.enabled ||
+      args.intervalMinutes !== monitor.intervalMinutes ||
+      args.environmentId !== monitor.environmentId;
+    if (scheduleChanged) await reschedule(ctx, monitor, args.enabled, 0);
+  },
+});
+
+// Queues a run now without waiting for the interval
+export const runMonitorNow = mutation({
+  args: { id: v.id("monitors") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const monitor = await getOwnedMonitor(ctx, args.id, userId);
+    if (!monitor.enabled) throw new Error("Monitor is paused");
+    await reschedule(ctx, monitor, true, 0);
+  },
+});
+
+export const deleteMonitor = mutation({
+  args: { id: v.id("monitors") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const monitor = await getOwnedMonitor(ctx, args.id, userId);
+    await removeMonitor(ctx, monitor);
+  },
+});
+
+// Deletes a removed monitor's runs and counts a batch at a time
+export const deleteMonitorHistory = internalMutation({
+  args: { monitorId: v.id("monitors") },
+  handler: async (ctx, args) => {
+    const runs = await ctx.db
+      .query("monitorRuns")
+      .withIndex("by_monitor_and_date", (q) => q.eq("monitorId", args.monitorId))
+      .take(HISTORY_DELETE_BATCH);
+    const stats = await ctx.db
+      .query("monitorStats")
+      .withIndex("by_monitor_period_and_start", (q) => q.eq("monitorId", args.monitorId))
+      .take(HISTORY_DELETE_BATCH - runs.length);
+    await Promise.all([...runs, ...stats].map((doc) => ctx.db.delete(doc._id)));
+    if (runs.length + stats.length === HISTORY_DELETE_BATCH) {
+      await ctx.scheduler.runAfter(0, internal.monitors.deleteMonitorHistory, args);
+    }
+  },
+});
+
+// The monitor and its saved request, or null when the run is stale, the
+// monitor is paused or the request was deleted
+export const getMonitorTarget = internalQuery({
+  args: { monitorId: v.id("monitors"), runToken: v.string() },
+  handler: async (ctx, args) => {
+    const monitor = await ctx.db.get(args.monitorId);
+    if (!monitor || !monitor.enabled || monitor.runToken !== args.runToken) return null;
+
+    const request = await ctx.db.get(monitor.savedRequestId);
+    if (!request) return null;
+    return { monitor, request };
+  },
+});
+
+// Records a run, evaluates the monitor's alert rules and queues the next run
+export const recordMonitorRun = internalMutation({
+  args: {
+    monitorId: v.id("monitors"),
+    runToken: v.string(),
+    status: v.optional(v.number()),
+    durationMs: v.optional(v.number()),
+    outcome: monitorOutcome,
+    error: v.optional(v.string()),
+    assertionsPassed: v.number(),
+    assertionsFailed: v.number(),
+  },
+  handler: async (ctx, { monitorId, runToken, ...run }) => {
+    const monitor = await ctx.db.get(monitorId);
+    // Deleted or rescheduled while the request was in flight
+    if (!monitor || monitor.runToken !== runToken) return;
+
+    const now = Date.now();
+    const runId = await ctx.db.insert("monitorRuns", { monitorId, userId: monitor.userId, ...run, createdAt: now });
+    await countRun(ctx, monitorId, { ...run, createdAt: now });
+    await evaluateAlertRules(ctx, monitor, (await ctx.db.get(runId))!);
+
+    const expired = await ctx.db
+      .query("monitorRuns")
+      .withIndex("by_monitor_and_date", (q) => q.eq("monitorId", monitorId).lt("createdAt", now - HISTORY_RETENTION_MS))
+      .take(PRUNE_BATCH);
+    await Promise.all(expired.map((expiredRun) => ctx.db.delete(expiredRun._id)));
+    // Days are kept one longer so a full window can still start mid-day
+    for (const period of ["hour", "day"] as const) {
+      const expiredStats = await ctx.db
+        .query("monitorStats")
+        .withIndex("by_monitor_period_and_start", (q) =>
+          q
+            .eq("monitorId", monitorId)
+            .eq("period", period)
+            .lt("start", now - HISTORY_RETENTION_MS - STATS_PERIOD_MS[period])
+        )
+        .take(PRUNE_BATCH);
+      await Promise.all(expiredStats.map((bucket) => ctx.db.delete(bucket._id)));
+    }
+
+    const delayMs = monitor.intervalMinutes * 60 * 1000;
+    const scheduledRunId = monitor.enabled
+      ? await ctx.scheduler.runAfter(delayMs, internal.apiTester.runMonitor, { monitorId, runToken })
+      : undefined;
+    await ctx.db.patch(monitorId, {
+      lastRunAt: now,
+      lastOutcome: run.outcome,
+      scheduledRunId,
+      nextRunAt: monitor.enabled ? now + delayMs : undefined,
+    });
+  },
+});
+
+// Run by a cron. Each run queues the next one, so a run that failed (or an
+// action that was lost) would stop a monitor for good; this queues a new
+// chain for enabled monitors whose run is overdue and no longer queued.
+export const restartStalledMonitors = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    // Monitors from before `nextRunAt` was recorded sort first, as overdue
+    const overdue = await ctx.db
+      .query("monitors")
+      .withIndex("by_enabled_and_next_run", (q) => q.eq("enabled", true).lt("nextRunAt", now - STALL_GRACE_MS))
+      .take(SWEEP_BATCH);
+
+    for (const monitor of overdue) {
+      const scheduled = monitor.scheduledRunId ? await ctx.db.system.get(monitor.scheduledRunId) : null;
+      // Still queued or running, just late; checked again after the grace period
+      if (scheduled?.state.kind === "pending" || scheduled?.state.kind === "inProgress") {
+        await ctx.db.patch(monitor._id, { nextRunAt: Math.max(scheduled.scheduledTime, now) });
+        continue;
+      }
+      // Runs skip monitors whose request is gone, so restarting would not help
+      const request = await ctx.db.get(monitor.savedRequestId);
+      await reschedule(ctx, monitor, request !== null, 0);
+    }
+  },
+});
@@ -0,0 +1,56 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, mutation } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+// Cache of OAuth2 access tokens obtained by makeRequest, keyed per user by
+// `oauth2CacheKey`. The internal functions take the user explicitly because
+// scheduled runs have no signed-in user. Tokens are stored encrypted when the
+// secret vault is configured (see sealToken in apiTester.ts).
+
+export const getCachedToken = internalQuery({
+  args: { userId: v.id("users"), cacheKey: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("oauthTokens")
+      .withIndex("by_user_and_key", (q) => q.eq("userId", args.userId).eq("cacheKey", args.cacheKey))
+      .first();
+  },
+});
+
+export const storeToken = internalMutation({
+  args: {
+    userId: v.id("users"),
+    cacheKey: v.string(),
+    accessToken: v.string(),
+    tokenType: v.string(),
+    refreshToken: v.optional(v.string()),
+    encrypted: v.optional(v.boolean()),
+    expiresAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("oauthTokens")
+      .withIndex("by_user_and_key", (q) => q.eq("userId", args.userId).eq("cacheKey", args.cacheKey))
+      .collect();
+    await Promise.all(existing.map((token) => ctx.db.delete(token._id)));
+
+    await ctx.db.insert("oauthTokens", {
+      ...args,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const clearOAuthTokens = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const tokens = await ctx.db
+      .query("oauthTokens")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .collect();
+    await Promise.all(tokens.map((token) => ctx.db.delete(token._id)));
+  },
+});
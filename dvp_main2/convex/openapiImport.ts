@@ -0,0 +1,221 @@
+import { v, Infer } from "convex/values";
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { requestFields } from "./validators";
+import { getOwnedCollection } from "./collections";
+import { mergeEnvironment } from "./environments";
+import { removeRequestMonitors } from "./monitors";
+
+// Creates and updates collections from OpenAPI / Swagger specifications. The
+// spec is parsed in the browser (src/lib/openapi.ts); these functions match
+// operations to saved requests by `importKey` so a re-import can report and
+// apply what was added, changed or removed.
+
+export const importedOperation = v.object({
+  // `METHOD /path` as written in the spec
+  key: v.string(),
+  name: v.string(),
+  // First tag of the operation; requests are grouped in folders by tag
+  folder: v.optional(v.string()),
+  ...requestFields,
+});
+
+export type ImportedOperation = Infer<typeof importedOperation>;
+
+const variablesValidator = v.array(v.object({ key: v.string(), value: v.string() }));
+
+// FNV-1a over the request as imported; detects changes between spec versions
+function fingerprint(operation: ImportedOperation) {
+  const { key: _key, folder: _folder, ...fields } = operation;
+  const text = JSON.stringify(fields);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+interface ImportDiff {
+  added: ImportedOperation[];
+  changed: { operation: ImportedOperation; request: Doc<"savedRequests"> }[];
+  removed: Doc<"savedRequests">[];
+  unchanged: number;
+}
+
+async function diffOperations(
+  ctx: QueryCtx,
+  collectionId: Id<"collections"> | undefined,
+  operations: ImportedOperation[]
+): Promise<ImportDiff> {
+  const existing = new Map<string, Doc<"savedRequests">>();
+  if (collectionId) {
+    const requests = await ctx.db
+      .query("savedRequests")
+      .withIndex("by_collection_id", (q) => q.eq("collectionId", collectionId))
+      .collect();
+    for (const request of requests) {
+      if (request.importKey && !existing.has(request.importKey)) {
+        existing.set(request.importKey, request);
+      }
+    }
+  }
+
+  const diff: ImportDiff = { added: [], changed: [], removed: [], unchanged: 0 };
+  const keys = new Set<string>();
+  for (const operation of operations) {
+    keys.add(operation.key);
+    const request = existing.get(operation.key);
+    if (!request) {
+      diff.added.push(operation);
+    } else if (request.importHash !== fingerprint(operation)) {
+      diff.changed.push({ operation, request });
+    } else {
+      diff.unchanged++;
+    }
+  }
+  diff.removed = [...existing.values()].filter((request) => !keys.has(request.importKey!));
+  return diff;
+}
+
+const summarize = (diff: ImportDiff) => ({
+  added: diff.added.map(({ key, name }) => ({ key, name })),
+  changed: diff.changed.map(({ operation: { key, name } }) => ({ key, name })),
+  removed: diff.removed.map((request) => ({ key: request.importKey!, name: request.name })),
+  unchanged: diff.unchanged,
+});
+
+// What importing the operations into a collection would do
+export const previewOpenApiImport = query({
+  args: {
+    collectionId: v.optional(v.id("collections")),
+    operations: v.array(importedOperation),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    if (args.collectionId) await getOwnedCollection(ctx, args.collectionId, userId);
+
+    return summarize(await diffOperations(ctx, args.collectionId, args.operations));
+  },
+});
+
+export const importOpenApiSpec = mutation({
+  args: {
+    // Re-imports into an existing collection; a new one is created otherwise
+    collectionId: v.optional(v.id("collections")),
+    name: v.string(),
+    description: v.optional(v.string()),
+    operations: v.array(importedOperation),
+    // Defaults for the base URL, parameters and credentials
+    variables: variablesValidator,
+    removeMissing: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const name = args.name.trim();
+    if (!name) throw new Error("Collection name is required");
+
+    const now = Date.now();
+    let collectionId = args.collectionId;
+    if (collectionId) {
+      await getOwnedCollection(ctx, collectionId, userId);
+    } else {
+      collectionId = await ctx.db.insert("collections", {
+        userId,
+        name,
+        description: args.description,
+        createdAt: now,
+      });
+    }
+    const diff = await diffOperations(ctx, collectionId, args.operations);
+
+    // Top-level folders per tag, reusing folders with the same name
+    const folders = await ctx.db
+      .query("collectionFolders")
+      .withIndex("by_collection_and_parent", (q) =>
+        q.eq("collectionId", collectionId).eq("parentId", undefined)
+      )
+      .collect();
+    const folderIds = new Map(folders.map((folder) => [folder.name, folder._id]));
+    const getFolder = async (folderName: string | undefined) => {
+      if (!folderName) return undefined;
+      let id = folderIds.get(folderName);
+      if (!id) {
+        id = await ctx.db.insert("collectionFolders", {
+          userId,
+          collectionId,
+          name: folderName,
+          order: folderIds.size,
+          createdAt: now,
+        });
+        folderIds.set(folderName, id);
+      }
+      return id;
+    };
+
+    const nextOrder = new Map<string, number>();
+    for (const operation of diff.added) {
+      const { key, folder, ...fields } = operation;
+      const folderId = await getFolder(folder);
+      const container = folderId ?? "";
+      if (!nextOrder.has(container)) {
+        const siblings = await ctx.db
+          .query("savedRequests")
+          .withIndex("by_collection_and_folder", (q) =>
+            q.eq("collectionId", collectionId).eq("folderId", folderId)
+          )
+          .collect();
+        nextOrder.set(container, siblings.length);
+      }
+      const order = nextOrder.get(container)!;
+      nextOrder.set(container, order + 1);
+
+      await ctx.db.insert("savedRequests", {
+        userId,
+        collectionId,
+        folderId,
+        order,
+        ...fields,
+        importKey: key,
+        importHash: fingerprint(operation),
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    // Changed operations replace the request but keep its place in the tree
+    for (const { operation, request } of diff.changed) {
+      const { key: _key, folder: _folder, ...fields } = operation;
+      await ctx.db.replace(request._id, {
+        userId,
+        collectionId: request.collectionId,
+        folderId: request.folderId,
+        order: request.order,
+        ...fields,
+        importKey: request.importKey,
+        importHash: fingerprint(operation),
+        createdAt: request.createdAt,
+        updatedAt: now,
+      });
+    }
+
+    if (args.removeMissing) {
+      for (const request of diff.removed) await removeRequestMonitors(ctx, request._id);
+      await Promise.all(diff.removed.map((request) => ctx.db.delete(request._id)));
+    }
+
+    // An environment named after the collection holds the variables
+    const environmentId = await mergeEnvironment(ctx, userId, name, args.variables);
+
+    return {
+      collectionId,
+      environmentId,
+      ...summarize(diff),
+      removedApplied: args.removeMissing,
+    };
+  },
+});
@@ -1,6 +1,11 @@
 import { v } from "convex/values";
-import { mutation, query, action } from "./_generated/server";
+import { mutation, query, internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { escapeHtml, sendEmail } from "./email";
+
+// Codes are only ever sent to the signed-in user's own email address and
+// never returned to the client.
 
 export const generateOTP = mutation({
   args: {
@@ -11,6 +16,10 @@ export const generateOTP = mutation({
     if (!userId) {
       throw new Error("Not authenticated");
     }
+    const user = await ctx.db.get(userId);
+    if (!user?.email) {
+      throw new Error("No email address on this account");
+    }
 
     // Generate 6-digit OTP
     const code = Math.floor(100000 + Math.random() * 900000).toString();
@@ -35,7 +44,7 @@ export const generateOTP = mutation({
       type: args.type,
     });
 
-    return code;
+    await ctx.scheduler.runAfter(0, internal.otp.sendOTPEmail, { email: user.email, code, type: args.type });
   },
 });
 
@@ -89,29 +98,20 @@ export const verifyOTP = mutation({
   },
 });
 
-export const sendOTPEmail = action({
+export const sendOTPEmail = internalAction({
   args: {
     email: v.string(),
     code: v.string(),
     type: v.union(v.literal("email_verification"), v.literal("two_factor")),
   },
   handler: async (ctx, args) => {
-    // This would integrate with your email service (Resend, SendGrid, etc.)
-    // For now, we'll just log it
-    console.log(`Sending OTP ${args.code} to ${args.email} for ${args.type}`);
-    
-    // In a real implementation, you would send the email here
-    // Example with Resend:
-    /*
-    const resend = new Resend(process.env.RESEND_API_KEY);
-    await resend.emails.send({
-      from: "noreply@yourapp.com",
+    await sendEmail({
       to: args.email,
       subject: args.type === "email_verification" ? "Verify your email" : "Two-factor authentication code",
-      html: `Your verification code is: <strong>${args.code}</strong>`,
+      text: `Your verification code is: ${args.code}`,
+      html: `Your verification code is: <strong>${escapeHtml(args.code)}</strong>`,
     });
-    */
-    
+
     return { success: true };
   },
 });
@@ -0,0 +1,133 @@
+import type { Pagination } from "./validators";
+import { readJsonPath } from "./assertions";
+
+// Finding the next page of a paginated list API. `apiTester.fetchAllPages`
+// sends the pages; everything here is pure so the request builder can share
+// the limits.
+
+// Caps on what one run of the follower may collect, whatever the request asks
+export const MAX_PAGES_LIMIT = 100;
+export const MAX_ITEMS_LIMIT = 10000;
+
+export const DEFAULT_MAX_PAGES = 10;
+export const DEFAULT_MAX_ITEMS = 1000;
+
+export const PAGINATION_LABELS: Record<Pagination["type"], string> = {
+  linkHeader: "Link header",
+  cursor: "Cursor / next token",
+  page: "Page number",
+  offset: "Offset",
+};
+
+export function clampLimits(pagination: Pagination) {
+  const clamp = (value: number, max: number) => Math.min(max, Math.max(1, Math.floor(value) || 1));
+  return {
+    maxPages: clamp(pagination.maxPages, MAX_PAGES_LIMIT),
+    maxItems: clamp(pagination.maxItems, MAX_ITEMS_LIMIT),
+  };
+}
+
+// The URLs of a Link header by relation, e.g.
+// `<https://api.example.com/items?page=2>; rel="next"`
+export function parseLinkHeader(header: string): Record<string, string> {
+  const links: Record<string, string> = {};
+  for (const match of header.matchAll(/<([^>]*)>((?:\s*;\s*[^;,]+)*)/g)) {
+    const rel = /;\s*rel\s*=\s*"?([^";]+)"?/i.exec(match[2]);
+    if (!rel) continue;
+    for (const name of rel[1].trim().toLowerCase().split(/\s+/)) links[name] ??= match[1];
+  }
+  return links;
+}
+
+// The array of items in one page
+export function readItems(data: unknown, itemsPath: string): { items: unknown[] } | { error: string } {
+  const result = readJsonPath(data, itemsPath);
+  if (!result.found) return { error: `Nothing at ${itemsPath}` };
+  if (!Array.isArray(result.value)) {
+    return { error: itemsPath.trim() ? `${itemsPath} is not an array` : "The response is not an array" };
+  }
+  return { items: result.value };
+}
+
+// Sets a query parameter without parsing the URL, which may still contain
+// {{variables}} that `new URL` would reject
+export function withQueryParam(url: string, key: string, value: string) {
+  const hashIndex = url.indexOf("#");
+  const hash = hashIndex >= 0 ? url.slice(hashIndex) : "";
+  const withoutHash = hashIndex >= 0 ? url.slice(0, hashIndex) : url;
+  const queryIndex = withoutHash.indexOf("?");
+  const base = queryIndex >= 0 ? withoutHash.slice(0, queryIndex) : withoutHash;
+  const pairs = queryIndex >= 0 ? withoutHash.slice(queryIndex + 1).split("&").filter(Boolean) : [];
+
+  const encodedKey = encodeURIComponent(key);
+  const others = pairs.filter((pair) => {
+    const name = pair.split("=")[0];
+    return name !== key && name !== encodedKey;
+  });
+  return `${base}?${[...others, `${encodedKey}=${encodeURIComponent(value)}`].join("&")}${hash}`;
+}
+
+// The first page: page and offset strategies start from their own count
+export function firstPageUrl(pagination: Pagination, url: string) {
+  switch (pagination.type) {
+    case "page":
+      return withQueryParam(url, pagination.param, String(pagination.start));
+    case "offset":
+      return withQueryParam(url, pagination.param, "0");
+    default:
+      return url;
+  }
+}
+
+export interface FetchedPage {
+  // The request's URL as configured, before {{variables}} are resolved
+  url: string;
+  // Where the page was actually fetched from, for relative links
+  responseUrl: string;
+  headers: Record<string, string>;
+  data: unknown;
+  // Items in this page, and in all pages so far including this one
+  pageItems: number;
+  totalItems: number;
+  // Pages fetched so far including this one
+  pages: number;
+}
+
+function resolveLink(link: string, base: string) {
+  try {
+    return new URL(link, base).toString();
+  } catch {
+    return null;
+  }
+}
+
+// The URL of the page after `page`, null when it was the last one, or why
+// the next page can't be found
+export function nextPageUrl(pagination: Pagination, page: FetchedPage): { url: string | null } | { error: string } {
+  switch (pagination.type) {
+    case "linkHeader": {
+      const header = Object.entries(page.headers).find(([name]) => name.toLowerCase() === "link")?.[1];
+      const next = header ? parseLinkHeader(header).next : undefined;
+      return { url: next ? resolveLink(next, page.responseUrl) : null };
+    }
+    case "cursor": {
+      const result = readJsonPath(page.data, pagination.cursorPath);
+      const cursor = result.found ? result.value : undefined;
+      if (cursor === undefined || cursor === null || cursor === "" || cursor === false) return { url: null };
+      if (typeof cursor !== "string" && typeof cursor !== "number") {
+        return { error: `${pagination.cursorPath} is not a string or number` };
+      }
+      const text = String(cursor);
+      // Some APIs return the next page's URL rather than a token
+      if (/^https?:\/\//i.test(text) || text.startsWith("/")) return { url: resolveLink(text, page.responseUrl) };
+      return { url: withQueryParam(page.url, pagination.param, text) };
+    }
+    case "page":
+      return {
+        url:
+          page.pageItems === 0 ? null : withQueryParam(page.url, pagination.param, String(pagination.start + page.pages)),
+      };
+    case "offset":
+      return { url: page.pageItems === 0 ? null : withQueryParam(page.url, pagination.param, String(page.totalItems)) };
+  }
+}
@@ -0,0 +1,380 @@
+import type { Doc, Id } from "./_generated/dataModel";
+import type { HttpMethod, QueryParam, RequestAuth, RequestBody, RequestFields } from "./validators";
+import { DEFAULT_CONTENT_TYPES, normalizeBody } from "./requestBody";
+
+// Converts between Postman v2.1 collections and saved requests. Postman uses
+// the same {{variable}} syntax, so URLs, headers and bodies carry over as is.
+
+export const POSTMAN_SCHEMA = "https://schema.getpostman.com/json/collection/v2.1.0/collection.json";
+
+export interface PostmanRequest extends RequestFields {
+  name: string;
+}
+
+export interface PostmanFolder {
+  name: string;
+  folders: PostmanFolder[];
+  requests: PostmanRequest[];
+}
+
+export interface ParsedPostmanCollection extends PostmanFolder {
+  description?: string;
+  variables: { key: string; value: string }[];
+  warnings: string[];
+}
+
+type Json = any;
+
+const METHODS: HttpMethod[] = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"];
+
+const text = (value: Json) => (value === undefined || value === null ? "" : String(value));
+
+const descriptionOf = (value: Json): string | undefined =>
+  (typeof value === "string" ? value : value?.content) || undefined;
+
+// Auth attributes are `[{ key, value }]` in v2.1 and a plain object in v2.0
+function authAttributes(auth: Json): Record<string, string> {
+  const attributes = auth[auth.type];
+  if (Array.isArray(attributes)) {
+    return Object.fromEntries(attributes.map((attribute: Json) => [attribute.key, text(attribute.value)]));
+  }
+  return Object.fromEntries(Object.entries(attributes ?? {}).map(([key, value]) => [key, text(value)]));
+}
+
+// `undefined` means the item inherits the auth of its parent
+function authFromPostman(auth: Json, warnings: string[], where: string): RequestAuth | undefined {
+  if (!auth || typeof auth !== "object" || auth.type === "inherit") return undefined;
+
+  const a = authAttributes(auth);
+  switch (auth.type) {
+    case "noauth":
+      return { type: "none" };
+    case "bearer":
+      return { type: "bearer", token: a.token ?? "" };
+    case "basic":
+      return { type: "basic", username: a.username ?? "", password: a.password ?? "" };
+    case "apikey":
+      return { type: "apiKey", key: a.key ?? "", value: a.value ?? "", addTo: a.in === "query" ? "query" : "header" };
+    case "oauth2":
+      if (a.grant_type === "client_credentials" || a.grant_type === "password_credentials") {
+        return {
+          type: "oauth2",
+          grantType: a.grant_type === "password_credentials" ? "password" : "client_credentials",
+          tokenUrl: a.accessTokenUrl ?? "",
+          clientId: a.clientId ?? "",
+          clientSecret: a.clientSecret ?? "",
+          scope: a.scope || undefined,
+          username: a.username || undefined,
+          password: a.password || undefined,
+          clientAuthentication: a.client_authentication === "body" ? "body" : "basic",
+        };
+      }
+      if (a.accessToken) {
+        warnings.push(`${where}: OAuth2 ${a.grant_type ?? ""} flow was imported as its current bearer token`);
+        return { type: "bearer", token: a.accessToken };
+      }
+      break;
+  }
+  warnings.push(`${where}: ${auth.type} auth is not supported`);
+  return undefined;
+}
+
+// Path variables (`/users/:id`) become their value or a {{variable}}
+function urlFromPostman(url: Json): { url: string; params?: QueryParam[] } {
+  if (typeof url === "string") return { url };
+  if (!url || typeof url !== "object") return { url: "" };
+
+  const query: Json[] = Array.isArray(url.query) ? url.query : [];
+  let raw = text(url.raw);
+  if (!raw) {
+    const host = Array.isArray(url.host) ? url.host.join(".") : text(url.host);
+    const path = Array.isArray(url.path) ? url.path.join("/") : text(url.path);
+    const search = query
+      .filter((param) => !param.disabled)
+      .map((param) => (param.value === null ? text(param.key) : `${text(param.key)}=${text(param.value)}`))
+      .join("&");
+    raw = `${url.protocol ? `${url.protocol}://` : ""}${host}${url.port ? `:${url.port}` : ""}${path ? `/${path}` : ""}${search ? `?${search}` : ""}`;
+  }
+  for (const variable of Array.isArray(url.variable) ? url.variable : []) {
+    const name = text(variable.key).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    if (!name) continue;
+    raw = raw.replace(new RegExp(`/:${name}(?=[/?#]|$)`, "g"), `/${text(variable.value) || `{{${variable.key}}}`}`);
+  }
+
+  const params = query.map((param) => ({
+    key: text(param.key),
+    value: text(param.value),
+    enabled: !param.disabled,
+  }));
+  return { url: raw, params: params.length > 0 ? params : undefined };
+}
+
+function headersFromPostman(header: Json): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (typeof header === "string") {
+    for (const line of header.split(/\r?\n/)) {
+      const colon = line.indexOf(":");
+      if (colon > 0) headers[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+    }
+  } else if (Array.isArray(header)) {
+    for (const entry of header) {
+      if (!entry.disabled && entry.key) headers[entry.key] = text(entry.value);
+    }
+  }
+  return headers;
+}
+
+function bodyFromPostman(
+  body: Json,
+  headers: Record<string, string>,
+  warnings: string[],
+  where: string
+): RequestBody | undefined {
+  if (!body || body.disabled) return undefined;
+
+  switch (body.mode) {
+    case "raw": {
+      const content = text(body.raw);
+      if (!content) return undefined;
+      const language = body.options?.raw?.language;
+      const contentType = Object.entries(headers).find(([name]) => name.toLowerCase() === "content-type")?.[1];
+      if (language === "json" || contentType?.includes("json")) return { type: "json", content };
+      if (language === "xml" || contentType?.includes("xml")) return { type: "xml", content };
+      const fallback =
+        language === "html" ? "text/html" : language === "javascript" ? "application/javascript" : "text/plain";
+      return { type: "text", content, contentType: contentType ?? fallback };
+    }
+    case "urlencoded":
+      return {
+        type: "formUrlEncoded",
+        fields: (body.urlencoded ?? []).map((field: Json) => ({
+          key: text(field.key),
+          value: text(field.value),
+          enabled: !field.disabled,
+        })),
+      };
+    case "formdata": {
+      const parts = (body.formdata ?? []).filter((part: Json) => part.type !== "file");
+      if (parts.length < (body.formdata ?? []).length) {
+        warnings.push(`${where}: file fields were skipped; attach the files again`);
+      }
+      return {
+        type: "multipart",
+        parts: parts.map((part: Json) => ({
+          kind: "text" as const,
+          key: text(part.key),
+          value: text(part.value),
+          enabled: !part.disabled,
+        })),
+      };
+    }
+    case "graphql":
+      return {
+        type: "graphql",
+        query: text(body.graphql?.query),
+        variables: text(body.graphql?.variables),
+      };
+    case "file":
+      warnings.push(`${where}: binary file bodies were skipped; attach the file again`);
+      return undefined;
+  }
+  return undefined;
+}
+
+function readItems(items: Json[], inheritedAuth: RequestAuth | undefined, warnings: string[], path: string) {
+  const folder: Omit<PostmanFolder, "name"> = { folders: [], requests: [] };
+  for (const item of items) {
+    const name = text(item?.name) || "Untitled";
+    const where = path ? `${path} / ${name}` : name;
+
+    if (Array.isArray(item?.item)) {
+      const auth = authFromPostman(item.auth, warnings, where) ?? inheritedAuth;
+      folder.folders.push({ name, ...readItems(item.item, auth, warnings, where) });
+      continue;
+    }
+
+    const request = typeof item?.request === "string" ? { url: item.request } : item?.request;
+    if (!request) continue;
+    const method = text(request.method || "GET").toUpperCase() as HttpMethod;
+    if (!METHODS.includes(method)) {
+      warnings.push(`${where}: ${method} requests are not supported and were skipped`);
+      continue;
+    }
+    const headers = headersFromPostman(request.header);
+    folder.requests.push({
+      name,
+      method,
+      ...urlFromPostman(request.url),
+      headers,
+      body: bodyFromPostman(request.body, headers, warnings, where),
+      auth: authFromPostman(request.auth, warnings, where) ?? inheritedAuth,
+    });
+  }
+  return folder;
+}
+
+export function fromPostmanCollection(doc: Json): ParsedPostmanCollection {
+  if (!doc?.info || !Array.isArray(doc.item)) {
+    throw new Error("Not a Postman collection: info and item are required");
+  }
+  const schema = text(doc.info.schema);
+  if (schema && !/v2\.[01]/.test(schema)) {
+    throw new Error("Only Postman v2.0 and v2.1 collections are supported");
+  }
+
+  const warnings: string[] = [];
+  const name = text(doc.info.name) || "Postman collection";
+  const auth = authFromPostman(doc.auth, warnings, name);
+  const variables = (Array.isArray(doc.variable) ? doc.variable : [])
+    .filter((variable: Json) => variable.key && !variable.disabled)
+    .map((variable: Json) => ({ key: text(variable.key), value: text(variable.value) }));
+
+  return {
+    name,
+    description: descriptionOf(doc.info.description),
+    ...readItems(doc.item, auth, warnings, ""),
+    variables,
+    warnings: [...new Set(warnings)],
+  };
+}
+
+const attributes = (values: Record<string, string | undefined>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ({ key, value, type: "string" }));
+
+function toPostmanAuth(auth: RequestAuth | undefined) {
+  switch (auth?.type) {
+    case undefined:
+      return undefined;
+    case "none":
+      return { type: "noauth" };
+    case "bearer":
+      return { type: "bearer", bearer: attributes({ token: auth.token }) };
+    case "basic":
+      return { type: "basic", basic: attributes({ username: auth.username, password: auth.password }) };
+    case "apiKey":
+      return { type: "apikey", apikey: attributes({ key: auth.key, value: auth.value, in: auth.addTo }) };
+    case "oauth2":
+      return {
+        type: "oauth2",
+        oauth2: attributes({
+          grant_type: auth.grantType === "password" ? "password_credentials" : "client_credentials",
+          accessTokenUrl: auth.tokenUrl,
+          clientId: auth.clientId,
+          clientSecret: auth.clientSecret,
+          scope: auth.scope,
+          username: auth.username,
+          password: auth.password,
+          client_authentication: auth.clientAuthentication === "body" ? "body" : "header",
+        }),
+      };
+  }
+}
+
+// Splits the URL without `new URL`, which rejects {{variables}} in the host
+function toPostmanUrl(raw: string, params: QueryParam[] | undefined) {
+  const base = raw.split(/[?#]/, 1)[0];
+  const protocol = /^([a-z][\w+.-]*):\/\//i.exec(base);
+  const [hostPort, ...path] = (protocol ? base.slice(protocol[0].length) : base).split("/");
+  const [host, port] = hostPort.split(/:(?=\d+$)/);
+  const query =
+    params ??
+    (raw.split("#")[0].split("?")[1] ?? "")
+      .split("&")
+      .filter(Boolean)
+      .map((pair) => {
+        const equals = pair.indexOf("=");
+        return equals < 0
+          ? { key: pair, value: "", enabled: true }
+          : { key: pair.slice(0, equals), value: pair.slice(equals + 1), enabled: true };
+      });
+
+  return {
+    raw,
+    protocol: protocol?.[1],
+    host: host ? host.split(".") : [],
+    port,
+    path,
+    query: query.length > 0 ? query.map((param) => ({ key: param.key, value: param.value, disabled: !param.enabled })) : undefined,
+  };
+}
+
+function toPostmanBody(body: RequestBody | undefined) {
+  switch (body?.type) {
+    case undefined:
+      return undefined;
+    case "json":
+    case "xml":
+      return { mode: "raw", raw: body.content, options: { raw: { language: body.type } } };
+    case "text":
+      return { mode: "raw", raw: body.content, options: { raw: { language: "text" } } };
+    case "formUrlEncoded":
+      return {
+        mode: "urlencoded",
+        urlencoded: body.fields.map((field) => ({ key: field.key, value: field.value, disabled: !field.enabled })),
+      };
+    case "multipart":
+      return {
+        mode: "formdata",
+        formdata: body.parts.map((part) =>
+          part.kind === "text"
+            ? { key: part.key, value: part.value, type: "text", disabled: !part.enabled }
+            : { key: part.key, src: part.fileName, type: "file", disabled: !part.enabled }
+        ),
+      };
+    case "graphql":
+      return { mode: "graphql", graphql: { query: body.query, variables: body.variables } };
+    case "binary":
+      return { mode: "file", file: { src: body.fileName } };
+  }
+}
+
+function toPostmanItem(request: Doc<"savedRequests">) {
+  const body = normalizeBody(request.body);
+  const header = Object.entries(request.headers).map(([key, value]) => ({ key, value }));
+  // Raw bodies carry their content type in a header in Postman
+  const contentType = body?.type === "text" ? body.contentType : body && DEFAULT_CONTENT_TYPES[body.type];
+  if (
+    body &&
+    (body.type === "json" || body.type === "xml" || body.type === "text") &&
+    contentType &&
+    !header.some(({ key }) => key.toLowerCase() === "content-type")
+  ) {
+    header.push({ key: "Content-Type", value: contentType });
+  }
+
+  return {
+    name: request.name,
+    request: {
+      method: request.method,
+      header,
+      url: toPostmanUrl(request.url, request.params),
+      body: toPostmanBody(body),
+      auth: toPostmanAuth(request.auth),
+    },
+  };
+}
+
+export function toPostmanCollection(
+  collection: Doc<"collections">,
+  folders: Doc<"collectionFolders">[],
+  requests: Doc<"savedRequests">[]
+) {
+  const byOrder = <T extends { order: number }>(a: T, b: T) => a.order - b.order;
+  const items = (parentId?: Id<"collectionFolders">): Json[] => [
+    ...folders
+      .filter((folder) => folder.parentId === parentId)
+      .sort(byOrder)
+      .map((folder) => ({ name: folder.name, item: items(folder._id) })),
+    ...requests
+      .filter((request) => request.folderId === parentId)
+      .sort(byOrder)
+      .map(toPostmanItem),
+  ];
+
+  return {
+    info: { name: collection.name, description: collection.description, schema: POSTMAN_SCHEMA },
+    item: items(),
+  };
+}
@@ -0,0 +1,79 @@
+import type { Plan } from "./validators";
+
+// Limits on outgoing requests per user: a token bucket for bursts and a
+// quota per UTC day. Admins get the "admin" tier, everyone else the tier of
+// their profile's plan. Everything here is pure; usage.ts stores the state.
+
+export type UsageTier = Plan | "admin";
+
+export interface RateLimit {
+  // Requests that may be sent back to back
+  burst: number;
+  // Tokens added back to the bucket per minute
+  perMinute: number;
+  dailyQuota: number;
+}
+
+export const RATE_LIMITS: Record<UsageTier, RateLimit> = {
+  free: { burst: 20, perMinute: 60, dailyQuota: 1000 },
+  pro: { burst: 60, perMinute: 300, dailyQuota: 20000 },
+  admin: { burst: 120, perMinute: 600, dailyQuota: 100000 },
+};
+
+export interface UsageState {
+  tokens: number;
+  // When `tokens` was last brought up to date
+  refilledAt: number;
+  // UTC date (YYYY-MM-DD) that `dayCount` counts requests for
+  day: string;
+  dayCount: number;
+}
+
+export const dayKey = (now: number) => new Date(now).toISOString().slice(0, 10);
+
+// Start of the next UTC day, when the daily quota resets
+export function quotaResetsAt(now: number) {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+// The state as of `now`: the bucket refilled and the count reset on a new day
+export function currentUsage(state: UsageState | null, limit: RateLimit, now: number): UsageState {
+  if (!state) return { tokens: limit.burst, refilledAt: now, day: dayKey(now), dayCount: 0 };
+  const elapsed = Math.max(0, now - state.refilledAt);
+  const tokens = Math.min(limit.burst, state.tokens + (elapsed / 60000) * limit.perMinute);
+  const day = dayKey(now);
+  return { tokens, refilledAt: now, day, dayCount: state.day === day ? state.dayCount : 0 };
+}
+
+export type ConsumeResult =
+  | { allowed: true; state: UsageState }
+  | { allowed: false; state: UsageState; retryAfterMs: number; reason: "burst" | "quota" };
+
+// Takes one request from the bucket and the daily quota
+export function consume(state: UsageState | null, limit: RateLimit, now: number): ConsumeResult {
+  const current = currentUsage(state, limit, now);
+  if (current.dayCount >= limit.dailyQuota) {
+    return { allowed: false, state: current, retryAfterMs: quotaResetsAt(now) - now, reason: "quota" };
+  }
+  if (current.tokens < 1) {
+    const retryAfterMs = Math.ceil(((1 - current.tokens) / limit.perMinute) * 60000);
+    return { allowed: false, state: current, retryAfterMs, reason: "burst" };
+  }
+  return {
+    allowed: true,
+    state: { ...current, tokens: current.tokens - 1, dayCount: current.dayCount + 1 },
+  };
+}
+
+// What callers of `usage.consumeRequest` get back
+export type RateLimitCheck =
+  | { allowed: true }
+  | { allowed: false; reason: "burst" | "quota"; retryAfterMs: number; error: string };
+
+export function rateLimitMessage(retryAfterMs: number, reason: "burst" | "quota", limit: RateLimit) {
+  const seconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  return reason === "quota"
+    ? `Rate limited, retry in ${seconds}s (daily quota of ${limit.dailyQuota} requests used)`
+    : `Rate limited, retry in ${seconds}s`;
+}
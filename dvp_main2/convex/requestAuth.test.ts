@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { applyAuth, basicCredentials, oauth2CacheKey, requestOAuth2Token, resolveAuth } from "./requestAuth";
+import type { OAuth2Auth } from "./validators";
+
+const oauth2: OAuth2Auth = {
+  type: "oauth2",
+  grantType: "client_credentials",
+  tokenUrl: "https://auth.example.com/token",
+  clientId: "client",
+  clientSecret: "secret",
+  clientAuthentication: "body",
+};
+
+// A token endpoint that records what it was sent and answers with `body`
+function tokenEndpoint(body: unknown, status = 200) {
+  const calls: { url: string; init: RequestInit }[] = [];
+  const fetchImpl = (async (input: string | URL, init?: RequestInit) => {
+    calls.push({ url: input.toString(), init: init ?? {} });
+    return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+  }) as typeof fetch;
+  return { calls, fetchImpl };
+}
+
+describe("applyAuth", () => {
+  it("sets a bearer token", () => {
+    const headers: Record<string, string> = {};
+    expect(applyAuth({ type: "bearer", token: "abc" }, new URL("https://api.example.com"), headers)).toEqual([
+      "Authorization",
+    ]);
+    expect(headers).toEqual({ Authorization: "Bearer abc" });
+  });
+
+  it("encodes basic credentials", () => {
+    const headers: Record<string, string> = {};
+    applyAuth({ type: "basic", username: "user", password: "pässword" }, new URL("https://api.example.com"), headers);
+    expect(headers.Authorization).toBe(basicCredentials("user", "pässword"));
+    expect(atob(headers.Authorization.slice("Basic ".length))).toBe("user:pÃ¤ssword");
+  });
+
+  it("puts an API key in a header or the query string", () => {
+    const headers: Record<string, string> = {};
+    const url = new URL("https://api.example.com/items?page=2");
+    expect(applyAuth({ type: "apiKey", key: "X-Api-Key", value: "k1", addTo: "header" }, url, headers)).toEqual([
+      "X-Api-Key",
+    ]);
+    expect(applyAuth({ type: "apiKey", key: "api_key", value: "k2", addTo: "query" }, url, headers)).toEqual([]);
+    expect(headers).toEqual({ "X-Api-Key": "k1" });
+    expect(url.searchParams.get("api_key")).toBe("k2");
+    expect(url.searchParams.get("page")).toBe("2");
+  });
+
+  it("uses the OAuth2 token only once one is given", () => {
+    const headers: Record<string, string> = {};
+    applyAuth(oauth2, new URL("https://api.example.com"), headers);
+    expect(headers).toEqual({});
+    applyAuth(oauth2, new URL("https://api.example.com"), headers, { accessToken: "t", tokenType: "Bearer" });
+    expect(headers).toEqual({ Authorization: "Bearer t" });
+  });
+
+  it("leaves the request alone without auth", () => {
+    const headers: Record<string, string> = {};
+    const url = new URL("https://api.example.com");
+    applyAuth(undefined, url, headers);
+    applyAuth({ type: "none" }, url, headers);
+    expect(headers).toEqual({});
+    expect(url.toString()).toBe("https://api.example.com/");
+  });
+});
+
+describe("resolveAuth", () => {
+  it("substitutes variables and reports missing ones", () => {
+    const { value, missing } = resolveAuth({ type: "bearer", token: "{{token}}-{{other}}" }, { token: "abc" });
+    expect(value).toEqual({ type: "bearer", token: "abc-{{other}}" });
+    expect(missing).toEqual(["other"]);
+  });
+});
+
+describe("oauth2CacheKey", () => {
+  it("changes with the client secret without containing it", async () => {
+    const key = await oauth2CacheKey(oauth2);
+    expect(key).not.toContain("secret");
+    expect(await oauth2CacheKey({ ...oauth2, clientSecret: "rotated" })).not.toBe(key);
+    expect(await oauth2CacheKey({ ...oauth2 })).toBe(key);
+  });
+});
+
+describe("requestOAuth2Token", () => {
+  it("performs the client credentials grant with credentials in the body", async () => {
+    const { calls, fetchImpl } = tokenEndpoint({ access_token: "t", token_type: "bearer", expires_in: 60 });
+    const token = await requestOAuth2Token({ ...oauth2, scope: "read" }, undefined, fetchImpl);
+
+    expect(token.accessToken).toBe("t");
+    expect(token.tokenType).toBe("Bearer");
+    expect(token.expiresAt).toBeGreaterThan(Date.now());
+    expect(calls[0].url).toBe(oauth2.tokenUrl);
+    const form = new URLSearchParams(calls[0].init.body as string);
+    expect(Object.fromEntries(form)).toEqual({
+      grant_type: "client_credentials",
+      scope: "read",
+      client_id: "client",
+      client_secret: "secret",
+    });
+  });
+
+  it("sends client credentials as basic auth when configured", async () => {
+    const { calls, fetchImpl } = tokenEndpoint({ access_token: "t" });
+    await requestOAuth2Token({ ...oauth2, clientAuthentication: "basic" }, undefined, fetchImpl);
+    const headers = calls[0].init.headers as Record<string, string>;
+    expect(headers.Authorization).toBe(basicCredentials("client", "secret"));
+    expect(new URLSearchParams(calls[0].init.body as string).has("client_secret")).toBe(false);
+  });
+
+  it("refreshes and keeps the old refresh token when none is returned", async () => {
+    const { calls, fetchImpl } = tokenEndpoint({ access_token: "t2" });
+    const token = await requestOAuth2Token(oauth2, "r1", fetchImpl);
+    expect(new URLSearchParams(calls[0].init.body as string).get("grant_type")).toBe("refresh_token");
+    expect(token.refreshToken).toBe("r1");
+  });
+
+  it("reports the endpoint's error", async () => {
+    const { fetchImpl } = tokenEndpoint({ error: "invalid_client", error_description: "Bad secret" }, 401);
+    await expect(requestOAuth2Token(oauth2, undefined, fetchImpl)).rejects.toThrow(
+      "OAuth2 token request failed: Bad secret"
+    );
+  });
+});
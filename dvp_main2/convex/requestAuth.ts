@@ -0,0 +1,182 @@
+import type { OAuth2Auth, RequestAuth } from "./validators";
+import { resolveVariables } from "./variables";
+
+// Helpers for the auth modes makeRequest applies. Everything here is free of
+// Convex context so the OAuth2 exchange can be pointed at any token endpoint,
+// including a local stand-in, by passing a different `fetchImpl`.
+
+// A token endpoint's JSON response (RFC 6749, section 5). Nothing in it is
+// trusted until its type has been checked.
+type TokenResponse = Partial<
+  Record<"access_token" | "token_type" | "refresh_token" | "expires_in" | "error" | "error_description", unknown>
+>;
+
+export interface OAuth2Token {
+  accessToken: string;
+  tokenType: string;
+  refreshToken?: string;
+  expiresAt?: number;
+}
+
+// How long before expiry a cached token is treated as stale
+const EXPIRY_SKEW_MS = 30 * 1000;
+
+function base64(value: string) {
+  const bytes = new TextEncoder().encode(value);
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+}
+
+export function basicCredentials(username: string, password: string) {
+  return `Basic ${base64(`${username}:${password}`)}`;
+}
+
+// Substitutes {{variables}} in every string field of the auth settings
+export function resolveAuth(auth: RequestAuth, vars: Record<string, string>) {
+  const missing = new Set<string>();
+  const resolve = (text: string) => {
+    const result = resolveVariables(text, vars);
+    result.missing.forEach((name) => missing.add(name));
+    return result.value;
+  };
+  const resolveOptional = (text: string | undefined) => (text === undefined ? undefined : resolve(text));
+
+  let value: RequestAuth;
+  switch (auth.type) {
+    case "none":
+      value = auth;
+      break;
+    case "bearer":
+      value = { ...auth, token: resolve(auth.token) };
+      break;
+    case "basic":
+      value = { ...auth, username: resolve(auth.username), password: resolve(auth.password) };
+      break;
+    case "apiKey":
+      value = { ...auth, key: resolve(auth.key), value: resolve(auth.value) };
+      break;
+    case "oauth2":
+      value = {
+        ...auth,
+        tokenUrl: resolve(auth.tokenUrl),
+        clientId: resolve(auth.clientId),
+        clientSecret: resolve(auth.clientSecret),
+        scope: resolveOptional(auth.scope),
+        username: resolveOptional(auth.username),
+        password: resolveOptional(auth.password),
+      };
+      break;
+  }
+  return { value, missing: [...missing] };
+}
+
+// Applies the auth settings to the outgoing URL and headers. OAuth2 tokens
+// must be obtained first and are passed in as `oauthToken`. Returns the
+// names of the headers it set, which must not follow a cross-origin redirect.
+export function applyAuth(
+  auth: RequestAuth | undefined,
+  url: URL,
+  headers: Record<string, string>,
+  oauthToken?: OAuth2Token
+): string[] {
+  if (!auth) return [];
+
+  switch (auth.type) {
+    case "none":
+      return [];
+    case "bearer":
+      headers["Authorization"] = `Bearer ${auth.token}`;
+      return ["Authorization"];
+    case "basic":
+      headers["Authorization"] = basicCredentials(auth.username, auth.password);
+      return ["Authorization"];
+    case "apiKey":
+      if (auth.addTo === "query") {
+        url.searchParams.set(auth.key, auth.value);
+        return [];
+      }
+      headers[auth.key] = auth.value;
+      return [auth.key];
+    case "oauth2":
+      if (!oauthToken) return [];
+      headers["Authorization"] = `${oauthToken.tokenType} ${oauthToken.accessToken}`;
+      return ["Authorization"];
+  }
+}
+
+// Secrets only enter the key hashed, so a cached token stops being used as
+// soon as the client secret or password changes
+export async function oauth2CacheKey(auth: OAuth2Auth) {
+  const secrets = new TextEncoder().encode(JSON.stringify([auth.clientSecret, auth.password ?? ""]));
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", secrets));
+  const secretHash = Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return [auth.grantType, auth.tokenUrl, auth.clientId, auth.username ?? "", auth.scope ?? "", secretHash].join("|");
+}
+
+export function isTokenFresh(token: { expiresAt?: number }, now = Date.now()) {
+  return token.expiresAt === undefined || token.expiresAt - EXPIRY_SKEW_MS > now;
+}
+
+// Performs the configured grant, or a refresh_token grant when
+// `refreshToken` is given, against `auth.tokenUrl`.
+export async function requestOAuth2Token(
+  auth: OAuth2Auth,
+  refreshToken?: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<OAuth2Token> {
+  const form = new URLSearchParams();
+  if (refreshToken) {
+    form.set("grant_type", "refresh_token");
+    form.set("refresh_token", refreshToken);
+  } else {
+    form.set("grant_type", auth.grantType);
+    if (auth.grantType === "password") {
+      form.set("username", auth.username ?? "");
+      form.set("password", auth.password ?? "");
+    }
+  }
+  if (auth.scope) form.set("scope", auth.scope);
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+  if (auth.clientAuthentication === "basic") {
+    headers["Authorization"] = basicCredentials(
+      encodeURIComponent(auth.clientId),
+      encodeURIComponent(auth.clientSecret)
+    );
+  } else {
+    form.set("client_id", auth.clientId);
+    form.set("client_secret", auth.clientSecret);
+  }
+
+  const response = await fetchImpl(auth.tokenUrl, {
+    method: "POST",
+    headers,
+    body: form.toString(),
+  });
+
+  let payload: TokenResponse | null;
+  try {
+    payload = (await response.json()) as TokenResponse | null;
+  } catch {
+    throw new Error(`Token endpoint returned a non-JSON response (HTTP ${response.status})`);
+  }
+
+  if (!response.ok || typeof payload?.access_token !== "string") {
+    const text = (value: unknown) => (typeof value === "string" && value ? value : undefined);
+    const reason = text(payload?.error_description) ?? text(payload?.error) ?? `HTTP ${response.status}`;
+    throw new Error(`OAuth2 token request failed: ${reason}`);
+  }
+
+  const tokenType = typeof payload.token_type === "string" ? payload.token_type : "";
+  return {
+    accessToken: payload.access_token,
+    // Token types are case-insensitive; most APIs expect "Bearer"
+    tokenType: !tokenType || /^bearer$/i.test(tokenType) ? "Bearer" : tokenType,
+    refreshToken: typeof payload.refresh_token === "string" ? payload.refresh_token : refreshToken,
+    expiresAt: typeof payload.expires_in === "number" ? Date.now() + payload.expires_in * 1000 : undefined,
+  };
+}
@@ -0,0 +1,177 @@
+import { Id } from "./_generated/dataModel";
+import type { RequestBody } from "./validators";
+import { resolveVariables } from "./variables";
+
+// Helpers for typed request bodies shared by makeRequest and the request
+// builder UI.
+
+export const DEFAULT_CONTENT_TYPES: Record<RequestBody["type"], string | undefined> = {
+  json: "application/json",
+  xml: "application/xml",
+  text: "text/plain",
+  formUrlEncoded: "application/x-www-form-urlencoded",
+  // fetch generates the multipart boundary, so the header must not be set
+  multipart: undefined,
+  graphql: "application/json",
+  binary: "application/octet-stream",
+};
+
+// Bodies stored before they were typed are plain JSON strings
+export function normalizeBody(body: RequestBody | string | undefined): RequestBody | undefined {
+  if (typeof body === "string") {
+    return body ? { type: "json", content: body } : undefined;
+  }
+  return body;
+}
+
+// Every string that may contain {{variables}}
+export function bodyTemplates(body: RequestBody | undefined): string[] {
+  if (!body) return [];
+  switch (body.type) {
+    case "json":
+    case "xml":
+    case "text":
+      return [body.content];
+    case "formUrlEncoded":
+      return body.fields.filter((field) => field.enabled).flatMap((field) => [field.key, field.value]);
+    case "multipart":
+      return body.parts
+        .filter((part) => part.enabled)
+        .flatMap((part) => (part.kind === "text" ? [part.key, part.value] : [part.key]));
+    case "graphql":
+      return [body.query, body.variables];
+    case "binary":
+      return [];
+  }
+}
+
+export function resolveBody(body: RequestBody, vars: Record<string, string>) {
+  const missing = new Set<string>();
+  const resolve = (template: string) => {
+    const result = resolveVariables(template, vars);
+    result.missing.forEach((name) => missing.add(name));
+    return result.value;
+  };
+
+  let value: RequestBody;
+  switch (body.type) {
+    case "json":
+    case "xml":
+    case "text":
+      value = { ...body, content: resolve(body.content) };
+      break;
+    case "formUrlEncoded":
+      value = {
+        ...body,
+        fields: body.fields
+          .filter((field) => field.enabled)
+          .map((field) => ({ ...field, key: resolve(field.key), value: resolve(field.value) })),
+      };
+      break;
+    case "multipart":
+      value = {
+        ...body,
+        parts: body.parts
+          .filter((part) => part.enabled)
+          .map((part) =>
+            part.kind === "text"
+              ? { ...part, key: resolve(part.key), value: resolve(part.value) }
+              : { ...part, key: resolve(part.key) }
+          ),
+      };
+      break;
+    case "graphql":
+      value = { ...body, query: resolve(body.query), variables: resolve(body.variables) };
+      break;
+    case "binary":
+      value = body;
+      break;
+  }
+  return { value, missing: [...missing] };
+}
+
+export function bodyStorageIds(body: RequestBody | undefined): Id<"_storage">[] {
+  if (!body) return [];
+  if (body.type === "binary") return [body.storageId];
+  if (body.type === "multipart") {
+    return body.parts.flatMap((part) => (part.kind === "file" && part.enabled ? [part.storageId] : []));
+  }
+  return [];
+}
+
+// Converts a resolved body into what fetch sends. `loadFile` reads uploaded
+// files from storage. Throws with a user-facing message on invalid input.
+export async function toFetchBody(
+  body: RequestBody,
+  loadFile: (storageId: Id<"_storage">) => Promise<Blob | null>
+): Promise<BodyInit> {
+  const requireFile = async (storageId: Id<"_storage">, fileName: string) => {
+    const file = await loadFile(storageId);
+    if (!file) throw new Error(`Uploaded file "${fileName}" no longer exists`);
+    return file;
+  };
+
+  switch (body.type) {
+    case "json":
+      try {
+        JSON.parse(body.content);
+      } catch {
+        throw new Error("Invalid JSON in request body");
+      }
+      return body.content;
+    case "xml":
+    case "text":
+      return body.content;
+    case "formUrlEncoded":
+      return new URLSearchParams(body.fields.map((field) => [field.key, field.value])).toString();
+    case "multipart": {
+      const form = new FormData();
+      for (const part of body.parts) {
+        if (part.kind === "text") {
+          form.append(part.key, part.value);
+        } else {
+          const file = await requireFile(part.storageId, part.fileName);
+          const typed = part.contentType ? new Blob([file], { type: part.contentType }) : file;
+          form.append(part.key, typed, part.fileName);
+        }
+      }
+      return form;
+    }
+    case "graphql": {
+      let variables: unknown;
+      try {
+        variables = body.variables.trim() ? JSON.parse(body.variables) : undefined;
+      } catch {
+        throw new Error("Invalid JSON in GraphQL variables");
+      }
+      return JSON.stringify({
+        query: body.query,
+        ...(variables !== undefined && { variables }),
+        ...(body.operationName && { operationName: body.operationName }),
+      });
+    }
+    case "binary":
+      return await requireFile(body.storageId, body.fileName);
+  }
+}
+
+// Short human-readable description used in dialogs and history
+export function describeBody(body: RequestBody | undefined): string {
+  if (!body) return "";
+  switch (body.type) {
+    case "json":
+    case "xml":
+    case "text":
+      return body.content.length > 50 ? body.content.substring(0, 50) + "..." : body.content;
+    case "formUrlEncoded":
+      return `Form with ${body.fields.filter((f) => f.enabled).length} field(s)`;
+    case "multipart":
+      return `Multipart with ${body.parts.filter((p) => p.enabled).length} part(s)`;
+    case "graphql": {
+      const query = body.query.replace(/\s+/g, " ").trim();
+      return `GraphQL: ${query.length > 50 ? query.substring(0, 50) + "..." : query}`;
+    }
+    case "binary":
+      return `Binary file ${body.fileName}`;
+  }
+}
@@ -0,0 +1,52 @@
+import { v } from "convex/values";
+import { mutation, internalMutation, internalQuery } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+// Cancellation for makeRequest. A request sent with a `requestKey` is
+// registered in `activeRequests` while it runs; `cancelRequest` flags it and
+// the action, which polls the flag, aborts its fetch.
+
+export const startRequest = internalMutation({
+  args: { requestKey: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    return await ctx.db.insert("activeRequests", {
+      userId,
+      requestKey: args.requestKey,
+      cancelled: false,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const isCancelled = internalQuery({
+  args: { id: v.id("activeRequests") },
+  handler: async (ctx, args) => {
+    const request = await ctx.db.get(args.id);
+    return request?.cancelled ?? false;
+  },
+});
+
+export const finishRequest = internalMutation({
+  args: { id: v.id("activeRequests") },
+  handler: async (ctx, args) => {
+    if (await ctx.db.get(args.id)) await ctx.db.delete(args.id);
+  },
+});
+
+// Cancelling a request that already finished does nothing
+export const cancelRequest = mutation({
+  args: { requestKey: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const request = await ctx.db
+      .query("activeRequests")
+      .withIndex("by_user_and_key", (q) => q.eq("userId", userId).eq("requestKey", args.requestKey))
+      .first();
+    if (request) await ctx.db.patch(request._id, { cancelled: true });
+  },
+});
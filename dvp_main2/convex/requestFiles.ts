@@ -0,0 +1,75 @@
+import { v } from "convex/values";
+import { mutation, internalQuery } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+
+// Files uploaded for multipart and binary request bodies. Uploads are
+// registered against the uploading user so makeRequest only ever sends a
+// user's own files.
+
+export const generateUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+export const registerUpload = mutation({
+  args: {
+    storageId: v.id("_storage"),
+    fileName: v.string(),
+    contentType: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const existing = await ctx.db
+      .query("requestFiles")
+      .withIndex("by_storage_id", (q) => q.eq("storageId", args.storageId))
+      .first();
+    if (existing) throw new Error("File is already registered");
+
+    const metadata = await ctx.db.system.get(args.storageId);
+    if (!metadata) throw new Error("Uploaded file not found");
+
+    return await ctx.db.insert("requestFiles", {
+      userId,
+      storageId: args.storageId,
+      fileName: args.fileName,
+      contentType: args.contentType ?? metadata.contentType,
+      size: metadata.size,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Returns true when every file belongs to `userId`
+export const ownsFiles = internalQuery({
+  args: { userId: v.id("users"), storageIds: v.array(v.id("_storage")) },
+  handler: async (ctx, args) => {
+    for (const storageId of args.storageIds) {
+      const file = await ctx.db
+        .query("requestFiles")
+        .withIndex("by_storage_id", (q) => q.eq("storageId", storageId))
+        .first();
+      if (!file || file.userId !== args.userId) return false;
+    }
+    return true;
+  },
+});
+
+// Whether a stored file is a registered request file, as opposed to a
+// one-off upload such as an import archive
+export const isRequestFile = internalQuery({
+  args: { storageId: v.id("_storage") },
+  handler: async (ctx, args) => {
+    const file = await ctx.db
+      .query("requestFiles")
+      .withIndex("by_storage_id", (q) => q.eq("storageId", args.storageId))
+      .first();
+    return file !== null;
+  },
+});
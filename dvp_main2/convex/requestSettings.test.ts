@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from "vitest";
+import { DEFAULT_REQUEST_SETTINGS, fetchWithRedirects, sleep } from "./requestSettings";
+
+// A server that answers each URL in `routes` with its response, and records
+// the requests it was sent
+function server(routes: Record<string, { status: number; location?: string }>) {
+  const requests: { url: string; method?: string; headers: Record<string, string> }[] = [];
+  const fetchImpl = (async (input: string | URL, init?: RequestInit) => {
+    const url = input.toString();
+    requests.push({ url, method: init?.method, headers: { ...(init?.headers as Record<string, string>) } });
+    const route = routes[url] ?? { status: 200 };
+    return new Response(null, {
+      status: route.status,
+      headers: route.location ? { Location: route.location } : {},
+    });
+  }) as typeof fetch;
+  return { requests, fetchImpl };
+}
+
+const send = (url: string, init: RequestInit & { headers: Record<string, string> }, fetchImpl: typeof fetch) =>
+  fetchWithRedirects(new URL(url), init, DEFAULT_REQUEST_SETTINGS, new AbortController().signal, undefined, fetchImpl);
+
+const credentials = {
+  Authorization: "Bearer abc",
+  Cookie: "session=1",
+  "Proxy-Authorization": "Basic eDp5",
+  Accept: "application/json",
+};
+
+describe("fetchWithRedirects", () => {
+  it("keeps credentials on a redirect within the origin", async () => {
+    const { requests, fetchImpl } = server({ "https://api.example.com/a": { status: 302, location: "/b" } });
+    const result = await send("https://api.example.com/a", { method: "GET", headers: credentials }, fetchImpl);
+
+    expect(result.url.toString()).toBe("https://api.example.com/b");
+    expect(result.redirects).toEqual([
+      { url: "https://api.example.com/a", status: 302, location: "https://api.example.com/b" },
+    ]);
+    expect(requests[1].headers).toEqual(credentials);
+  });
+
+  it("drops credentials when a redirect leaves the origin", async () => {
+    const { requests, fetchImpl } = server({
+      "https://api.example.com/a": { status: 307, location: "https://other.example.net/b" },
+    });
+    await send("https://api.example.com/a", { method: "GET", headers: credentials }, fetchImpl);
+
+    expect(requests[1].url).toBe("https://other.example.net/b");
+    expect(requests[1].headers).toEqual({ Accept: "application/json" });
+  });
+
+  it("drops the named sensitive headers when a redirect leaves the origin", async () => {
+    const { requests, fetchImpl } = server({
+      "https://api.example.com/a": { status: 302, location: "/b" },
+      "https://api.example.com/b": { status: 302, location: "https://other.example.net/c" },
+    });
+    const headers = { "X-Api-Key": "k1", "X-Tenant-Token": "t1", Accept: "application/json" };
+    await fetchWithRedirects(
+      new URL("https://api.example.com/a"),
+      { method: "GET", headers },
+      DEFAULT_REQUEST_SETTINGS,
+      new AbortController().signal,
+      undefined,
+      fetchImpl,
+      ["x-api-key", "X-TENANT-TOKEN"]
+    );
+
+    expect(requests[1].headers).toEqual(headers);
+    expect(requests[2].headers).toEqual({ Accept: "application/json" });
+  });
+
+  it("treats a scheme or port change as another origin", async () => {
+    const { requests, fetchImpl } = server({
+      "https://api.example.com/a": { status: 302, location: "http://api.example.com/b" },
+      "http://api.example.com/b": { status: 302, location: "http://api.example.com:8080/c" },
+    });
+    await send("https://api.example.com/a", { method: "GET", headers: { Authorization: "Bearer abc" } }, fetchImpl);
+
+    expect(requests.map((request) => request.headers)).toEqual([{ Authorization: "Bearer abc" }, {}, {}]);
+  });
+
+  it("turns a POST into a GET without a body after a 303", async () => {
+    const { requests, fetchImpl } = server({ "https://api.example.com/a": { status: 303, location: "/b" } });
+    await send(
+      "https://api.example.com/a",
+      { method: "POST", body: "{}", headers: { "Content-Type": "application/json" } },
+      fetchImpl
+    );
+
+    expect(requests[1]).toEqual({ url: "https://api.example.com/b", method: "GET", headers: {} });
+  });
+
+  it("stops after the redirect limit", async () => {
+    const { fetchImpl } = server({ "https://api.example.com/loop": { status: 302, location: "/loop" } });
+    await expect(
+      fetchWithRedirects(
+        new URL("https://api.example.com/loop"),
+        { method: "GET", headers: {} },
+        { ...DEFAULT_REQUEST_SETTINGS, maxRedirects: 2 },
+        new AbortController().signal,
+        undefined,
+        fetchImpl
+      )
+    ).rejects.toThrow("Too many redirects (more than 2)");
+  });
+
+  it("checks every hop before sending it", async () => {
+    const { requests, fetchImpl } = server({
+      "https://api.example.com/a": { status: 302, location: "http://127.0.0.1/admin" },
+    });
+    const checkUrl = async (url: URL) => {
+      if (url.hostname === "127.0.0.1") throw new Error("blocked");
+    };
+    await expect(
+      fetchWithRedirects(
+        new URL("https://api.example.com/a"),
+        { method: "GET", headers: {} },
+        DEFAULT_REQUEST_SETTINGS,
+        new AbortController().signal,
+        checkUrl,
+        fetchImpl
+      )
+    ).rejects.toThrow("blocked");
+    expect(requests).toHaveLength(1);
+  });
+});
+
+describe("sleep", () => {
+  it("removes its abort listener when the timer fires", async () => {
+    const controller = new AbortController();
+    const add = vi.spyOn(controller.signal, "addEventListener");
+    const remove = vi.spyOn(controller.signal, "removeEventListener");
+    for (let i = 0; i < 3; i++) await sleep(1, controller.signal);
+
+    expect(add).toHaveBeenCalledTimes(3);
+    expect(remove.mock.calls.map(([, listener]) => listener)).toEqual(add.mock.calls.map(([, listener]) => listener));
+  });
+
+  it("resolves as soon as the signal aborts", async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    const sleeping = sleep(60 * 1000, controller.signal);
+    controller.abort();
+    await sleeping;
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,117 @@
+import type { RequestSettings } from "./validators";
+
+// Timeouts, redirects and retries for makeRequest. Cancellation lives in
+// requestControl.ts.
+
+export const DEFAULT_REQUEST_SETTINGS: RequestSettings = {
+  timeoutMs: 30 * 1000,
+  followRedirects: true,
+  maxRedirects: 10,
+  retries: 0,
+  retryOn: [429, 502, 503, 504],
+  retryDelayMs: 500,
+};
+
+// Actions time out after ten minutes; leave room to report the failure
+const MAX_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_REDIRECTS = 20;
+const MAX_RETRIES = 5;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Headers that must not follow a redirect to another origin
+const CREDENTIAL_HEADERS = ["authorization", "cookie", "proxy-authorization"];
+
+export interface RedirectHop {
+  url: string;
+  status: number;
+  location: string;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(Math.round(value), min), max);
+
+export function normalizeSettings(settings: RequestSettings | undefined): RequestSettings {
+  const merged = { ...DEFAULT_REQUEST_SETTINGS, ...settings };
+  return {
+    ...merged,
+    timeoutMs: clamp(merged.timeoutMs, 1, MAX_TIMEOUT_MS),
+    maxRedirects: clamp(merged.maxRedirects, 0, MAX_REDIRECTS),
+    retries: clamp(merged.retries, 0, MAX_RETRIES),
+    retryDelayMs: clamp(merged.retryDelayMs, 0, MAX_TIMEOUT_MS),
+  };
+}
+
+// Delay before retry `attempt` (1-based)
+export function retryDelay(settings: RequestSettings, attempt: number) {
+  return settings.retryDelayMs * 2 ** (attempt - 1);
+}
+
+// Resolves after `ms`, or as soon as the signal aborts. The abort listener
+// is removed again, since callers sleep on the same signal many times.
+export function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    if (signal.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+const withoutHeaders = (headers: Record<string, string>, names: string[]) =>
+  Object.fromEntries(Object.entries(headers).filter(([name]) => !names.includes(name.toLowerCase())));
+
+// fetch with redirects followed by hand so each hop is recorded and the
+// limit applies. Method changes follow the fetch spec; credentials are
+// dropped when a redirect leaves the origin, along with `sensitiveHeaders`
+// (those the auth settings filled in, for example). `checkUrl` runs before
+// the request and before every hop and throws to stop it; `fetchImpl` sends
+// them.
+export async function fetchWithRedirects(
+  url: URL,
+  init: RequestInit & { headers: Record<string, string> },
+  settings: RequestSettings,
+  signal: AbortSignal,
+  checkUrl?: (url: URL) => Promise<void>,
+  fetchImpl: typeof fetch = fetch,
+  sensitiveHeaders: string[] = []
+) {
+  const dropOnOriginChange = [...CREDENTIAL_HEADERS, ...sensitiveHeaders.map((name) => name.toLowerCase())];
+  const redirects: RedirectHop[] = [];
+  let current = url;
+  let options: RequestInit & { headers: Record<string, string> } = { ...init, redirect: "manual", signal };
+
+  for (;;) {
+    await checkUrl?.(current);
+    const response = await fetchImpl(current, options);
+    const location = response.headers.get("location");
+    if (!settings.followRedirects || !REDIRECT_STATUSES.has(response.status) || !location) {
+      return { response, redirects, url: current };
+    }
+    if (redirects.length >= settings.maxRedirects) {
+      throw new Error(`Too many redirects (more than ${settings.maxRedirects})`);
+    }
+
+    const next = new URL(location, current);
+    redirects.push({ url: current.toString(), status: response.status, location: next.toString() });
+    await response.body?.cancel();
+
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && options.method === "POST")) {
+      options = {
+        ...options,
+        method: options.method === "HEAD" ? "HEAD" : "GET",
+        body: undefined,
+        headers: withoutHeaders(options.headers, ["content-type"]),
+      };
+    }
+    if (next.origin !== current.origin) {
+      options = { ...options, headers: withoutHeaders(options.headers, dropOnOriginChange) };
+    }
+    current = next;
+  }
+}
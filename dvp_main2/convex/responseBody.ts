@@ -0,0 +1,35 @@
+import type { Id } from "./_generated/dataModel";
+
+// How makeRequest returns response bodies. Text is decoded (and JSON parsed);
+// anything else is binary and returned base64-encoded, or as a file storage
+// reference when it is larger than BINARY_INLINE_LIMIT.
+
+export const BINARY_INLINE_LIMIT = 1024 * 1024;
+
+export interface BinaryBody {
+  contentType: string;
+  // Size in bytes
+  size: number;
+  base64?: string;
+  storageId?: Id<"_storage">;
+  url?: string;
+}
+
+const TEXT_CONTENT_TYPES = [/^text\//, /json/, /xml/, /javascript/, /ecmascript/, /x-www-form-urlencoded/, /graphql/, /yaml/];
+
+export function isTextContentType(contentType: string) {
+  const mimeType = contentType.split(";")[0].trim().toLowerCase();
+  return TEXT_CONTENT_TYPES.some((pattern) => pattern.test(mimeType));
+}
+
+// Without a Content-Type the body is text when it is valid UTF-8 with no NUL bytes
+export function isTextBody(contentType: string, bytes: Uint8Array) {
+  if (contentType) return isTextContentType(contentType);
+  if (bytes.subarray(0, 8192).includes(0)) return false;
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,5 +1,80 @@
-import { httpRouter } from "convex/server";
+import { httpRouter, ROUTABLE_HTTP_METHODS } from "convex/server";
+import { httpAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { MOCK_PATH_PREFIX, renderMockTemplate } from "./mockRoutes";
 
 const http = httpRouter();
 
+// Mocks are called from browsers on other origins
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS",
+  "Access-Control-Allow-Headers": "*",
+  "Access-Control-Expose-Headers": "*",
+};
+
+const jsonError = (status: number, error: string) =>
+  new Response(JSON.stringify({ error }), {
+    status,
+    headers: { ...CORS_HEADERS, "Content-Type": "application/json" },
+  });
+
+// Serves /mock/<prefix>/<path> from the mocks of the user owning <prefix>
+const serveMock = httpAction(async (ctx, request) => {
+  const url = new URL(request.url);
+  const [prefix = "", ...rest] = url.pathname.slice(MOCK_PATH_PREFIX.length).split("/");
+  const path = `/${rest.join("/")}`;
+
+  const found = await ctx.runQuery(internal.mocks.findMock, { prefix, method: request.method, path });
+  if (!found) return jsonError(404, "Unknown mock server");
+
+  const headers: Record<string, string> = {};
+  request.headers.forEach((value, name) => {
+    headers[name] = value;
+  });
+  const body = request.method === "GET" || request.method === "HEAD" ? undefined : await request.text();
+  const log = (status: number) =>
+    ctx.runMutation(internal.mocks.logMockRequest, {
+      userId: found.userId,
+      mockId: found.match?.mock._id,
+      method: request.method,
+      path,
+      query: url.search,
+      headers,
+      body: body || undefined,
+      status,
+    });
+
+  if (!found.match) {
+    // Answer CORS preflights for mocks that do not define OPTIONS themselves
+    if (request.method === "OPTIONS") {
+      await log(204);
+      return new Response(null, { status: 204, headers: CORS_HEADERS });
+    }
+    await log(404);
+    return jsonError(404, `No mock matches ${request.method} ${path}`);
+  }
+
+  const { mock, params } = found.match;
+  const context = { params, query: Object.fromEntries(url.searchParams), headers };
+  const responseHeaders: Record<string, string> = { ...CORS_HEADERS };
+  for (const [name, value] of Object.entries(mock.headers)) {
+    responseHeaders[name] = renderMockTemplate(value, context);
+  }
+
+  await log(mock.status);
+  if (mock.delayMs > 0) await new Promise((resolve) => setTimeout(resolve, mock.delayMs));
+
+  // 204, 205 and 304 responses must not have a body
+  const hasBody = request.method !== "HEAD" && ![204, 205, 304].includes(mock.status);
+  return new Response(hasBody ? renderMockTemplate(mock.body, context) : null, {
+    status: mock.status,
+    headers: responseHeaders,
+  });
+});
+
+for (const method of ROUTABLE_HTTP_METHODS) {
+  http.route({ pathPrefix: MOCK_PATH_PREFIX, method, handler: serveMock });
+}
+
 export default http;
@@ -0,0 +1,188 @@
+import { v } from "convex/values";
+import { mutation, query, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { requestFields } from "./validators";
+import { getOwnedCollection, getOwnedFolder } from "./collections";
+import { removeRequestMonitors } from "./monitors";
+
+// Saved requests are the curated, named requests that live in collections
+// and only change when the user saves. Sending a request from the tester
+// adds an `apiHistory` entry instead (apiHistory.saveApiRequest), and every
+// response received is an `executions` row.
+
+async function getOwnedRequest(ctx: MutationCtx, id: Id<"savedRequests">, userId: Id<"users">) {
+  const request = await ctx.db.get(id);
+  if (!request) throw new Error("Request not found");
+  if (request.userId !== userId) throw new Error("Unauthorized");
+  return request;
+}
+
+async function assertTarget(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  collectionId: Id<"collections">,
+  folderId: Id<"collectionFolders"> | undefined
+) {
+  await getOwnedCollection(ctx, collectionId, userId);
+  if (folderId) {
+    const folder = await getOwnedFolder(ctx, folderId, userId);
+    if (folder.collectionId !== collectionId) {
+      throw new Error("Folder belongs to another collection");
+    }
+  }
+}
+
+async function getSiblings(
+  ctx: MutationCtx,
+  collectionId: Id<"collections">,
+  folderId: Id<"collectionFolders"> | undefined
+) {
+  const siblings = await ctx.db
+    .query("savedRequests")
+    .withIndex("by_collection_and_folder", (q) =>
+      q.eq("collectionId", collectionId).eq("folderId", folderId)
+    )
+    .collect();
+  return siblings.sort((a, b) => a.order - b.order);
+}
+
+export const getSavedRequest = query({
+  args: { id: v.id("savedRequests") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const request = await ctx.db.get(args.id);
+    if (!request || request.userId !== userId) return null;
+    return request;
+  },
+});
+
+export const createSavedRequest = mutation({
+  args: {
+    collectionId: v.id("collections"),
+    folderId: v.optional(v.id("collectionFolders")),
+    name: v.string(),
+    ...requestFields,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    await assertTarget(ctx, userId, args.collectionId, args.folderId);
+
+    const name = args.name.trim();
+    if (!name) throw new Error("Request name is required");
+
+    const siblings = await getSiblings(ctx, args.collectionId, args.folderId);
+    const now = Date.now();
+    return await ctx.db.insert("savedRequests", {
+      userId,
+      ...args,
+      name,
+      order: siblings.length,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const updateSavedRequest = mutation({
+  args: {
+    id: v.id("savedRequests"),
+    name: v.string(),
+    ...requestFields,
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    await getOwnedRequest(ctx, args.id, userId);
+
+    const { id, ...fields } = args;
+    const name = fields.name.trim();
+    if (!name) throw new Error("Request name is required");
+
+    await ctx.db.patch(id, { ...fields, name, updatedAt: Date.now() });
+  },
+});
+
+export const deleteSavedRequest = mutation({
+  args: { id: v.id("savedRequests") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    const request = await getOwnedRequest(ctx, args.id, userId);
+
+    await removeRequestMonitors(ctx, args.id);
+    await ctx.db.delete(args.id);
+    const siblings = await getSiblings(ctx, request.collectionId, request.folderId);
+    await Promise.all(siblings.map((sibling, order) => ctx.db.patch(sibling._id, { order })));
+  },
+});
+
+// Moves a request to `index` within a folder or collection root. Used both
+// for drag-and-drop reordering and for moving between collections.
+export const moveSavedRequest = mutation({
+  args: {
+    id: v.id("savedRequests"),
+    collectionId: v.id("collections"),
+    folderId: v.optional(v.id("collectionFolders")),
+    index: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    const request = await getOwnedRequest(ctx, args.id, userId);
+    await assertTarget(ctx, userId, args.collectionId, args.folderId);
+
+    const sameContainer =
+      request.collectionId === args.collectionId && request.folderId === args.folderId;
+    if (!sameContainer) {
+      const oldSiblings = (await getSiblings(ctx, request.collectionId, request.folderId))
+        .filter((sibling) => sibling._id !== args.id);
+      await Promise.all(oldSiblings.map((sibling, order) => ctx.db.patch(sibling._id, { order })));
+    }
+
+    const siblings = (await getSiblings(ctx, args.collectionId, args.folderId))
+      .filter((sibling) => sibling._id !== args.id);
+    const index = Math.max(0, Math.min(args.index, siblings.length));
+    const ordered = [...siblings.slice(0, index), request, ...siblings.slice(index)];
+
+    await ctx.db.patch(args.id, {
+      collectionId: args.collectionId,
+      folderId: args.folderId,
+      updatedAt: Date.now(),
+    });
+    await Promise.all(ordered.map((sibling, order) => ctx.db.patch(sibling._id, { order })));
+  },
+});
+
+export const copySavedRequest = mutation({
+  args: {
+    id: v.id("savedRequests"),
+    collectionId: v.id("collections"),
+    folderId: v.optional(v.id("collectionFolders")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    const request = await getOwnedRequest(ctx, args.id, userId);
+    await assertTarget(ctx, userId, args.collectionId, args.folderId);
+
+    // A copy is no longer tracked by the OpenAPI importer
+    const { _id, _creationTime, importKey: _importKey, importHash: _importHash, ...fields } = request;
+    const siblings = await getSiblings(ctx, args.collectionId, args.folderId);
+    const sameContainer =
+      request.collectionId === args.collectionId && request.folderId === args.folderId;
+    const now = Date.now();
+    return await ctx.db.insert("savedRequests", {
+      ...fields,
+      collectionId: args.collectionId,
+      folderId: args.folderId,
+      name: sameContainer ? `${request.name} (copy)` : request.name,
+      order: siblings.length,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
@@ -1,19 +1,333 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
+import {
+  alertChannelType,
+  alertCondition,
+  alertEvent,
+  egressPolicy,
+  httpMethod,
+  mockEndpointFields,
+  monitorOutcome,
+  plan,
+  requestFields,
+  runResult,
+  storedRequestBody,
+  streamDirection,
+  streamKind,
+  streamStatus,
+} from "./validators";
 
 const applicationTables = {
   apiHistory: defineTable({
     userId: v.string(),
     name: v.string(),
+    ...requestFields,
+    body: storedRequestBody,
+    createdAt: v.number(),
+  })
+    .index("by_user_id", ["userId"])
+    .index("by_user_and_date", ["userId", "createdAt"]),
+  // One row per response received by makeRequest or a collection run
+  executions: defineTable({
+    userId: v.id("users"),
+    // The request as written, {{variables}} unresolved; groups the timeline
+    method: httpMethod,
     url: v.string(),
-    method: v.union(v.literal("GET"), v.literal("POST")),
+    resolvedUrl: v.string(),
+    historyId: v.optional(v.id("apiHistory")),
+    savedRequestId: v.optional(v.id("savedRequests")),
+    status: v.number(),
+    statusText: v.string(),
     headers: v.record(v.string(), v.string()),
+    durationMs: v.number(),
+    // Response body size in bytes
+    size: v.number(),
+    contentType: v.optional(v.string()),
+    // Small bodies are kept inline, larger ones in file storage
     body: v.optional(v.string()),
+    bodyStorageId: v.optional(v.id("_storage")),
     createdAt: v.number(),
   })
     .index("by_user_id", ["userId"])
-    .index("by_user_and_date", ["userId", "createdAt"]),
+    .index("by_user_and_request", ["userId", "method", "url", "createdAt"])
+    .index("by_history_id", ["historyId"]),
+  // Each user's token bucket and daily request count for outgoing requests
+  requestUsage: defineTable({
+    userId: v.id("users"),
+    tokens: v.number(),
+    refilledAt: v.number(),
+    day: v.string(),
+    dayCount: v.number(),
+  }).index("by_user_id", ["userId"]),
+  // Streaming connections; the `streamClient.runStream` action holds the
+  // connection and writes what it receives to `streamMessages`
+  streamSessions: defineTable({
+    userId: v.id("users"),
+    kind: streamKind,
+    url: v.string(),
+    // Only used for SSE and NDJSON, which are plain HTTP requests
+    method: httpMethod,
+    headers: v.record(v.string(), v.string()),
+    body: v.optional(v.string()),
+    environmentId: v.optional(v.id("environments")),
+    status: streamStatus,
+    error: v.optional(v.string()),
+    // Set by the user; the action closes the connection on its next flush
+    closeRequested: v.boolean(),
+    messageCount: v.number(),
+    createdAt: v.number(),
+    closedAt: v.optional(v.number()),
+  }).index("by_user_and_date", ["userId", "createdAt"]),
+  streamMessages: defineTable({
+    sessionId: v.id("streamSessions"),
+    direction: streamDirection,
+    // SSE event type
+    event: v.optional(v.string()),
+    data: v.string(),
+    // `data` was cut to MAX_MESSAGE_LENGTH
+    truncated: v.optional(v.boolean()),
+    // Outgoing WebSocket frames waiting for the action to send them
+    pending: v.optional(v.boolean()),
+    at: v.number(),
+  })
+    .index("by_session_and_time", ["sessionId", "at"])
+    .index("by_session_and_pending", ["sessionId", "pending"]),
+  // Requests in flight that the user may cancel; removed once they finish
+  activeRequests: defineTable({
+    userId: v.id("users"),
+    // Chosen by the client so it can cancel before makeRequest returns
+    requestKey: v.string(),
+    cancelled: v.boolean(),
+    createdAt: v.number(),
+  }).index("by_user_and_key", ["userId", "requestKey"]),
+  // At most one row: the egress policy set by an admin. Without it the
+  // default policy applies.
+  egressPolicy: defineTable({
+    ...egressPolicy.fields,
+    updatedBy: v.id("users"),
+    updatedAt: v.number(),
+  }),
+  // Values referenced as {{secret:name}}, encrypted with SECRETS_KEY. Only
+  // makeRequest decrypts them.
+  secrets: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    // base64 of the IV, ciphertext and auth tag
+    encrypted: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_user_and_name", ["userId", "name"]),
+  // Each user's mocks are served under /mock/<prefix>/
+  mockServers: defineTable({
+    userId: v.id("users"),
+    prefix: v.string(),
+    createdAt: v.number(),
+  })
+    .index("by_user_id", ["userId"])
+    .index("by_prefix", ["prefix"]),
+  mockEndpoints: defineTable({
+    userId: v.id("users"),
+    ...mockEndpointFields,
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user_id", ["userId"])
+    .index("by_user_and_method", ["userId", "method"]),
+  // Requests received by the mock server, newest kept
+  mockRequests: defineTable({
+    userId: v.id("users"),
+    // Unset when no mock matched
+    mockId: v.optional(v.id("mockEndpoints")),
+    method: v.string(),
+    path: v.string(),
+    query: v.string(),
+    headers: v.record(v.string(), v.string()),
+    body: v.optional(v.string()),
+    status: v.number(),
+    createdAt: v.number(),
+  }).index("by_user_and_date", ["userId", "createdAt"]),
+  oauthTokens: defineTable({
+    userId: v.id("users"),
+    // Identifies the token endpoint, client, grant and scope the token is for
+    cacheKey: v.string(),
+    accessToken: v.string(),
+    tokenType: v.string(),
+    refreshToken: v.optional(v.string()),
+    // The tokens above are sealed with the secret vault's key
+    encrypted: v.optional(v.boolean()),
+    expiresAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_user_id", ["userId"])
+    .index("by_user_and_key", ["userId", "cacheKey"]),
+  requestFiles: defineTable({
+    userId: v.id("users"),
+    storageId: v.id("_storage"),
+    fileName: v.string(),
+    contentType: v.optional(v.string()),
+    size: v.number(),
+    createdAt: v.number(),
+  })
+    .index("by_user_id", ["userId"])
+    .index("by_storage_id", ["storageId"]),
+  collections: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    description: v.optional(v.string()),
+    createdAt: v.number(),
+  })
+    .index("by_user_id", ["userId"]),
+  collectionFolders: defineTable({
+    userId: v.id("users"),
+    collectionId: v.id("collections"),
+    parentId: v.optional(v.id("collectionFolders")),
+    name: v.string(),
+    order: v.number(),
+    createdAt: v.number(),
+  })
+    .index("by_collection_id", ["collectionId"])
+    .index("by_collection_and_parent", ["collectionId", "parentId"]),
+  savedRequests: defineTable({
+    userId: v.id("users"),
+    collectionId: v.id("collections"),
+    folderId: v.optional(v.id("collectionFolders")),
+    name: v.string(),
+    order: v.number(),
+    ...requestFields,
+    body: storedRequestBody,
+    // Set on requests created by the OpenAPI importer: the operation's
+    // `METHOD /path` and a fingerprint of what was last imported for it
+    importKey: v.optional(v.string()),
+    importHash: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user_id", ["userId"])
+    .index("by_collection_id", ["collectionId"])
+    .index("by_collection_and_folder", ["collectionId", "folderId"]),
+  collectionRuns: defineTable({
+    userId: v.id("users"),
+    collectionId: v.id("collections"),
+    environmentId: v.optional(v.id("environments")),
+    // Set when only one folder of the collection was run
+    folderId: v.optional(v.id("collectionFolders")),
+    status: v.union(v.literal("running"), v.literal("completed"), v.literal("failed")),
+    // Appended as each request finishes so the report updates live
+    results: v.array(runResult),
+    error: v.optional(v.string()),
+    startedAt: v.number(),
+    finishedAt: v.optional(v.number()),
+  })
+    .index("by_collection_and_date", ["collectionId", "startedAt"]),
+  // Saved requests sent on a schedule by `apiTester.runMonitor`
+  monitors: defineTable({
+    userId: v.id("users"),
+    savedRequestId: v.id("savedRequests"),
+    name: v.string(),
+    intervalMinutes: v.number(),
+    environmentId: v.optional(v.id("environments")),
+    enabled: v.boolean(),
+    // Replaced whenever the monitor is rescheduled; a run carrying an older
+    // token is stale and does nothing
+    runToken: v.string(),
+    scheduledRunId: v.optional(v.id("_scheduled_functions")),
+    // When the queued run is due; unset while paused
+    nextRunAt: v.optional(v.number()),
+    lastRunAt: v.optional(v.number()),
+    lastOutcome: v.optional(monitorOutcome),
+    createdAt: v.number(),
+  })
+    .index("by_user_id", ["userId"])
+    .index("by_saved_request_id", ["savedRequestId"])
+    .index("by_enabled_and_next_run", ["enabled", "nextRunAt"]),
+  monitorRuns: defineTable({
+    monitorId: v.id("monitors"),
+    userId: v.id("users"),
+    // Unset when no response was received
+    status: v.optional(v.number()),
+    durationMs: v.optional(v.number()),
+    outcome: monitorOutcome,
+    error: v.optional(v.string()),
+    assertionsPassed: v.number(),
+    assertionsFailed: v.number(),
+    createdAt: v.number(),
+  }).index("by_monitor_and_date", ["monitorId", "createdAt"]),
+  // Runs counted per monitor and hour or day, which uptime and latency are
+  // computed from (see monitors.ts)
+  monitorStats: defineTable({
+    monitorId: v.id("monitors"),
+    period: v.union(v.literal("hour"), v.literal("day")),
+    start: v.number(),
+    runs: v.number(),
+    up: v.number(),
+    // Runs that received a response, and their total duration
+    timedRuns: v.number(),
+    totalDurationMs: v.number(),
+    maxDurationMs: v.number(),
+    // Runs per latency histogram bucket
+    latencyCounts: v.array(v.number()),
+  }).index("by_monitor_period_and_start", ["monitorId", "period", "start"]),
+  alertChannels: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    type: alertChannelType,
+    // Email address or webhook URL
+    target: v.string(),
+    // Email channels only deliver once the owner has entered the code sent
+    // to the address; `confirmation` is the code waiting to be entered
+    confirmedAt: v.optional(v.number()),
+    confirmation: v.optional(
+      v.object({ code: v.string(), sentAt: v.number(), expiresAt: v.number(), attempts: v.number() })
+    ),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_user_id", ["userId"]),
+  // Evaluated against a monitor's runs as they are recorded
+  alertRules: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    monitorId: v.id("monitors"),
+    condition: alertCondition,
+    channelIds: v.array(v.id("alertChannels")),
+    // Minutes between reminders while firing; 0 sends none
+    renotifyMinutes: v.number(),
+    enabled: v.boolean(),
+    firing: v.boolean(),
+    firingSince: v.optional(v.number()),
+    lastNotifiedAt: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user_id", ["userId"])
+    .index("by_monitor_id", ["monitorId"]),
+  // Delivery attempts, newest kept
+  alertDeliveries: defineTable({
+    userId: v.id("users"),
+    // Unset for test messages
+    ruleId: v.optional(v.id("alertRules")),
+    channelId: v.id("alertChannels"),
+    event: alertEvent,
+    success: v.boolean(),
+    // HTTP status from the webhook or email provider
+    status: v.optional(v.number()),
+    error: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index("by_user_and_date", ["userId", "createdAt"]),
+  environments: defineTable({
+    userId: v.id("users"),
+    name: v.string(),
+    variables: v.array(
+      v.object({
+        key: v.string(),
+        value: v.string(),
+      })
+    ),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user_id", ["userId"])
+    .index("by_user_and_name", ["userId", "name"]),
   userProfiles: defineTable({
     userId: v.id("users"),
     firstName: v.optional(v.string()),
@@ -26,6 +340,8 @@ const applicationTables = {
     loginAttempts: v.number(),
     lockoutUntil: v.optional(v.number()),
     googleId: v.optional(v.string()),
+    // Unset is "free"
+    plan: v.optional(plan),
   })
     .index("by_user_id", ["userId"])
     .index("by_google_id", ["googleId"]),
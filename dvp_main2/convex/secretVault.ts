@@ -0,0 +1,94 @@
+"use node";
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import { v } from "convex/values";
+import { action, ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { SECRET_NAME_PATTERN, SECRET_PREFIX } from "./variables";
+
+// AES-256-GCM with a key derived from the SECRETS_KEY environment variable.
+// The owner and name are authenticated with each value so a ciphertext
+// cannot be moved to another user or secret.
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+function vaultKey() {
+  const secret = process.env.SECRETS_KEY;
+  if (!secret) throw new Error("Secrets are not configured: set the SECRETS_KEY environment variable");
+  return createHash("sha256").update(secret).digest();
+}
+
+const associatedData = (userId: Id<"users">, name: string) => Buffer.from(`${userId}:${name}`);
+
+function encrypt(userId: Id<"users">, name: string, value: string) {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", vaultKey(), iv);
+  cipher.setAAD(associatedData(userId, name));
+  const ciphertext = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString("base64");
+}
+
+function decrypt(userId: Id<"users">, name: string, encrypted: string) {
+  const data = Buffer.from(encrypted, "base64");
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", vaultKey(), data.subarray(0, IV_LENGTH));
+    decipher.setAAD(associatedData(userId, name));
+    decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH));
+    return Buffer.concat([decipher.update(data.subarray(IV_LENGTH, data.length - TAG_LENGTH)), decipher.final()]).toString(
+      "utf8"
+    );
+  } catch {
+    // Usually SECRETS_KEY was changed after the secret was stored
+    throw new Error(`Secret "${name}" could not be decrypted; set it again`);
+  }
+}
+
+// Other values the vault protects, such as OAuth2 tokens obtained with vault
+// credentials, are sealed under a `purpose` containing ":", which secret
+// names cannot, so neither can be passed off as the other
+export const canSeal = () => !!process.env.SECRETS_KEY;
+
+export const sealValue = (userId: Id<"users">, purpose: string, value: string) => encrypt(userId, purpose, value);
+
+// Null when the value cannot be decrypted, e.g. after SECRETS_KEY changed
+export function openValue(userId: Id<"users">, purpose: string, encrypted: string) {
+  try {
+    return decrypt(userId, purpose, encrypted);
+  } catch {
+    return null;
+  }
+}
+
+export const setSecret = action({
+  args: {
+    name: v.string(),
+    value: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const name = args.name.trim();
+    if (!SECRET_NAME_PATTERN.test(name)) {
+      throw new Error("Secret names may only contain letters, digits, '_', '.' and '-'");
+    }
+    await ctx.runMutation(internal.secrets.storeSecret, { name, encrypted: encrypt(userId, name, args.value) });
+  },
+});
+
+// Decrypts the named secrets of `userId`, keyed as they are referenced
+// ("secret:name"). Unknown names are left out.
+export async function loadSecrets(
+  ctx: ActionCtx,
+  userId: Id<"users">,
+  names: string[]
+): Promise<Record<string, string>> {
+  if (names.length === 0) return {};
+  const secrets = await ctx.runQuery(internal.secrets.getEncryptedSecrets, { userId, names });
+  return Object.fromEntries(
+    secrets.map((secret) => [`${SECRET_PREFIX}${secret.name}`, decrypt(userId, secret.name, secret.encrypted)])
+  );
+}
@@ -0,0 +1,79 @@
+import { v } from "convex/values";
+import { mutation, query, internalMutation, internalQuery } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { SECRET_NAME_PATTERN } from "./variables";
+
+// The secret vault. Values are encrypted and decrypted in secretVault.ts;
+// nothing here ever returns them.
+
+export const listSecrets = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    const secrets = await ctx.db
+      .query("secrets")
+      .withIndex("by_user_and_name", (q) => q.eq("userId", userId))
+      .collect();
+    return secrets.map(({ _id, name, updatedAt }) => ({ _id, name, updatedAt }));
+  },
+});
+
+export const storeSecret = internalMutation({
+  args: {
+    name: v.string(),
+    encrypted: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    if (!SECRET_NAME_PATTERN.test(args.name)) throw new Error("Invalid secret name");
+
+    const existing = await ctx.db
+      .query("secrets")
+      .withIndex("by_user_and_name", (q) => q.eq("userId", userId).eq("name", args.name))
+      .unique();
+    const now = Date.now();
+    if (existing) {
+      await ctx.db.patch(existing._id, { encrypted: args.encrypted, updatedAt: now });
+    } else {
+      await ctx.db.insert("secrets", {
+        userId,
+        name: args.name,
+        encrypted: args.encrypted,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  },
+});
+
+export const getEncryptedSecrets = internalQuery({
+  args: { userId: v.id("users"), names: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    const secrets = await Promise.all(
+      args.names.map((name) =>
+        ctx.db
+          .query("secrets")
+          .withIndex("by_user_and_name", (q) => q.eq("userId", args.userId).eq("name", name))
+          .unique()
+      )
+    );
+    return secrets.flatMap((secret) => (secret ? [{ name: secret.name, encrypted: secret.encrypted }] : []));
+  },
+});
+
+export const deleteSecret = mutation({
+  args: { id: v.id("secrets") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const secret = await ctx.db.get(args.id);
+    if (!secret) throw new Error("Secret not found");
+    if (secret.userId !== userId) throw new Error("Unauthorized");
+
+    await ctx.db.delete(args.id);
+  },
+});
@@ -0,0 +1,273 @@
+"use node";
+
+import WebSocket from "ws";
+import { internalAction, ActionCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
+import { METHODS_WITH_BODY, StreamDirection, StreamKind, StreamStatus } from "./validators";
+import { redactSecrets, resolveRecord, resolveVariables } from "./variables";
+import {
+  createNdjsonParser,
+  createSseParser,
+  MAX_STREAM_MESSAGES,
+  MAX_STREAM_MS,
+  SseEvent,
+} from "./streamFormats";
+import { EgressGuard, egressGuard, loadVariables, takeRateLimit } from "./apiTester";
+import { sleep } from "./requestSettings";
+
+// Holds one streaming connection (see streams.ts) for at most MAX_STREAM_MS.
+// Received messages are buffered and written every FLUSH_MS, which is also
+// when a close request or queued WebSocket frames are picked up.
+
+const FLUSH_MS = 250;
+
+// Give up when the connection has not opened after this long
+const CONNECT_TIMEOUT_MS = 15 * 1000;
+
+// After closing, wait this long for the server's close to be logged
+const CLOSE_GRACE_MS = 2000;
+
+const DEFAULT_ACCEPT: Record<StreamKind, string | undefined> = {
+  websocket: undefined,
+  sse: "text/event-stream",
+  ndjson: "application/x-ndjson",
+};
+
+interface StreamEvents {
+  // The connection is open; `note` describes it
+  open: (note: string) => void;
+  message: (data: string, event?: string) => void;
+  info: (note: string) => void;
+}
+
+interface Connection {
+  // WebSocket only
+  send?: (data: string) => void;
+  close: () => void;
+  // Settles when the connection ends, with a message if it failed
+  ended: Promise<string | undefined>;
+}
+
+function connectWebSocket(url: URL, headers: Record<string, string>, guard: EgressGuard, events: StreamEvents): Connection {
+  // Redirects would skip the egress check
+  const socket = new WebSocket(url, { headers, followRedirects: false, lookup: guard.lookup });
+  const ended = new Promise<string | undefined>((resolve) => {
+    socket.on("open", () => events.open("Connected"));
+    socket.on("message", (data, isBinary) => {
+      const bytes = Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as Buffer);
+      events.message(isBinary ? `[binary, ${bytes.length} bytes] ${bytes.toString("base64")}` : bytes.toString("utf8"));
+    });
+    socket.on("error", (error) => resolve(error.message));
+    socket.on("close", (code, reason) => {
+      events.info(`Closed by server (${code}${reason.length > 0 ? `: ${reason.toString()}` : ""})`);
+      resolve(undefined);
+    });
+  });
+  return {
+    send: (data) => socket.send(data),
+    close: () => (socket.readyState === WebSocket.CONNECTING ? socket.terminate() : socket.close(1000)),
+    ended,
+  };
+}
+
+// SSE and NDJSON are ordinary responses whose body is read as it arrives
+function connectHttp(
+  kind: "sse" | "ndjson",
+  url: URL,
+  init: RequestInit,
+  guard: EgressGuard,
+  events: StreamEvents
+): Connection {
+  const controller = new AbortController();
+  const ended = (async () => {
+    try {
+      const response = await guard.fetch(url, { ...init, redirect: "manual", signal: controller.signal });
+      if (response.status >= 300 || !response.body) {
+        await response.body?.cancel();
+        const redirect = response.status >= 300 && response.status < 400 ? " (redirects are not followed)" : "";
+        return `HTTP ${response.status} ${response.statusText}${redirect}`;
+      }
+      events.open(`HTTP ${response.status} ${response.headers.get("content-type") ?? ""}`.trim());
+
+      const parser = kind === "sse" ? createSseParser() : createNdjsonParser();
+      const emit = (items: (string | SseEvent)[]) =>
+        items.forEach((item) => (typeof item === "string" ? events.message(item) : events.message(item.data, item.event)));
+      const decoder = new TextDecoder();
+      const reader = response.body.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        emit(parser.push(decoder.decode(value, { stream: true })));
+      }
+      emit([...parser.push(decoder.decode()), ...parser.flush()]);
+      events.info("Stream ended");
+      return undefined;
+    } catch (error) {
+      if (controller.signal.aborted) return undefined;
+      return error instanceof Error ? error.message : "Stream failed";
+    }
+  })();
+  return { close: () => controller.abort(), ended };
+}
+
+interface PreparedStream {
+  url: URL;
+  headers: Record<string, string>;
+  body?: string;
+  secrets: string[];
+  guard: EgressGuard;
+}
+
+// Resolves the session's {{variables}} and checks the URL against the
+// egress policy, as makeRequest does for ordinary requests
+async function prepare(ctx: ActionCtx, session: Doc<"streamSessions">): Promise<PreparedStream | { error: string }> {
+  const limit = await takeRateLimit(ctx, session.userId, false);
+  if (!limit.allowed) return { error: limit.error };
+
+  const loaded = await loadVariables(ctx, session.userId, session.environmentId, [
+    session.url,
+    ...Object.entries(session.headers).flat(),
+    session.body,
+  ]);
+  if ("error" in loaded) return loaded;
+
+  const url = resolveVariables(session.url, loaded.vars);
+  const headers = resolveRecord(session.headers, loaded.vars);
+  const body = session.body !== undefined ? resolveVariables(session.body, loaded.vars) : undefined;
+  const unresolved = [...new Set([...url.missing, ...headers.missing, ...(body?.missing ?? [])])];
+  if (unresolved.length > 0) return { error: `Unresolved variables: ${unresolved.join(", ")}` };
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url.value);
+  } catch {
+    return { error: "Invalid URL format" };
+  }
+  const websocket = session.kind === "websocket";
+  if (!(websocket ? ["ws:", "wss:"] : ["http:", "https:"]).includes(parsed.protocol)) {
+    return { error: websocket ? "WebSocket URLs start with ws:// or wss://" : "Stream URLs start with http:// or https://" };
+  }
+  const guard = egressGuard(await ctx.runQuery(internal.egressPolicy.loadEgressPolicy, {}));
+  try {
+    await guard.check(parsed);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Blocked by the egress policy" };
+  }
+
+  const requestHeaders: Record<string, string> = { "User-Agent": "ConvexApiTester/1.0", ...headers.value };
+  const accept = DEFAULT_ACCEPT[session.kind];
+  if (accept && !Object.keys(requestHeaders).some((key) => key.toLowerCase() === "accept")) {
+    requestHeaders.Accept = accept;
+  }
+  return { url: parsed, headers: requestHeaders, body: body?.value, secrets: loaded.secrets, guard };
+}
+
+export const runStream = internalAction({
+  args: { sessionId: v.id("streamSessions") },
+  handler: async (ctx, args) => {
+    const session = await ctx.runQuery(internal.streams.getStreamSession, args);
+    if (!session || session.status !== "connecting") return;
+
+    const buffer: { direction: StreamDirection; event?: string; data: string; at: number }[] = [];
+    const secrets = new Set<string>();
+    const note = (direction: StreamDirection, data: string, event?: string) =>
+      buffer.push({ direction, data: redactSecrets(data, [...secrets]), ...(event !== undefined && { event }), at: Date.now() });
+    const flush = (status?: StreamStatus, error?: string) =>
+      ctx.runMutation(internal.streams.recordStream, { ...args, messages: buffer.splice(0), status, error });
+
+    let connection: Connection | undefined;
+    try {
+      const prepared = await prepare(ctx, session);
+      if ("error" in prepared) {
+        await flush("error", prepared.error);
+        return;
+      }
+      prepared.secrets.forEach((secret) => secrets.add(secret));
+
+      let opened = false;
+      let statusChange: StreamStatus | undefined;
+      const events: StreamEvents = {
+        open: (text) => {
+          opened = true;
+          statusChange = "open";
+          note("info", text);
+        },
+        message: (data, event) => note("in", data, event),
+        info: (text) => note("info", text),
+      };
+      connection =
+        session.kind === "websocket"
+          ? connectWebSocket(prepared.url, prepared.headers, prepared.guard, events)
+          : connectHttp(
+              session.kind,
+              prepared.url,
+              {
+                method: session.method,
+                headers: prepared.headers,
+                body: METHODS_WITH_BODY.includes(session.method) ? prepared.body : undefined,
+              },
+              prepared.guard,
+              events
+            );
+
+      const ended = new AbortController();
+      let outcome: { error?: string } | undefined;
+      void connection.ended.then((error) => {
+        outcome = { error };
+        ended.abort();
+      });
+
+      // Frames queued before the socket opened
+      const outgoing: string[] = [];
+      let failure: string | undefined;
+      const startedAt = Date.now();
+      while (!outcome) {
+        await sleep(FLUSH_MS, ended.signal);
+        if (outcome) break;
+
+        const control = await flush(statusChange);
+        statusChange = undefined;
+        outgoing.push(...control.outgoing);
+        if (opened && connection.send) {
+          for (const frame of outgoing.splice(0)) {
+            // Frames may use {{variables}} too, including values extracted
+            // into the environment since the stream started
+            const loaded = await loadVariables(ctx, session.userId, session.environmentId, [frame]);
+            if ("error" in loaded) {
+              note("info", `Frame not sent: ${loaded.error}`);
+              continue;
+            }
+            const resolved = resolveVariables(frame, loaded.vars);
+            if (resolved.missing.length > 0) {
+              note("info", `Frame not sent: unresolved variables ${resolved.missing.join(", ")}`);
+              continue;
+            }
+            loaded.secrets.forEach((secret) => secrets.add(secret));
+            connection.send(resolved.value);
+          }
+        }
+
+        const elapsed = Date.now() - startedAt;
+        let reason: string | undefined;
+        if (control.full) reason = `Closed: the log is limited to ${MAX_STREAM_MESSAGES} messages`;
+        else if (control.close) reason = "Closed by user";
+        else if (elapsed > MAX_STREAM_MS) reason = `Closed after ${MAX_STREAM_MS / 60000} minutes`;
+        else if (!opened && elapsed > CONNECT_TIMEOUT_MS) failure = `Timed out connecting after ${CONNECT_TIMEOUT_MS / 1000} s`;
+        if (reason || failure) {
+          if (reason) note("info", reason);
+          connection.close();
+          await Promise.race([connection.ended, sleep(CLOSE_GRACE_MS, new AbortController().signal)]);
+          break;
+        }
+      }
+
+      const error = failure ?? outcome?.error;
+      await flush(error ? "error" : "closed", error);
+    } catch (error) {
+      connection?.close();
+      await flush("error", error instanceof Error ? error.message : "Stream failed");
+    }
+  },
+});
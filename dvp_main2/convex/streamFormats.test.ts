@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { createLineSplitter, createNdjsonParser, createSseParser, MAX_MESSAGE_LENGTH, truncateMessage } from "./streamFormats";
+
+// Feeds `chunks` to a parser and returns everything it produced
+function feed<T>(parser: { push: (chunk: string) => T[]; flush: () => T[] }, chunks: string[]) {
+  return [...chunks.flatMap((chunk) => parser.push(chunk)), ...parser.flush()];
+}
+
+describe("createLineSplitter", () => {
+  it("returns lines as they complete", () => {
+    const lines = createLineSplitter();
+    expect(lines.push("one\ntw")).toEqual(["one"]);
+    expect(lines.push("o\nthree")).toEqual(["two"]);
+    expect(lines.flush()).toEqual(["three"]);
+    expect(lines.flush()).toEqual([]);
+  });
+
+  it("accepts \\n, \\r\\n and \\r line endings", () => {
+    expect(feed(createLineSplitter(), ["a\r\nb\rc\nd"])).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("does not see an empty line in a \\r\\n split across chunks", () => {
+    expect(feed(createLineSplitter(), ["a\r", "\nb\r", "\n"])).toEqual(["a", "b"]);
+    expect(feed(createLineSplitter(), ["a\r", "\r\nb"])).toEqual(["a", "", "b"]);
+  });
+
+  it("gives the same lines however the text is split", () => {
+    const text = "first\r\nsecond\n\nthird\rfourth";
+    const whole = feed(createLineSplitter(), [text]);
+    for (let size = 1; size <= 4; size++) {
+      const chunks = text.match(new RegExp(`[\\s\\S]{1,${size}}`, "g"))!;
+      expect(feed(createLineSplitter(), chunks)).toEqual(whole);
+    }
+  });
+});
+
+describe("createNdjsonParser", () => {
+  it("skips blank lines and keeps an unterminated last line", () => {
+    expect(feed(createNdjsonParser(), ['{"a":1}\n\n  \n{"b"', ":2}"])).toEqual(['{"a":1}', '{"b":2}']);
+  });
+});
+
+describe("createSseParser", () => {
+  it("dispatches events on a blank line", () => {
+    const parser = createSseParser();
+    expect(parser.push("data: hello\n")).toEqual([]);
+    expect(parser.push("\n")).toEqual([{ event: "message", data: "hello" }]);
+  });
+
+  it("joins data lines and reads event names and ids", () => {
+    const events = feed(createSseParser(), ["event: update\nid: 7\ndata: line 1\ndata:line 2\n\n"]);
+    expect(events).toEqual([{ event: "update", data: "line 1\nline 2", id: "7" }]);
+  });
+
+  it("keeps the last id for later events and resets the event name", () => {
+    const events = feed(createSseParser(), ["event: a\nid: 1\ndata: x\n\ndata: y\n\n"]);
+    expect(events).toEqual([
+      { event: "a", data: "x", id: "1" },
+      { event: "message", data: "y", id: "1" },
+    ]);
+  });
+
+  it("ignores comments, unknown fields and events without data", () => {
+    const events = feed(createSseParser(), [": keep-alive\nretry: 1000\n\nevent: ping\n\ndata\n\n"]);
+    expect(events).toEqual([{ event: "message", data: "" }]);
+  });
+
+  it("handles fields and line endings split across chunks", () => {
+    const text = "event: tick\r\ndata: {\"n\":1}\r\n\r\ndata: second\r\n\r\n";
+    const expected = [
+      { event: "tick", data: '{"n":1}' },
+      { event: "message", data: "second" },
+    ];
+    for (let size = 1; size <= 5; size++) {
+      const chunks = text.match(new RegExp(`[\\s\\S]{1,${size}}`, "g"))!;
+      expect(feed(createSseParser(), chunks)).toEqual(expected);
+    }
+  });
+
+  it("drops an event the stream ended in the middle of", () => {
+    expect(feed(createSseParser(), ["data: complete\n\ndata: partial"])).toEqual([
+      { event: "message", data: "complete" },
+    ]);
+  });
+});
+
+describe("truncateMessage", () => {
+  it("cuts long messages and marks them", () => {
+    expect(truncateMessage("short")).toEqual({ data: "short" });
+    const long = "x".repeat(MAX_MESSAGE_LENGTH + 1);
+    expect(truncateMessage(long)).toEqual({ data: long.slice(0, MAX_MESSAGE_LENGTH), truncated: true });
+  });
+});
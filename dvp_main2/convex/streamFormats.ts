@@ -0,0 +1,95 @@
+// Parsing for the streaming client: Server-Sent Events and newline-delimited
+// JSON arrive in chunks that split events and lines anywhere, so both
+// parsers keep the incomplete tail until the next chunk. Pure, so the
+// frontend can share the limits.
+
+// A connection is closed after this long; actions may not run much longer
+export const MAX_STREAM_MS = 5 * 60 * 1000;
+
+// Messages kept per session; the connection is closed once it is reached
+export const MAX_STREAM_MESSAGES = 1000;
+
+// Longer messages are cut to this many characters
+export const MAX_MESSAGE_LENGTH = 8 * 1024;
+
+export function truncateMessage(text: string): { data: string; truncated?: boolean } {
+  return text.length > MAX_MESSAGE_LENGTH ? { data: text.slice(0, MAX_MESSAGE_LENGTH), truncated: true } : { data: text };
+}
+
+// Splits text into lines as they complete, keeping the unfinished last line
+export function createLineSplitter() {
+  let buffer = "";
+  // The last chunk ended in \r, which may be the first half of \r\n
+  let afterCR = false;
+  return {
+    push(chunk: string): string[] {
+      if (afterCR && chunk.startsWith("\n")) chunk = chunk.slice(1);
+      afterCR = chunk.endsWith("\r");
+      buffer += chunk;
+      const lines = buffer.split(/\r\n|\n|\r/);
+      buffer = lines.pop() ?? "";
+      return lines;
+    },
+    // The last line when the stream ends without a newline
+    flush(): string[] {
+      const rest = buffer;
+      buffer = "";
+      return rest ? [rest] : [];
+    },
+  };
+}
+
+// NDJSON: every non-blank line is one message
+export function createNdjsonParser() {
+  const lines = createLineSplitter();
+  const messages = (list: string[]) => list.filter((line) => line.trim() !== "");
+  return {
+    push: (chunk: string) => messages(lines.push(chunk)),
+    flush: () => messages(lines.flush()),
+  };
+}
+
+export interface SseEvent {
+  // "message" unless the event names another type
+  event: string;
+  data: string;
+  id?: string;
+}
+
+// Server-Sent Events as the HTML spec parses them: `data` lines are joined
+// with newlines, a blank line dispatches the event and `:` starts a comment
+export function createSseParser() {
+  const lines = createLineSplitter();
+  let event = "";
+  let data: string[] = [];
+  let id: string | undefined;
+
+  const read = (list: string[]) => {
+    const events: SseEvent[] = [];
+    for (const line of list) {
+      if (line === "") {
+        if (data.length > 0) events.push({ event: event || "message", data: data.join("\n"), ...(id !== undefined && { id }) });
+        event = "";
+        data = [];
+        continue;
+      }
+      if (line.startsWith(":")) continue;
+      const colon = line.indexOf(":");
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+      if (field === "data") data.push(value);
+      else if (field === "event") event = value;
+      else if (field === "id" && !value.includes("\0")) id = value;
+    }
+    return events;
+  };
+
+  return {
+    push: (chunk: string) => read(lines.push(chunk)),
+    // An event the stream ended in the middle of is dropped, as browsers do
+    flush: () => {
+      lines.flush();
+      return [];
+    },
+  };
+}
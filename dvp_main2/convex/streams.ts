@@ -0,0 +1,215 @@
+import { v } from "convex/values";
+import { mutation, query, internalMutation, internalQuery, MutationCtx, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { httpMethod, streamDirection, streamKind, streamStatus } from "./validators";
+import { MAX_STREAM_MESSAGES, truncateMessage } from "./streamFormats";
+
+// Streaming sessions. `startStream` queues `streamClient.runStream`, which
+// holds the connection and flushes what it receives through `recordStream`
+// every few hundred milliseconds; the client subscribes to `getStreamLog`.
+// Outgoing WebSocket frames go the other way, as pending messages the
+// action picks up on its next flush.
+
+// Sessions kept per user; older ones are deleted as new ones start
+const RECENT_SESSIONS = 20;
+
+async function getOwnedSession(ctx: QueryCtx, id: Id<"streamSessions">, userId: Id<"users">) {
+  const session = await ctx.db.get(id);
+  if (!session) throw new Error("Stream not found");
+  if (session.userId !== userId) throw new Error("Unauthorized");
+  return session;
+}
+
+async function deleteSession(ctx: MutationCtx, id: Id<"streamSessions">) {
+  const messages = await ctx.db
+    .query("streamMessages")
+    .withIndex("by_session_and_time", (q) => q.eq("sessionId", id))
+    .collect();
+  await Promise.all(messages.map((message) => ctx.db.delete(message._id)));
+  await ctx.db.delete(id);
+}
+
+export const listStreamSessions = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return [];
+
+    return await ctx.db
+      .query("streamSessions")
+      .withIndex("by_user_and_date", (q) => q.eq("userId", userId))
+      .order("desc")
+      .take(RECENT_SESSIONS);
+  },
+});
+
+// A session and its messages, oldest first
+export const getStreamLog = query({
+  args: { sessionId: v.id("streamSessions") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || session.userId !== userId) return null;
+
+    const messages = await ctx.db
+      .query("streamMessages")
+      .withIndex("by_session_and_time", (q) => q.eq("sessionId", args.sessionId))
+      .take(MAX_STREAM_MESSAGES + 1);
+    return { session, messages };
+  },
+});
+
+export const startStream = mutation({
+  args: {
+    kind: streamKind,
+    url: v.string(),
+    method: httpMethod,
+    headers: v.record(v.string(), v.string()),
+    body: v.optional(v.string()),
+    environmentId: v.optional(v.id("environments")),
+  },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const url = args.url.trim();
+    if (!url) throw new Error("URL is required");
+    if (args.environmentId) {
+      const environment = await ctx.db.get(args.environmentId);
+      if (!environment || environment.userId !== userId) throw new Error("Environment not found");
+    }
+
+    const sessionId = await ctx.db.insert("streamSessions", {
+      userId,
+      ...args,
+      url,
+      status: "connecting",
+      closeRequested: false,
+      messageCount: 0,
+      createdAt: Date.now(),
+    });
+    await ctx.scheduler.runAfter(0, internal.streamClient.runStream, { sessionId });
+
+    const expired = await ctx.db
+      .query("streamSessions")
+      .withIndex("by_user_and_date", (q) => q.eq("userId", userId))
+      .order("desc")
+      .collect();
+    for (const session of expired.slice(RECENT_SESSIONS)) {
+      if (session.status === "closed" || session.status === "error") await deleteSession(ctx, session._id);
+    }
+    return sessionId;
+  },
+});
+
+// Queues a frame for an open (or opening) WebSocket
+export const sendStreamMessage = mutation({
+  args: { sessionId: v.id("streamSessions"), data: v.string() },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    const session = await getOwnedSession(ctx, args.sessionId, userId);
+    if (session.kind !== "websocket") throw new Error("Only WebSocket streams can send messages");
+    if (session.closeRequested || (session.status !== "connecting" && session.status !== "open")) {
+      throw new Error("Stream is closed");
+    }
+
+    await ctx.db.insert("streamMessages", {
+      sessionId: args.sessionId,
+      direction: "out",
+      ...truncateMessage(args.data),
+      pending: true,
+      at: Date.now(),
+    });
+  },
+});
+
+export const closeStream = mutation({
+  args: { sessionId: v.id("streamSessions") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    await getOwnedSession(ctx, args.sessionId, userId);
+    await ctx.db.patch(args.sessionId, { closeRequested: true });
+  },
+});
+
+// A running action finds its session gone on its next flush and disconnects
+export const deleteStreamSession = mutation({
+  args: { sessionId: v.id("streamSessions") },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+
+    await getOwnedSession(ctx, args.sessionId, userId);
+    await deleteSession(ctx, args.sessionId);
+  },
+});
+
+export const getStreamSession = internalQuery({
+  args: { sessionId: v.id("streamSessions") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.sessionId);
+  },
+});
+
+// Appends what the action received since its last flush and updates the
+// session. Returns whether the connection should be closed and the frames
+// waiting to be sent, which are marked as sent.
+export const recordStream = internalMutation({
+  args: {
+    sessionId: v.id("streamSessions"),
+    messages: v.array(
+      v.object({
+        direction: streamDirection,
+        event: v.optional(v.string()),
+        data: v.string(),
+        at: v.number(),
+      })
+    ),
+    status: v.optional(streamStatus),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) return { close: true, full: false, outgoing: [] };
+
+    // Past the limit only the client's own notes are kept
+    const room = MAX_STREAM_MESSAGES - session.messageCount;
+    const messages = args.messages.filter((message, index) => index < room || message.direction === "info");
+    for (const message of messages) {
+      await ctx.db.insert("streamMessages", {
+        sessionId: args.sessionId,
+        direction: message.direction,
+        event: message.event,
+        ...truncateMessage(message.data),
+        at: message.at,
+      });
+    }
+
+    const ended = args.status === "closed" || args.status === "error";
+    const messageCount = session.messageCount + messages.length;
+    await ctx.db.patch(args.sessionId, {
+      messageCount,
+      ...(args.status && { status: args.status }),
+      ...(args.error !== undefined && { error: args.error }),
+      ...(ended && { closedAt: Date.now() }),
+    });
+
+    if (ended) return { close: true, full: false, outgoing: [] };
+
+    // Frames queued after the session ended stay pending, i.e. unsent
+    const pending = await ctx.db
+      .query("streamMessages")
+      .withIndex("by_session_and_pending", (q) => q.eq("sessionId", args.sessionId).eq("pending", true))
+      .collect();
+    await Promise.all(pending.map((message) => ctx.db.patch(message._id, { pending: false })));
+    const full = messageCount >= MAX_STREAM_MESSAGES;
+    return { close: session.closeRequested || full, full, outgoing: pending.map((message) => message.data) };
+  },
+});
@@ -0,0 +1,112 @@
+import { v } from "convex/values";
+import { mutation, query, internalMutation, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { isAdmin } from "./users";
+import { plan } from "./validators";
+import {
+  consume,
+  currentUsage,
+  quotaResetsAt,
+  RATE_LIMITS,
+  RateLimitCheck,
+  rateLimitMessage,
+  UsageTier,
+} from "./rateLimits";
+
+// Per-user request limits. Every request makeRequest, the collection runner
+// or a monitor sends takes a token through `consumeRequest` first.
+
+async function usageTier(ctx: QueryCtx, userId: Id<"users">): Promise<UsageTier> {
+  if (await isAdmin(ctx, userId)) return "admin";
+  const profile = await ctx.db
+    .query("userProfiles")
+    .withIndex("by_user_id", (q) => q.eq("userId", userId))
+    .unique();
+  return profile?.plan ?? "free";
+}
+
+// Records one request, or returns why it may not be sent yet
+export const consumeRequest = internalMutation({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args): Promise<RateLimitCheck> => {
+    const limit = RATE_LIMITS[await usageTier(ctx, args.userId)];
+    const row = await ctx.db
+      .query("requestUsage")
+      .withIndex("by_user_id", (q) => q.eq("userId", args.userId))
+      .unique();
+
+    const now = Date.now();
+    const result = consume(row, limit, now);
+    if (row) {
+      await ctx.db.patch(row._id, result.state);
+    } else {
+      await ctx.db.insert("requestUsage", { userId: args.userId, ...result.state });
+    }
+
+    if (result.allowed) return { allowed: true };
+    return {
+      allowed: false,
+      reason: result.reason,
+      retryAfterMs: result.retryAfterMs,
+      error: rateLimitMessage(result.retryAfterMs, result.reason, limit),
+    };
+  },
+});
+
+// The signed-in user's limits and how much of them is used
+export const getUsage = query({
+  args: {},
+  handler: async (ctx) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) return null;
+
+    const tier = await usageTier(ctx, userId);
+    const limit = RATE_LIMITS[tier];
+    const row = await ctx.db
+      .query("requestUsage")
+      .withIndex("by_user_id", (q) => q.eq("userId", userId))
+      .unique();
+    const now = Date.now();
+    const state = currentUsage(row, limit, now);
+    return {
+      tier,
+      ...limit,
+      usedToday: state.dayCount,
+      tokens: Math.floor(state.tokens),
+      resetsAt: quotaResetsAt(now),
+    };
+  },
+});
+
+// Moves a user, found by email, to another plan. Admins only.
+export const setUserPlan = mutation({
+  args: { email: v.string(), plan },
+  handler: async (ctx, args) => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Unauthorized");
+    if (!(await isAdmin(ctx, userId))) throw new Error("Forbidden: Insufficient permissions");
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", args.email.trim()))
+      .unique();
+    if (!user) throw new Error("User not found");
+
+    const profile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user_id", (q) => q.eq("userId", user._id))
+      .unique();
+    if (profile) {
+      await ctx.db.patch(profile._id, { plan: args.plan });
+    } else {
+      await ctx.db.insert("userProfiles", {
+        userId: user._id,
+        emailVerified: false,
+        twoFactorEnabled: false,
+        loginAttempts: 0,
+        plan: args.plan,
+      });
+    }
+  },
+});
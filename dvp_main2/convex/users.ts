@@ -1,7 +1,19 @@
 import { v } from "convex/values";
-import { mutation, query, action } from "./_generated/server";
+import { mutation, query, action, QueryCtx } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { api } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+
+// Admins are listed by email in the comma-separated ADMIN_EMAILS
+// environment variable
+export async function isAdmin(ctx: QueryCtx, userId: Id<"users">) {
+  const user = await ctx.db.get(userId);
+  const admins = (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  return !!user?.email && admins.includes(user.email.toLowerCase());
+}
 
 export const getCurrentUser = query({
   args: {},
@@ -24,6 +36,7 @@ export const getCurrentUser = query({
     return {
       ...user,
       profile,
+      isAdmin: await isAdmin(ctx, userId),
     };
   },
 });
@@ -0,0 +1,420 @@
+import { v, Infer } from "convex/values";
+
+// Shared validators used by the schema and by the functions that read or
+// write the same shapes.
+
+export const httpMethod = v.union(
+  v.literal("GET"),
+  v.literal("POST"),
+  v.literal("PUT"),
+  v.literal("PATCH"),
+  v.literal("DELETE"),
+  v.literal("HEAD"),
+  v.literal("OPTIONS")
+);
+
+export type HttpMethod = Infer<typeof httpMethod>;
+
+// Methods for which a request body is sent
+export const METHODS_WITH_BODY: HttpMethod[] = ["POST", "PUT", "PATCH", "DELETE"];
+
+export const oauth2GrantType = v.union(v.literal("client_credentials"), v.literal("password"));
+
+// Authentication applied server-side by makeRequest
+export const requestAuth = v.union(
+  v.object({ type: v.literal("none") }),
+  v.object({ type: v.literal("bearer"), token: v.string() }),
+  v.object({ type: v.literal("basic"), username: v.string(), password: v.string() }),
+  v.object({
+    type: v.literal("apiKey"),
+    key: v.string(),
+    value: v.string(),
+    addTo: v.union(v.literal("header"), v.literal("query")),
+  }),
+  v.object({
+    type: v.literal("oauth2"),
+    grantType: oauth2GrantType,
+    tokenUrl: v.string(),
+    clientId: v.string(),
+    clientSecret: v.string(),
+    scope: v.optional(v.string()),
+    username: v.optional(v.string()),
+    password: v.optional(v.string()),
+    // Send client credentials as an HTTP Basic header or in the form body
+    clientAuthentication: v.union(v.literal("basic"), v.literal("body")),
+  })
+);
+
+export type RequestAuth = Infer<typeof requestAuth>;
+export type OAuth2Auth = Extract<RequestAuth, { type: "oauth2" }>;
+
+const keyValueEntry = v.object({
+  key: v.string(),
+  value: v.string(),
+  enabled: v.boolean(),
+});
+
+// A query string parameter as edited in the params grid. Disabled params
+// are kept here but left out of `url`, which stays the source of truth for
+// what is sent.
+export const queryParam = keyValueEntry;
+
+export type QueryParam = Infer<typeof queryParam>;
+
+// A field of a form-urlencoded body; disabled fields are not sent
+export const formField = keyValueEntry;
+
+export type FormField = Infer<typeof formField>;
+
+export const multipartPart = v.union(
+  v.object({
+    kind: v.literal("text"),
+    key: v.string(),
+    value: v.string(),
+    enabled: v.boolean(),
+  }),
+  v.object({
+    kind: v.literal("file"),
+    key: v.string(),
+    storageId: v.id("_storage"),
+    fileName: v.string(),
+    contentType: v.optional(v.string()),
+    enabled: v.boolean(),
+  })
+);
+
+export type MultipartPart = Infer<typeof multipartPart>;
+
+// Request bodies by type. Files for multipart and binary bodies live in
+// Convex file storage and are registered in `requestFiles`.
+export const requestBody = v.union(
+  v.object({ type: v.literal("json"), content: v.string() }),
+  v.object({ type: v.literal("xml"), content: v.string() }),
+  v.object({ type: v.literal("text"), content: v.string(), contentType: v.string() }),
+  v.object({ type: v.literal("formUrlEncoded"), fields: v.array(formField) }),
+  v.object({ type: v.literal("multipart"), parts: v.array(multipartPart) }),
+  // Sent as a JSON POST body; `variables` is JSON text as typed in the editor
+  v.object({
+    type: v.literal("graphql"),
+    query: v.string(),
+    variables: v.string(),
+    operationName: v.optional(v.string()),
+  }),
+  v.object({
+    type: v.literal("binary"),
+    storageId: v.id("_storage"),
+    fileName: v.string(),
+    contentType: v.optional(v.string()),
+  })
+);
+
+export type RequestBody = Infer<typeof requestBody>;
+
+// How `body` is stored. Plain strings are JSON bodies saved before bodies
+// were typed; `migrations.migrateRequestBodies` rewrites them.
+export const storedRequestBody = v.optional(v.union(requestBody, v.string()));
+
+export const assertionOperator = v.union(
+  v.literal("equals"),
+  v.literal("notEquals"),
+  v.literal("contains"),
+  v.literal("matches"),
+  v.literal("exists"),
+  v.literal("isType"),
+  v.literal("lessThan"),
+  v.literal("greaterThan")
+);
+
+export type AssertionOperator = Infer<typeof assertionOperator>;
+
+// Checks evaluated against a response. `expected` is text as typed; for JSON
+// path assertions it is compared as JSON when it parses as JSON.
+export const assertion = v.union(
+  v.object({
+    type: v.literal("status"),
+    operator: assertionOperator,
+    expected: v.string(),
+    enabled: v.boolean(),
+  }),
+  v.object({
+    type: v.literal("header"),
+    name: v.string(),
+    operator: assertionOperator,
+    expected: v.string(),
+    enabled: v.boolean(),
+  }),
+  v.object({
+    type: v.literal("jsonPath"),
+    path: v.string(),
+    operator: assertionOperator,
+    expected: v.string(),
+    enabled: v.boolean(),
+  }),
+  v.object({
+    type: v.literal("responseTime"),
+    maxMs: v.number(),
+    enabled: v.boolean(),
+  })
+);
+
+export type Assertion = Infer<typeof assertion>;
+
+export const assertionResult = v.object({
+  description: v.string(),
+  passed: v.boolean(),
+  actual: v.optional(v.string()),
+  message: v.optional(v.string()),
+});
+
+export type AssertionResult = Infer<typeof assertionResult>;
+
+// Where an extracted value is written: the selected environment, or
+// variables that only live for the rest of a collection run
+export const extractionScope = v.union(v.literal("environment"), v.literal("run"));
+
+export type ExtractionScope = Infer<typeof extractionScope>;
+
+// Copies a value from a response into a {{variable}} for later requests.
+// Regexes capture their first group, or the whole match without groups.
+export const extractionRule = v.union(
+  v.object({
+    source: v.literal("jsonPath"),
+    path: v.string(),
+    variable: v.string(),
+    scope: extractionScope,
+    enabled: v.boolean(),
+  }),
+  v.object({
+    source: v.literal("header"),
+    name: v.string(),
+    variable: v.string(),
+    scope: extractionScope,
+    enabled: v.boolean(),
+  }),
+  v.object({
+    source: v.literal("regex"),
+    pattern: v.string(),
+    variable: v.string(),
+    scope: extractionScope,
+    enabled: v.boolean(),
+  })
+);
+
+export type ExtractionRule = Infer<typeof extractionRule>;
+
+export const extractionResult = v.object({
+  variable: v.string(),
+  scope: extractionScope,
+  description: v.string(),
+  value: v.optional(v.string()),
+  // Set when nothing was extracted
+  error: v.optional(v.string()),
+});
+
+export type ExtractionResult = Infer<typeof extractionResult>;
+
+// Limits shared by every pagination strategy. `itemsPath` points at the
+// array in each page (empty when the page itself is the array).
+const paginationLimits = {
+  itemsPath: v.string(),
+  maxPages: v.number(),
+  maxItems: v.number(),
+};
+
+// How the pagination follower finds the next page (see pagination.ts):
+// the `next` link of the Link header, a cursor read from the body and sent
+// back in `param` (or followed when it is a URL), or a page number or
+// offset counted up in `param`
+export const pagination = v.union(
+  v.object({ type: v.literal("linkHeader"), ...paginationLimits }),
+  v.object({ type: v.literal("cursor"), cursorPath: v.string(), param: v.string(), ...paginationLimits }),
+  v.object({ type: v.literal("page"), param: v.string(), start: v.number(), ...paginationLimits }),
+  v.object({ type: v.literal("offset"), param: v.string(), ...paginationLimits })
+);
+
+export type Pagination = Infer<typeof pagination>;
+
+// The JSON Schema responses must match (see jsonSchema.ts), kept as JSON
+// text because Convex field names cannot start with "$"
+export const responseSchema = v.object({
+  schema: v.string(),
+  // Inferred from past responses, or written by hand as the contract
+  source: v.union(v.literal("inferred"), v.literal("manual")),
+});
+
+export type ResponseSchema = Infer<typeof responseSchema>;
+
+// Where a response breaks its schema; `path` is a JSON path like `$.items[0].id`
+export const schemaViolation = v.object({
+  path: v.string(),
+  message: v.string(),
+});
+
+export type SchemaViolation = Infer<typeof schemaViolation>;
+
+// Outcome of one saved request in a collection run
+export const runResult = v.object({
+  savedRequestId: v.id("savedRequests"),
+  name: v.string(),
+  method: httpMethod,
+  url: v.string(),
+  status: v.optional(v.number()),
+  durationMs: v.optional(v.number()),
+  error: v.optional(v.string()),
+  assertions: v.array(assertionResult),
+  extracted: v.optional(v.array(extractionResult)),
+  schemaViolations: v.optional(v.array(schemaViolation)),
+  passed: v.boolean(),
+});
+
+export type RunResult = Infer<typeof runResult>;
+
+// How makeRequest sends a request: the timeout covers redirects and retries;
+// retries back off exponentially from `retryDelayMs` and only happen for the
+// status codes in `retryOn`
+export const requestSettings = v.object({
+  timeoutMs: v.number(),
+  followRedirects: v.boolean(),
+  maxRedirects: v.number(),
+  retries: v.number(),
+  retryOn: v.array(v.number()),
+  retryDelayMs: v.number(),
+});
+
+export type RequestSettings = Infer<typeof requestSettings>;
+
+// Which hosts and ports makeRequest may reach. Hosts are names, `*.domain`
+// wildcards, IP addresses or CIDR ranges.
+export const egressPolicy = v.object({
+  // Private, loopback, link-local and other non-public addresses
+  allowPrivateNetworks: v.boolean(),
+  // Exempt from the private address check
+  allowHosts: v.array(v.string()),
+  denyHosts: v.array(v.string()),
+  // When not empty, only these ports may be used
+  allowPorts: v.array(v.number()),
+  denyPorts: v.array(v.number()),
+});
+
+export type EgressPolicy = Infer<typeof egressPolicy>;
+
+// A mock endpoint served under its owner's mock prefix. `path` is a pattern
+// such as /users/:id and `body` a template (see mockRoutes.ts).
+export const mockEndpointFields = {
+  name: v.string(),
+  method: httpMethod,
+  path: v.string(),
+  status: v.number(),
+  headers: v.record(v.string(), v.string()),
+  body: v.string(),
+  delayMs: v.number(),
+  enabled: v.boolean(),
+};
+
+export const mockEndpoint = v.object(mockEndpointFields);
+
+export type MockEndpoint = Infer<typeof mockEndpoint>;
+
+// A user's plan, which sets their request limits (see rateLimits.ts)
+export const plan = v.union(v.literal("free"), v.literal("pro"));
+
+export type Plan = Infer<typeof plan>;
+
+// A monitor run is "up" when a response arrived and passed the request's
+// assertions (or, without assertions, had a status below 400) and matched
+// its response schema, if it has one
+export const monitorOutcome = v.union(v.literal("up"), v.literal("down"));
+
+export type MonitorOutcome = Infer<typeof monitorOutcome>;
+
+// Where alerts are sent: `target` is an email address for "email" and a URL
+// for the webhook types
+export const alertChannelType = v.union(v.literal("email"), v.literal("webhook"), v.literal("slack"));
+
+export type AlertChannelType = Infer<typeof alertChannelType>;
+
+// When an alert rule fires, judged on the monitor's latest runs
+export const alertCondition = v.union(
+  v.object({
+    type: v.literal("monitor_down"),
+    consecutiveRuns: v.number(),
+  }),
+  v.object({
+    type: v.literal("latency_above"),
+    thresholdMs: v.number(),
+    consecutiveRuns: v.number(),
+  })
+);
+
+export type AlertCondition = Infer<typeof alertCondition>;
+
+export const alertEvent = v.union(
+  v.literal("triggered"),
+  v.literal("reminder"),
+  v.literal("recovered"),
+  v.literal("test")
+);
+
+export type AlertEvent = Infer<typeof alertEvent>;
+
+// What a notification says, rendered per channel type by alertRules.ts
+export const alertNotice = v.object({
+  event: alertEvent,
+  ruleName: v.string(),
+  monitorName: v.string(),
+  condition: v.string(),
+  // From the run that caused the notification
+  status: v.optional(v.number()),
+  durationMs: v.optional(v.number()),
+  error: v.optional(v.string()),
+  // When the rule started firing
+  since: v.optional(v.number()),
+  at: v.number(),
+});
+
+export type AlertNotice = Infer<typeof alertNotice>;
+
+// Streaming clients: a WebSocket connection, or an HTTP response read as
+// Server-Sent Events or newline-delimited JSON (see streams.ts)
+export const streamKind = v.union(v.literal("websocket"), v.literal("sse"), v.literal("ndjson"));
+
+export type StreamKind = Infer<typeof streamKind>;
+
+export const streamStatus = v.union(
+  v.literal("connecting"),
+  v.literal("open"),
+  v.literal("closed"),
+  v.literal("error")
+);
+
+export type StreamStatus = Infer<typeof streamStatus>;
+
+// "info" entries are written by the client itself: connected, closed, ...
+export const streamDirection = v.union(v.literal("in"), v.literal("out"), v.literal("info"));
+
+export type StreamDirection = Infer<typeof streamDirection>;
+
+// The parts of a request that are stored both in history and in saved
+// requests. Extend this rather than either table so the two stay in sync.
+export const requestFields = {
+  url: v.string(),
+  method: httpMethod,
+  headers: v.record(v.string(), v.string()),
+  body: v.optional(requestBody),
+  auth: v.optional(requestAuth),
+  params: v.optional(v.array(queryParam)),
+  assertions: v.optional(v.array(assertion)),
+  extractions: v.optional(v.array(extractionRule)),
+  pagination: v.optional(pagination),
+  responseSchema: v.optional(responseSchema),
+  settings: v.optional(requestSettings),
+};
+
+export const requestFieldsValidator = v.object(requestFields);
+
+export type RequestFields = Infer<typeof requestFieldsValidator>;
+
+// A request as read back from `apiHistory` or `savedRequests`
+export type StoredRequestFields = Omit<RequestFields, "body"> & {
+  body?: Infer<typeof storedRequestBody>;
+};
@@ -0,0 +1,104 @@
+// {{name}} placeholder substitution shared by makeRequest and the request
+// builder UI.
+
+const VARIABLE_PATTERN = /\{\{\s*((?:secret:)?[\w.-]+)\s*\}\}/g;
+
+// {{secret:name}} refers to the user's secret vault. Secrets resolve like
+// variables, under their prefixed name, but only makeRequest has their values.
+export const SECRET_PREFIX = "secret:";
+
+export const SECRET_NAME_PATTERN = /^[\w.-]+$/;
+
+export const isSecretReference = (name: string) => name.startsWith(SECRET_PREFIX);
+
+// Values shorter than this are left alone; masking them would mangle
+// unrelated text
+const MIN_REDACTED_LENGTH = 4;
+
+export const REDACTED = "••••••";
+
+// Masks every occurrence of the given secret values, e.g. in a response that
+// echoes the request back
+export function redactSecrets(text: string, values: string[]) {
+  let redacted = text;
+  for (const value of values) {
+    if (value.length >= MIN_REDACTED_LENGTH) redacted = redacted.split(value).join(REDACTED);
+  }
+  return redacted;
+}
+
+export interface Variable {
+  key: string;
+  value: string;
+}
+
+export interface ResolveResult {
+  value: string;
+  missing: string[];
+}
+
+export function toVariableMap(variables: Variable[]): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const variable of variables) {
+    if (variable.key.trim()) {
+      map[variable.key.trim()] = variable.value;
+    }
+  }
+  return map;
+}
+
+// Names of every {{placeholder}} referenced in the given strings
+export function findVariables(...templates: (string | undefined)[]): string[] {
+  const names = new Set<string>();
+  for (const template of templates) {
+    if (!template) continue;
+    for (const match of template.matchAll(VARIABLE_PATTERN)) {
+      names.add(match[1]);
+    }
+  }
+  return [...names];
+}
+
+// Replaces every {{name}} found in `vars`; unknown placeholders are left in
+// place and reported in `missing` so the caller can refuse to send them.
+export function resolveVariables(template: string, vars: Record<string, string>): ResolveResult {
+  const missing = new Set<string>();
+  const value = template.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    if (Object.prototype.hasOwnProperty.call(vars, name)) {
+      return vars[name];
+    }
+    missing.add(name);
+    return placeholder;
+  });
+  return { value, missing: [...missing] };
+}
+
+// Splits a template into literal text and {{placeholder}} names, e.g. for
+// rendering placeholders as something other than their values.
+export function splitTemplate(template: string): (string | { variable: string })[] {
+  const parts: (string | { variable: string })[] = [];
+  let last = 0;
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    if (match.index > last) parts.push(template.slice(last, match.index));
+    parts.push({ variable: match[1] });
+    last = match.index + match[0].length;
+  }
+  if (last < template.length) parts.push(template.slice(last));
+  return parts;
+}
+
+export function resolveRecord(
+  record: Record<string, string>,
+  vars: Record<string, string>
+): { value: Record<string, string>; missing: string[] } {
+  const missing = new Set<string>();
+  const value: Record<string, string> = {};
+  for (const [key, raw] of Object.entries(record)) {
+    const resolvedKey = resolveVariables(key, vars);
+    const resolvedValue = resolveVariables(raw, vars);
+    resolvedKey.missing.forEach((name) => missing.add(name));
+    resolvedValue.missing.forEach((name) => missing.add(name));
+    value[resolvedKey.value] = resolvedValue.value;
+  }
+  return { value, missing: [...missing] };
+}
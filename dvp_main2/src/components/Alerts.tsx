@@ -0,0 +1,514 @@
+import React, { useState } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import type { AlertChannelType, AlertCondition } from "../../convex/validators";
+import { MAX_CONSECUTIVE_RUNS } from "../../convex/alertRules";
+
+const CHANNEL_TYPES: { value: AlertChannelType; label: string; placeholder: string }[] = [
+  { value: "email", label: "Email", placeholder: "oncall@example.com" },
+  { value: "webhook", label: "Webhook", placeholder: "https://example.com/hooks/alerts" },
+  { value: "slack", label: "Slack webhook", placeholder: "https://hooks.slack.com/services/..." },
+];
+
+const RENOTIFY_OPTIONS = [
+  { minutes: 0, label: "Never" },
+  { minutes: 15, label: "Every 15 min" },
+  { minutes: 60, label: "Every hour" },
+  { minutes: 240, label: "Every 4 hours" },
+  { minutes: 1440, label: "Every day" },
+];
+
+const EVENT_LABELS = {
+  triggered: "Triggered",
+  reminder: "Reminder",
+  recovered: "Recovered",
+  test: "Test",
+};
+
+function ChannelsSection() {
+  const channels = useQuery(api.alerts.listAlertChannels);
+  const createChannel = useMutation(api.alerts.createAlertChannel);
+  const deleteChannel = useMutation(api.alerts.deleteAlertChannel);
+  const confirmChannel = useMutation(api.alerts.confirmAlertChannel);
+  const sendTestAlert = useAction(api.alertDelivery.sendTestAlert);
+  const sendConfirmation = useAction(api.alertDelivery.sendChannelConfirmation);
+
+  const [name, setName] = useState("");
+  const [type, setType] = useState<AlertChannelType>("email");
+  const [target, setTarget] = useState("");
+  const [testingId, setTestingId] = useState<Id<"alertChannels"> | null>(null);
+  const [codes, setCodes] = useState<Record<string, string>>({});
+
+  const handleSendCode = async (id: Id<"alertChannels">) => {
+    try {
+      await sendConfirmation({ channelId: id });
+      toast.success("Confirmation code sent; enter it to start receiving alerts");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send confirmation code");
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      const id = await createChannel({ name, type, target });
+      setName("");
+      setTarget("");
+      if (type === "email") {
+        await handleSendCode(id);
+      } else {
+        toast.success("Channel added");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add channel");
+    }
+  };
+
+  const handleConfirm = async (id: Id<"alertChannels">) => {
+    try {
+      const result = await confirmChannel({ id, code: codes[id] ?? "" });
+      if (result.success) {
+        setCodes(({ [id]: _code, ...rest }) => rest);
+        toast.success("Email address confirmed");
+      } else {
+        toast.error(result.error);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to confirm address");
+    }
+  };
+
+  const handleTest = async (id: Id<"alertChannels">) => {
+    setTestingId(id);
+    try {
+      const result = await sendTestAlert({ channelId: id });
+      if (result.success) {
+        toast.success("Test notification sent");
+      } else {
+        toast.error(`Delivery failed${result.status ? ` (${result.status})` : ""}: ${result.error}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send test notification");
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleDelete = async (id: Id<"alertChannels">, channelName: string) => {
+    if (!window.confirm(`Delete the "${channelName}" channel? Rules will stop sending to it.`)) return;
+    try {
+      await deleteChannel({ id });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete channel");
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mb-2">Channels</h3>
+      <div className="space-y-2 mb-3">
+        {channels === undefined ? (
+          <div className="animate-pulse bg-gray-100 h-12 rounded-lg"></div>
+        ) : channels.length === 0 ? (
+          <p className="text-sm text-gray-500">No channels yet.</p>
+        ) : (
+          channels.map((channel) => (
+            <div key={channel._id} className="flex items-center gap-3 px-3 py-2 bg-gray-50 rounded-md text-sm">
+              <span className="px-2 py-0.5 text-xs font-medium rounded bg-gray-200 text-gray-700">
+                {CHANNEL_TYPES.find((option) => option.value === channel.type)?.label}
+              </span>
+              <span className="font-medium">{channel.name}</span>
+              <span className="flex-1 text-gray-500 font-mono truncate">{channel.target}</span>
+              {channel.type === "email" && channel.confirmedAt === undefined ? (
+                <>
+                  <span className="px-2 py-0.5 text-xs font-medium rounded bg-yellow-100 text-yellow-800">
+                    Unconfirmed
+                  </span>
+                  {channel.confirmationSent && (
+                    <>
+                      <input
+                        type="text"
+                        value={codes[channel._id] ?? ""}
+                        onChange={(e) => setCodes((current) => ({ ...current, [channel._id]: e.target.value }))}
+                        placeholder="Code"
+                        maxLength={6}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button
+                        onClick={() => void handleConfirm(channel._id)}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        Confirm
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={() => void handleSendCode(channel._id)}
+                    className="text-blue-600 hover:text-blue-900"
+                  >
+                    {channel.confirmationSent ? "Resend code" : "Send code"}
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => void handleTest(channel._id)}
+                  disabled={testingId === channel._id}
+                  className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                >
+                  {testingId === channel._id ? "Sending..." : "Send test"}
+                </button>
+              )}
+              <button
+                onClick={() => void handleDelete(channel._id, channel.name)}
+                className="text-red-600 hover:text-red-900"
+              >
+                Delete
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name"
+          className="w-40 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as AlertChannelType)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {CHANNEL_TYPES.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          placeholder={CHANNEL_TYPES.find((option) => option.value === type)?.placeholder}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          onClick={() => void handleCreate()}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+        >
+          Add Channel
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Webhooks are subject to the egress policy; private addresses such as a local test sink must be allowed by an
+        admin. Email addresses receive alerts once confirmed with the code sent to them.
+      </p>
+    </div>
+  );
+}
+
+function RuleForm({ onClose }: { onClose: () => void }) {
+  const monitors = useQuery(api.monitors.listMonitors, { windowHours: 24 });
+  const channels = useQuery(api.alerts.listAlertChannels);
+  const createRule = useMutation(api.alerts.createAlertRule);
+
+  const [name, setName] = useState("");
+  const [monitorId, setMonitorId] = useState<Id<"monitors"> | "">("");
+  const [conditionType, setConditionType] = useState<AlertCondition["type"]>("monitor_down");
+  const [thresholdMs, setThresholdMs] = useState(1000);
+  const [consecutiveRuns, setConsecutiveRuns] = useState(2);
+  const [channelIds, setChannelIds] = useState<Id<"alertChannels">[]>([]);
+  const [renotifyMinutes, setRenotifyMinutes] = useState(60);
+  const [saving, setSaving] = useState(false);
+
+  const handleCreate = async () => {
+    if (!monitorId) {
+      toast.error("Please choose a monitor");
+      return;
+    }
+    const condition: AlertCondition =
+      conditionType === "monitor_down"
+        ? { type: "monitor_down", consecutiveRuns }
+        : { type: "latency_above", thresholdMs, consecutiveRuns };
+    setSaving(true);
+    try {
+      await createRule({ name, monitorId, condition, channelIds, renotifyMinutes });
+      toast.success("Alert rule created");
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create rule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleChannel = (id: Id<"alertChannels">) =>
+    setChannelIds((ids) => (ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id]));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">New Alert Rule</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            ✕
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Checkout API is down"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Monitor</label>
+            <select
+              value={monitorId}
+              onChange={(e) => setMonitorId(e.target.value as Id<"monitors"> | "")}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Choose a monitor</option>
+              {monitors?.map((monitor) => (
+                <option key={monitor._id} value={monitor._id}>
+                  {monitor.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className={conditionType === "monitor_down" ? "col-span-2" : ""}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">When</label>
+              <select
+                value={conditionType}
+                onChange={(e) => setConditionType(e.target.value as AlertCondition["type"])}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="monitor_down">Monitor is down</option>
+                <option value="latency_above">Latency above</option>
+              </select>
+            </div>
+            {conditionType === "latency_above" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Threshold (ms)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={thresholdMs}
+                  onChange={(e) => setThresholdMs(Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">For runs</label>
+              <input
+                type="number"
+                min={1}
+                max={MAX_CONSECUTIVE_RUNS}
+                value={consecutiveRuns}
+                onChange={(e) => setConsecutiveRuns(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notify</label>
+            {channels?.length === 0 && <p className="text-sm text-gray-500">Add a channel first.</p>}
+            <div className="space-y-1">
+              {channels?.map((channel) => (
+                <label key={channel._id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={channelIds.includes(channel._id)}
+                    onChange={() => toggleChannel(channel._id)}
+                    disabled={channel.type === "email" && channel.confirmedAt === undefined}
+                  />
+                  {channel.name}
+                  <span className="text-gray-500 font-mono truncate">{channel.target}</span>
+                  {channel.type === "email" && channel.confirmedAt === undefined && (
+                    <span className="text-xs text-yellow-700">unconfirmed</span>
+                  )}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Remind while failing</label>
+            <select
+              value={renotifyMinutes}
+              onChange={(e) => setRenotifyMinutes(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {RENOTIFY_OPTIONS.map((option) => (
+                <option key={option.minutes} value={option.minutes}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              A rule notifies once when it fires and once when it recovers; reminders are sent in between.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleCreate()}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? "Creating..." : "Create Rule"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function RulesSection() {
+  const rules = useQuery(api.alerts.listAlertRules);
+  const updateRule = useMutation(api.alerts.updateAlertRule);
+  const deleteRule = useMutation(api.alerts.deleteAlertRule);
+  const [showForm, setShowForm] = useState(false);
+
+  type Rule = NonNullable<typeof rules>[number];
+
+  const handleToggle = async (rule: Rule) => {
+    try {
+      await updateRule({
+        id: rule._id,
+        name: rule.name,
+        monitorId: rule.monitorId,
+        condition: rule.condition,
+        channelIds: rule.channelIds,
+        renotifyMinutes: rule.renotifyMinutes,
+        enabled: !rule.enabled,
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update rule");
+    }
+  };
+
+  const handleDelete = async (rule: Rule) => {
+    if (!window.confirm(`Delete the "${rule.name}" alert rule?`)) return;
+    try {
+      await deleteRule({ id: rule._id });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete rule");
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold">Rules</h3>
+        <button
+          onClick={() => setShowForm(true)}
+          className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+        >
+          + New Rule
+        </button>
+      </div>
+      {rules === undefined ? (
+        <div className="animate-pulse bg-gray-100 h-12 rounded-lg"></div>
+      ) : rules.length === 0 ? (
+        <p className="text-sm text-gray-500">No alert rules yet.</p>
+      ) : (
+        <div className="border border-gray-200 rounded-md divide-y divide-gray-200">
+          {rules.map((rule) => (
+            <div key={rule._id} className="flex items-center gap-3 px-3 py-2 text-sm">
+              <span
+                className={`px-2 py-0.5 text-xs font-medium rounded ${
+                  !rule.enabled
+                    ? "bg-gray-100 text-gray-500"
+                    : rule.firing
+                      ? "bg-red-100 text-red-800"
+                      : "bg-green-100 text-green-800"
+                }`}
+              >
+                {!rule.enabled ? "Disabled" : rule.firing ? "Firing" : "OK"}
+              </span>
+              <span className="font-medium">{rule.name}</span>
+              <span className="flex-1 text-gray-500 truncate">
+                {rule.monitorName ?? "Deleted monitor"} · {rule.description}
+                {rule.channelIds.length === 0 && " · no channels"}
+              </span>
+              {rule.firing && rule.firingSince && (
+                <span className="text-red-600">since {new Date(rule.firingSince).toLocaleString()}</span>
+              )}
+              <button onClick={() => void handleToggle(rule)} className="text-gray-600 hover:text-gray-900">
+                {rule.enabled ? "Disable" : "Enable"}
+              </button>
+              <button onClick={() => void handleDelete(rule)} className="text-red-600 hover:text-red-900">
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {showForm && <RuleForm onClose={() => setShowForm(false)} />}
+    </div>
+  );
+}
+
+function DeliveriesSection() {
+  const deliveries = useQuery(api.alerts.listAlertDeliveries);
+  if (!deliveries || deliveries.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold mb-2">Recent Notifications</h3>
+      <div className="border border-gray-200 rounded-md divide-y divide-gray-200 max-h-64 overflow-y-auto">
+        {deliveries.map((delivery) => (
+          <div key={delivery._id} className="flex items-center gap-3 px-3 py-2 text-sm">
+            <span className={delivery.success ? "text-green-600" : "text-red-600"}>
+              {delivery.success ? "✓" : "✗"}
+            </span>
+            <span className="text-gray-500">{new Date(delivery.createdAt).toLocaleString()}</span>
+            <span className="font-medium">{EVENT_LABELS[delivery.event]}</span>
+            <span>{delivery.ruleName ?? (delivery.event === "test" ? "" : "Deleted rule")}</span>
+            <span className="text-gray-500">→ {delivery.channelName ?? "Deleted channel"}</span>
+            {delivery.status !== undefined && <span className="text-gray-500">{delivery.status}</span>}
+            {delivery.error && <span className="flex-1 text-red-600 truncate">{delivery.error}</span>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Alert channels, the rules that use them and the delivery log
+export function Alerts() {
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">Alerts</h2>
+        <p className="text-sm text-gray-600">Get notified when a monitor fails or slows down, and when it recovers.</p>
+      </div>
+      <ChannelsSection />
+      <RulesSection />
+      <DeliveriesSection />
+    </div>
+  );
+}
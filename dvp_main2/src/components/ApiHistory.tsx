@@ -3,18 +3,18 @@ import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
 import { toast } from "sonner";
+import { HttpMethod, METHOD_COLORS } from "../lib/http";
+import type { RequestAuth, RequestBody, StoredRequestFields } from "../../convex/validators";
+import { toCurl } from "../lib/curl";
+import { ExecutionTimeline } from "./Executions";
 
 interface ApiHistoryProps {
-  onSelectHistory: (history: {
-    url: string;
-    method: "GET" | "POST";
-    headers: Record<string, string>;
-    body?: string;
-  }) => void;
+  onSelectHistory: (history: StoredRequestFields) => void;
 }
 
 export function ApiHistory({ onSelectHistory }: ApiHistoryProps) {
   const [searchTerm, setSearchTerm] = useState('');
+  const [timelineId, setTimelineId] = useState<Id<"apiHistory"> | null>(null);
   const history = useQuery(api.apiHistory.getUserApiHistory);
   const deleteRequest = useMutation(api.apiHistory.deleteApiRequest);
   const clearHistory = useMutation(api.apiHistory.clearAll);
@@ -24,9 +24,10 @@ export function ApiHistory({ onSelectHistory }: ApiHistoryProps) {
     _creationTime: number;
     name: string;
     url: string;
-    method: "GET" | "POST";
+    method: HttpMethod;
     headers: Record<string, string>;
-    body?: string;
+    body?: RequestBody | string;
+    auth?: RequestAuth;
     userId: string;
   }
 
@@ -39,7 +40,7 @@ export function ApiHistory({ onSelectHistory }: ApiHistoryProps) {
   if (history === undefined) {
     return (
       <div className="space-y-4">
-        <h2 className="text-lg font-semibold">Saved Requests</h2>
+        <h2 className="text-lg font-semibold">Request History</h2>
         <div className="animate-pulse">
           <div className="space-y-4">
             {[1, 2, 3].map((i) => (
@@ -61,6 +62,16 @@ export function ApiHistory({ onSelectHistory }: ApiHistoryProps) {
     }
   };
 
+  const handleCopyAsCurl = async (item: HistoryItem) => {
+    try {
+      await navigator.clipboard.writeText(toCurl(item));
+      toast.success("cURL command copied to clipboard");
+    } catch (error) {
+      console.error('Error copying cURL command:', error);
+      toast.error("Failed to copy to clipboard");
+    }
+  };
+
   const handleClearHistory = async () => {
     if (window.confirm("Are you sure you want to clear the entire history?")) {
       try {
@@ -107,7 +118,7 @@ export function ApiHistory({ onSelectHistory }: ApiHistoryProps) {
       </div>
       {historyItems.length === 0 ? (
         <div className="text-center py-8 text-gray-500">
-          {searchTerm ? "No matching requests found" : "No saved requests yet"}
+          {searchTerm ? "No matching requests found" : "No requests have been sent yet"}
         </div>
       ) : (
         <div className="overflow-x-auto">
@@ -123,42 +134,59 @@ export function ApiHistory({ onSelectHistory }: ApiHistoryProps) {
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {historyItems.map((item) => (
-                <tr key={item._id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                    {item.name}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm">
-                    <span
-                      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium
-                      ${item.method === 'GET' 
-                        ? 'bg-green-100 text-green-800' 
-                        : 'bg-blue-100 text-blue-800'
-                      }`}
-                    >
-                      {item.method}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">
-                    {item.url}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {new Date(item._creationTime).toLocaleString()}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm">
-                    <button
-                      onClick={() => onSelectHistory(item)}
-                      className="text-blue-600 hover:text-blue-900 mr-3"
-                    >
-                      Load
-                    </button>
-                    <button
-                      onClick={() => handleDelete(item._id)}
-                      className="text-red-600 hover:text-red-900"
-                    >
-                      Delete
-                    </button>
-                  </td>
-                </tr>
+                <React.Fragment key={item._id}>
+                  <tr className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {item.name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${METHOD_COLORS[item.method]}`}
+                      >
+                        {item.method}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate">
+                      {item.url}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(item._creationTime).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <button
+                        onClick={() => onSelectHistory(item)}
+                        className="text-blue-600 hover:text-blue-900 mr-3"
+                      >
+                        Load
+                      </button>
+                      <button
+                        onClick={() => setTimelineId(timelineId === item._id ? null : item._id)}
+                        className="text-gray-600 hover:text-gray-900 mr-3"
+                      >
+                        {timelineId === item._id ? "Hide Timeline" : "Timeline"}
+                      </button>
+                      <button
+                        onClick={() => void handleCopyAsCurl(item)}
+                        className="text-gray-600 hover:text-gray-900 mr-3"
+                      >
+                        Copy as cURL
+                      </button>
+                      <button
+                        onClick={() => void handleDelete(item._id)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                  {timelineId === item._id && (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-4 bg-gray-50">
+                        <ExecutionTimeline method={item.method} url={item.url} />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
               ))}
             </tbody>
           </table>
@@ -1,40 +1,185 @@
 ﻿import React, { useState } from "react";
-import { useAction, useMutation } from "convex/react";
+import { useAction, useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { toast } from "sonner";
 import { JsonViewer } from "./JsonViewer";
 import { ApiHistory } from "./ApiHistory";
+import { EnvironmentManager } from "./EnvironmentManager";
+import { EgressPolicyManager } from "./EgressPolicyManager";
+import { SecretsManager } from "./SecretsManager";
+import { MockServer } from "./MockServer";
+import { StreamClient } from "./StreamClient";
+import { Collections, FolderSelect } from "./Collections";
+import { AuthEditor } from "./AuthEditor";
+import { BodyEditor, EditableBody } from "./BodyEditor";
+import { GraphQLEditor } from "./GraphQLEditor";
+import { AssertionReport, AssertionsEditor } from "./AssertionsEditor";
+import { ExtractionReport, ExtractionsEditor } from "./ExtractionsEditor";
+import { PagedResult, PagedResultView, PaginationEditor } from "./PaginationEditor";
+import { ResponseSchemaEditor, SchemaReport } from "./ResponseSchemaEditor";
+import { CodeGenerator } from "./CodeGenerator";
+import { RequestSettingsEditor } from "./RequestSettingsEditor";
+import { BinaryResponse, HtmlResponse, responseFileName } from "./ResponseRenderers";
+import { QueryParam, splitUrl, syncParamsFromUrl, syncUrlFromParams } from "../lib/queryParams";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import type {
+  Assertion,
+  AssertionResult,
+  ExtractionResult,
+  ExtractionRule,
+  Pagination,
+  RequestAuth,
+  RequestFields,
+  RequestSettings,
+  ResponseSchema,
+  SchemaViolation,
+  StoredRequestFields,
+} from "../../convex/validators";
+import { bodyTemplates, describeBody, normalizeBody } from "../../convex/requestBody";
+import { findVariables, resolveVariables, SECRET_PREFIX, toVariableMap } from "../../convex/variables";
+import { evaluateAssertions } from "../../convex/assertions";
+import { applyExtractions, extractedValues } from "../../convex/extractions";
+import { validateResponse } from "../../convex/jsonSchema";
+import type { BinaryBody } from "../../convex/responseBody";
+import { DEFAULT_REQUEST_SETTINGS, RedirectHop } from "../../convex/requestSettings";
+import { parseCurl } from "../lib/curl";
+import { formatBytes, HTTP_METHODS, HttpMethod, METHOD_COLORS, methodAllowsBody } from "../lib/http";
+import { GraphQLSchema, INTROSPECTION_QUERY, readIntrospection } from "../lib/graphql";
 
 interface Header {
   key: string;
   value: string;
 }
 
+type RequestSection =
+  | "params"
+  | "headers"
+  | "auth"
+  | "body"
+  | "assertions"
+  | "extractions"
+  | "pagination"
+  | "schema"
+  | "settings";
+
+const REQUEST_SECTIONS: { id: RequestSection; label: string }[] = [
+  { id: "params", label: "Params" },
+  { id: "headers", label: "Headers" },
+  { id: "auth", label: "Auth" },
+  { id: "body", label: "Body" },
+  { id: "assertions", label: "Assertions" },
+  { id: "extractions", label: "Extract" },
+  { id: "pagination", label: "Pagination" },
+  { id: "schema", label: "Schema" },
+  { id: "settings", label: "Settings" },
+];
+
+interface GraphQLError {
+  message: string;
+  path?: (string | number)[];
+  locations?: { line: number; column: number }[];
+}
+
 interface ApiResponse {
   data: any;
+  // Present for GraphQL requests whose response carried an `errors` array
+  graphqlErrors?: GraphQLError[];
   status: number;
   statusText: string;
   headers: Record<string, string>;
   url: string;
   method: string;
+  durationMs: number;
+  // Body size in bytes
+  size: number;
+  // Set instead of `data` for non-text bodies
+  binary?: BinaryBody;
+  // Redirects followed on the way to `url`
+  redirects: RedirectHop[];
+  // Sends including retries
+  attempts: number;
 }
 
+const isDefaultSettings = (settings: RequestSettings) =>
+  JSON.stringify(settings) === JSON.stringify(DEFAULT_REQUEST_SETTINGS);
+
 export function ApiTester() {
   // State
   const [url, setUrl] = useState("");
-  const [method, setMethod] = useState<"GET" | "POST">("GET");
+  const [method, setMethod] = useState<HttpMethod>("GET");
   const [headers, setHeaders] = useState<Header[]>([{ key: "", value: "" }]);
-  const [body, setBody] = useState("");
+  const [body, setBody] = useState<EditableBody>({ type: "none" });
+  const [auth, setAuth] = useState<RequestAuth>({ type: "none" });
+  const [assertions, setAssertions] = useState<Assertion[]>([]);
+  const [assertionResults, setAssertionResults] = useState<AssertionResult[]>([]);
+  const [extractions, setExtractions] = useState<ExtractionRule[]>([]);
+  const [extractionResults, setExtractionResults] = useState<ExtractionResult[]>([]);
+  const [pagination, setPagination] = useState<Pagination | undefined>(undefined);
+  const [pagedResult, setPagedResult] = useState<PagedResult | null>(null);
+  const [fetchingPages, setFetchingPages] = useState(false);
+  const [responseSchema, setResponseSchema] = useState<ResponseSchema | undefined>(undefined);
+  const [schemaViolations, setSchemaViolations] = useState<SchemaViolation[] | undefined>(undefined);
+  const [settings, setSettings] = useState<RequestSettings>(DEFAULT_REQUEST_SETTINGS);
+  const [requestSection, setRequestSection] = useState<RequestSection>("params");
+  const [params, setParams] = useState<QueryParam[]>([]);
   const [loading, setLoading] = useState(false);
+  // Identifies the request in flight so it can be cancelled
+  const [requestKey, setRequestKey] = useState<string | null>(null);
   const [response, setResponse] = useState<ApiResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // The last error came from the egress policy rather than the API
+  const [policyViolation, setPolicyViolation] = useState(false);
+  const [showEgressPolicy, setShowEgressPolicy] = useState(false);
+  const [showSecretsManager, setShowSecretsManager] = useState(false);
   const [requestName, setRequestName] = useState("");
   const [showSaveDialog, setShowSaveDialog] = useState(false);
-  const [activeTab, setActiveTab] = useState<"request" | "response" | "history">("request");
+  const [activeTab, setActiveTab] = useState<
+    "request" | "response" | "history" | "collections" | "mocks" | "streams"
+  >("request");
+  const [environmentId, setEnvironmentId] = useState<Id<"environments"> | "">("");
+  const [showEnvironmentManager, setShowEnvironmentManager] = useState(false);
+  const [savedRequestId, setSavedRequestId] = useState<Id<"savedRequests"> | null>(null);
+  const [saveCollectionId, setSaveCollectionId] = useState<Id<"collections"> | "">("");
+  const [saveFolderId, setSaveFolderId] = useState<Id<"collectionFolders"> | "">("");
+  const [newCollectionName, setNewCollectionName] = useState("");
+  const [graphqlSchema, setGraphqlSchema] = useState<GraphQLSchema | null>(null);
+  const [showCurlImport, setShowCurlImport] = useState(false);
+  const [curlCommand, setCurlCommand] = useState("");
+  const [showCodeGenerator, setShowCodeGenerator] = useState(false);
 
   // API Hooks
   const makeApiRequest = useAction(api.apiTester.makeRequest);
+  const fetchAllPages = useAction(api.apiTester.fetchAllPages);
+  const cancelRequest = useMutation(api.requestControl.cancelRequest);
   const saveApiRequest = useMutation(api.apiHistory.saveApiRequest);
+  const createSavedRequest = useMutation(api.savedRequests.createSavedRequest);
+  const updateSavedRequest = useMutation(api.savedRequests.updateSavedRequest);
+  const createCollection = useMutation(api.collections.createCollection);
+  const setEnvironmentValues = useMutation(api.environments.setEnvironmentValues);
+  const environments = useQuery(api.environments.listEnvironments);
+  const currentUser = useQuery(api.users.getCurrentUser);
+  const secrets = useQuery(api.secrets.listSecrets);
+  const collections = useQuery(api.collections.listCollections);
+  const saveTargetCollectionId = saveCollectionId || collections?.[0]?._id;
+  const saveTargetContents = useQuery(
+    api.collections.getCollectionContents,
+    saveTargetCollectionId ? { collectionId: saveTargetCollectionId } : "skip"
+  );
+
+  const sendableBody = () => (body.type === "none" ? undefined : body);
+  const isGraphQL = body.type === "graphql";
+
+  // Variables available to {{placeholders}} in the selected environment, and
+  // the {{secret:name}} references the server can fill in
+  const activeEnvironment = environments?.find((env) => env._id === environmentId);
+  const environmentVariables = toVariableMap(activeEnvironment?.variables ?? []);
+  const secretReferences = new Set(secrets?.map((secret) => `${SECRET_PREFIX}${secret.name}`));
+  const unresolvedVariables = findVariables(
+    url,
+    ...(methodAllowsBody(method) ? bodyTemplates(sendableBody()) : []),
+    ...headers.flatMap(h => [h.key, h.value]),
+    ...Object.values(auth).filter((value): value is string => typeof value === "string")
+  ).filter(name => !(name in environmentVariables) && !secretReferences.has(name));
 
   // Handlers
   const addHeader = () => {
@@ -51,7 +196,43 @@ export function ApiTester() {
     setHeaders(headers.filter((_, i) => i !== index));
   };
 
-  const handleSaveRequest = async () => {
+  // The URL and the params grid are kept in sync in both directions
+  const handleUrlChange = (value: string) => {
+    setUrl(value);
+    setParams(syncParamsFromUrl(value, params));
+  };
+
+  const updateParams = (newParams: QueryParam[]) => {
+    setParams(newParams);
+    setUrl(syncUrlFromParams(url, newParams));
+  };
+
+  const updateParam = (index: number, field: "key" | "value", value: string) => {
+    updateParams(params.map((param, i) => (i === index ? { ...param, [field]: value } : param)));
+  };
+
+  const toggleParam = (index: number) => {
+    updateParams(params.map((param, i) => (i === index ? { ...param, enabled: !param.enabled } : param)));
+  };
+
+  // The request as it is stored in history and in collections
+  const buildRequestFields = (): RequestFields => ({
+    url: url.trim(),
+    method,
+    headers: headers
+      .filter(h => h.key.trim() && h.value.trim())
+      .reduce((acc, h) => ({ ...acc, [h.key]: h.value }), {}),
+    body: methodAllowsBody(method) ? sendableBody() : undefined,
+    auth: auth.type !== "none" ? auth : undefined,
+    params: params.some(p => p.key || p.value) ? params.filter(p => p.key || p.value) : undefined,
+    assertions: assertions.length > 0 ? assertions : undefined,
+    extractions: extractions.length > 0 ? extractions : undefined,
+    pagination,
+    responseSchema,
+    settings: isDefaultSettings(settings) ? undefined : settings,
+  });
+
+  const handleSaveRequest = async (mode: "new" | "update") => {
     if (!requestName.trim()) {
       toast.error("Please enter a name for your request");
       return;
@@ -63,34 +244,49 @@ export function ApiTester() {
     }
 
     try {
-      // Validate URL format
-      new URL(url.trim());
-
-      const validHeaders = headers
-        .filter(h => h.key.trim() && h.value.trim())
-        .reduce((acc, h) => ({ ...acc, [h.key]: h.value }), {});
+      // Validate URL format; templated URLs are checked when they are sent
+      if (findVariables(url).length === 0) {
+        new URL(url.trim());
+      }
 
-      // Validate JSON body for POST requests
-      if (method === "POST" && body.trim()) {
+      // Validate JSON body for methods that send one; templated bodies are
+      // validated after substitution when they are sent
+      if (methodAllowsBody(method) && body.type === "json" && body.content.trim() && findVariables(body.content).length === 0) {
         try {
-          JSON.parse(body);
+          JSON.parse(body.content);
         } catch (e) {
           toast.error("Invalid JSON in request body");
           return;
         }
       }
 
-      await saveApiRequest({
-        name: requestName.trim(),
-        url: url.trim(),
-        method,
-        headers: validHeaders,
-        body: method === "POST" ? body : undefined,
-      });
+      if (mode === "update" && savedRequestId) {
+        await updateSavedRequest({
+          id: savedRequestId,
+          name: requestName.trim(),
+          ...buildRequestFields(),
+        });
+      } else {
+        let collectionId = saveTargetCollectionId;
+        if (!collectionId) {
+          if (!newCollectionName.trim()) {
+            toast.error("Please enter a name for the new collection");
+            return;
+          }
+          collectionId = await createCollection({ name: newCollectionName });
+          setNewCollectionName("");
+        }
+        const id = await createSavedRequest({
+          collectionId,
+          folderId: saveFolderId || undefined,
+          name: requestName.trim(),
+          ...buildRequestFields(),
+        });
+        setSavedRequestId(id);
+      }
 
       toast.success("Request saved successfully");
       setShowSaveDialog(false);
-      setRequestName("");
     } catch (error) {
       console.error('Error saving request:', error);
       if (error instanceof Error) {
@@ -105,36 +301,56 @@ export function ApiTester() {
     }
   };
 
-  const handleLoadHistory = (history: {
-    url: string;
-    method: "GET" | "POST";
-    headers: Record<string, string>;
-    body?: string;
-  }) => {
+  const handleLoadHistory = (history: StoredRequestFields) => {
+    setSavedRequestId(null);
     setUrl(history.url);
+    setParams(history.params ?? splitUrl(history.url).params);
     setMethod(history.method);
     const headersArray = Object.entries(history.headers).map(([key, value]) => ({ key, value }));
     setHeaders(headersArray.length > 0 ? headersArray : [{ key: "", value: "" }]);
-    setBody(history.body || "");
+    setBody(normalizeBody(history.body) ?? { type: "none" });
+    setAuth(history.auth ?? { type: "none" });
+    setAssertions(history.assertions ?? []);
+    setExtractions(history.extractions ?? []);
+    setPagination(history.pagination);
+    setResponseSchema(history.responseSchema);
+    setSettings(history.settings ?? DEFAULT_REQUEST_SETTINGS);
     setActiveTab("request");
   };
 
-  const formatJsonBody = () => {
+  // Replaces the builder's request with one parsed from a cURL command
+  const handleImportCurl = () => {
     try {
-      if (!body.trim()) {
-        setBody("{\n  \n}");
-        return;
+      const parsed = parseCurl(curlCommand);
+      setSavedRequestId(null);
+      setUrl(parsed.url);
+      setParams(splitUrl(parsed.url).params);
+      setMethod(parsed.method);
+      const headersArray = Object.entries(parsed.headers).map(([key, value]) => ({ key, value }));
+      setHeaders(headersArray.length > 0 ? headersArray : [{ key: "", value: "" }]);
+      setBody(parsed.body ?? { type: "none" });
+      setAuth(parsed.auth ?? { type: "none" });
+      setShowCurlImport(false);
+      setCurlCommand("");
+      setActiveTab("request");
+      if (parsed.warnings.length > 0) {
+        parsed.warnings.forEach((warning) => toast.warning(warning));
+      } else {
+        toast.success("cURL command imported");
       }
-      const formatted = JSON.stringify(JSON.parse(body), null, 2);
-      setBody(formatted);
-      toast.success("JSON formatted successfully");
-    } catch (e) {
-      console.error('JSON formatting error:', e);
-      toast.error("Invalid JSON format. Please check your syntax.");
-      toast.error("Invalid JSON");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not parse the cURL command");
     }
   };
 
+  const handleLoadSavedRequest = (request: Doc<"savedRequests">) => {
+    handleLoadHistory(request);
+    setSavedRequestId(request._id);
+    setRequestName(request.name);
+    setSaveCollectionId(request.collectionId);
+    setSaveFolderId(request.folderId ?? "");
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -150,17 +366,22 @@ export function ApiTester() {
       return;
     }
 
+    if (unresolvedVariables.length > 0) {
+      toast.error(`Unresolved variables: ${unresolvedVariables.join(", ")}`);
+      return;
+    }
+
     try {
-      new URL(url.trim());
+      new URL(resolveVariables(url.trim(), environmentVariables).value);
     } catch (error) {
       toast.error("Please enter a valid URL format");
       return;
     }
 
-    // Validate JSON body for POST requests
-    if (method === "POST" && body.trim()) {
+    // Validate JSON body for methods that send one
+    if (methodAllowsBody(method) && body.type === "json" && body.content.trim()) {
       try {
-        JSON.parse(body);
+        JSON.parse(resolveVariables(body.content, environmentVariables).value);
       } catch (error) {
         toast.error("Invalid JSON in request body");
         return;
@@ -169,39 +390,66 @@ export function ApiTester() {
 
     setLoading(true);
     setError(null);
+    setPolicyViolation(false);
     setResponse(null);
+    setPagedResult(null);
+    setAssertionResults([]);
+    setExtractionResults([]);
+    setSchemaViolations(undefined);
+    const key = crypto.randomUUID();
+    setRequestKey(key);
 
     try {
-      const validHeaders = headers
-        .filter(h => h.key.trim() && h.value.trim())
-        .reduce((acc, h) => ({ ...acc, [h.key]: h.value }), {});
-
+      const request = buildRequestFields();
+      // The URL already carries the enabled params; assertions, extractions
+      // and the response schema are applied here
+      const {
+        params: _params,
+        assertions: _assertions,
+        extractions: _extractions,
+        pagination: _pagination,
+        responseSchema: _responseSchema,
+        ...sendable
+      } = request;
       const result = await makeApiRequest({
-        url: url.trim(),
-        method,
-        headers: validHeaders,
-        body: method === "POST" ? body : undefined,
+        ...sendable,
+        environmentId: environmentId || undefined,
+        savedRequestId: savedRequestId ?? undefined,
+        requestKey: key,
       });
 
       if (result.success && result.response) {
         setResponse(result.response);
+        setAssertionResults(evaluateAssertions(assertions, result.response));
+        const extracted = applyExtractions(extractions, result.response);
+        setExtractionResults(extracted);
+        setSchemaViolations(validateResponse(responseSchema, result.response));
         setActiveTab("response");
 
-        // Automatically save the request
+        // Run-scoped values only matter within a collection run
+        const values = extractedValues(extracted, "environment");
+        if (environmentId && Object.keys(values).length > 0) {
+          try {
+            await setEnvironmentValues({ id: environmentId, values });
+          } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to store extracted values");
+          }
+        }
+
+        // Every execution is recorded in history
         try {
           await saveApiRequest({
             name: requestName.trim(),
-            url: url.trim(),
-            method,
-            headers: validHeaders,
-            body: method === "POST" ? body : undefined,
+            ...request,
+            executionId: "executionId" in result ? result.executionId : undefined,
           });
-          toast.success("Request completed and saved successfully");
+          toast.success("Request completed and recorded in history");
         } catch (error) {
-          toast.error("Request completed but failed to save");
+          toast.error("Request completed but failed to record in history");
         }
       } else {
         setError(result.error || "Request failed");
+        setPolicyViolation("policyViolation" in result && !!result.policyViolation);
         toast.error(result.error || "Request failed");
       }
     } catch (err) {
@@ -224,17 +472,134 @@ export function ApiTester() {
       toast.error(errorMessage);
     } finally {
       setLoading(false);
+      setRequestKey(null);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!requestKey) return;
+    try {
+      await cancelRequest({ requestKey });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to cancel request");
+    }
+  };
+
+  // GraphQL requests are always POSTed with a query/variables body
+  const setRequestMode = (mode: "rest" | "graphql") => {
+    if (mode === "graphql") {
+      setMethod("POST");
+      setBody({ type: "graphql", query: "", variables: "" });
+      setRequestSection("body");
+    } else {
+      setBody({ type: "none" });
+    }
+  };
+
+  // Introspects the endpoint using the request's URL, headers and auth
+  const fetchGraphQLSchema = async () => {
+    const {
+      params: _params,
+      body: _body,
+      assertions: _assertions,
+      extractions: _extractions,
+      pagination: _pagination,
+      responseSchema: _responseSchema,
+      ...request
+    } = buildRequestFields();
+    if (!request.url) {
+      toast.error("Please enter a valid URL");
+      return;
+    }
+    try {
+      const result = await makeApiRequest({
+        ...request,
+        method: "POST",
+        body: { type: "graphql", query: INTROSPECTION_QUERY, variables: "" },
+        environmentId: environmentId || undefined,
+      });
+      if (!result.success || !result.response) {
+        toast.error(result.error || "Failed to fetch schema");
+        return;
+      }
+      const schema = readIntrospection(result.response.data);
+      if (!schema) {
+        const message = result.response.graphqlErrors?.[0]?.message;
+        toast.error(message ? `Introspection failed: ${message}` : "The endpoint did not return a GraphQL schema");
+        return;
+      }
+      setGraphqlSchema(schema);
+      toast.success(`Loaded schema with ${schema.types.length} types`);
+    } catch (error) {
+      console.error('GraphQL introspection error:', error);
+      toast.error(error instanceof Error ? error.message : "Failed to fetch schema");
+    }
+  };
+
+  // Sends page after page as the pagination settings describe and shows
+  // the combined items
+  const handleFetchAllPages = async () => {
+    if (!pagination) return;
+    if (!url.trim()) {
+      toast.error("Please enter a valid URL");
+      return;
+    }
+
+    setFetchingPages(true);
+    setError(null);
+    setPolicyViolation(false);
+    setResponse(null);
+    setPagedResult(null);
+    try {
+      const {
+        params: _params,
+        assertions: _assertions,
+        extractions: _extractions,
+        pagination: _pagination,
+        responseSchema: _responseSchema,
+        ...sendable
+      } = buildRequestFields();
+      const result = await fetchAllPages({
+        ...sendable,
+        pagination,
+        environmentId: environmentId || undefined,
+        savedRequestId: savedRequestId ?? undefined,
+      });
+      setPagedResult(result);
+      setActiveTab("response");
+      if (result.error) {
+        toast.error(result.error);
+      } else {
+        toast.success(`Fetched ${result.items.length} items from ${result.pages.length} pages`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to fetch pages");
+    } finally {
+      setFetchingPages(false);
     }
   };
 
   const clearForm = () => {
     setUrl("");
+    setParams([]);
     setMethod("GET");
     setHeaders([{ key: "", value: "" }]);
-    setBody("");
+    setBody({ type: "none" });
+    setAuth({ type: "none" });
+    setAssertions([]);
+    setExtractions([]);
+    setPagination(undefined);
+    setPagedResult(null);
+    setResponseSchema(undefined);
+    setSchemaViolations(undefined);
+    setSettings(DEFAULT_REQUEST_SETTINGS);
+    setAssertionResults([]);
+    setExtractionResults([]);
     setResponse(null);
     setError(null);
     setRequestName("");
+    setSavedRequestId(null);
+    setGraphqlSchema(null);
   };
 
   return (
@@ -251,6 +616,57 @@ export function ApiTester() {
             )}
           </div>
           <div className="flex space-x-3">
+            <div className="flex">
+              <select
+                value={environmentId}
+                onChange={(e) => setEnvironmentId(e.target.value as Id<"environments"> | "")}
+                className="px-3 py-2 text-sm border border-r-0 border-gray-300 rounded-l-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">No environment</option>
+                {environments?.map((env) => (
+                  <option key={env._id} value={env._id}>{env.name}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => setShowEnvironmentManager(true)}
+                title="Manage environments"
+                className="px-3 py-2 text-sm text-gray-600 bg-gray-100 border border-gray-300 rounded-r-md hover:bg-gray-200"
+              >
+                ⚙
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={() => setShowSecretsManager(true)}
+              className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors"
+            >
+              Secrets
+            </button>
+            {currentUser?.isAdmin && (
+              <button
+                type="button"
+                onClick={() => setShowEgressPolicy(true)}
+                className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors"
+              >
+                Egress Policy
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setShowCurlImport(true)}
+              className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors"
+            >
+              Import cURL
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowCodeGenerator(true)}
+              disabled={!url.trim()}
+              className="px-4 py-2 text-sm font-medium text-gray-600 bg-gray-100 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 transition-colors disabled:opacity-50"
+            >
+              Generate Code
+            </button>
             <button
               type="button"
               onClick={clearForm}
@@ -288,7 +704,7 @@ export function ApiTester() {
               activeTab === "response"
                 ? "text-blue-600 border-b-2 border-blue-600"
                 : "text-gray-500 hover:text-gray-700"
-            } ${(!response && !error) ? "opacity-50" : ""}`}
+            } ${(!response && !error && !pagedResult) ? "opacity-50" : ""}`}
           >
             Response Viewer
           </button>
@@ -301,7 +717,40 @@ export function ApiTester() {
                 : "text-gray-500 hover:text-gray-700"
             }`}
           >
-            Request History
+            History
+          </button>
+          <button
+            type="button"
+            onClick={() => setActiveTab("collections")}
+            className={`px-4 py-2 text-sm font-medium rounded-t-md focus:outline-none ${
+              activeTab === "collections"
+                ? "text-blue-600 border-b-2 border-blue-600"
+                : "text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            Collections
+          </button>
+          <button
+            type="button"
+            onClick={() => setActiveTab("mocks")}
+            className={`px-4 py-2 text-sm font-medium rounded-t-md focus:outline-none ${
+              activeTab === "mocks"
+                ? "text-blue-600 border-b-2 border-blue-600"
+                : "text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            Mocks
+          </button>
+          <button
+            type="button"
+            onClick={() => setActiveTab("streams")}
+            className={`px-4 py-2 text-sm font-medium rounded-t-md focus:outline-none ${
+              activeTab === "streams"
+                ? "text-blue-600 border-b-2 border-blue-600"
+                : "text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            Streaming
           </button>
         </div>
 
@@ -323,6 +772,19 @@ export function ApiTester() {
               />
             </div>
 
+            {/* Request type */}
+            <div className="flex items-center gap-4 text-sm text-gray-700">
+              <span className="font-medium">Request type</span>
+              <label className="flex items-center gap-1">
+                <input type="radio" name="requestMode" checked={!isGraphQL} onChange={() => setRequestMode("rest")} />
+                REST
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="radio" name="requestMode" checked={isGraphQL} onChange={() => setRequestMode("graphql")} />
+                GraphQL
+              </label>
+            </div>
+
             {/* URL and Method */}
             <div className="flex gap-4">
               <div className="flex-grow">
@@ -332,97 +794,226 @@ export function ApiTester() {
                 <div className="flex">
                   <select
                     value={method}
-                    onChange={(e) => setMethod(e.target.value as "GET" | "POST")}
-                    className={`px-4 py-3 rounded-l-md border border-r-0 border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono ${
-                      method === "GET" ? "text-green-600 bg-green-50" : "text-blue-600 bg-blue-50"
-                    }`}
+                    onChange={(e) => setMethod(e.target.value as HttpMethod)}
+                    disabled={isGraphQL}
+                    className={`px-4 py-3 rounded-l-md border border-r-0 border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono ${METHOD_COLORS[method]}`}
                   >
-                    <option value="GET">GET</option>
-                    <option value="POST">POST</option>
+                    {HTTP_METHODS.map((m) => (
+                      <option key={m} value={m}>{m}</option>
+                    ))}
                   </select>
                   <input
                     id="url"
-                    type="url"
+                    type="text"
+                    inputMode="url"
                     value={url}
-                    onChange={(e) => setUrl(e.target.value)}
-                    placeholder="https://api.example.com/data"
+                    onChange={(e) => handleUrlChange(e.target.value)}
+                    placeholder="https://api.example.com/data or {{baseUrl}}/data"
                     className="flex-1 px-4 py-3 border border-gray-300 rounded-r-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
                   />
                 </div>
+                {unresolvedVariables.length > 0 && (
+                  <p className="mt-2 text-sm text-amber-700">
+                    Unresolved variables{activeEnvironment ? ` in "${activeEnvironment.name}"` : ""}:{" "}
+                    <span className="font-mono">{unresolvedVariables.join(", ")}</span>
+                  </p>
+                )}
               </div>
             </div>
 
-            {/* Headers */}
-            <div>
-              <div className="flex items-center justify-between mb-2">
-                <label className="block text-sm font-medium text-gray-700">Headers (Optional)</label>
+            {/* Request sections */}
+            <div className="flex gap-2 border-b border-gray-200">
+              {REQUEST_SECTIONS.map(({ id, label }) => (
                 <button
+                  key={id}
                   type="button"
-                  onClick={addHeader}
-                  className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                  onClick={() => setRequestSection(id)}
+                  className={`px-3 py-2 text-sm font-medium focus:outline-none ${
+                    requestSection === id
+                      ? "text-blue-600 border-b-2 border-blue-600"
+                      : "text-gray-500 hover:text-gray-700"
+                  }`}
                 >
-                  Add Header
+                  {id === "body" && isGraphQL ? "Query" : label}
+                  {id === "auth" && auth.type !== "none" && <span className="ml-1 text-green-600">●</span>}
+                  {id === "assertions" && assertions.length > 0 && (
+                    <span className="ml-1 text-xs text-gray-500">({assertions.length})</span>
+                  )}
+                  {id === "extractions" && extractions.length > 0 && (
+                    <span className="ml-1 text-xs text-gray-500">({extractions.length})</span>
+                  )}
+                  {id === "pagination" && pagination && <span className="ml-1 text-green-600">●</span>}
+                  {id === "schema" && responseSchema && <span className="ml-1 text-green-600">●</span>}
+                  {id === "settings" && !isDefaultSettings(settings) && <span className="ml-1 text-green-600">●</span>}
                 </button>
-              </div>
-              <div className="space-y-2">
-                {headers.map((header, index) => (
-                  <div key={index} className="flex gap-2">
-                    <input
-                      type="text"
-                      placeholder="Header name"
-                      value={header.key}
-                      onChange={(e) => updateHeader(index, "key", e.target.value)}
-                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
-                    <input
-                      type="text"
-                      placeholder="Header value"
-                      value={header.value}
-                      onChange={(e) => updateHeader(index, "value", e.target.value)}
-                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
-                    {headers.length > 1 && (
-                      <button
-                        type="button"
-                        onClick={() => removeHeader(index)}
-                        className="px-3 py-2 text-red-600 hover:text-red-800"
-                      >
-                        
-                      </button>
-                    )}
+              ))}
+            </div>
+
+            {/* Query Params */}
+            {requestSection === "params" && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gray-700">Query Params</label>
+                  <button
+                    type="button"
+                    onClick={() => setParams([...params, { key: "", value: "", enabled: true }])}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                  >
+                    Add Param
+                  </button>
+                </div>
+                {params.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No query params. Add one here or type a query string into the URL.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {params.map((param, index) => (
+                      <div key={index} className={`flex gap-2 items-center ${param.enabled ? "" : "opacity-50"}`}>
+                        <input
+                          type="checkbox"
+                          checked={param.enabled}
+                          onChange={() => toggleParam(index)}
+                          title={param.enabled ? "Disable param" : "Enable param"}
+                          className="h-4 w-4"
+                        />
+                        <input
+                          type="text"
+                          placeholder="Param name"
+                          value={param.key}
+                          onChange={(e) => updateParam(index, "key", e.target.value)}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <input
+                          type="text"
+                          placeholder="Value"
+                          value={param.value}
+                          onChange={(e) => updateParam(index, "value", e.target.value)}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => updateParams(params.filter((_, i) => i !== index))}
+                          className="px-3 py-2 text-red-600 hover:text-red-800"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))}
                   </div>
-                ))}
+                )}
+                <p className="mt-2 text-xs text-gray-500">
+                  Values are percent-encoded in the URL automatically. Unchecked params are kept but not sent.
+                </p>
               </div>
-            </div>
+            )}
 
-            {/* Request Body (for POST) */}
-            {method === "POST" && (
+            {/* Headers */}
+            {requestSection === "headers" && (
               <div>
                 <div className="flex items-center justify-between mb-2">
-                  <label htmlFor="body" className="block text-sm font-medium text-gray-700">
-                    Request Body (JSON)
-                  </label>
+                  <label className="block text-sm font-medium text-gray-700">Headers (Optional)</label>
                   <button
                     type="button"
-                    onClick={formatJsonBody}
-                    className="px-3 py-1 text-sm text-blue-600 hover:text-blue-700 focus:outline-none"
+                    onClick={addHeader}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
                   >
-                    Format JSON
+                    Add Header
                   </button>
                 </div>
-                <textarea
-                  id="body"
-                  value={body}
-                  onChange={(e) => setBody(e.target.value)}
-                  placeholder='"{"key": "value"}'
-                  rows={6}
-                  className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
-                />
+                <div className="space-y-2">
+                  {headers.map((header, index) => (
+                    <div key={index} className="flex gap-2">
+                      <input
+                        type="text"
+                        placeholder="Header name"
+                        value={header.key}
+                        onChange={(e) => updateHeader(index, "key", e.target.value)}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <input
+                        type="text"
+                        placeholder="Header value"
+                        value={header.value}
+                        onChange={(e) => updateHeader(index, "value", e.target.value)}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      {headers.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => removeHeader(index)}
+                          className="px-3 py-2 text-red-600 hover:text-red-800"
+                        >
+                          
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
               </div>
             )}
 
+            {/* Auth */}
+            {requestSection === "auth" && <AuthEditor value={auth} onChange={setAuth} />}
+
+            {/* Assertions */}
+            {requestSection === "assertions" && <AssertionsEditor value={assertions} onChange={setAssertions} />}
+
+            {/* Extractions */}
+            {requestSection === "extractions" && <ExtractionsEditor value={extractions} onChange={setExtractions} />}
+
+            {/* Settings */}
+            {requestSection === "pagination" && <PaginationEditor value={pagination} onChange={setPagination} />}
+
+            {requestSection === "schema" && (
+              <ResponseSchemaEditor
+                value={responseSchema}
+                onChange={setResponseSchema}
+                method={method}
+                url={url.trim()}
+                lastResponse={typeof response?.data === "object" && response.data !== null ? response.data : undefined}
+              />
+            )}
+
+            {requestSection === "settings" && <RequestSettingsEditor value={settings} onChange={setSettings} />}
+
+            {/* Request Body (for POST, PUT, PATCH and DELETE) */}
+            {requestSection === "body" && !methodAllowsBody(method) && (
+              <p className="text-sm text-gray-500">{method} requests do not send a body.</p>
+            )}
+            {requestSection === "body" && body.type === "graphql" && (
+              <GraphQLEditor
+                value={body}
+                onChange={setBody}
+                schema={graphqlSchema}
+                onFetchSchema={fetchGraphQLSchema}
+              />
+            )}
+            {requestSection === "body" && methodAllowsBody(method) && !isGraphQL && (
+              <BodyEditor value={body} onChange={setBody} />
+            )}
+
             {/* Action Buttons */}
-            <div className="flex justify-end">
+            <div className="flex justify-end gap-3">
+              {loading && requestKey && (
+                <button
+                  type="button"
+                  onClick={() => void handleCancel()}
+                  className="px-6 py-3 text-sm font-medium text-red-600 bg-red-50 rounded-md hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors"
+                >
+                  Cancel
+                </button>
+              )}
+              {pagination && (
+                <button
+                  type="button"
+                  onClick={() => void handleFetchAllPages()}
+                  disabled={loading || fetchingPages}
+                  className="px-6 py-3 text-sm font-medium text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+                >
+                  {fetchingPages ? "Fetching Pages..." : "Fetch All Pages"}
+                </button>
+              )}
               <button
                 type="submit"
                 disabled={loading}
@@ -440,9 +1031,22 @@ export function ApiTester() {
           <div className="space-y-4">
             {error ? (
               <div className="p-6 bg-red-50 border border-red-200 rounded-md">
-                <h3 className="text-lg font-medium text-red-800 mb-2">Error</h3>
+                <h3 className="text-lg font-medium text-red-800 mb-2">
+                  {policyViolation ? "Blocked by Egress Policy" : "Error"}
+                </h3>
                 <p className="text-red-600">{error}</p>
+                {policyViolation && (
+                  <button
+                    type="button"
+                    onClick={() => setShowEgressPolicy(true)}
+                    className="mt-3 text-sm text-red-700 underline hover:text-red-900"
+                  >
+                    View egress policy
+                  </button>
+                )}
               </div>
+            ) : pagedResult ? (
+              <PagedResultView result={pagedResult} />
             ) : response ? (
               <div className="space-y-6">
                 {/* Response Info */}
@@ -453,6 +1057,13 @@ export function ApiTester() {
                       <span className={`ml-2 ${response.status >= 200 && response.status < 300 ? "text-green-600" : "text-red-600"}`}>
                         {response.status} {response.statusText}
                       </span>
+                      <span className="ml-2 text-gray-500">{response.durationMs} ms · {formatBytes(response.size)}</span>
+                      {response.attempts > 1 && (
+                        <span className="ml-2 text-amber-600">· {response.attempts} attempts</span>
+                      )}
+                      {response.graphqlErrors && (
+                        <span className="ml-2 text-red-600">· GraphQL errors</span>
+                      )}
                     </div>
                     <div>
                       <span className="font-medium text-gray-600">Method:</span>
@@ -463,8 +1074,58 @@ export function ApiTester() {
                       <span className="ml-2 break-all">{response.url}</span>
                     </div>
                   </div>
+                  {response.redirects.length > 0 && (
+                    <div className="mt-3 text-sm">
+                      <span className="font-medium text-gray-600">Redirects:</span>
+                      <ol className="mt-1 space-y-1 font-mono text-xs">
+                        {response.redirects.map((hop, index) => (
+                          <li key={index} className="break-all">
+                            <span className="text-amber-600">{hop.status}</span> {hop.url} → {hop.location}
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  )}
+                  {/* A redirect that was not followed */}
+                  {response.status >= 300 && response.status < 400 && response.headers["location"] && (
+                    <p className="mt-3 text-sm">
+                      <span className="font-medium text-gray-600">Location:</span>
+                      <span className="ml-2 font-mono break-all">{response.headers["location"]}</span>
+                    </p>
+                  )}
                 </div>
 
+                {assertionResults.length > 0 && <AssertionReport results={assertionResults} />}
+                {extractionResults.length > 0 && <ExtractionReport results={extractionResults} />}
+                {schemaViolations && <SchemaReport violations={schemaViolations} />}
+
+                {/* GraphQL errors are reported separately from the HTTP status */}
+                {response.graphqlErrors && response.graphqlErrors.length > 0 && (
+                  <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+                    <h3 className="font-medium text-red-800 mb-2">
+                      GraphQL Errors ({response.graphqlErrors.length})
+                      {response.data?.data != null && (
+                        <span className="ml-2 text-sm font-normal text-red-600">partial data was returned</span>
+                      )}
+                    </h3>
+                    <ul className="space-y-2 text-sm">
+                      {response.graphqlErrors.map((graphqlError, index) => (
+                        <li key={index}>
+                          <p className="text-red-700">{graphqlError.message}</p>
+                          {(graphqlError.path || graphqlError.locations) && (
+                            <p className="text-xs font-mono text-red-500">
+                              {graphqlError.path && `path: ${graphqlError.path.join(".")}`}
+                              {graphqlError.path && graphqlError.locations && " · "}
+                              {graphqlError.locations &&
+                                `at ${graphqlError.locations.map((l) => `${l.line}:${l.column}`).join(", ")}`}
+                            </p>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Response Headers */}
                 {Object.keys(response.headers).length > 0 && (
                   <div>
@@ -482,7 +1143,25 @@ export function ApiTester() {
                 {/* Response Data */}
                 <div>
                   <h3 className="font-medium text-gray-700 mb-2">Response Data</h3>
-                  <JsonViewer data={response.data} />
+                  {response.binary ? (
+                    <BinaryResponse body={response.binary} fileName={responseFileName(response.headers, response.url)} />
+                  ) : typeof response.data === "string" && (response.headers["content-type"] ?? "").includes("text/html") ? (
+                    <HtmlResponse html={response.data} />
+                  ) : response.data === null ? (
+                    <div className="bg-gray-50 rounded-md p-4 text-gray-500">
+                      {response.method === "HEAD" || response.method === "OPTIONS"
+                        ? `${response.method} responses carry headers only — see Response Headers above.`
+                        : "The response has no body."}
+                      {response.headers["allow"] && (
+                        <p className="mt-2 text-sm">
+                          <span className="font-medium text-gray-600">Allowed methods:</span>{" "}
+                          <span className="font-mono">{response.headers["allow"]}</span>
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <JsonViewer data={response.data} />
+                  )}
                 </div>
               </div>
             ) : (
@@ -501,6 +1180,78 @@ export function ApiTester() {
         </div>
       )}
 
+      {/* Collections Tab Content */}
+      {activeTab === "collections" && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <Collections onSelectRequest={handleLoadSavedRequest} environmentId={environmentId || undefined} />
+        </div>
+      )}
+
+      {/* Mocks Tab Content */}
+      {activeTab === "mocks" && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <MockServer />
+        </div>
+      )}
+
+      {/* Streaming Tab Content */}
+      {activeTab === "streams" && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <StreamClient environmentId={environmentId || undefined} />
+        </div>
+      )}
+
+      {showEgressPolicy && <EgressPolicyManager onClose={() => setShowEgressPolicy(false)} />}
+
+      {showSecretsManager && <SecretsManager onClose={() => setShowSecretsManager(false)} />}
+
+      {showEnvironmentManager && (
+        <EnvironmentManager onClose={() => setShowEnvironmentManager(false)} />
+      )}
+
+      {showCodeGenerator && (
+        <CodeGenerator request={buildRequestFields()} onClose={() => setShowCodeGenerator(false)} />
+      )}
+
+      {/* Import cURL Dialog */}
+      {showCurlImport && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Import cURL</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Paste a cURL command, for example from "Copy as cURL" in the browser devtools. It replaces the current
+              request.
+            </p>
+            <textarea
+              value={curlCommand}
+              onChange={(e) => setCurlCommand(e.target.value)}
+              placeholder={"curl 'https://api.example.com/items' \\\n  -H 'Accept: application/json'"}
+              rows={10}
+              spellCheck={false}
+              autoFocus
+              className="w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+            />
+            <div className="flex justify-end gap-3 mt-4">
+              <button
+                type="button"
+                onClick={() => setShowCurlImport(false)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleImportCurl}
+                disabled={!curlCommand.trim()}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Import
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Save Request Dialog */}
       {showSaveDialog && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4">
@@ -520,12 +1271,51 @@ export function ApiTester() {
                   className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
               </div>
+              {collections && collections.length > 0 ? (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Collection</label>
+                    <select
+                      value={saveTargetCollectionId ?? ""}
+                      onChange={(e) => {
+                        setSaveCollectionId(e.target.value as Id<"collections">);
+                        setSaveFolderId("");
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {collections.map((collection) => (
+                        <option key={collection._id} value={collection._id}>{collection.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Folder</label>
+                    <FolderSelect
+                      folders={saveTargetContents?.folders ?? []}
+                      value={saveFolderId}
+                      onChange={setSaveFolderId}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">New Collection</label>
+                  <input
+                    type="text"
+                    value={newCollectionName}
+                    onChange={(e) => setNewCollectionName(e.target.value)}
+                    placeholder="My Collection"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              )}
               <div className="bg-gray-50 p-4 rounded-md">
                 <div className="text-sm text-gray-600">
                   <p><strong>URL:</strong> {url}</p>
                   <p><strong>Method:</strong> {method}</p>
-                  {method === "POST" && body && (
-                    <p><strong>Body:</strong> {body.length > 50 ? body.substring(0, 50) + "..." : body}</p>
+                  {methodAllowsBody(method) && body.type !== "none" && (
+                    <p><strong>Body:</strong> {describeBody(body)}</p>
                   )}
                 </div>
               </div>
@@ -537,12 +1327,21 @@ export function ApiTester() {
                 >
                   Cancel
                 </button>
+                {savedRequestId && (
+                  <button
+                    type="button"
+                    onClick={() => void handleSaveRequest("update")}
+                    className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    Update Saved
+                  </button>
+                )}
                 <button
                   type="button"
-                  onClick={handleSaveRequest}
+                  onClick={() => void handleSaveRequest("new")}
                   className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                 >
-                  Save Request
+                  {savedRequestId ? "Save as New" : "Save Request"}
                 </button>
               </div>
             </div>
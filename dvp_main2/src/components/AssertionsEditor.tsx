@@ -0,0 +1,194 @@
+import React from "react";
+import type { Assertion, AssertionOperator, AssertionResult } from "../../convex/validators";
+import { OPERATOR_LABELS } from "../../convex/assertions";
+
+interface AssertionsEditorProps {
+  value: Assertion[];
+  onChange: (assertions: Assertion[]) => void;
+}
+
+type AssertionType = Assertion["type"];
+
+const ASSERTION_TYPES: { type: AssertionType; label: string }[] = [
+  { type: "status", label: "Status code" },
+  { type: "header", label: "Header" },
+  { type: "jsonPath", label: "JSON path" },
+  { type: "responseTime", label: "Response time" },
+];
+
+const VALUE_TYPES = ["string", "number", "boolean", "object", "array", "null"];
+
+const inputClass =
+  "px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm";
+
+function newAssertion(type: AssertionType): Assertion {
+  switch (type) {
+    case "status":
+      return { type, operator: "equals", expected: "200", enabled: true };
+    case "header":
+      return { type, name: "", operator: "exists", expected: "", enabled: true };
+    case "jsonPath":
+      return { type, path: "", operator: "equals", expected: "", enabled: true };
+    case "responseTime":
+      return { type, maxMs: 1000, enabled: true };
+  }
+}
+
+export function AssertionsEditor({ value, onChange }: AssertionsEditorProps) {
+  const replace = (index: number, assertion: Assertion) =>
+    onChange(value.map((a, i) => (i === index ? assertion : a)));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">Assertions</label>
+        <button
+          type="button"
+          onClick={() => onChange([...value, newAssertion("status")])}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          Add Assertion
+        </button>
+      </div>
+      {value.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No assertions. Add checks on the status, headers, body or response time; they are evaluated after each send
+          and when the collection is run.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {value.map((assertion, index) => (
+            <div key={index} className={`flex flex-wrap gap-2 items-center ${assertion.enabled ? "" : "opacity-50"}`}>
+              <input
+                type="checkbox"
+                checked={assertion.enabled}
+                onChange={() => replace(index, { ...assertion, enabled: !assertion.enabled })}
+                className="h-4 w-4"
+              />
+              <select
+                value={assertion.type}
+                onChange={(e) =>
+                  replace(index, { ...newAssertion(e.target.value as AssertionType), enabled: assertion.enabled })
+                }
+                className={inputClass}
+              >
+                {ASSERTION_TYPES.map(({ type, label }) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </select>
+
+              {assertion.type === "header" && (
+                <input
+                  type="text"
+                  placeholder="Header name"
+                  value={assertion.name}
+                  onChange={(e) => replace(index, { ...assertion, name: e.target.value })}
+                  className={`${inputClass} flex-1 min-w-[8rem]`}
+                />
+              )}
+              {assertion.type === "jsonPath" && (
+                <input
+                  type="text"
+                  placeholder="data.items.length"
+                  value={assertion.path}
+                  onChange={(e) => replace(index, { ...assertion, path: e.target.value })}
+                  className={`${inputClass} flex-1 min-w-[8rem] font-mono`}
+                />
+              )}
+
+              {assertion.type === "responseTime" ? (
+                <>
+                  <span className="text-sm text-gray-600">below</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={assertion.maxMs}
+                    onChange={(e) => replace(index, { ...assertion, maxMs: Number(e.target.value) })}
+                    className={`${inputClass} w-28`}
+                  />
+                  <span className="text-sm text-gray-600">ms</span>
+                </>
+              ) : (
+                <>
+                  <select
+                    value={assertion.operator}
+                    onChange={(e) => replace(index, { ...assertion, operator: e.target.value as AssertionOperator })}
+                    className={inputClass}
+                  >
+                    {(Object.keys(OPERATOR_LABELS) as AssertionOperator[]).map((operator) => (
+                      <option key={operator} value={operator}>{OPERATOR_LABELS[operator]}</option>
+                    ))}
+                  </select>
+                  {assertion.operator === "isType" ? (
+                    <select
+                      value={assertion.expected}
+                      onChange={(e) => replace(index, { ...assertion, expected: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Choose type</option>
+                      {VALUE_TYPES.map((type) => <option key={type} value={type}>{type}</option>)}
+                    </select>
+                  ) : assertion.operator !== "exists" && (
+                    <input
+                      type="text"
+                      placeholder={assertion.operator === "matches" ? "Regular expression" : "Expected value"}
+                      value={assertion.expected}
+                      onChange={(e) => replace(index, { ...assertion, expected: e.target.value })}
+                      className={`${inputClass} flex-1 min-w-[8rem] font-mono`}
+                    />
+                  )}
+                </>
+              )}
+
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                className="px-3 py-2 text-red-600 hover:text-red-800"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="mt-2 text-xs text-gray-500">
+        JSON paths are read from the response body, e.g. <span className="font-mono">data.items[0].id</span>. Expected
+        values that parse as JSON are compared as JSON.
+      </p>
+    </div>
+  );
+}
+
+interface AssertionReportProps {
+  results: AssertionResult[];
+}
+
+export function AssertionReport({ results }: AssertionReportProps) {
+  const passed = results.filter((result) => result.passed).length;
+  return (
+    <div>
+      <h3 className="font-medium text-gray-700 mb-2">
+        Assertions{" "}
+        <span className={passed === results.length ? "text-green-600" : "text-red-600"}>
+          {passed}/{results.length} passed
+        </span>
+      </h3>
+      <ul className="bg-gray-50 rounded-md p-3 space-y-1 text-sm">
+        {results.map((result, index) => (
+          <li key={index} className="flex gap-2">
+            <span className={result.passed ? "text-green-600" : "text-red-600"}>{result.passed ? "✓" : "✗"}</span>
+            <span className="flex-1">
+              <span className="font-mono">{result.description}</span>
+              {!result.passed && (
+                <span className="block text-xs text-red-600">
+                  {result.message}
+                  {result.actual !== undefined && ` — actual: ${result.actual}`}
+                </span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import React from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import type { RequestAuth } from "../../convex/validators";
+
+type AuthType = RequestAuth["type"];
+
+interface AuthEditorProps {
+  value: RequestAuth;
+  onChange: (auth: RequestAuth) => void;
+}
+
+const AUTH_TYPES: { type: AuthType; label: string }[] = [
+  { type: "none", label: "No Auth" },
+  { type: "bearer", label: "Bearer Token" },
+  { type: "basic", label: "Basic Auth" },
+  { type: "apiKey", label: "API Key" },
+  { type: "oauth2", label: "OAuth 2.0" },
+];
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm";
+
+function defaultAuth(type: AuthType): RequestAuth {
+  switch (type) {
+    case "bearer":
+      return { type, token: "" };
+    case "basic":
+      return { type, username: "", password: "" };
+    case "apiKey":
+      return { type, key: "X-API-Key", value: "", addTo: "header" };
+    case "oauth2":
+      return {
+        type,
+        grantType: "client_credentials",
+        tokenUrl: "",
+        clientId: "",
+        clientSecret: "",
+        clientAuthentication: "basic",
+      };
+    default:
+      return { type: "none" };
+  }
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      {children}
+    </div>
+  );
+}
+
+export function AuthEditor({ value, onChange }: AuthEditorProps) {
+  const clearOAuthTokens = useMutation(api.oauthTokens.clearOAuthTokens);
+
+  const handleClearTokens = async () => {
+    try {
+      await clearOAuthTokens();
+      toast.success("Cached OAuth2 tokens cleared");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to clear tokens");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4">
+        <label className="text-sm font-medium text-gray-700">Type</label>
+        <select
+          value={value.type}
+          onChange={(e) => onChange(defaultAuth(e.target.value as AuthType))}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {AUTH_TYPES.map(({ type, label }) => (
+            <option key={type} value={type}>{label}</option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500">
+          Applied server-side when the request is sent. Values may use {"{{variables}}"}.
+        </span>
+      </div>
+
+      {value.type === "none" && (
+        <p className="text-sm text-gray-500">This request does not use any authorization.</p>
+      )}
+
+      {value.type === "bearer" && (
+        <Field label="Token">
+          <input
+            type="text"
+            value={value.token}
+            onChange={(e) => onChange({ ...value, token: e.target.value })}
+            placeholder="eyJhbGciOi..."
+            className={inputClass}
+          />
+        </Field>
+      )}
+
+      {value.type === "basic" && (
+        <div className="grid grid-cols-2 gap-4">
+          <Field label="Username">
+            <input
+              type="text"
+              value={value.username}
+              onChange={(e) => onChange({ ...value, username: e.target.value })}
+              className={inputClass}
+            />
+          </Field>
+          <Field label="Password">
+            <input
+              type="password"
+              value={value.password}
+              onChange={(e) => onChange({ ...value, password: e.target.value })}
+              className={inputClass}
+            />
+          </Field>
+        </div>
+      )}
+
+      {value.type === "apiKey" && (
+        <div className="grid grid-cols-3 gap-4">
+          <Field label="Key">
+            <input
+              type="text"
+              value={value.key}
+              onChange={(e) => onChange({ ...value, key: e.target.value })}
+              className={inputClass}
+            />
+          </Field>
+          <Field label="Value">
+            <input
+              type="text"
+              value={value.value}
+              onChange={(e) => onChange({ ...value, value: e.target.value })}
+              className={inputClass}
+            />
+          </Field>
+          <Field label="Add to">
+            <select
+              value={value.addTo}
+              onChange={(e) => onChange({ ...value, addTo: e.target.value as "header" | "query" })}
+              className={inputClass}
+            >
+              <option value="header">Header</option>
+              <option value="query">Query params</option>
+            </select>
+          </Field>
+        </div>
+      )}
+
+      {value.type === "oauth2" && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <Field label="Grant type">
+              <select
+                value={value.grantType}
+                onChange={(e) => onChange({ ...value, grantType: e.target.value as "client_credentials" | "password" })}
+                className={inputClass}
+              >
+                <option value="client_credentials">Client credentials</option>
+                <option value="password">Password</option>
+              </select>
+            </Field>
+            <Field label="Token URL">
+              <input
+                type="text"
+                value={value.tokenUrl}
+                onChange={(e) => onChange({ ...value, tokenUrl: e.target.value })}
+                placeholder="https://auth.example.com/oauth/token"
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Client ID">
+              <input
+                type="text"
+                value={value.clientId}
+                onChange={(e) => onChange({ ...value, clientId: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Client secret">
+              <input
+                type="password"
+                value={value.clientSecret}
+                onChange={(e) => onChange({ ...value, clientSecret: e.target.value })}
+                className={inputClass}
+              />
+            </Field>
+            {value.grantType === "password" && (
+              <>
+                <Field label="Username">
+                  <input
+                    type="text"
+                    value={value.username ?? ""}
+                    onChange={(e) => onChange({ ...value, username: e.target.value })}
+                    className={inputClass}
+                  />
+                </Field>
+                <Field label="Password">
+                  <input
+                    type="password"
+                    value={value.password ?? ""}
+                    onChange={(e) => onChange({ ...value, password: e.target.value })}
+                    className={inputClass}
+                  />
+                </Field>
+              </>
+            )}
+            <Field label="Scope">
+              <input
+                type="text"
+                value={value.scope ?? ""}
+                onChange={(e) => onChange({ ...value, scope: e.target.value || undefined })}
+                placeholder="read write"
+                className={inputClass}
+              />
+            </Field>
+            <Field label="Client authentication">
+              <select
+                value={value.clientAuthentication}
+                onChange={(e) => onChange({ ...value, clientAuthentication: e.target.value as "basic" | "body" })}
+                className={inputClass}
+              >
+                <option value="basic">Send as Basic auth header</option>
+                <option value="body">Send in request body</option>
+              </select>
+            </Field>
+          </div>
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>Tokens are cached until they expire and refreshed automatically.</span>
+            <button
+              type="button"
+              onClick={() => void handleClearTokens()}
+              className="px-3 py-1 text-sm text-gray-600 bg-gray-100 rounded-md hover:bg-gray-200"
+            >
+              Clear cached tokens
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
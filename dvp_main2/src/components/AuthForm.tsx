@@ -1,6 +1,6 @@
 import React, { useState, useRef } from "react";
 import { useAuthActions } from "@convex-dev/auth/react";
-import { useMutation, useQuery, useAction } from "convex/react";
+import { useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { toast } from "sonner";
 import ReCAPTCHA from "react-google-recaptcha";
@@ -36,7 +36,6 @@ export function AuthForm({ mode, onModeChange }: AuthFormProps) {
   const createProfile = useMutation(api.users.createUserProfile);
   const generateOTP = useMutation(api.otp.generateOTP);
   const verifyOTP = useMutation(api.otp.verifyOTP);
-  const sendOTPEmail = useAction(api.otp.sendOTPEmail);
   const recordLoginAttempt = useMutation(api.users.recordLoginAttempt);
   const isAccountLocked = useQuery(api.users.isAccountLocked, email ? { email } : "skip");
 
@@ -86,12 +85,7 @@ export function AuthForm({ mode, onModeChange }: AuthFormProps) {
       });
 
       // Generate and send email verification OTP
-      const otpCode = await generateOTP({ type: "email_verification" });
-      await sendOTPEmail({
-        email,
-        code: otpCode,
-        type: "email_verification",
-      });
+      await generateOTP({ type: "email_verification" });
 
       toast.success("Registration successful! Please check your email for verification code.");
       setShowTwoFactor(true);
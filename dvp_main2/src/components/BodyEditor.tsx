@@ -0,0 +1,360 @@
+import React, { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import type { FormField, MultipartPart, RequestBody } from "../../convex/validators";
+import { formatXml } from "../lib/xml";
+
+// The body as edited in the builder; "none" is never stored
+export type EditableBody = RequestBody | { type: "none" };
+
+type BodyType = EditableBody["type"];
+
+interface BodyEditorProps {
+  value: EditableBody;
+  onChange: (body: EditableBody) => void;
+}
+
+interface UploadedFile {
+  storageId: Id<"_storage">;
+  fileName: string;
+  contentType?: string;
+}
+
+const BODY_TYPES: { type: BodyType; label: string }[] = [
+  { type: "none", label: "None" },
+  { type: "json", label: "JSON" },
+  { type: "formUrlEncoded", label: "Form URL-encoded" },
+  { type: "multipart", label: "Multipart" },
+  { type: "text", label: "Raw text" },
+  { type: "xml", label: "XML" },
+  { type: "binary", label: "Binary" },
+];
+
+const TEXT_CONTENT_TYPES = ["text/plain", "text/html", "text/csv", "application/javascript", "application/yaml"];
+
+const inputClass =
+  "flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const textareaClass =
+  "w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm";
+
+// Switching type carries text content across where it makes sense
+function convertBody(current: EditableBody, type: BodyType): EditableBody | null {
+  const content = "content" in current ? current.content : "";
+  switch (type) {
+    case "none":
+      return { type };
+    case "json":
+    case "xml":
+      return { type, content };
+    case "text":
+      return { type, content, contentType: "text/plain" };
+    case "formUrlEncoded":
+      return { type, fields: [{ key: "", value: "", enabled: true }] };
+    case "multipart":
+      return { type, parts: [{ kind: "text", key: "", value: "", enabled: true }] };
+    case "graphql":
+      return { type, query: "", variables: "" };
+    case "binary":
+      // Needs a file before it is a valid body
+      return null;
+  }
+}
+
+export function BodyEditor({ value, onChange }: BodyEditorProps) {
+  const generateUploadUrl = useMutation(api.requestFiles.generateUploadUrl);
+  const registerUpload = useMutation(api.requestFiles.registerUpload);
+  const [pendingBinary, setPendingBinary] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  const selectedType: BodyType = pendingBinary && value.type === "none" ? "binary" : value.type;
+
+  const uploadFile = async (file: File): Promise<UploadedFile | null> => {
+    setUploading(true);
+    try {
+      const uploadUrl = await generateUploadUrl();
+      const result = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": file.type || "application/octet-stream" },
+        body: file,
+      });
+      if (!result.ok) throw new Error(`Upload failed with HTTP ${result.status}`);
+      const { storageId } = (await result.json()) as { storageId: Id<"_storage"> };
+      await registerUpload({ storageId, fileName: file.name, contentType: file.type || undefined });
+      return { storageId, fileName: file.name, contentType: file.type || undefined };
+    } catch (error) {
+      console.error('File upload error:', error);
+      toast.error(error instanceof Error ? error.message : "Failed to upload file");
+      return null;
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleTypeChange = (type: BodyType) => {
+    const converted = convertBody(value, type);
+    setPendingBinary(type === "binary");
+    onChange(converted ?? { type: "none" });
+  };
+
+  const formatContent = () => {
+    if (value.type !== "json" && value.type !== "xml") return;
+    try {
+      if (value.type === "json") {
+        if (!value.content.trim()) {
+          onChange({ ...value, content: "{\n  \n}" });
+          return;
+        }
+        onChange({ ...value, content: JSON.stringify(JSON.parse(value.content), null, 2) });
+      } else {
+        onChange({ ...value, content: formatXml(value.content) });
+      }
+      toast.success(`${value.type.toUpperCase()} formatted successfully`);
+    } catch (e) {
+      console.error('Body formatting error:', e);
+      toast.error(`Invalid ${value.type.toUpperCase()} format. Please check your syntax.`);
+    }
+  };
+
+  const renderFormFields = (fields: FormField[]) => {
+    if (value.type !== "formUrlEncoded") return null;
+    const update = (index: number, patch: Partial<FormField>) =>
+      onChange({ ...value, fields: fields.map((field, i) => (i === index ? { ...field, ...patch } : field)) });
+
+    return (
+      <div className="space-y-2">
+        {fields.map((field, index) => (
+          <div key={index} className={`flex gap-2 items-center ${field.enabled ? "" : "opacity-50"}`}>
+            <input
+              type="checkbox"
+              checked={field.enabled}
+              onChange={() => update(index, { enabled: !field.enabled })}
+              className="h-4 w-4"
+            />
+            <input
+              type="text"
+              placeholder="Field name"
+              value={field.key}
+              onChange={(e) => update(index, { key: e.target.value })}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              placeholder="Value"
+              value={field.value}
+              onChange={(e) => update(index, { value: e.target.value })}
+              className={inputClass}
+            />
+            <button
+              type="button"
+              onClick={() => onChange({ ...value, fields: fields.filter((_, i) => i !== index) })}
+              className="px-3 py-2 text-red-600 hover:text-red-800"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange({ ...value, fields: [...fields, { key: "", value: "", enabled: true }] })}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          Add Field
+        </button>
+      </div>
+    );
+  };
+
+  const renderMultipartParts = (parts: MultipartPart[]) => {
+    if (value.type !== "multipart") return null;
+    const replace = (index: number, part: MultipartPart) =>
+      onChange({ ...value, parts: parts.map((p, i) => (i === index ? part : p)) });
+
+    const handleFile = async (index: number, file: File | undefined) => {
+      if (!file) return;
+      const uploaded = await uploadFile(file);
+      if (uploaded) {
+        replace(index, { kind: "file", key: parts[index].key, enabled: parts[index].enabled, ...uploaded });
+      }
+    };
+
+    return (
+      <div className="space-y-2">
+        {parts.map((part, index) => (
+          <div key={index} className={`flex gap-2 items-center ${part.enabled ? "" : "opacity-50"}`}>
+            <input
+              type="checkbox"
+              checked={part.enabled}
+              onChange={() => replace(index, { ...part, enabled: !part.enabled })}
+              className="h-4 w-4"
+            />
+            <input
+              type="text"
+              placeholder="Part name"
+              value={part.key}
+              onChange={(e) => replace(index, { ...part, key: e.target.value })}
+              className={inputClass}
+            />
+            <select
+              value={part.kind}
+              onChange={(e) => {
+                if (e.target.value === "text") {
+                  replace(index, { kind: "text", key: part.key, value: "", enabled: part.enabled });
+                }
+              }}
+              className="px-2 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="text">Text</option>
+              <option value="file" disabled={part.kind !== "file"}>File</option>
+            </select>
+            {part.kind === "text" ? (
+              <input
+                type="text"
+                placeholder="Value"
+                value={part.value}
+                onChange={(e) => replace(index, { ...part, value: e.target.value })}
+                className={inputClass}
+              />
+            ) : (
+              <span className="flex-1 px-3 py-2 text-sm font-mono text-gray-700 truncate">📎 {part.fileName}</span>
+            )}
+            <label className="px-3 py-2 text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+              {part.kind === "file" ? "Replace" : "Attach file"}
+              <input
+                type="file"
+                className="hidden"
+                disabled={uploading}
+                onChange={(e) => void handleFile(index, e.target.files?.[0])}
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => onChange({ ...value, parts: parts.filter((_, i) => i !== index) })}
+              className="px-3 py-2 text-red-600 hover:text-red-800"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange({ ...value, parts: [...parts, { kind: "text", key: "", value: "", enabled: true }] })}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          Add Part
+        </button>
+      </div>
+    );
+  };
+
+  const handleBinaryFile = async (file: File | undefined) => {
+    if (!file) return;
+    const uploaded = await uploadFile(file);
+    if (uploaded) {
+      setPendingBinary(false);
+      onChange({ type: "binary", ...uploaded });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-4">
+        {BODY_TYPES.map(({ type, label }) => (
+          <label key={type} className="flex items-center gap-1 text-sm text-gray-700">
+            <input
+              type="radio"
+              name="bodyType"
+              checked={selectedType === type}
+              onChange={() => handleTypeChange(type)}
+            />
+            {label}
+          </label>
+        ))}
+        {(value.type === "json" || value.type === "xml") && (
+          <button
+            type="button"
+            onClick={formatContent}
+            className="ml-auto px-3 py-1 text-sm text-blue-600 hover:text-blue-700 focus:outline-none"
+          >
+            Format {value.type.toUpperCase()}
+          </button>
+        )}
+        {uploading && <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600" />}
+      </div>
+
+      {selectedType === "none" && (
+        <p className="text-sm text-gray-500">This request does not have a body.</p>
+      )}
+
+      {value.type === "json" && (
+        <textarea
+          id="body"
+          value={value.content}
+          onChange={(e) => onChange({ ...value, content: e.target.value })}
+          placeholder='{"key": "value"}'
+          rows={8}
+          className={textareaClass}
+        />
+      )}
+
+      {value.type === "xml" && (
+        <textarea
+          value={value.content}
+          onChange={(e) => onChange({ ...value, content: e.target.value })}
+          placeholder="<request><id>1</id></request>"
+          rows={8}
+          className={textareaClass}
+        />
+      )}
+
+      {value.type === "text" && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium text-gray-700">Content type</label>
+            <input
+              type="text"
+              list="text-content-types"
+              value={value.contentType}
+              onChange={(e) => onChange({ ...value, contentType: e.target.value })}
+              className="px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+            />
+            <datalist id="text-content-types">
+              {TEXT_CONTENT_TYPES.map((type) => <option key={type} value={type} />)}
+            </datalist>
+          </div>
+          <textarea
+            value={value.content}
+            onChange={(e) => onChange({ ...value, content: e.target.value })}
+            rows={8}
+            className={textareaClass}
+          />
+        </div>
+      )}
+
+      {value.type === "formUrlEncoded" && renderFormFields(value.fields)}
+
+      {value.type === "multipart" && renderMultipartParts(value.parts)}
+
+      {selectedType === "binary" && (
+        <div className="flex items-center gap-4">
+          {value.type === "binary" && (
+            <span className="text-sm font-mono text-gray-700">
+              📎 {value.fileName} {value.contentType && `(${value.contentType})`}
+            </span>
+          )}
+          <label className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 cursor-pointer">
+            {value.type === "binary" ? "Replace file" : "Choose file"}
+            <input
+              type="file"
+              className="hidden"
+              disabled={uploading}
+              onChange={(e) => void handleBinaryFile(e.target.files?.[0])}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
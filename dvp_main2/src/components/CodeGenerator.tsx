@@ -0,0 +1,78 @@
+import React, { useState } from "react";
+import { toast } from "sonner";
+import type { RequestFields } from "../../convex/validators";
+import { CODE_LANGUAGES, CodeLanguage, generateCode } from "../lib/codegen";
+
+interface CodeGeneratorProps {
+  request: RequestFields;
+  onClose: () => void;
+}
+
+export function CodeGenerator({ request, onClose }: CodeGeneratorProps) {
+  const [language, setLanguage] = useState<CodeLanguage>("fetch");
+  const { code, envVars } = generateCode(language, request);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast.success("Code copied to clipboard");
+    } catch (error) {
+      console.error('Error copying code:', error);
+      toast.error("Failed to copy to clipboard");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Generate Code</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">✕</button>
+        </div>
+
+        <div className="flex gap-2 border-b border-gray-200 mb-4">
+          {CODE_LANGUAGES.map(({ id, label }) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => setLanguage(id)}
+              className={`px-3 py-2 text-sm font-medium focus:outline-none ${
+                language === id ? "text-blue-600 border-b-2 border-blue-600" : "text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <pre className="bg-gray-900 text-gray-100 rounded-md p-4 text-sm font-mono overflow-auto max-h-[60vh]">
+          {code}
+        </pre>
+
+        {envVars.length > 0 && (
+          <p className="mt-3 text-sm text-gray-600">
+            Credentials, secret headers and {"{{variables}}"} are read from environment variables:{" "}
+            <span className="font-mono">{envVars.join(", ")}</span>
+          </p>
+        )}
+
+        <div className="flex justify-end gap-3 mt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleCopy()}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            Copy
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import React, { useState } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { METHOD_COLORS } from "../lib/http";
+import { AssertionReport } from "./AssertionsEditor";
+import { ExtractionReport } from "./ExtractionsEditor";
+import { SchemaReport } from "./ResponseSchemaEditor";
+
+interface CollectionRunnerProps {
+  collectionId: Id<"collections">;
+  environmentId?: Id<"environments">;
+}
+
+type CollectionRun = Doc<"collectionRuns">;
+
+function summarize(run: CollectionRun) {
+  const passed = run.results.filter((result) => result.passed).length;
+  return { passed, failed: run.results.length - passed };
+}
+
+export function CollectionRunner({ collectionId, environmentId }: CollectionRunnerProps) {
+  const runs = useQuery(api.collectionRuns.listCollectionRuns, { collectionId });
+  const contents = useQuery(api.collections.getCollectionContents, { collectionId });
+  const runCollection = useAction(api.apiTester.runCollection);
+  const deleteRun = useMutation(api.collectionRuns.deleteCollectionRun);
+  const [starting, setStarting] = useState(false);
+  const [expandedId, setExpandedId] = useState<Id<"collectionRuns"> | null>(null);
+
+  const handleRun = async () => {
+    setStarting(true);
+    try {
+      const runId = await runCollection({ collectionId, environmentId });
+      setExpandedId(runId);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to run collection");
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const running = starting || runs?.some((run) => run.status === "running");
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Runs</h3>
+        <button
+          onClick={() => void handleRun()}
+          disabled={running}
+          className="px-3 py-1 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+        >
+          {running ? "Running..." : "▶ Run Collection"}
+        </button>
+      </div>
+
+      {runs === undefined ? null : runs.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Run the collection to send every request in order and check its assertions.
+        </p>
+      ) : (
+        <div className="border border-gray-200 rounded-md divide-y divide-gray-200">
+          {runs.map((run) => {
+            const { passed, failed } = summarize(run);
+            const expanded = expandedId === run._id;
+            return (
+              <div key={run._id}>
+                <div
+                  onClick={() => setExpandedId(expanded ? null : run._id)}
+                  className="group flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50"
+                >
+                  <span className="text-gray-500 w-4">{expanded ? "▾" : "▸"}</span>
+                  <span className="flex-1">
+                    {new Date(run.startedAt).toLocaleString()}
+                    {run.folderId && (
+                      <span className="ml-2 text-gray-500">
+                        📁 {contents?.folders.find((folder) => folder._id === run.folderId)?.name ?? "Deleted folder"}
+                      </span>
+                    )}
+                  </span>
+                  {run.status === "running" ? (
+                    <span className="text-blue-600">Running ({run.results.length} done)</span>
+                  ) : run.status === "failed" ? (
+                    <span className="text-red-600">Failed: {run.error}</span>
+                  ) : (
+                    <span className={failed === 0 ? "text-green-600" : "text-red-600"}>
+                      {passed} passed, {failed} failed
+                    </span>
+                  )}
+                  {run.finishedAt && (
+                    <span className="text-gray-500">{((run.finishedAt - run.startedAt) / 1000).toFixed(1)}s</span>
+                  )}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      void deleteRun({ id: run._id });
+                    }}
+                    title="Delete run"
+                    className="hidden group-hover:block text-red-500 hover:text-red-700"
+                  >
+                    ✕
+                  </button>
+                </div>
+                {expanded && (
+                  <div className="px-3 pb-3 space-y-3">
+                    {run.results.length === 0 && (
+                      <p className="text-sm text-gray-500">No requests have finished yet.</p>
+                    )}
+                    {run.results.map((result, index) => (
+                      <div key={index} className="border border-gray-100 rounded-md p-3 space-y-2">
+                        <div className="flex items-center gap-2 text-sm">
+                          <span className={result.passed ? "text-green-600" : "text-red-600"}>
+                            {result.passed ? "✓" : "✗"}
+                          </span>
+                          <span className={`px-2 py-0.5 text-xs font-medium rounded font-mono ${METHOD_COLORS[result.method]}`}>
+                            {result.method}
+                          </span>
+                          <span className="font-medium">{result.name}</span>
+                          <span className="flex-1 text-gray-500 font-mono truncate">{result.url}</span>
+                          {result.status !== undefined && <span>{result.status}</span>}
+                          {result.durationMs !== undefined && (
+                            <span className="text-gray-500">{result.durationMs} ms</span>
+                          )}
+                        </div>
+                        {result.error && <p className="text-sm text-red-600">{result.error}</p>}
+                        {result.assertions.length > 0 && <AssertionReport results={result.assertions} />}
+                        {result.extracted && <ExtractionReport results={result.extracted} />}
+                        {result.schemaViolations && <SchemaReport violations={result.schemaViolations} />}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,481 @@
+import React, { useState } from "react";
+import { useAction, useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { METHOD_COLORS } from "../lib/http";
+import { CollectionRunner } from "./CollectionRunner";
+import { OpenApiImport } from "./OpenApiImport";
+import { ExportButtons, ImportFileButton } from "./ImportExport";
+
+type SavedRequest = Doc<"savedRequests">;
+type Folder = Doc<"collectionFolders">;
+
+type DragItem =
+  | { kind: "request"; id: Id<"savedRequests"> }
+  | { kind: "folder"; id: Id<"collectionFolders"> };
+
+interface CollectionsProps {
+  onSelectRequest: (request: SavedRequest) => void;
+  // Environment the collection runner resolves {{variables}} from
+  environmentId?: Id<"environments">;
+}
+
+export function Collections({ onSelectRequest, environmentId }: CollectionsProps) {
+  const collections = useQuery(api.collections.listCollections);
+  const [selectedId, setSelectedId] = useState<Id<"collections"> | null>(null);
+  const [newCollectionName, setNewCollectionName] = useState("");
+  const [transfer, setTransfer] = useState<{ request: SavedRequest; mode: "move" | "copy" } | null>(null);
+  const [showOpenApiImport, setShowOpenApiImport] = useState(false);
+
+  const createCollection = useMutation(api.collections.createCollection);
+  const updateCollection = useMutation(api.collections.updateCollection);
+  const deleteCollection = useMutation(api.collections.deleteCollection);
+
+  const activeId = selectedId ?? collections?.[0]?._id ?? null;
+
+  const handleCreateCollection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newCollectionName.trim()) return;
+    try {
+      const id = await createCollection({ name: newCollectionName });
+      setSelectedId(id);
+      setNewCollectionName("");
+      toast.success("Collection created");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create collection");
+    }
+  };
+
+  const handleRenameCollection = async (collection: Doc<"collections">) => {
+    const name = window.prompt("Rename collection", collection.name);
+    if (!name || name === collection.name) return;
+    try {
+      await updateCollection({ id: collection._id, name });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to rename collection");
+    }
+  };
+
+  const handleDeleteCollection = async (collection: Doc<"collections">) => {
+    if (!window.confirm(`Delete "${collection.name}" and every request in it?`)) return;
+    try {
+      await deleteCollection({ id: collection._id });
+      setSelectedId(null);
+      toast.success("Collection deleted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete collection");
+    }
+  };
+
+  if (collections === undefined) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+        <p className="text-gray-500">Loading collections...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-6">
+      {/* Collection list */}
+      <div className="w-56 flex-shrink-0 space-y-2">
+        <h2 className="text-lg font-semibold">Collections</h2>
+        {collections.map((collection) => (
+          <div
+            key={collection._id}
+            className={`group flex items-center justify-between px-3 py-2 rounded-md cursor-pointer text-sm ${
+              collection._id === activeId ? "bg-blue-100 text-blue-800" : "hover:bg-gray-100"
+            }`}
+            onClick={() => setSelectedId(collection._id)}
+          >
+            <span className="truncate">{collection.name}</span>
+            <span className="hidden group-hover:flex gap-2">
+              <button onClick={() => void handleRenameCollection(collection)} title="Rename" className="text-gray-500 hover:text-gray-800">
+                ✎
+              </button>
+              <button onClick={() => void handleDeleteCollection(collection)} title="Delete" className="text-red-500 hover:text-red-700">
+                ✕
+              </button>
+            </span>
+          </div>
+        ))}
+        <form onSubmit={(e) => void handleCreateCollection(e)} className="flex gap-1 pt-2">
+          <input
+            type="text"
+            value={newCollectionName}
+            onChange={(e) => setNewCollectionName(e.target.value)}
+            placeholder="New collection"
+            className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button type="submit" className="px-2 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700">
+            +
+          </button>
+        </form>
+        <button
+          type="button"
+          onClick={() => setShowOpenApiImport(true)}
+          className="w-full px-2 py-1 text-sm text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50"
+        >
+          Import OpenAPI
+        </button>
+        <ImportFileButton onImported={setSelectedId} />
+      </div>
+
+      {/* Collection tree */}
+      <div className="flex-1 min-w-0">
+        {activeId ? (
+          <div className="space-y-8">
+            <CollectionTree
+              collectionId={activeId}
+              environmentId={environmentId}
+              onSelectRequest={onSelectRequest}
+              onTransfer={(request, mode) => setTransfer({ request, mode })}
+            />
+            <CollectionRunner collectionId={activeId} environmentId={environmentId} />
+          </div>
+        ) : (
+          <div className="text-center py-12 text-gray-500">
+            Create a collection to start organising your saved requests
+          </div>
+        )}
+      </div>
+
+      {transfer && (
+        <TransferDialog
+          request={transfer.request}
+          mode={transfer.mode}
+          collections={collections}
+          onClose={() => setTransfer(null)}
+        />
+      )}
+
+      {showOpenApiImport && (
+        <OpenApiImport
+          collections={collections}
+          onClose={() => setShowOpenApiImport(false)}
+          onImported={setSelectedId}
+        />
+      )}
+    </div>
+  );
+}
+
+interface CollectionTreeProps {
+  collectionId: Id<"collections">;
+  environmentId?: Id<"environments">;
+  onSelectRequest: (request: SavedRequest) => void;
+  onTransfer: (request: SavedRequest, mode: "move" | "copy") => void;
+}
+
+function CollectionTree({ collectionId, environmentId, onSelectRequest, onTransfer }: CollectionTreeProps) {
+  const contents = useQuery(api.collections.getCollectionContents, { collectionId });
+  const createFolder = useMutation(api.collections.createFolder);
+  const renameFolder = useMutation(api.collections.renameFolder);
+  const deleteFolder = useMutation(api.collections.deleteFolder);
+  const moveFolder = useMutation(api.collections.moveFolder);
+  const moveRequest = useMutation(api.savedRequests.moveSavedRequest);
+  const deleteRequest = useMutation(api.savedRequests.deleteSavedRequest);
+  const runCollection = useAction(api.apiTester.runCollection);
+
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  if (contents === undefined) {
+    return <div className="animate-pulse bg-gray-100 h-32 rounded-lg"></div>;
+  }
+  if (contents === null) {
+    return <div className="text-center py-12 text-gray-500">Collection not found</div>;
+  }
+
+  const { folders, requests } = contents;
+  const childFolders = (parentId?: Id<"collectionFolders">) =>
+    folders.filter((folder) => folder.parentId === parentId);
+  const childRequests = (folderId?: Id<"collectionFolders">) =>
+    requests.filter((request) => request.folderId === folderId);
+
+  const run = async (action: Promise<unknown>, failure: string) => {
+    try {
+      await action;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : failure);
+    }
+  };
+
+  const handleNewFolder = async (parentId?: Id<"collectionFolders">) => {
+    const name = window.prompt("Folder name");
+    if (!name) return;
+    await run(createFolder({ collectionId, parentId, name }), "Failed to create folder");
+  };
+
+  // Dropping onto a container appends; dropping onto a row inserts before it
+  const dropInto = async (folderId: Id<"collectionFolders"> | undefined, index?: number) => {
+    const item = dragItem;
+    setDragItem(null);
+    if (!item) return;
+
+    if (item.kind === "request") {
+      await run(
+        moveRequest({ id: item.id, collectionId, folderId, index: index ?? childRequests(folderId).length }),
+        "Failed to move request"
+      );
+    } else if (item.id !== folderId) {
+      await run(
+        moveFolder({ id: item.id, parentId: folderId, index: index ?? childFolders(folderId).length }),
+        "Failed to move folder"
+      );
+    }
+  };
+
+  const toggle = (id: string) => {
+    const next = new Set(collapsed);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setCollapsed(next);
+  };
+
+  const renderRequest = (request: SavedRequest, index: number, depth: number) => (
+    <div
+      key={request._id}
+      draggable
+      onDragStart={(e) => {
+        e.stopPropagation();
+        setDragItem({ kind: "request", id: request._id });
+      }}
+      onDragOver={(e) => dragItem?.kind === "request" && e.preventDefault()}
+      onDrop={(e) => {
+        e.stopPropagation();
+        void dropInto(request.folderId, index);
+      }}
+      style={{ paddingLeft: `${depth * 20 + 12}px` }}
+      className="group flex items-center gap-3 pr-3 py-2 rounded-md hover:bg-gray-50 cursor-move"
+    >
+      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${METHOD_COLORS[request.method]}`}>
+        {request.method}
+      </span>
+      <span className="text-sm font-medium text-gray-900 truncate">{request.name}</span>
+      <span className="text-xs text-gray-500 truncate flex-1">{request.url}</span>
+      <span className="hidden group-hover:flex gap-3 text-sm">
+        <button onClick={() => onSelectRequest(request)} className="text-blue-600 hover:text-blue-900">Load</button>
+        <button onClick={() => onTransfer(request, "move")} className="text-gray-600 hover:text-gray-900">Move</button>
+        <button onClick={() => onTransfer(request, "copy")} className="text-gray-600 hover:text-gray-900">Copy</button>
+        <button
+          onClick={() => void run(deleteRequest({ id: request._id }), "Failed to delete request")}
+          className="text-red-600 hover:text-red-900"
+        >
+          Delete
+        </button>
+      </span>
+    </div>
+  );
+
+  const renderFolder = (folder: Folder, index: number, depth: number): React.ReactNode => (
+    <div key={folder._id}>
+      <div
+        draggable
+        onDragStart={(e) => {
+          e.stopPropagation();
+          setDragItem({ kind: "folder", id: folder._id });
+        }}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.stopPropagation();
+          // Requests dropped on a folder go inside it; folders are placed before it
+          void (dragItem?.kind === "folder" ? dropInto(folder.parentId, index) : dropInto(folder._id));
+        }}
+        style={{ paddingLeft: `${depth * 20 + 12}px` }}
+        className="group flex items-center gap-2 pr-3 py-2 rounded-md hover:bg-gray-50 cursor-move"
+      >
+        <button onClick={() => toggle(folder._id)} className="text-gray-500 w-4">
+          {collapsed.has(folder._id) ? "▸" : "▾"}
+        </button>
+        <span className="text-sm font-medium text-gray-700 flex-1">📁 {folder.name}</span>
+        <span className="hidden group-hover:flex gap-3 text-sm">
+          <button
+            onClick={() => void run(runCollection({ collectionId, environmentId, folderId: folder._id }), "Failed to run folder")}
+            title="Send this folder's requests in order, passing extracted values along"
+            className="text-green-600 hover:text-green-800"
+          >
+            ▶ Run sequence
+          </button>
+          <button onClick={() => void handleNewFolder(folder._id)} className="text-gray-600 hover:text-gray-900">+ Folder</button>
+          <button
+            onClick={() => {
+              const name = window.prompt("Rename folder", folder.name);
+              if (name) void run(renameFolder({ id: folder._id, name }), "Failed to rename folder");
+            }}
+            className="text-gray-600 hover:text-gray-900"
+          >
+            Rename
+          </button>
+          <button
+            onClick={() => {
+              if (window.confirm(`Delete "${folder.name}" and everything in it?`)) {
+                void run(deleteFolder({ id: folder._id }), "Failed to delete folder");
+              }
+            }}
+            className="text-red-600 hover:text-red-900"
+          >
+            Delete
+          </button>
+        </span>
+      </div>
+      {!collapsed.has(folder._id) && renderContainer(folder._id, depth + 1)}
+    </div>
+  );
+
+  const renderContainer = (folderId: Id<"collectionFolders"> | undefined, depth: number): React.ReactNode => (
+    <>
+      {childFolders(folderId).map((folder, index) => renderFolder(folder, index, depth))}
+      {childRequests(folderId).map((request, index) => renderRequest(request, index, depth))}
+    </>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">{contents.collection.name}</h3>
+          {contents.collection.description && (
+            <p className="text-sm text-gray-500">{contents.collection.description}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-4">
+          <ExportButtons collectionId={collectionId} />
+          <button
+            onClick={() => void handleNewFolder()}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            New Folder
+          </button>
+        </div>
+      </div>
+      <div
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={() => void dropInto(undefined)}
+        className="border border-gray-200 rounded-md py-2 min-h-[8rem]"
+      >
+        {folders.length === 0 && requests.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            No saved requests yet. Use "Save Request" in the builder to add one.
+          </div>
+        ) : (
+          renderContainer(undefined, 0)
+        )}
+      </div>
+      <p className="text-xs text-gray-500">Drag requests and folders to reorder them or move them between folders.</p>
+    </div>
+  );
+}
+
+interface TransferDialogProps {
+  request: SavedRequest;
+  mode: "move" | "copy";
+  collections: Doc<"collections">[];
+  onClose: () => void;
+}
+
+function TransferDialog({ request, mode, collections, onClose }: TransferDialogProps) {
+  const [collectionId, setCollectionId] = useState<Id<"collections">>(request.collectionId);
+  const [folderId, setFolderId] = useState<Id<"collectionFolders"> | "">("");
+  const contents = useQuery(api.collections.getCollectionContents, { collectionId });
+  const moveRequest = useMutation(api.savedRequests.moveSavedRequest);
+  const copyRequest = useMutation(api.savedRequests.copySavedRequest);
+
+  const handleConfirm = async () => {
+    const target = { id: request._id, collectionId, folderId: folderId || undefined };
+    try {
+      if (mode === "move") {
+        const siblings = contents?.requests.filter((r) => r.folderId === target.folderId) ?? [];
+        await moveRequest({ ...target, index: siblings.length });
+      } else {
+        await copyRequest(target);
+      }
+      toast.success(mode === "move" ? "Request moved" : "Request copied");
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Failed to ${mode} request`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6 space-y-4">
+        <h2 className="text-xl font-semibold text-gray-900">
+          {mode === "move" ? "Move" : "Copy"} "{request.name}"
+        </h2>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Collection</label>
+          <select
+            value={collectionId}
+            onChange={(e) => {
+              setCollectionId(e.target.value as Id<"collections">);
+              setFolderId("");
+            }}
+            className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {collections.map((collection) => (
+              <option key={collection._id} value={collection._id}>{collection.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Folder</label>
+          <FolderSelect folders={contents?.folders ?? []} value={folderId} onChange={setFolderId} />
+        </div>
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleConfirm()}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            {mode === "move" ? "Move" : "Copy"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface FolderSelectProps {
+  folders: Folder[];
+  value: Id<"collectionFolders"> | "";
+  onChange: (value: Id<"collectionFolders"> | "") => void;
+  className?: string;
+}
+
+// Flat <select> of a collection's folders, indented by depth
+export function FolderSelect({ folders, value, onChange, className }: FolderSelectProps) {
+  const options: { id: Id<"collectionFolders">; label: string }[] = [];
+  const walk = (parentId: Id<"collectionFolders"> | undefined, depth: number) => {
+    for (const folder of folders.filter((f) => f.parentId === parentId)) {
+      options.push({ id: folder._id, label: `${"  ".repeat(depth)}${folder.name}` });
+      walk(folder._id, depth + 1);
+    }
+  };
+  walk(undefined, 0);
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as Id<"collectionFolders"> | "")}
+      className={className ?? "w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"}
+    >
+      <option value="">(collection root)</option>
+      {options.map((option) => (
+        <option key={option.id} value={option.id}>{option.label}</option>
+      ))}
+    </select>
+  );
+}
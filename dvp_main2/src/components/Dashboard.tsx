@@ -1,22 +1,24 @@
 import React, { useState } from "react";
-import { useQuery, useMutation, useAction } from "convex/react";
+import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { useAuthActions } from "@convex-dev/auth/react";
 import { toast } from "sonner";
 import { ApiTester } from "./ApiTester";
+import { Monitors } from "./Monitors";
+import { Alerts } from "./Alerts";
 import { ErrorBoundary } from "./ErrorBoundary";
 
 export function Dashboard() {
   const { signOut } = useAuthActions();
   const user = useQuery(api.users.getCurrentUser);
   const sessions = useQuery(api.sessions.getUserSessions);
+  const usage = useQuery(api.usage.getUsage);
   const updateProfile = useMutation(api.users.updateProfile);
   const revokeSession = useMutation(api.sessions.revokeSession);
   const generateOTP = useMutation(api.otp.generateOTP);
   const verifyOTP = useMutation(api.otp.verifyOTP);
-  const sendOTPEmail = useAction(api.otp.sendOTPEmail);
 
-  const [activeTab, setActiveTab] = useState<"profile" | "api-tester">("profile");
+  const [activeTab, setActiveTab] = useState<"profile" | "api-tester" | "monitors">("profile");
   const [editing, setEditing] = useState(false);
   const [firstName, setFirstName] = useState(user?.profile?.firstName || "");
   const [lastName, setLastName] = useState(user?.profile?.lastName || "");
@@ -44,12 +46,7 @@ export function Dashboard() {
     if (!twoFactorEnabled) {
       // Enabling 2FA - require OTP verification
       try {
-        const code = await generateOTP({ type: "two_factor" });
-        await sendOTPEmail({
-          email: user?.email || "",
-          code,
-          type: "two_factor",
-        });
+        await generateOTP({ type: "two_factor" });
         setShowOTPInput(true);
         toast.info("Please enter the verification code sent to your email");
       } catch (error) {
@@ -137,6 +134,16 @@ export function Dashboard() {
             >
               API Tester
             </button>
+            <button
+              onClick={() => setActiveTab("monitors")}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === "monitors"
+                  ? "border-blue-500 text-blue-600"
+                  : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+              }`}
+            >
+              Monitors
+            </button>
           </nav>
         </div>
       </div>
@@ -256,6 +263,43 @@ export function Dashboard() {
             </div>
           </div>
 
+          {/* API Usage */}
+          {usage && (
+            <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold">API Usage</h2>
+                <span className="px-2 py-0.5 text-xs font-medium rounded bg-blue-100 text-blue-800 capitalize">
+                  {usage.tier} plan
+                </span>
+              </div>
+
+              <div className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span>Requests today</span>
+                  <span>
+                    {usage.usedToday.toLocaleString()} / {usage.dailyQuota.toLocaleString()}
+                  </span>
+                </div>
+                <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${
+                      usage.usedToday >= usage.dailyQuota
+                        ? "bg-red-500"
+                        : usage.usedToday >= usage.dailyQuota * 0.8
+                          ? "bg-yellow-500"
+                          : "bg-blue-500"
+                    }`}
+                    style={{ width: `${Math.min(100, (usage.usedToday / usage.dailyQuota) * 100)}%` }}
+                  ></div>
+                </div>
+                <p className="text-sm text-gray-600">
+                  Resets {new Date(usage.resetsAt).toLocaleString()}. Up to {usage.burst} requests at once, refilled at{" "}
+                  {usage.perMinute} per minute. Monitors and collection runs count too.
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Active Sessions */}
           <div className="bg-white rounded-lg shadow-md p-6">
             <h2 className="text-lg font-semibold mb-4">Active Sessions</h2>
@@ -296,6 +340,15 @@ export function Dashboard() {
           <ApiTester />
         </ErrorBoundary>
       )}
+
+      {activeTab === "monitors" && (
+        <ErrorBoundary>
+          <div className="space-y-6">
+            <Monitors />
+            <Alerts />
+          </div>
+        </ErrorBoundary>
+      )}
     </div>
   );
 }
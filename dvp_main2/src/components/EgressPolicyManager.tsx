@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { toast } from "sonner";
+import { invalidHostPatterns } from "../../convex/egress";
+
+interface EgressPolicyManagerProps {
+  onClose: () => void;
+}
+
+const splitList = (text: string) =>
+  text
+    .split(/[\s,]+/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm disabled:bg-gray-50";
+
+// Shows the policy to everyone; only admins can change it
+export function EgressPolicyManager({ onClose }: EgressPolicyManagerProps) {
+  const current = useQuery(api.egressPolicy.getEgressPolicy);
+  const updatePolicy = useMutation(api.egressPolicy.updateEgressPolicy);
+
+  const [allowPrivateNetworks, setAllowPrivateNetworks] = useState(false);
+  const [allowHosts, setAllowHosts] = useState("");
+  const [denyHosts, setDenyHosts] = useState("");
+  const [allowPorts, setAllowPorts] = useState("");
+  const [denyPorts, setDenyPorts] = useState("");
+
+  const policy = current?.policy;
+  useEffect(() => {
+    if (!policy) return;
+    setAllowPrivateNetworks(policy.allowPrivateNetworks);
+    setAllowHosts(policy.allowHosts.join("\n"));
+    setDenyHosts(policy.denyHosts.join("\n"));
+    setAllowPorts(policy.allowPorts.join(", "));
+    setDenyPorts(policy.denyPorts.join(", "));
+  }, [policy]);
+
+  const canEdit = current?.canEdit ?? false;
+
+  const handleSave = async () => {
+    const hosts = { allowHosts: splitList(allowHosts), denyHosts: splitList(denyHosts) };
+    const invalidHosts = invalidHostPatterns([...hosts.allowHosts, ...hosts.denyHosts]);
+    if (invalidHosts.length > 0) {
+      toast.error(`Invalid hosts: ${invalidHosts.join(", ")}`);
+      return;
+    }
+    const ports = { allowPorts: splitList(allowPorts).map(Number), denyPorts: splitList(denyPorts).map(Number) };
+    if ([...ports.allowPorts, ...ports.denyPorts].some((port) => !Number.isInteger(port))) {
+      toast.error("Ports must be numbers");
+      return;
+    }
+
+    try {
+      await updatePolicy({ policy: { allowPrivateNetworks, ...hosts, ...ports } });
+      toast.success("Egress policy saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save egress policy");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Egress Policy</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            ✕
+          </button>
+        </div>
+
+        {current === undefined ? (
+          <div className="animate-pulse bg-gray-100 h-48 rounded-lg"></div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Requests are sent from the server. Every request, redirect and OAuth2 token request is checked against
+              this policy after its hostname is resolved.
+              {!canEdit && " Only admins can change it."}
+            </p>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={allowPrivateNetworks}
+                onChange={(e) => setAllowPrivateNetworks(e.target.checked)}
+                disabled={!canEdit}
+                className="h-4 w-4"
+              />
+              Allow private, loopback and link-local addresses
+            </label>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Allowed hosts</label>
+                <textarea
+                  value={allowHosts}
+                  onChange={(e) => setAllowHosts(e.target.value)}
+                  disabled={!canEdit}
+                  rows={5}
+                  placeholder={"staging.internal\n10.20.0.0/16"}
+                  className={inputClass}
+                />
+                <p className="mt-1 text-xs text-gray-500">Reachable even when they resolve to private addresses</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Denied hosts</label>
+                <textarea
+                  value={denyHosts}
+                  onChange={(e) => setDenyHosts(e.target.value)}
+                  disabled={!canEdit}
+                  rows={5}
+                  placeholder={"*.corp.example.com\n203.0.113.7"}
+                  className={inputClass}
+                />
+                <p className="mt-1 text-xs text-gray-500">Names, *.domain wildcards, IPs or CIDR ranges</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Allowed ports</label>
+                <input
+                  type="text"
+                  value={allowPorts}
+                  onChange={(e) => setAllowPorts(e.target.value)}
+                  disabled={!canEdit}
+                  placeholder="Any"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Denied ports</label>
+                <input
+                  type="text"
+                  value={denyPorts}
+                  onChange={(e) => setDenyPorts(e.target.value)}
+                  disabled={!canEdit}
+                  placeholder="None"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {canEdit && (
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  onClick={() => void handleSave()}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+                >
+                  Save Policy
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+
+interface Variable {
+  key: string;
+  value: string;
+}
+
+interface EnvironmentManagerProps {
+  onClose: () => void;
+}
+
+export function EnvironmentManager({ onClose }: EnvironmentManagerProps) {
+  const environments = useQuery(api.environments.listEnvironments);
+  const createEnvironment = useMutation(api.environments.createEnvironment);
+  const updateEnvironment = useMutation(api.environments.updateEnvironment);
+  const deleteEnvironment = useMutation(api.environments.deleteEnvironment);
+
+  const [selectedId, setSelectedId] = useState<Id<"environments"> | "new" | null>(null);
+  const [name, setName] = useState("");
+  const [variables, setVariables] = useState<Variable[]>([{ key: "", value: "" }]);
+
+  const selectEnvironment = (id: Id<"environments"> | "new") => {
+    setSelectedId(id);
+    const environment = environments?.find((env) => env._id === id);
+    setName(environment?.name ?? "");
+    setVariables(environment && environment.variables.length > 0
+      ? environment.variables.map((variable) => ({ ...variable }))
+      : [{ key: "", value: "" }]);
+  };
+
+  const updateVariable = (index: number, field: "key" | "value", value: string) => {
+    const newVariables = [...variables];
+    newVariables[index][field] = value;
+    setVariables(newVariables);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error("Please enter a name for the environment");
+      return;
+    }
+
+    const validVariables = variables
+      .filter(variable => variable.key.trim())
+      .map(variable => ({ key: variable.key.trim(), value: variable.value }));
+
+    try {
+      if (selectedId === "new") {
+        const id = await createEnvironment({ name, variables: validVariables });
+        setSelectedId(id);
+      } else if (selectedId) {
+        await updateEnvironment({ id: selectedId, name, variables: validVariables });
+      }
+      toast.success("Environment saved");
+    } catch (error) {
+      console.error('Error saving environment:', error);
+      toast.error(error instanceof Error ? error.message : "Failed to save environment");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId || selectedId === "new") return;
+    if (!window.confirm(`Delete the "${name}" environment?`)) return;
+
+    try {
+      await deleteEnvironment({ id: selectedId });
+      setSelectedId(null);
+      toast.success("Environment deleted");
+    } catch (error) {
+      console.error('Error deleting environment:', error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete environment");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Environments</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            ✕
+          </button>
+        </div>
+
+        <div className="flex gap-6">
+          {/* Environment list */}
+          <div className="w-48 space-y-1">
+            {environments?.map((env) => (
+              <button
+                key={env._id}
+                onClick={() => selectEnvironment(env._id)}
+                className={`w-full text-left px-3 py-2 text-sm rounded-md ${
+                  selectedId === env._id ? "bg-blue-100 text-blue-800" : "hover:bg-gray-100"
+                }`}
+              >
+                {env.name}
+              </button>
+            ))}
+            <button
+              onClick={() => selectEnvironment("new")}
+              className="w-full text-left px-3 py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-md"
+            >
+              + New environment
+            </button>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1">
+            {selectedId ? (
+              <div className="space-y-4">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Environment name (e.g. staging)"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Variables — use as <code className="font-mono">{"{{name}}"}</code>
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setVariables([...variables, { key: "", value: "" }])}
+                      className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                    >
+                      Add Variable
+                    </button>
+                  </div>
+                  <div className="space-y-2 max-h-72 overflow-y-auto">
+                    {variables.map((variable, index) => (
+                      <div key={index} className="flex gap-2">
+                        <input
+                          type="text"
+                          placeholder="Variable name"
+                          value={variable.key}
+                          onChange={(e) => updateVariable(index, "key", e.target.value)}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                        />
+                        <input
+                          type="text"
+                          placeholder="Value"
+                          value={variable.value}
+                          onChange={(e) => updateVariable(index, "value", e.target.value)}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setVariables(variables.filter((_, i) => i !== index))}
+                          className="px-3 py-2 text-red-600 hover:text-red-800"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex justify-between">
+                  {selectedId !== "new" ? (
+                    <button
+                      type="button"
+                      onClick={() => void handleDelete()}
+                      className="px-4 py-2 text-sm font-medium text-red-600 bg-red-50 rounded-md hover:bg-red-100"
+                    >
+                      Delete
+                    </button>
+                  ) : <span />}
+                  <button
+                    type="button"
+                    onClick={() => void handleSave()}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+                  >
+                    Save Environment
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="text-center py-12 text-gray-500">
+                Select an environment or create a new one
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
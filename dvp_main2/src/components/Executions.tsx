@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { FunctionReturnType } from "convex/server";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { formatBytes, HttpMethod } from "../lib/http";
+import { DiffEntry, diffJson, parseBody } from "../lib/jsonDiff";
+import { isTextContentType } from "../../convex/responseBody";
+import { BinaryResponse, responseFileName } from "./ResponseRenderers";
+
+type Execution = FunctionReturnType<typeof api.executions.listExecutions>[number];
+
+const statusClass = (status: number) => (status >= 200 && status < 300 ? "text-green-600" : "text-red-600");
+
+// Loads an execution's body, downloading it when it is kept in file storage
+function useExecutionBody(id: Id<"executions">) {
+  const stored = useQuery(api.executions.getExecutionBody, { id });
+  const [downloaded, setDownloaded] = useState<{ url: string; body: string } | null>(null);
+  const bodyUrl = stored?.bodyUrl;
+
+  useEffect(() => {
+    if (!bodyUrl) return;
+    let cancelled = false;
+    fetch(bodyUrl)
+      .then((response) => response.text())
+      .then((body) => !cancelled && setDownloaded({ url: bodyUrl, body }))
+      .catch(() => toast.error("Failed to load response body"));
+    return () => {
+      cancelled = true;
+    };
+  }, [bodyUrl]);
+
+  if (stored === undefined) return { loading: true };
+  if (bodyUrl) {
+    return downloaded?.url === bodyUrl
+      ? { loading: false, value: parseBody(downloaded.body, stored.contentType) }
+      : { loading: true };
+  }
+  return { loading: false, value: parseBody(stored.body, stored.contentType) };
+}
+
+const show = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value, null, 2));
+
+interface ExecutionTimelineProps {
+  method: HttpMethod;
+  url: string;
+}
+
+// Every recorded response of a request, newest first. Two entries can be
+// selected and compared.
+export function ExecutionTimeline({ method, url }: ExecutionTimelineProps) {
+  const executions = useQuery(api.executions.listExecutions, { method, url });
+  const deleteExecution = useMutation(api.executions.deleteExecution);
+  const [selected, setSelected] = useState<Id<"executions">[]>([]);
+  const [viewing, setViewing] = useState<Id<"executions"> | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  if (executions === undefined) {
+    return <div className="animate-pulse bg-gray-100 h-16 rounded-lg"></div>;
+  }
+  if (executions.length === 0) {
+    return <p className="text-sm text-gray-500">No responses have been recorded for this request yet.</p>;
+  }
+
+  // Selecting a third entry replaces the earliest selection
+  const toggleSelected = (id: Id<"executions">) => {
+    setSelected(selected.includes(id) ? selected.filter((other) => other !== id) : [...selected, id].slice(-2));
+  };
+
+  const handleDelete = async (id: Id<"executions">) => {
+    try {
+      await deleteExecution({ id });
+      setSelected(selected.filter((other) => other !== id));
+      if (viewing === id) setViewing(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete response");
+    }
+  };
+
+  // Compared oldest to newest
+  const compared = executions.filter((execution) => selected.includes(execution._id)).reverse();
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-700">Responses ({executions.length})</h4>
+        <button
+          onClick={() => setComparing(true)}
+          disabled={compared.length !== 2}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          Compare selected
+        </button>
+      </div>
+      <ol className="border-l-2 border-gray-200 ml-2 space-y-2">
+        {executions.map((execution) => (
+          <li key={execution._id} className="relative pl-4">
+            <span
+              className={`absolute -left-[7px] top-2 w-3 h-3 rounded-full ${
+                execution.status >= 200 && execution.status < 300 ? "bg-green-500" : "bg-red-500"
+              }`}
+            ></span>
+            <div className="flex items-center gap-3 text-sm">
+              <input
+                type="checkbox"
+                checked={selected.includes(execution._id)}
+                onChange={() => toggleSelected(execution._id)}
+              />
+              <span className="text-gray-500 w-44">{new Date(execution.createdAt).toLocaleString()}</span>
+              <span className={`font-medium w-24 ${statusClass(execution.status)}`}>
+                {execution.status} {execution.statusText}
+              </span>
+              <span className="text-gray-600 w-16">{execution.durationMs} ms</span>
+              <span className="text-gray-600 w-20">{formatBytes(execution.size)}</span>
+              {!execution.historyId && execution.savedRequestId && (
+                <span className="text-xs text-gray-500 bg-gray-100 rounded px-1.5">collection run</span>
+              )}
+              <span className="flex-1"></span>
+              <button
+                onClick={() => setViewing(viewing === execution._id ? null : execution._id)}
+                className="text-blue-600 hover:text-blue-900"
+              >
+                {viewing === execution._id ? "Hide" : "View"}
+              </button>
+              <button onClick={() => void handleDelete(execution._id)} className="text-red-600 hover:text-red-900">
+                Delete
+              </button>
+            </div>
+            {viewing === execution._id && <ExecutionDetails execution={execution} />}
+          </li>
+        ))}
+      </ol>
+
+      {comparing && compared.length === 2 && (
+        <ExecutionDiff before={compared[0]} after={compared[1]} onClose={() => setComparing(false)} />
+      )}
+    </div>
+  );
+}
+
+const isBinary = (execution: Execution) =>
+  execution.hasBody && execution.contentType !== undefined && !isTextContentType(execution.contentType);
+
+function ExecutionDetails({ execution }: { execution: Execution }) {
+  const createMock = useMutation(api.mocks.createMockFromExecution);
+
+  const handleCreateMock = async () => {
+    try {
+      await createMock({ executionId: execution._id });
+      toast.success("Mock created; find it in the Mocks tab");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create mock");
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex items-center gap-3">
+        <p className="text-xs text-gray-500 font-mono break-all flex-1">{execution.resolvedUrl}</p>
+        {!isBinary(execution) && (
+          <button onClick={() => void handleCreateMock()} className="text-sm text-blue-600 hover:text-blue-900">
+            Create mock
+          </button>
+        )}
+      </div>
+      <pre className="bg-gray-50 rounded-md p-3 text-xs font-mono overflow-auto max-h-40">
+        {Object.entries(execution.headers).map(([name, value]) => `${name}: ${value}`).join("\n")}
+      </pre>
+      {isBinary(execution) ? (
+        <StoredBinaryBody execution={execution} />
+      ) : (
+        execution.hasBody && <TextBody id={execution._id} />
+      )}
+    </div>
+  );
+}
+
+// Binary bodies are always kept in file storage
+function StoredBinaryBody({ execution }: { execution: Execution }) {
+  const stored = useQuery(api.executions.getExecutionBody, { id: execution._id });
+  if (!stored?.bodyUrl) return <div className="animate-pulse bg-gray-100 h-16 rounded-lg"></div>;
+
+  return (
+    <BinaryResponse
+      body={{ contentType: execution.contentType ?? "application/octet-stream", size: execution.size, url: stored.bodyUrl }}
+      fileName={responseFileName(execution.headers, execution.resolvedUrl)}
+    />
+  );
+}
+
+function TextBody({ id }: { id: Id<"executions"> }) {
+  const body = useExecutionBody(id);
+
+  return (
+    <pre className="bg-gray-900 text-gray-100 rounded-md p-3 text-xs font-mono overflow-auto max-h-96">
+      {body.loading ? "Loading..." : show(body.value)}
+    </pre>
+  );
+}
+
+const DIFF_STYLES: Record<DiffEntry["kind"], { sign: string; className: string }> = {
+  added: { sign: "+", className: "bg-green-50 text-green-800" },
+  removed: { sign: "-", className: "bg-red-50 text-red-800" },
+  changed: { sign: "~", className: "bg-yellow-50 text-yellow-800" },
+};
+
+function DiffList({ entries }: { entries: DiffEntry[] }) {
+  if (entries.length === 0) return <p className="text-sm text-gray-500">No differences</p>;
+  return (
+    <ul className="font-mono text-xs space-y-0.5">
+      {entries.map((entry) => (
+        <li key={`${entry.kind}:${entry.path}`} className={`px-2 py-1 rounded ${DIFF_STYLES[entry.kind].className}`}>
+          {DIFF_STYLES[entry.kind].sign} {entry.path}:{" "}
+          {entry.kind === "added" && JSON.stringify(entry.after)}
+          {entry.kind === "removed" && JSON.stringify(entry.before)}
+          {entry.kind === "changed" && `${JSON.stringify(entry.before)} → ${JSON.stringify(entry.after)}`}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface ExecutionDiffProps {
+  before: Execution;
+  after: Execution;
+  onClose: () => void;
+}
+
+function ExecutionDiff({ before, after, onClose }: ExecutionDiffProps) {
+  const rows: { label: string; value: (execution: Execution) => string }[] = [
+    { label: "Time", value: (execution) => new Date(execution.createdAt).toLocaleString() },
+    { label: "Status", value: (execution) => `${execution.status} ${execution.statusText}` },
+    { label: "Duration", value: (execution) => `${execution.durationMs} ms` },
+    { label: "Size", value: (execution) => formatBytes(execution.size) },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Compare Responses</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">✕</button>
+        </div>
+
+        <table className="min-w-full text-sm mb-6">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1 pr-4"></th>
+              <th className="py-1 pr-4">Before</th>
+              <th className="py-1">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ label, value }) => (
+              <tr key={label}>
+                <td className="py-1 pr-4 text-gray-500">{label}</td>
+                <td className="py-1 pr-4">{value(before)}</td>
+                <td className={`py-1 ${value(before) !== value(after) && label !== "Time" ? "font-medium" : ""}`}>
+                  {value(after)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Headers</h3>
+        <div className="mb-6">
+          <DiffList entries={diffJson(before.headers, after.headers, "headers")} />
+        </div>
+
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Body</h3>
+        {isBinary(before) || isBinary(after) ? (
+          <p className="text-sm text-gray-500">Binary bodies are compared by size only</p>
+        ) : (
+          <BodyDiff before={before._id} after={after._id} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function BodyDiff({ before, after }: { before: Id<"executions">; after: Id<"executions"> }) {
+  const beforeBody = useExecutionBody(before);
+  const afterBody = useExecutionBody(after);
+
+  if (beforeBody.loading || afterBody.loading) {
+    return <p className="text-sm text-gray-500">Loading bodies...</p>;
+  }
+  // Text bodies have no structure to walk, so they are shown side by side
+  if (typeof beforeBody.value === "string" || typeof afterBody.value === "string") {
+    if (beforeBody.value === afterBody.value) return <p className="text-sm text-gray-500">No differences</p>;
+    return (
+      <div className="grid grid-cols-2 gap-3">
+        {[beforeBody.value, afterBody.value].map((value, index) => (
+          <pre key={index} className="bg-gray-50 rounded-md p-3 text-xs font-mono overflow-auto max-h-96">
+            {value === undefined ? "(empty)" : show(value)}
+          </pre>
+        ))}
+      </div>
+    );
+  }
+  return <DiffList entries={diffJson(beforeBody.value, afterBody.value)} />;
+}
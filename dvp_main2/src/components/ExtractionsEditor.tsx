@@ -0,0 +1,170 @@
+import React from "react";
+import type { ExtractionResult, ExtractionRule, ExtractionScope } from "../../convex/validators";
+import { VARIABLE_NAME_PATTERN } from "../../convex/extractions";
+
+interface ExtractionsEditorProps {
+  value: ExtractionRule[];
+  onChange: (rules: ExtractionRule[]) => void;
+}
+
+type ExtractionSource = ExtractionRule["source"];
+
+const SOURCES: { source: ExtractionSource; label: string }[] = [
+  { source: "jsonPath", label: "JSON path" },
+  { source: "header", label: "Header" },
+  { source: "regex", label: "Regex on body" },
+];
+
+const inputClass =
+  "px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm";
+
+function newRule(source: ExtractionSource, variable: string, scope: ExtractionScope): ExtractionRule {
+  switch (source) {
+    case "jsonPath":
+      return { source, path: "", variable, scope, enabled: true };
+    case "header":
+      return { source, name: "", variable, scope, enabled: true };
+    case "regex":
+      return { source, pattern: "", variable, scope, enabled: true };
+  }
+}
+
+export function ExtractionsEditor({ value, onChange }: ExtractionsEditorProps) {
+  const replace = (index: number, rule: ExtractionRule) => onChange(value.map((r, i) => (i === index ? rule : r)));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">Extract into variables</label>
+        <button
+          type="button"
+          onClick={() => onChange([...value, newRule("jsonPath", "", "environment")])}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          Add Rule
+        </button>
+      </div>
+      {value.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No extraction rules. Copy a token or id out of the response into a {"{{variable}}"} so the next request can
+          use it.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {value.map((rule, index) => {
+            const invalidName = rule.variable !== "" && !VARIABLE_NAME_PATTERN.test(rule.variable.trim());
+            return (
+              <div key={index} className={`flex flex-wrap gap-2 items-center ${rule.enabled ? "" : "opacity-50"}`}>
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={() => replace(index, { ...rule, enabled: !rule.enabled })}
+                  className="h-4 w-4"
+                />
+                <select
+                  value={rule.source}
+                  onChange={(e) =>
+                    replace(index, {
+                      ...newRule(e.target.value as ExtractionSource, rule.variable, rule.scope),
+                      enabled: rule.enabled,
+                    })
+                  }
+                  className={inputClass}
+                >
+                  {SOURCES.map(({ source, label }) => (
+                    <option key={source} value={source}>{label}</option>
+                  ))}
+                </select>
+
+                {rule.source === "jsonPath" && (
+                  <input
+                    type="text"
+                    placeholder="data.token"
+                    value={rule.path}
+                    onChange={(e) => replace(index, { ...rule, path: e.target.value })}
+                    className={`${inputClass} flex-1 min-w-[8rem] font-mono`}
+                  />
+                )}
+                {rule.source === "header" && (
+                  <input
+                    type="text"
+                    placeholder="Header name"
+                    value={rule.name}
+                    onChange={(e) => replace(index, { ...rule, name: e.target.value })}
+                    className={`${inputClass} flex-1 min-w-[8rem]`}
+                  />
+                )}
+                {rule.source === "regex" && (
+                  <input
+                    type="text"
+                    placeholder={'"id":\\s*(\\d+)'}
+                    value={rule.pattern}
+                    onChange={(e) => replace(index, { ...rule, pattern: e.target.value })}
+                    className={`${inputClass} flex-1 min-w-[8rem] font-mono`}
+                  />
+                )}
+
+                <span className="text-sm text-gray-600">→</span>
+                <input
+                  type="text"
+                  placeholder="variable"
+                  value={rule.variable}
+                  onChange={(e) => replace(index, { ...rule, variable: e.target.value })}
+                  className={`${inputClass} w-36 font-mono ${invalidName ? "border-red-400" : ""}`}
+                />
+                <select
+                  value={rule.scope}
+                  onChange={(e) => replace(index, { ...rule, scope: e.target.value as ExtractionScope })}
+                  className={inputClass}
+                >
+                  <option value="environment">Environment</option>
+                  <option value="run">This run only</option>
+                </select>
+
+                <button
+                  type="button"
+                  onClick={() => onChange(value.filter((_, i) => i !== index))}
+                  className="px-3 py-2 text-red-600 hover:text-red-800"
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <p className="mt-2 text-xs text-gray-500">
+        Environment values are saved to the selected environment. Run values are only passed to the later requests of a
+        collection run or sequence. Regexes capture their first group.
+      </p>
+    </div>
+  );
+}
+
+interface ExtractionReportProps {
+  results: ExtractionResult[];
+}
+
+export function ExtractionReport({ results }: ExtractionReportProps) {
+  return (
+    <div>
+      <h3 className="font-medium text-gray-700 mb-2">Extracted</h3>
+      <ul className="bg-gray-50 rounded-md p-3 space-y-1 text-sm">
+        {results.map((result, index) => (
+          <li key={index} className="flex gap-2">
+            <span className={result.error ? "text-red-600" : "text-green-600"}>{result.error ? "✗" : "✓"}</span>
+            <span className="flex-1 min-w-0">
+              <span className="font-mono">{result.description}</span>
+              {result.scope === "run" && <span className="ml-2 text-xs text-gray-500">run</span>}
+              {result.error ? (
+                <span className="block text-xs text-red-600">{result.error}</span>
+              ) : (
+                <span className="block text-xs text-gray-600 font-mono truncate">{result.value}</span>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+import React, { useRef, useState } from "react";
+import { toast } from "sonner";
+import type { RequestBody } from "../../convex/validators";
+import {
+  GraphQLField,
+  GraphQLSchema,
+  getCompletionContext,
+  getFieldSuggestions,
+  isBuiltInType,
+  namedType,
+  typeToString,
+} from "../lib/graphql";
+
+type GraphQLBody = Extract<RequestBody, { type: "graphql" }>;
+
+interface GraphQLEditorProps {
+  value: GraphQLBody;
+  onChange: (body: GraphQLBody) => void;
+  schema: GraphQLSchema | null;
+  // Runs the introspection query against the current endpoint
+  onFetchSchema: () => Promise<void>;
+}
+
+interface Suggestions {
+  fields: GraphQLField[];
+  prefix: string;
+  selected: number;
+}
+
+const textareaClass =
+  "w-full px-4 py-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm";
+
+export function GraphQLEditor({ value, onChange, schema, onFetchSchema }: GraphQLEditorProps) {
+  const queryRef = useRef<HTMLTextAreaElement>(null);
+  const [suggestions, setSuggestions] = useState<Suggestions | null>(null);
+  const [fetching, setFetching] = useState(false);
+  const [explorerPath, setExplorerPath] = useState<string[]>([]);
+  const [typeFilter, setTypeFilter] = useState("");
+
+  const updateSuggestions = (query: string, cursor: number) => {
+    if (!schema) return;
+    const context = getCompletionContext(query, cursor, schema);
+    const fields = getFieldSuggestions(schema, context);
+    // Nothing to offer once the identifier is already complete
+    const exact = fields.length === 1 && fields[0].name === context.prefix;
+    setSuggestions(fields.length > 0 && !exact ? { fields, prefix: context.prefix, selected: 0 } : null);
+  };
+
+  const handleQueryChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange({ ...value, query: e.target.value });
+    updateSuggestions(e.target.value, e.target.selectionStart);
+  };
+
+  const acceptSuggestion = (field: GraphQLField) => {
+    const textarea = queryRef.current;
+    if (!textarea || !suggestions) return;
+    const cursor = textarea.selectionStart;
+    const start = cursor - suggestions.prefix.length;
+    const query = value.query.slice(0, start) + field.name + value.query.slice(cursor);
+    onChange({ ...value, query });
+    setSuggestions(null);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.selectionStart = textarea.selectionEnd = start + field.name.length;
+    });
+  };
+
+  const handleQueryKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === " " && e.ctrlKey) {
+      e.preventDefault();
+      updateSuggestions(value.query, e.currentTarget.selectionStart);
+      return;
+    }
+    if (!suggestions) return;
+    const count = suggestions.fields.length;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : count - 1;
+      setSuggestions({ ...suggestions, selected: (suggestions.selected + step) % count });
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      acceptSuggestion(suggestions.fields[suggestions.selected]);
+    } else if (e.key === "Escape") {
+      setSuggestions(null);
+    }
+  };
+
+  const formatVariables = () => {
+    try {
+      onChange({ ...value, variables: JSON.stringify(JSON.parse(value.variables || "{}"), null, 2) });
+    } catch {
+      toast.error("Invalid JSON in GraphQL variables");
+    }
+  };
+
+  const handleFetchSchema = async () => {
+    setFetching(true);
+    try {
+      await onFetchSchema();
+      setExplorerPath([]);
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  const renderExplorer = () => {
+    if (!schema) {
+      return (
+        <p className="text-sm text-gray-500">
+          Fetch the schema to browse types and get field suggestions while typing.
+        </p>
+      );
+    }
+
+    const current = explorerPath[explorerPath.length - 1];
+    const type = current ? schema.types.find((t) => t.name === current) : undefined;
+
+    if (!type) {
+      const roots = [schema.queryType, schema.mutationType, schema.subscriptionType]
+        .map((root) => root?.name)
+        .filter((name): name is string => !!name);
+      const filter = typeFilter.trim().toLowerCase();
+      const others = schema.types
+        .filter((t) => !isBuiltInType(t) && !roots.includes(t.name))
+        .filter((t) => !filter || t.name.toLowerCase().includes(filter))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      return (
+        <div className="space-y-3 text-sm">
+          <div>
+            <h4 className="font-medium text-gray-700 mb-1">Root types</h4>
+            {roots.map((name) => (
+              <button
+                key={name}
+                type="button"
+                onClick={() => setExplorerPath([name])}
+                className="block text-blue-600 hover:underline font-mono"
+              >
+                {name}
+              </button>
+            ))}
+          </div>
+          <div>
+            <h4 className="font-medium text-gray-700 mb-1">All types</h4>
+            <input
+              type="text"
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value)}
+              placeholder="Filter types"
+              className="w-full mb-2 px-2 py-1 border border-gray-300 rounded-md text-sm"
+            />
+            <div className="max-h-64 overflow-y-auto">
+              {others.map((t) => (
+                <button
+                  key={t.name}
+                  type="button"
+                  onClick={() => setExplorerPath([t.name])}
+                  className="block text-blue-600 hover:underline font-mono"
+                >
+                  {t.name} <span className="text-xs text-gray-400">{t.kind.toLowerCase()}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    const typeLink = (ref: GraphQLField["type"]) => {
+      const name = namedType(ref);
+      return (
+        <button
+          type="button"
+          onClick={() => name && setExplorerPath([...explorerPath, name])}
+          className="text-amber-700 hover:underline"
+        >
+          {typeToString(ref)}
+        </button>
+      );
+    };
+
+    return (
+      <div className="space-y-2 text-sm">
+        <div className="flex flex-wrap items-center gap-1 text-gray-500">
+          <button type="button" onClick={() => setExplorerPath([])} className="text-blue-600 hover:underline">
+            Schema
+          </button>
+          {explorerPath.map((name, index) => (
+            <span key={index}>
+              {" / "}
+              <button
+                type="button"
+                onClick={() => setExplorerPath(explorerPath.slice(0, index + 1))}
+                className="text-blue-600 hover:underline font-mono"
+              >
+                {name}
+              </button>
+            </span>
+          ))}
+        </div>
+        <div className="font-mono font-medium">
+          {type.name} <span className="text-xs text-gray-400">{type.kind.toLowerCase()}</span>
+        </div>
+        {type.description && <p className="text-gray-600">{type.description}</p>}
+        <div className="max-h-80 overflow-y-auto space-y-2">
+          {(type.fields ?? []).map((field) => (
+            <div key={field.name} className={field.isDeprecated ? "opacity-50" : ""}>
+              <div className="font-mono">
+                <span className="text-blue-700">{field.name}</span>
+                {field.args.length > 0 && (
+                  <span className="text-gray-500">
+                    (
+                    {field.args.map((arg, i) => (
+                      <span key={arg.name}>
+                        {i > 0 && ", "}
+                        {arg.name}: {typeLink(arg.type)}
+                      </span>
+                    ))}
+                    )
+                  </span>
+                )}
+                : {typeLink(field.type)}
+              </div>
+              {field.description && <p className="text-xs text-gray-500">{field.description}</p>}
+            </div>
+          ))}
+          {(type.inputFields ?? []).map((field) => (
+            <div key={field.name} className="font-mono">
+              <span className="text-blue-700">{field.name}</span>: {typeLink(field.type)}
+            </div>
+          ))}
+          {(type.enumValues ?? []).map((enumValue) => (
+            <div key={enumValue.name} className="font-mono text-blue-700">{enumValue.name}</div>
+          ))}
+          {(type.possibleTypes ?? []).map((possible) => (
+            <button
+              key={possible.name}
+              type="button"
+              onClick={() => setExplorerPath([...explorerPath, possible.name])}
+              className="block font-mono text-amber-700 hover:underline"
+            >
+              {possible.name}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+      <div className="lg:col-span-2 space-y-3">
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-gray-700">Query</label>
+            <button
+              type="button"
+              onClick={() => void handleFetchSchema()}
+              disabled={fetching}
+              className="px-3 py-1 text-sm text-blue-600 hover:text-blue-700 focus:outline-none disabled:opacity-50"
+            >
+              {fetching ? "Fetching schema..." : schema ? "Refresh schema" : "Fetch schema"}
+            </button>
+          </div>
+          <div className="relative">
+            <textarea
+              ref={queryRef}
+              value={value.query}
+              onChange={handleQueryChange}
+              onKeyDown={handleQueryKeyDown}
+              onBlur={() => setSuggestions(null)}
+              placeholder={"query {\n  viewer {\n    id\n  }\n}"}
+              rows={12}
+              spellCheck={false}
+              className={textareaClass}
+            />
+            {suggestions && (
+              <ul className="absolute left-4 bottom-2 z-10 min-w-[16rem] bg-white border border-gray-200 rounded-md shadow-lg text-sm font-mono">
+                {suggestions.fields.map((field, index) => (
+                  <li
+                    key={field.name}
+                    // Keep focus in the textarea so the cursor position survives
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      acceptSuggestion(field);
+                    }}
+                    className={`px-3 py-1 flex justify-between gap-4 cursor-pointer ${
+                      index === suggestions.selected ? "bg-blue-50" : ""
+                    }`}
+                  >
+                    <span>{field.name}</span>
+                    <span className="text-gray-400">{typeToString(field.type)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          {schema && (
+            <p className="mt-1 text-xs text-gray-500">Suggestions appear while typing; Ctrl+Space shows them on demand.</p>
+          )}
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-gray-700">Variables (JSON)</label>
+            <button
+              type="button"
+              onClick={formatVariables}
+              className="px-3 py-1 text-sm text-blue-600 hover:text-blue-700 focus:outline-none"
+            >
+              Format JSON
+            </button>
+          </div>
+          <textarea
+            value={value.variables}
+            onChange={(e) => onChange({ ...value, variables: e.target.value })}
+            placeholder='{"id": "1"}'
+            rows={5}
+            spellCheck={false}
+            className={textareaClass}
+          />
+        </div>
+
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium text-gray-700">Operation name</label>
+          <input
+            type="text"
+            value={value.operationName ?? ""}
+            onChange={(e) => onChange({ ...value, operationName: e.target.value || undefined })}
+            placeholder="Optional"
+            className="px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="border border-gray-200 rounded-md p-3 bg-gray-50">
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Schema Explorer</h3>
+        {renderExplorer()}
+      </div>
+    </div>
+  );
+}
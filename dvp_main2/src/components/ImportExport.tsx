@@ -0,0 +1,115 @@
+import React, { useRef, useState } from "react";
+import { useAction, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+
+interface ImportFileButtonProps {
+  // Called with the new collection after a Postman import
+  onImported: (collectionId: Id<"collections">) => void;
+}
+
+// Uploads a Postman collection or HAR archive and imports it server-side
+export function ImportFileButton({ onImported }: ImportFileButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState(false);
+  const generateUploadUrl = useMutation(api.requestFiles.generateUploadUrl);
+  const importFile = useAction(api.importExport.importFile);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const uploadUrl = await generateUploadUrl();
+      const upload = await fetch(uploadUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: file,
+      });
+      if (!upload.ok) throw new Error(`Upload failed with HTTP ${upload.status}`);
+      const { storageId } = (await upload.json()) as { storageId: Id<"_storage"> };
+
+      const result = await importFile({ storageId });
+      result.warnings.forEach((warning) => toast.warning(warning));
+      if (result.format === "har") {
+        toast.success(`Imported ${result.imported} requests into history`);
+      } else {
+        toast.success(`Imported ${result.imported} requests`);
+        if (result.collectionId) onImported(result.collectionId);
+      }
+    } catch (error) {
+      console.error('Import error:', error);
+      toast.error(error instanceof Error ? error.message : "Failed to import file");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,.har,application/json"
+        onChange={(e) => void handleFile(e)}
+        className="hidden"
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={importing}
+        className="w-full px-2 py-1 text-sm text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 disabled:opacity-50"
+      >
+        {importing ? "Importing..." : "Import Postman / HAR"}
+      </button>
+    </>
+  );
+}
+
+export function ExportButtons({ collectionId }: { collectionId: Id<"collections"> }) {
+  const exportPostman = useAction(api.importExport.exportPostmanCollection);
+  const exportHar = useAction(api.importExport.exportHar);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: "postman" | "har") => {
+    setExporting(true);
+    try {
+      const { url, fileName } = await (format === "postman" ? exportPostman : exportHar)({ collectionId });
+      // Storage URLs are cross-origin, so `download` needs a blob URL
+      const blob = await (await fetch(url)).blob();
+      const link = document.createElement("a");
+      link.href = URL.createObjectURL(blob);
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error(error instanceof Error ? error.message : "Failed to export collection");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="text-gray-500">Export:</span>
+      <button
+        onClick={() => void handleExport("postman")}
+        disabled={exporting}
+        className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+      >
+        Postman
+      </button>
+      <button
+        onClick={() => void handleExport("har")}
+        disabled={exporting}
+        className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+      >
+        HAR
+      </button>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React, { useState } from "react";
 import { DashboardBuilder } from "./DashboardBuilder";
+import { inferSchema } from "../../convex/jsonSchema";
 
 interface JsonViewerProps {
   data: any;
@@ -10,7 +11,7 @@ interface FlattenedData {
 }
 
 export function JsonViewer({ data }: JsonViewerProps) {
-  const [view, setView] = useState<"formatted" | "flattened" | "raw">("formatted");
+  const [view, setView] = useState<"formatted" | "flattened" | "raw" | "schema">("formatted");
   const [showDashboard, setShowDashboard] = useState(false);
 
   const flattenObject = (obj: any, prefix = ""): FlattenedData => {
@@ -187,6 +188,16 @@ export function JsonViewer({ data }: JsonViewerProps) {
         >
           Raw JSON
         </button>
+        <button
+          onClick={() => setView("schema")}
+          className={`px-3 py-1 text-sm rounded-md ${
+            view === "schema" 
+              ? "bg-blue-600 text-white" 
+              : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+          }`}
+        >
+          JSON Schema
+        </button>
         
         {canCreateDashboard() && (
           <button
@@ -239,6 +250,14 @@ export function JsonViewer({ data }: JsonViewerProps) {
             {JSON.stringify(data, null, 2)}
           </pre>
         )}
+
+        {/* Inferred from this response alone; the request's Schema section
+            can infer one from several */}
+        {view === "schema" && (
+          <pre className="font-mono text-sm whitespace-pre-wrap">
+            {JSON.stringify(inferSchema([data]), null, 2)}
+          </pre>
+        )}
       </div>
 
       {/* Field List */}
@@ -0,0 +1,420 @@
+import React, { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import type { MockEndpoint } from "../../convex/validators";
+import { MAX_MOCK_DELAY_MS, mockPathError } from "../../convex/mockRoutes";
+import { HTTP_METHODS, HttpMethod, METHOD_COLORS } from "../lib/http";
+
+interface HeaderRow {
+  key: string;
+  value: string;
+}
+
+const inputClass =
+  "px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm";
+
+const NEW_MOCK: MockEndpoint = {
+  name: "",
+  method: "GET",
+  path: "/",
+  status: 200,
+  headers: { "Content-Type": "application/json" },
+  body: "",
+  delayMs: 0,
+  enabled: true,
+};
+
+const statusClass = (status: number) => (status >= 200 && status < 300 ? "text-green-600" : "text-red-600");
+
+// Mock endpoints served from the Convex HTTP router under the user's prefix,
+// with a log of the requests they received
+export function MockServer() {
+  const server = useQuery(api.mocks.getMockServer);
+  const mocks = useQuery(api.mocks.listMockEndpoints);
+  const updateMock = useMutation(api.mocks.updateMockEndpoint);
+  const deleteMock = useMutation(api.mocks.deleteMockEndpoint);
+  const regeneratePrefix = useMutation(api.mocks.regenerateMockPrefix);
+  const [editing, setEditing] = useState<Doc<"mockEndpoints"> | "new" | null>(null);
+
+  const copy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success("Copied to clipboard");
+    } catch {
+      toast.error("Failed to copy to clipboard");
+    }
+  };
+
+  const handleToggle = async (mock: Doc<"mockEndpoints">) => {
+    const { _id, _creationTime, userId: _userId, createdAt: _createdAt, updatedAt: _updatedAt, ...fields } = mock;
+    try {
+      await updateMock({ id: _id, ...fields, enabled: !mock.enabled });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update mock");
+    }
+  };
+
+  const handleDelete = async (mock: Doc<"mockEndpoints">) => {
+    if (!window.confirm(`Delete the "${mock.name}" mock?`)) return;
+    try {
+      await deleteMock({ id: mock._id });
+      if (editing !== "new" && editing?._id === mock._id) setEditing(null);
+      toast.success("Mock deleted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete mock");
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!window.confirm("Move the mocks to a new URL? The current URL stops working.")) return;
+    try {
+      await regeneratePrefix();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to change the mock URL");
+    }
+  };
+
+  if (mocks === undefined || server === undefined) {
+    return <div className="animate-pulse bg-gray-100 h-32 rounded-lg"></div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Mock Server</h2>
+        <button
+          onClick={() => setEditing("new")}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          New Mock
+        </button>
+      </div>
+
+      {server ? (
+        <div className="flex items-center gap-3 p-3 bg-gray-50 rounded-md text-sm">
+          <span className="font-medium text-gray-600">Base URL:</span>
+          <code className="font-mono break-all flex-1">{server.baseUrl}</code>
+          <button onClick={() => void copy(server.baseUrl)} className="text-blue-600 hover:text-blue-900">
+            Copy
+          </button>
+          <button onClick={() => void handleRegenerate()} className="text-gray-600 hover:text-gray-900">
+            New URL
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          Create a mock, or turn a recorded response into one from its timeline, to get a mock server URL.
+        </p>
+      )}
+
+      {editing && (
+        <MockEditor
+          key={editing === "new" ? "new" : editing._id}
+          mock={editing === "new" ? null : editing}
+          onDone={() => setEditing(null)}
+        />
+      )}
+
+      {mocks.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Method</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Path</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Delay</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Enabled</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {mocks.map((mock) => (
+                <tr key={mock._id} className={mock.enabled ? "" : "opacity-50"}>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${METHOD_COLORS[mock.method]}`}>
+                      {mock.method}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 font-mono">{mock.path}</td>
+                  <td className="px-4 py-2">{mock.name}</td>
+                  <td className={`px-4 py-2 ${statusClass(mock.status)}`}>{mock.status}</td>
+                  <td className="px-4 py-2 text-gray-600">{mock.delayMs > 0 ? `${mock.delayMs} ms` : "—"}</td>
+                  <td className="px-4 py-2">
+                    <input type="checkbox" checked={mock.enabled} onChange={() => void handleToggle(mock)} />
+                  </td>
+                  <td className="px-4 py-2 text-right space-x-3 whitespace-nowrap">
+                    {server && (
+                      <button
+                        onClick={() => void copy(`${server.baseUrl}${mock.path}`)}
+                        className="text-gray-600 hover:text-gray-900"
+                      >
+                        Copy URL
+                      </button>
+                    )}
+                    <button onClick={() => setEditing(mock)} className="text-blue-600 hover:text-blue-900">
+                      Edit
+                    </button>
+                    <button onClick={() => void handleDelete(mock)} className="text-red-600 hover:text-red-900">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {server && <MockRequestLog mocks={mocks} />}
+    </div>
+  );
+}
+
+interface MockEditorProps {
+  mock: Doc<"mockEndpoints"> | null;
+  onDone: () => void;
+}
+
+function MockEditor({ mock, onDone }: MockEditorProps) {
+  const createMock = useMutation(api.mocks.createMockEndpoint);
+  const updateMock = useMutation(api.mocks.updateMockEndpoint);
+  const initial = mock ?? NEW_MOCK;
+  const [name, setName] = useState(initial.name);
+  const [method, setMethod] = useState<HttpMethod>(initial.method);
+  const [path, setPath] = useState(initial.path);
+  const [status, setStatus] = useState(initial.status);
+  const [delayMs, setDelayMs] = useState(initial.delayMs);
+  const [headers, setHeaders] = useState<HeaderRow[]>(
+    Object.entries(initial.headers).map(([key, value]) => ({ key, value }))
+  );
+  const [body, setBody] = useState(initial.body);
+
+  const pathError = mockPathError(path);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error("Please enter a name for the mock");
+      return;
+    }
+    if (pathError) {
+      toast.error(pathError);
+      return;
+    }
+
+    const fields: MockEndpoint = {
+      name,
+      method,
+      path,
+      status,
+      delayMs,
+      headers: Object.fromEntries(headers.filter((h) => h.key.trim()).map((h) => [h.key.trim(), h.value])),
+      body,
+      enabled: mock?.enabled ?? true,
+    };
+    try {
+      if (mock) {
+        await updateMock({ id: mock._id, ...fields });
+      } else {
+        await createMock(fields);
+      }
+      toast.success("Mock saved");
+      onDone();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save mock");
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex gap-2">
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as HttpMethod)}
+          className={`${inputClass} font-medium`}
+        >
+          {HTTP_METHODS.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={path}
+          onChange={(e) => setPath(e.target.value)}
+          placeholder="/users/:id"
+          className={`${inputClass} flex-1 font-mono`}
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name"
+          className={`${inputClass} w-48`}
+        />
+      </div>
+      {pathError && <p className="text-sm text-red-600">{pathError}</p>}
+
+      <div className="flex gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Status
+          <input
+            type="number"
+            min={100}
+            max={599}
+            value={status}
+            onChange={(e) => setStatus(Number(e.target.value))}
+            className={`${inputClass} w-24`}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Delay (ms)
+          <input
+            type="number"
+            min={0}
+            max={MAX_MOCK_DELAY_MS}
+            value={delayMs}
+            onChange={(e) => setDelayMs(Number(e.target.value))}
+            className={`${inputClass} w-28`}
+          />
+        </label>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-gray-700">Response Headers</label>
+          <button
+            type="button"
+            onClick={() => setHeaders([...headers, { key: "", value: "" }])}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            Add Header
+          </button>
+        </div>
+        <div className="space-y-2">
+          {headers.map((header, index) => (
+            <div key={index} className="flex gap-2">
+              <input
+                type="text"
+                placeholder="Header name"
+                value={header.key}
+                onChange={(e) => setHeaders(headers.map((h, i) => (i === index ? { ...h, key: e.target.value } : h)))}
+                className={`${inputClass} flex-1`}
+              />
+              <input
+                type="text"
+                placeholder="Value"
+                value={header.value}
+                onChange={(e) => setHeaders(headers.map((h, i) => (i === index ? { ...h, value: e.target.value } : h)))}
+                className={`${inputClass} flex-1`}
+              />
+              <button
+                type="button"
+                onClick={() => setHeaders(headers.filter((_, i) => i !== index))}
+                className="px-3 py-2 text-red-600 hover:text-red-800"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Response Body</label>
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={8}
+          placeholder={'{ "id": "{{params.id}}", "requestedAt": "{{now}}" }'}
+          className={`${inputClass} w-full font-mono`}
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Templates: <code>{"{{params.name}}"}</code>, <code>{"{{params.wildcard}}"}</code> for a trailing{" "}
+          <code>*</code>, <code>{"{{query.name}}"}</code>, <code>{"{{headers.name}}"}</code> (lowercase),{" "}
+          <code>{"{{now}}"}</code>, <code>{"{{timestamp}}"}</code> and <code>{"{{uuid}}"}</code>.
+        </p>
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onDone}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => void handleSave()}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+        >
+          Save Mock
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function MockRequestLog({ mocks }: { mocks: Doc<"mockEndpoints">[] }) {
+  const entries = useQuery(api.mocks.listMockRequests);
+  const clearLog = useMutation(api.mocks.clearMockRequests);
+  const [expanded, setExpanded] = useState<Id<"mockRequests"> | null>(null);
+  const mockNames = new Map(mocks.map((mock) => [mock._id, mock.name]));
+
+  const handleClear = async () => {
+    try {
+      await clearLog();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to clear the request log");
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-medium text-gray-700">Request Log</h3>
+        {entries && entries.length > 0 && (
+          <button onClick={() => void handleClear()} className="text-sm text-red-600 hover:text-red-900">
+            Clear
+          </button>
+        )}
+      </div>
+      {entries === undefined ? (
+        <div className="animate-pulse bg-gray-100 h-16 rounded-lg"></div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No requests have reached the mock server yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 text-sm">
+          {entries.map((entry) => (
+            <li key={entry._id} className="py-2">
+              <button
+                onClick={() => setExpanded(expanded === entry._id ? null : entry._id)}
+                className="w-full flex items-center gap-3 text-left"
+              >
+                <span className="text-gray-500 w-44">{new Date(entry.createdAt).toLocaleString()}</span>
+                <span className="font-medium w-16">{entry.method}</span>
+                <span className="font-mono flex-1 break-all">
+                  {entry.path}
+                  {entry.query}
+                </span>
+                <span className={`w-12 ${statusClass(entry.status)}`}>{entry.status}</span>
+                <span className="text-gray-500 w-48 truncate">
+                  {entry.mockId ? mockNames.get(entry.mockId) ?? "deleted mock" : "no match"}
+                </span>
+              </button>
+              {expanded === entry._id && (
+                <pre className="mt-2 bg-gray-50 rounded-md p-3 text-xs font-mono overflow-auto max-h-64">
+                  {Object.entries(entry.headers).map(([name, value]) => `${name}: ${value}`).join("\n")}
+                  {entry.body !== undefined && `\n\n${entry.body}`}
+                </pre>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,434 @@
+import React, { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { METHOD_COLORS } from "../lib/http";
+
+const WINDOWS = [
+  { label: "24 hours", hours: 24 },
+  { label: "7 days", hours: 24 * 7 },
+  { label: "30 days", hours: 24 * 30 },
+];
+
+const INTERVALS = [1, 5, 15, 30, 60, 360, 1440];
+
+const formatInterval = (minutes: number) =>
+  minutes % 60 === 0 ? `${minutes / 60} h` : `${minutes} min`;
+
+const formatUptime = (uptime: number | null) => (uptime === null ? "—" : `${uptime.toFixed(2)}%`);
+
+// Percentiles are counted in latency buckets, so only an upper bound is known
+const formatPercentile = (ms: number | null) => (ms === null ? "—" : `≤ ${ms} ms`);
+
+const uptimeColor = (uptime: number | null) =>
+  uptime === null ? "text-gray-500" : uptime >= 99 ? "text-green-600" : uptime >= 95 ? "text-yellow-600" : "text-red-600";
+
+interface MonitorFormProps {
+  onClose: () => void;
+}
+
+function MonitorForm({ onClose }: MonitorFormProps) {
+  const collections = useQuery(api.collections.listCollections);
+  const environments = useQuery(api.environments.listEnvironments);
+  const createMonitor = useMutation(api.monitors.createMonitor);
+
+  const [collectionId, setCollectionId] = useState<Id<"collections"> | "">("");
+  const contents = useQuery(
+    api.collections.getCollectionContents,
+    collectionId ? { collectionId } : "skip"
+  );
+  const [savedRequestId, setSavedRequestId] = useState<Id<"savedRequests"> | "">("");
+  const [name, setName] = useState("");
+  const [intervalMinutes, setIntervalMinutes] = useState(5);
+  const [environmentId, setEnvironmentId] = useState<Id<"environments"> | "">("");
+  const [saving, setSaving] = useState(false);
+
+  const handleCreate = async () => {
+    if (!savedRequestId) {
+      toast.error("Please choose a request");
+      return;
+    }
+    setSaving(true);
+    try {
+      await createMonitor({
+        savedRequestId,
+        name,
+        intervalMinutes,
+        environmentId: environmentId || undefined,
+      });
+      toast.success("Monitor created");
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create monitor");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">New Monitor</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            ✕
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Collection</label>
+            <select
+              value={collectionId}
+              onChange={(e) => {
+                setCollectionId(e.target.value as Id<"collections"> | "");
+                setSavedRequestId("");
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Choose a collection</option>
+              {collections?.map((collection) => (
+                <option key={collection._id} value={collection._id}>
+                  {collection.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Request</label>
+            <select
+              value={savedRequestId}
+              onChange={(e) => setSavedRequestId(e.target.value as Id<"savedRequests"> | "")}
+              disabled={!contents}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            >
+              <option value="">Choose a request</option>
+              {contents?.requests.map((request) => (
+                <option key={request._id} value={request._id}>
+                  {request.method} {request.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Defaults to the request name"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Every</label>
+              <select
+                value={intervalMinutes}
+                onChange={(e) => setIntervalMinutes(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {INTERVALS.map((minutes) => (
+                  <option key={minutes} value={minutes}>
+                    {formatInterval(minutes)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Environment</label>
+              <select
+                value={environmentId}
+                onChange={(e) => setEnvironmentId(e.target.value as Id<"environments"> | "")}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">No environment</option>
+                {environments?.map((environment) => (
+                  <option key={environment._id} value={environment._id}>
+                    {environment.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-500">
+            A run is up when the response passes the request's assertions, or without assertions, when its status is
+            below 400.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleCreate()}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? "Creating..." : "Create Monitor"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface MonitorDetailsProps {
+  monitorId: Id<"monitors">;
+  windowHours: number;
+}
+
+function MonitorDetails({ monitorId, windowHours }: MonitorDetailsProps) {
+  const data = useQuery(api.monitors.getMonitorRuns, { monitorId, windowHours });
+
+  if (data === undefined) return <div className="animate-pulse bg-gray-100 h-48 rounded-lg"></div>;
+  if (data === null) return null;
+  if (data.stats.runs === 0) {
+    return <p className="text-sm text-gray-500">No runs in this period yet.</p>;
+  }
+
+  const chartData = data.hours.map((hour) => ({
+    time: new Date(hour.start).toLocaleString(),
+    latency: hour.averageMs,
+  }));
+
+  return (
+    <div className="space-y-4">
+      <div style={{ width: "100%", height: 220 }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="time" tick={false} />
+            <YAxis unit=" ms" width={80} />
+            <Tooltip />
+            <Line type="monotone" dataKey="latency" name="Average latency" stroke="#2563eb" strokeWidth={2} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="border border-gray-200 rounded-md divide-y divide-gray-200 max-h-72 overflow-y-auto">
+        {data.recent.map((run) => (
+          <div key={run._id} className="flex items-center gap-3 px-3 py-2 text-sm">
+            <span className={run.outcome === "up" ? "text-green-600" : "text-red-600"}>
+              {run.outcome === "up" ? "✓ Up" : "✗ Down"}
+            </span>
+            <span className="text-gray-500">{new Date(run.createdAt).toLocaleString()}</span>
+            <span className="w-12">{run.status ?? "—"}</span>
+            <span className="w-20 text-gray-500">{run.durationMs !== undefined ? `${run.durationMs} ms` : "—"}</span>
+            {run.assertionsPassed + run.assertionsFailed > 0 && (
+              <span className="text-gray-500">
+                {run.assertionsPassed}/{run.assertionsPassed + run.assertionsFailed} assertions
+              </span>
+            )}
+            {run.error && <span className="flex-1 text-red-600 truncate">{run.error}</span>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function Monitors() {
+  const [windowHours, setWindowHours] = useState(WINDOWS[0].hours);
+  const monitors = useQuery(api.monitors.listMonitors, { windowHours });
+  const updateMonitor = useMutation(api.monitors.updateMonitor);
+  const runMonitorNow = useMutation(api.monitors.runMonitorNow);
+  const deleteMonitor = useMutation(api.monitors.deleteMonitor);
+
+  const [showForm, setShowForm] = useState(false);
+  const [expandedId, setExpandedId] = useState<Id<"monitors"> | null>(null);
+
+  type Monitor = NonNullable<typeof monitors>[number];
+
+  const handleUpdate = async (monitor: Monitor, changes: { enabled?: boolean; intervalMinutes?: number }) => {
+    try {
+      await updateMonitor({
+        id: monitor._id,
+        name: monitor.name,
+        intervalMinutes: changes.intervalMinutes ?? monitor.intervalMinutes,
+        environmentId: monitor.environmentId,
+        enabled: changes.enabled ?? monitor.enabled,
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update monitor");
+    }
+  };
+
+  const handleRunNow = async (id: Id<"monitors">) => {
+    try {
+      await runMonitorNow({ id });
+      toast.success("Run queued");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to run monitor");
+    }
+  };
+
+  const handleDelete = async (monitor: Monitor) => {
+    if (!window.confirm(`Delete the "${monitor.name}" monitor with its history and alert rules?`)) return;
+    try {
+      await deleteMonitor({ id: monitor._id });
+      toast.success("Monitor deleted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete monitor");
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Monitors</h2>
+          <p className="text-sm text-gray-600">
+            Send saved requests on a schedule and track their uptime and latency.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={windowHours}
+            onChange={(e) => setWindowHours(Number(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {WINDOWS.map((window) => (
+              <option key={window.hours} value={window.hours}>
+                Last {window.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowForm(true)}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            + New Monitor
+          </button>
+        </div>
+      </div>
+
+      {monitors === undefined ? (
+        <div className="animate-pulse bg-gray-100 h-24 rounded-lg"></div>
+      ) : monitors.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No monitors yet. Create one from a request saved in a collection.
+        </p>
+      ) : (
+        <div className="border border-gray-200 rounded-md divide-y divide-gray-200">
+          <div className="grid grid-cols-12 gap-3 px-3 py-2 text-xs font-medium text-gray-500 uppercase">
+            <span className="col-span-4">Monitor</span>
+            <span className="col-span-1">Every</span>
+            <span className="col-span-1">Uptime</span>
+            <span className="col-span-1">p50</span>
+            <span className="col-span-1">p95</span>
+            <span className="col-span-1">p99</span>
+            <span className="col-span-3 text-right">Actions</span>
+          </div>
+          {monitors.map((monitor) => {
+            const expanded = expandedId === monitor._id;
+            return (
+              <div key={monitor._id}>
+                <div
+                  onClick={() => setExpandedId(expanded ? null : monitor._id)}
+                  className="grid grid-cols-12 gap-3 items-center px-3 py-2 text-sm cursor-pointer hover:bg-gray-50"
+                >
+                  <div className="col-span-4 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span
+                        title={monitor.lastOutcome ? `Last run ${monitor.lastOutcome}` : "Not run yet"}
+                        className={`inline-block w-2 h-2 rounded-full ${
+                          !monitor.enabled
+                            ? "bg-gray-300"
+                            : monitor.lastOutcome === "up"
+                              ? "bg-green-500"
+                              : monitor.lastOutcome === "down"
+                                ? "bg-red-500"
+                                : "bg-gray-400"
+                        }`}
+                      ></span>
+                      <span className="font-medium truncate">{monitor.name}</span>
+                      {!monitor.enabled && <span className="text-xs text-gray-500">Paused</span>}
+                    </div>
+                    {monitor.request ? (
+                      <div className="flex items-center gap-2 mt-1">
+                        <span
+                          className={`px-2 py-0.5 text-xs font-medium rounded font-mono ${METHOD_COLORS[monitor.request.method]}`}
+                        >
+                          {monitor.request.method}
+                        </span>
+                        <span className="text-gray-500 font-mono truncate">{monitor.request.url}</span>
+                      </div>
+                    ) : (
+                      <p className="text-xs text-red-600 mt-1">The saved request was deleted</p>
+                    )}
+                  </div>
+                  <select
+                    value={monitor.intervalMinutes}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => void handleUpdate(monitor, { intervalMinutes: Number(e.target.value) })}
+                    className="col-span-1 px-1 py-1 border border-gray-300 rounded-md text-xs"
+                  >
+                    {[...new Set([...INTERVALS, monitor.intervalMinutes])]
+                      .sort((a, b) => a - b)
+                      .map((minutes) => (
+                        <option key={minutes} value={minutes}>
+                          {formatInterval(minutes)}
+                        </option>
+                      ))}
+                  </select>
+                  <span className={`col-span-1 font-medium ${uptimeColor(monitor.stats.uptime)}`}>
+                    {formatUptime(monitor.stats.uptime)}
+                  </span>
+                  <span className="col-span-1">{formatPercentile(monitor.stats.p50)}</span>
+                  <span className="col-span-1">{formatPercentile(monitor.stats.p95)}</span>
+                  <span className="col-span-1">{formatPercentile(monitor.stats.p99)}</span>
+                  <div className="col-span-3 flex justify-end gap-3" onClick={(e) => e.stopPropagation()}>
+                    <button
+                      onClick={() => void handleRunNow(monitor._id)}
+                      disabled={!monitor.enabled || !monitor.request}
+                      className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                    >
+                      Run now
+                    </button>
+                    <button
+                      onClick={() => void handleUpdate(monitor, { enabled: !monitor.enabled })}
+                      className="text-gray-600 hover:text-gray-900"
+                    >
+                      {monitor.enabled ? "Pause" : "Resume"}
+                    </button>
+                    <button
+                      onClick={() => void handleDelete(monitor)}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                {expanded && (
+                  <div className="px-3 pb-4 space-y-3">
+                    <div className="flex gap-6 text-sm text-gray-600">
+                      <span>{monitor.stats.runs} runs</span>
+                      <span>p90 {formatPercentile(monitor.stats.p90)}</span>
+                      {monitor.lastRunAt && <span>Last run {new Date(monitor.lastRunAt).toLocaleString()}</span>}
+                    </div>
+                    <MonitorDetails monitorId={monitor._id} windowHours={windowHours} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showForm && <MonitorForm onClose={() => setShowForm(false)} />}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import React, { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { parseOpenApi, ParsedSpec } from "../lib/openapi";
+
+interface OpenApiImportProps {
+  collections: Doc<"collections">[];
+  onClose: () => void;
+  onImported: (collectionId: Id<"collections">) => void;
+}
+
+export function OpenApiImport({ collections, onClose, onImported }: OpenApiImportProps) {
+  const [source, setSource] = useState("");
+  const [spec, setSpec] = useState<ParsedSpec | null>(null);
+  const [target, setTarget] = useState<Id<"collections"> | "new">("new");
+  const [name, setName] = useState("");
+  const [removeMissing, setRemoveMissing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const importSpec = useMutation(api.openapiImport.importOpenApiSpec);
+  const preview = useQuery(
+    api.openapiImport.previewOpenApiImport,
+    spec ? { collectionId: target === "new" ? undefined : target, operations: spec.operations } : "skip"
+  );
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setSource(await file.text());
+    setSpec(null);
+  };
+
+  const handleParse = () => {
+    try {
+      const parsed = parseOpenApi(source);
+      if (parsed.operations.length === 0) {
+        toast.error("The specification has no operations");
+        return;
+      }
+      setSpec(parsed);
+      setName(parsed.title);
+      parsed.warnings.forEach((warning) => toast.warning(warning));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to parse specification");
+    }
+  };
+
+  const handleImport = async () => {
+    if (!spec) return;
+    const existing = collections.find((collection) => collection._id === target);
+    setIsImporting(true);
+    try {
+      const result = await importSpec({
+        collectionId: existing?._id,
+        name: existing?.name ?? name,
+        description: spec.description,
+        operations: spec.operations,
+        variables: spec.variables,
+        removeMissing,
+      });
+      const removed = result.removedApplied ? result.removed.length : 0;
+      toast.success(
+        `Imported ${spec.title}: ${result.added.length} added, ${result.changed.length} updated, ${removed} removed`
+      );
+      onImported(result.collectionId);
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to import specification");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Import OpenAPI / Swagger</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800">✕</button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-gray-700">Specification (JSON or YAML)</label>
+            <input
+              type="file"
+              accept=".json,.yaml,.yml,application/json,application/yaml,text/yaml"
+              onChange={(e) => void handleFile(e)}
+              className="text-sm"
+            />
+          </div>
+          <textarea
+            value={source}
+            onChange={(e) => {
+              setSource(e.target.value);
+              setSpec(null);
+            }}
+            rows={10}
+            placeholder="openapi: 3.0.0&#10;info:&#10;  title: ..."
+            className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Import into</label>
+              <select
+                value={target}
+                onChange={(e) => setTarget(e.target.value as Id<"collections"> | "new")}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="new">New collection</option>
+                {collections.map((collection) => (
+                  <option key={collection._id} value={collection._id}>
+                    {collection.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {target === "new" && spec && (
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Collection name</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={handleParse}
+              disabled={!source.trim()}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+            >
+              Preview
+            </button>
+          </div>
+
+          {spec && (
+            <div className="border border-gray-200 rounded-md p-4 space-y-3">
+              <p className="text-sm text-gray-700">
+                <span className="font-medium">{spec.title}</span>
+                {spec.version && <span className="text-gray-500"> v{spec.version}</span>} ·{" "}
+                {spec.operations.length} operations
+              </p>
+              {preview === undefined ? (
+                <p className="text-sm text-gray-500">Comparing with the collection...</p>
+              ) : (
+                <>
+                  <ChangeList title="Added" color="text-green-700" items={preview.added} />
+                  <ChangeList title="Changed (overwritten with the spec)" color="text-yellow-700" items={preview.changed} />
+                  <ChangeList title="No longer in the spec" color="text-red-700" items={preview.removed} />
+                  {preview.unchanged > 0 && (
+                    <p className="text-sm text-gray-500">{preview.unchanged} unchanged</p>
+                  )}
+                  {preview.removed.length > 0 && (
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={removeMissing}
+                        onChange={(e) => setRemoveMissing(e.target.checked)}
+                      />
+                      Delete requests that are no longer in the spec
+                    </label>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleImport()}
+            disabled={!spec || isImporting || (target === "new" && !name.trim())}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isImporting ? "Importing..." : "Import"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ChangeList({ title, color, items }: { title: string; color: string; items: { key: string; name: string }[] }) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <h4 className={`text-sm font-medium ${color}`}>
+        {title} ({items.length})
+      </h4>
+      <ul className="mt-1 max-h-32 overflow-y-auto text-sm text-gray-700 space-y-0.5">
+        {items.map((item) => (
+          <li key={item.key} className="truncate">
+            <span className="font-mono text-xs text-gray-500">{item.key}</span> {item.name}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import React from "react";
+import type { Pagination } from "../../convex/validators";
+import {
+  DEFAULT_MAX_ITEMS,
+  DEFAULT_MAX_PAGES,
+  MAX_ITEMS_LIMIT,
+  MAX_PAGES_LIMIT,
+  PAGINATION_LABELS,
+} from "../../convex/pagination";
+import { JsonViewer } from "./JsonViewer";
+
+interface PaginationEditorProps {
+  value: Pagination | undefined;
+  onChange: (pagination: Pagination | undefined) => void;
+}
+
+type PaginationType = Pagination["type"];
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm";
+
+// Switching strategies keeps the limits and the items path
+function newPagination(type: PaginationType, previous?: Pagination): Pagination {
+  const limits = {
+    itemsPath: previous?.itemsPath ?? "",
+    maxPages: previous?.maxPages ?? DEFAULT_MAX_PAGES,
+    maxItems: previous?.maxItems ?? DEFAULT_MAX_ITEMS,
+  };
+  switch (type) {
+    case "linkHeader":
+      return { type, ...limits };
+    case "cursor":
+      return { type, cursorPath: "", param: "cursor", ...limits };
+    case "page":
+      return { type, param: "page", start: 1, ...limits };
+    case "offset":
+      return { type, param: "offset", ...limits };
+  }
+}
+
+export function PaginationEditor({ value, onChange }: PaginationEditorProps) {
+  const number = (text: string) => (text === "" ? 0 : Number(text));
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Pagination</label>
+        <select
+          value={value?.type ?? ""}
+          onChange={(e) =>
+            onChange(e.target.value ? newPagination(e.target.value as PaginationType, value) : undefined)
+          }
+          className={inputClass}
+        >
+          <option value="">None</option>
+          {(Object.keys(PAGINATION_LABELS) as PaginationType[]).map((type) => (
+            <option key={type} value={type}>{PAGINATION_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      {!value ? (
+        <p className="text-sm text-gray-500">
+          Configure how the next page is found to fetch every page of a list API with "Fetch all pages" and chart the
+          complete dataset.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {value.type === "cursor" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Next cursor path</label>
+                <input
+                  type="text"
+                  placeholder="meta.next_cursor"
+                  value={value.cursorPath}
+                  onChange={(e) => onChange({ ...value, cursorPath: e.target.value })}
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+            )}
+            {value.type !== "linkHeader" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Query parameter</label>
+                <input
+                  type="text"
+                  value={value.param}
+                  onChange={(e) => onChange({ ...value, param: e.target.value })}
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+            )}
+            {value.type === "page" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">First page</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={value.start}
+                  onChange={(e) => onChange({ ...value, start: number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Items path</label>
+              <input
+                type="text"
+                placeholder="data.items (empty when the body is the array)"
+                value={value.itemsPath}
+                onChange={(e) => onChange({ ...value, itemsPath: e.target.value })}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Max pages</label>
+              <input
+                type="number"
+                min={1}
+                max={MAX_PAGES_LIMIT}
+                value={value.maxPages}
+                onChange={(e) => onChange({ ...value, maxPages: number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Max items</label>
+              <input
+                type="number"
+                min={1}
+                max={MAX_ITEMS_LIMIT}
+                value={value.maxItems}
+                onChange={(e) => onChange({ ...value, maxItems: number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            {value.type === "linkHeader" && 'Follows the rel="next" URL of the Link header until there is none.'}
+            {value.type === "cursor" &&
+              "Sends the cursor back in the query parameter until it is empty; cursors that are URLs are followed as is."}
+            {value.type === "page" && "Counts the page up from the first page until a page has no items."}
+            {value.type === "offset" && "Sets the offset to the number of items received until a page has no items."}{" "}
+            At most {MAX_PAGES_LIMIT} pages and {MAX_ITEMS_LIMIT} items.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+export interface PagedResult {
+  items: unknown[];
+  pages: { url: string; status: number; items: number; durationMs: number }[];
+  stoppedBy: "end" | "maxPages" | "maxItems" | "error";
+  error?: string;
+}
+
+const STOP_REASONS: Record<PagedResult["stoppedBy"], string> = {
+  end: "reached the last page",
+  maxPages: "stopped at the page limit",
+  maxItems: "stopped at the item limit",
+  error: "stopped by an error",
+};
+
+interface PagedResultViewProps {
+  result: PagedResult;
+}
+
+export function PagedResultView({ result }: PagedResultViewProps) {
+  const durationMs = result.pages.reduce((total, page) => total + page.durationMs, 0);
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-50 rounded-md p-4 text-sm space-y-2">
+        <p>
+          <span className="font-medium">{result.items.length} items</span> from {result.pages.length}{" "}
+          {result.pages.length === 1 ? "page" : "pages"} in {durationMs} ms —{" "}
+          <span className={result.stoppedBy === "error" ? "text-red-600" : "text-gray-600"}>
+            {STOP_REASONS[result.stoppedBy]}
+          </span>
+        </p>
+        {result.error && <p className="text-red-600">{result.error}</p>}
+        {result.pages.length > 0 && (
+          <details>
+            <summary className="cursor-pointer text-gray-600">Pages</summary>
+            <ol className="mt-2 space-y-1 font-mono text-xs">
+              {result.pages.map((page, index) => (
+                <li key={index} className="flex gap-3">
+                  <span className="text-gray-400 w-6 text-right">{index + 1}</span>
+                  <span className={page.status < 300 ? "text-green-600" : "text-amber-600"}>{page.status}</span>
+                  <span className="text-gray-500">{page.items} items</span>
+                  <span className="text-gray-500">{page.durationMs} ms</span>
+                  <span className="flex-1 truncate" title={page.url}>{page.url}</span>
+                </li>
+              ))}
+            </ol>
+          </details>
+        )}
+      </div>
+
+      <div>
+        <h3 className="font-medium text-gray-700 mb-2">All Items</h3>
+        <JsonViewer data={result.items} />
+      </div>
+    </div>
+  );
+}
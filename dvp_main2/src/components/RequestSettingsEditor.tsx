@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from "react";
+import type { RequestSettings } from "../../convex/validators";
+import { DEFAULT_REQUEST_SETTINGS } from "../../convex/requestSettings";
+
+interface RequestSettingsEditorProps {
+  value: RequestSettings;
+  onChange: (settings: RequestSettings) => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm";
+
+const parseStatuses = (text: string) =>
+  text
+    .split(/[\s,]+/)
+    .map((part) => Number(part))
+    .filter((status) => Number.isInteger(status) && status >= 100 && status <= 599);
+
+export function RequestSettingsEditor({ value, onChange }: RequestSettingsEditorProps) {
+  // Kept as typed so a half-written list is not rewritten while editing
+  const [retryOnText, setRetryOnText] = useState(value.retryOn.join(", "));
+  const retryOn = value.retryOn.join(", ");
+  useEffect(() => {
+    // Another request was loaded
+    if (parseStatuses(retryOnText).join(", ") !== retryOn) setRetryOnText(retryOn);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [retryOn]);
+  const update = (changes: Partial<RequestSettings>) => onChange({ ...value, ...changes });
+  const number = (text: string) => (text === "" ? 0 : Number(text));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Timeout (ms)</label>
+          <input
+            type="number"
+            min={1}
+            value={value.timeoutMs}
+            onChange={(e) => update({ timeoutMs: number(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Retries</label>
+          <input
+            type="number"
+            min={0}
+            max={5}
+            value={value.retries}
+            onChange={(e) => update({ retries: number(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Backoff (ms)</label>
+          <input
+            type="number"
+            min={0}
+            value={value.retryDelayMs}
+            onChange={(e) => update({ retryDelayMs: number(e.target.value) })}
+            disabled={value.retries === 0}
+            className={`${inputClass} disabled:bg-gray-100`}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Retry on status codes</label>
+        <input
+          type="text"
+          value={retryOnText}
+          onChange={(e) => {
+            setRetryOnText(e.target.value);
+            update({ retryOn: parseStatuses(e.target.value) });
+          }}
+          disabled={value.retries === 0}
+          placeholder="429, 502, 503, 504"
+          className={`${inputClass} font-mono disabled:bg-gray-100`}
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          The delay doubles after each retry. Network errors and timeouts are not retried.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-6">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={value.followRedirects}
+            onChange={(e) => update({ followRedirects: e.target.checked })}
+            className="h-4 w-4"
+          />
+          Follow redirects
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Max redirects
+          <input
+            type="number"
+            min={0}
+            max={20}
+            value={value.maxRedirects}
+            onChange={(e) => update({ maxRedirects: number(e.target.value) })}
+            disabled={!value.followRedirects}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm disabled:bg-gray-100"
+          />
+        </label>
+        <span className="flex-1"></span>
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_REQUEST_SETTINGS)}
+          className="text-sm text-gray-600 hover:text-gray-900"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+}
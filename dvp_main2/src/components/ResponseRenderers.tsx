@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import type { BinaryBody } from "../../convex/responseBody";
+import { formatBytes } from "../lib/http";
+
+// Renderers for response bodies JsonViewer cannot show: images, PDFs, HTML
+// previews and a hex view for other binary data.
+
+// Bytes shown by the hex view
+const HEX_VIEW_LIMIT = 16 * 1024;
+
+function decodeBase64(base64: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// Inline bodies are decoded; stored bodies are downloaded
+function useBinaryBytes(body: BinaryBody) {
+  const inline = useMemo(() => (body.base64 !== undefined ? decodeBase64(body.base64) : null), [body.base64]);
+  const [downloaded, setDownloaded] = useState<Uint8Array | null>(null);
+
+  useEffect(() => {
+    if (inline || !body.url) return;
+    let cancelled = false;
+    setDownloaded(null);
+    fetch(body.url)
+      .then((response) => response.arrayBuffer())
+      .then((buffer) => !cancelled && setDownloaded(new Uint8Array(buffer)))
+      .catch(() => toast.error("Failed to download response body"));
+    return () => {
+      cancelled = true;
+    };
+  }, [inline, body.url]);
+
+  return inline ?? downloaded;
+}
+
+// A blob URL works for previews and for `download`, which is ignored on
+// cross-origin storage URLs
+function useObjectUrl(bytes: Uint8Array | null, contentType: string) {
+  const url = useMemo(
+    () => (bytes ? URL.createObjectURL(new Blob([bytes], { type: contentType })) : null),
+    [bytes, contentType]
+  );
+  useEffect(() => () => {
+    if (url) URL.revokeObjectURL(url);
+  }, [url]);
+  return url;
+}
+
+// The name from Content-Disposition, else the last segment of the URL
+export function responseFileName(headers: Record<string, string>, url: string) {
+  const disposition = headers["content-disposition"] ?? "";
+  const match = /filename\*?=(?:UTF-8'')?"?([^";]+)"?/i.exec(disposition);
+  if (match) return decodeURIComponent(match[1]);
+  try {
+    return new URL(url).pathname.split("/").filter(Boolean).pop() || "response";
+  } catch {
+    return "response";
+  }
+}
+
+function HexView({ bytes }: { bytes: Uint8Array }) {
+  const shown = bytes.subarray(0, HEX_VIEW_LIMIT);
+  const lines: string[] = [];
+  for (let offset = 0; offset < shown.length; offset += 16) {
+    const row = Array.from(shown.subarray(offset, offset + 16));
+    const hex = row.map((byte) => byte.toString(16).padStart(2, "0")).join(" ");
+    const ascii = row.map((byte) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : ".")).join("");
+    lines.push(`${offset.toString(16).padStart(8, "0")}  ${hex.padEnd(47)}  ${ascii}`);
+  }
+
+  return (
+    <div>
+      <pre className="bg-gray-900 text-gray-100 rounded-md p-4 text-xs font-mono overflow-auto max-h-96">
+        {lines.join("\n")}
+      </pre>
+      {bytes.length > shown.length && (
+        <p className="mt-1 text-xs text-gray-500">
+          Showing the first {formatBytes(shown.length)} of {formatBytes(bytes.length)}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface BinaryResponseProps {
+  body: BinaryBody;
+  fileName: string;
+}
+
+export function BinaryResponse({ body, fileName }: BinaryResponseProps) {
+  const bytes = useBinaryBytes(body);
+  const objectUrl = useObjectUrl(bytes, body.contentType);
+  const mimeType = body.contentType.split(";")[0].trim().toLowerCase();
+  const preview = mimeType.startsWith("image/") ? "image" : mimeType === "application/pdf" ? "pdf" : null;
+  const [showHex, setShowHex] = useState(preview === null);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-4 text-sm">
+        <span className="font-mono text-gray-600">{body.contentType}</span>
+        <span className="text-gray-500">{formatBytes(body.size)}</span>
+        <span className="flex-1"></span>
+        {preview && (
+          <button onClick={() => setShowHex(!showHex)} className="text-gray-600 hover:text-gray-900">
+            {showHex ? "Preview" : "Hex"}
+          </button>
+        )}
+        {objectUrl && (
+          <a
+            href={objectUrl}
+            download={fileName}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            Download
+          </a>
+        )}
+      </div>
+
+      {body.base64 === undefined && !body.url ? (
+        <p className="text-sm text-gray-500">The body was too large to return and could not be stored.</p>
+      ) : !bytes || !objectUrl ? (
+        <div className="animate-pulse bg-gray-100 h-32 rounded-lg"></div>
+      ) : showHex ? (
+        <HexView bytes={bytes} />
+      ) : preview === "image" ? (
+        <img src={objectUrl} alt={fileName} className="max-w-full max-h-[600px] border border-gray-200 rounded-md" />
+      ) : (
+        <iframe src={objectUrl} title={fileName} className="w-full h-[600px] border border-gray-200 rounded-md" />
+      )}
+    </div>
+  );
+}
+
+// HTML is previewed in a sandbox with scripts, forms and same-origin
+// access disabled
+export function HtmlResponse({ html }: { html: string }) {
+  const [view, setView] = useState<"preview" | "source">("preview");
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2 text-sm">
+        {(["preview", "source"] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setView(option)}
+            className={`px-3 py-1 rounded-md ${view === option ? "bg-blue-100 text-blue-800" : "text-gray-600 hover:bg-gray-100"}`}
+          >
+            {option === "preview" ? "Preview" : "Source"}
+          </button>
+        ))}
+      </div>
+      {view === "preview" ? (
+        <iframe
+          sandbox=""
+          srcDoc={html}
+          title="HTML preview"
+          className="w-full h-[600px] border border-gray-200 rounded-md bg-white"
+        />
+      ) : (
+        <pre className="bg-gray-50 rounded-md p-4 text-sm font-mono overflow-auto max-h-[600px] whitespace-pre-wrap">
+          {html}
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import React from "react";
+import { useQuery } from "convex/react";
+import { toast } from "sonner";
+import { api } from "../../convex/_generated/api";
+import type { HttpMethod, ResponseSchema, SchemaViolation } from "../../convex/validators";
+import { inferSchema, MAX_VIOLATIONS, parseSchema, validateSchema } from "../../convex/jsonSchema";
+
+interface ResponseSchemaEditorProps {
+  value: ResponseSchema | undefined;
+  onChange: (schema: ResponseSchema | undefined) => void;
+  method: HttpMethod;
+  url: string;
+  // The body of the last response, when it was JSON
+  lastResponse: unknown;
+}
+
+const buttonClass =
+  "px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const parseBodies = (bodies: string[]) =>
+  bodies.flatMap((body) => {
+    try {
+      return [JSON.parse(body) as unknown];
+    } catch {
+      return [];
+    }
+  });
+
+export function ResponseSchemaEditor({ value, onChange, method, url, lastResponse }: ResponseSchemaEditorProps) {
+  const samples = useQuery(api.executions.getExecutionSamples, url ? { method, url } : "skip");
+  const recent = samples ? parseBodies(samples.bodies) : [];
+  const parsed = value ? parseSchema(value.schema) : undefined;
+
+  const applyInferred = (from: unknown[], label: string) => {
+    onChange({ schema: JSON.stringify(inferSchema(from), null, 2), source: "inferred" });
+    toast.success(`Schema inferred from ${label}`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Response Schema
+          {value && (
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              {value.source === "inferred" ? "inferred" : "written by hand"}
+            </span>
+          )}
+        </label>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => applyInferred([lastResponse], "the last response")}
+            disabled={lastResponse === undefined}
+            className={buttonClass}
+          >
+            Infer from Last Response
+          </button>
+          <button
+            type="button"
+            onClick={() => applyInferred(recent, `${recent.length} recent responses`)}
+            disabled={recent.length === 0}
+            title={samples && samples.skipped > 0 ? `${samples.skipped} failed, non-JSON or stored bodies are left out` : undefined}
+            className={buttonClass}
+          >
+            Infer from {recent.length} Recent
+          </button>
+          {value && (
+            <button
+              type="button"
+              onClick={() => onChange(undefined)}
+              className="px-3 py-1 text-sm text-red-600 hover:text-red-800"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      <textarea
+        value={value?.schema ?? ""}
+        onChange={(e) => onChange(e.target.value.trim() ? { schema: e.target.value, source: "manual" } : undefined)}
+        placeholder='Paste a JSON Schema, e.g. {"type": "object", "required": ["id"]}'
+        rows={14}
+        spellCheck={false}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+      />
+
+      {parsed && "error" in parsed ? (
+        <p className="text-sm text-red-600">Invalid schema: {parsed.error}</p>
+      ) : parsed && lastResponse !== undefined ? (
+        <SchemaReport violations={validateSchema(parsed.schema, lastResponse)} />
+      ) : (
+        <p className="text-xs text-gray-500">
+          Every response to this request is checked against the schema, here and in collection runs and monitors.
+          Inferred schemas require the fields every sample had, allow null where any sample had null, and pick up
+          enums and string formats.
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface SchemaReportProps {
+  violations: SchemaViolation[];
+}
+
+export function SchemaReport({ violations }: SchemaReportProps) {
+  return (
+    <div>
+      <h3 className="font-medium text-gray-700 mb-2">
+        Response Schema{" "}
+        {violations.length === 0 ? (
+          <span className="text-green-600">matches</span>
+        ) : (
+          <span className="text-red-600">
+            {violations.length}
+            {violations.length >= MAX_VIOLATIONS && "+"} {violations.length === 1 ? "violation" : "violations"}
+          </span>
+        )}
+      </h3>
+      {violations.length > 0 && (
+        <ul className="bg-gray-50 rounded-md p-3 space-y-1 text-sm max-h-64 overflow-y-auto">
+          {violations.map((violation, index) => (
+            <li key={index} className="flex gap-2">
+              <span className="text-red-600">✗</span>
+              <span className="flex-1 min-w-0">
+                <span className="font-mono break-all">{violation.path}</span>
+                <span className="block text-xs text-red-600">{violation.message}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import React, { useState } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { REDACTED, SECRET_NAME_PATTERN } from "../../convex/variables";
+
+interface SecretsManagerProps {
+  onClose: () => void;
+}
+
+// Secret values are write-only: they can be replaced or deleted but are
+// never sent back to the browser
+export function SecretsManager({ onClose }: SecretsManagerProps) {
+  const secrets = useQuery(api.secrets.listSecrets);
+  const setSecret = useAction(api.secretVault.setSecret);
+  const deleteSecret = useMutation(api.secrets.deleteSecret);
+
+  const [name, setName] = useState("");
+  const [value, setValue] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!SECRET_NAME_PATTERN.test(trimmed)) {
+      toast.error("Secret names may only contain letters, digits, '_', '.' and '-'");
+      return;
+    }
+    if (!value) {
+      toast.error("Please enter a value");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await setSecret({ name: trimmed, value });
+      setName("");
+      setValue("");
+      toast.success(`Secret "${trimmed}" saved`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save secret");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: Id<"secrets">, secretName: string) => {
+    if (!window.confirm(`Delete the "${secretName}" secret? Requests that use it will stop resolving.`)) return;
+    try {
+      await deleteSecret({ id });
+      toast.success("Secret deleted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete secret");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">Secrets</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            ✕
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Use a secret as <code className="font-mono">{"{{secret:name}}"}</code> in the URL, headers, body or auth.
+          Values are encrypted at rest, only filled in when the request is sent, and masked in responses.
+        </p>
+
+        <div className="space-y-2 max-h-72 overflow-y-auto mb-6">
+          {secrets === undefined ? (
+            <div className="animate-pulse bg-gray-100 h-16 rounded-lg"></div>
+          ) : secrets.length === 0 ? (
+            <p className="text-sm text-gray-500">No secrets yet.</p>
+          ) : (
+            secrets.map((secret) => (
+              <div key={secret._id} className="flex items-center gap-3 px-3 py-2 bg-gray-50 rounded-md text-sm">
+                <span className="font-mono flex-1">{`{{secret:${secret.name}}}`}</span>
+                <span className="font-mono text-gray-400">{REDACTED}</span>
+                <span className="text-xs text-gray-500">updated {new Date(secret.updatedAt).toLocaleString()}</span>
+                <button
+                  type="button"
+                  onClick={() => setName(secret.name)}
+                  className="text-blue-600 hover:text-blue-900"
+                >
+                  Replace
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void handleDelete(secret._id, secret.name)}
+                  className="text-red-600 hover:text-red-900"
+                >
+                  Delete
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (e.g. stripeKey)"
+            className="w-48 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+          />
+          <input
+            type="password"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder="Value"
+            autoComplete="off"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+          />
+          <button
+            type="button"
+            onClick={() => void handleSave()}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save Secret"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
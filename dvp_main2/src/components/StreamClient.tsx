@@ -0,0 +1,398 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import type { StreamDirection, StreamKind } from "../../convex/validators";
+import { MAX_STREAM_MESSAGES, MAX_STREAM_MS } from "../../convex/streamFormats";
+import { HttpMethod, methodAllowsBody } from "../lib/http";
+
+interface StreamClientProps {
+  environmentId?: Id<"environments">;
+}
+
+type StreamMessage = Doc<"streamMessages">;
+
+const KINDS: { kind: StreamKind; label: string; placeholder: string }[] = [
+  { kind: "websocket", label: "WebSocket", placeholder: "wss://echo.example.com" },
+  { kind: "sse", label: "Server-Sent Events", placeholder: "https://api.example.com/events" },
+  { kind: "ndjson", label: "NDJSON", placeholder: "https://api.example.com/stream" },
+];
+
+const KIND_LABELS: Record<StreamKind, string> = { websocket: "WS", sse: "SSE", ndjson: "NDJSON" };
+
+const STATUS_COLORS: Record<Doc<"streamSessions">["status"], string> = {
+  connecting: "text-blue-600",
+  open: "text-green-600",
+  closed: "text-gray-500",
+  error: "text-red-600",
+};
+
+const DIRECTION_MARKS: Record<StreamDirection, { mark: string; className: string }> = {
+  in: { mark: "↓", className: "text-green-600" },
+  out: { mark: "↑", className: "text-blue-600" },
+  info: { mark: "•", className: "text-gray-400" },
+};
+
+const inputClass =
+  "px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm";
+
+const formatTime = (at: number) =>
+  new Date(at).toLocaleTimeString(undefined, { hour12: false }) + `.${String(at % 1000).padStart(3, "0")}`;
+
+function download(text: string, fileName: string, type: string) {
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(new Blob([text], { type }));
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+export function StreamClient({ environmentId }: StreamClientProps) {
+  const sessions = useQuery(api.streams.listStreamSessions);
+  const startStream = useMutation(api.streams.startStream);
+  const deleteSession = useMutation(api.streams.deleteStreamSession);
+
+  const [kind, setKind] = useState<StreamKind>("websocket");
+  const [method, setMethod] = useState<HttpMethod>("GET");
+  const [url, setUrl] = useState("");
+  const [headers, setHeaders] = useState<{ key: string; value: string }[]>([{ key: "", value: "" }]);
+  const [body, setBody] = useState("");
+  const [starting, setStarting] = useState(false);
+  const [selectedId, setSelectedId] = useState<Id<"streamSessions"> | null>(null);
+
+  const handleConnect = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStarting(true);
+    try {
+      const sends = kind !== "websocket" && methodAllowsBody(method) && body !== "";
+      const sessionId = await startStream({
+        kind,
+        url,
+        method: kind === "websocket" ? "GET" : method,
+        headers: Object.fromEntries(
+          headers.filter((h) => h.key.trim()).map((h) => [h.key.trim(), h.value])
+        ),
+        body: sends ? body : undefined,
+        environmentId,
+      });
+      setSelectedId(sessionId);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to connect");
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const replaceHeader = (index: number, header: { key: string; value: string }) =>
+    setHeaders(headers.map((h, i) => (i === index ? header : h)));
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={(e) => void handleConnect(e)} className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          <select value={kind} onChange={(e) => setKind(e.target.value as StreamKind)} className={inputClass}>
+            {KINDS.map((option) => (
+              <option key={option.kind} value={option.kind}>{option.label}</option>
+            ))}
+          </select>
+          {kind !== "websocket" && (
+            <select value={method} onChange={(e) => setMethod(e.target.value as HttpMethod)} className={inputClass}>
+              <option value="GET">GET</option>
+              <option value="POST">POST</option>
+            </select>
+          )}
+          <input
+            type="text"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder={KINDS.find((option) => option.kind === kind)?.placeholder}
+            className={`${inputClass} flex-1 min-w-[16rem] font-mono`}
+            required
+          />
+          <button
+            type="submit"
+            disabled={starting}
+            className="px-4 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            {starting ? "Connecting..." : "Connect"}
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">Headers</label>
+          {headers.map((header, index) => (
+            <div key={index} className="flex gap-2">
+              <input
+                type="text"
+                placeholder="Header name"
+                value={header.key}
+                onChange={(e) => replaceHeader(index, { ...header, key: e.target.value })}
+                className={`${inputClass} flex-1`}
+              />
+              <input
+                type="text"
+                placeholder="Value"
+                value={header.value}
+                onChange={(e) => replaceHeader(index, { ...header, value: e.target.value })}
+                className={`${inputClass} flex-1 font-mono`}
+              />
+              <button
+                type="button"
+                onClick={() => setHeaders(headers.length > 1 ? headers.filter((_, i) => i !== index) : [{ key: "", value: "" }])}
+                className="px-3 py-2 text-red-600 hover:text-red-800"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setHeaders([...headers, { key: "", value: "" }])}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            + Add header
+          </button>
+        </div>
+
+        {kind !== "websocket" && methodAllowsBody(method) && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Body</label>
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={4}
+              className={`${inputClass} w-full font-mono`}
+            />
+          </div>
+        )}
+        <p className="text-xs text-gray-500">
+          {"{{variables}}"} from the selected environment are resolved in the URL, headers, body and sent frames.
+          Connections close after {MAX_STREAM_MS / 60000} minutes or {MAX_STREAM_MESSAGES} messages, and go through
+          the egress policy like any other request.
+        </p>
+      </form>
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        <div className="lg:w-72 space-y-1">
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">Sessions</h3>
+          {sessions?.length === 0 && <p className="text-sm text-gray-500">No streams yet.</p>}
+          {sessions?.map((session) => (
+            <div
+              key={session._id}
+              onClick={() => setSelectedId(session._id)}
+              className={`group flex items-center gap-2 px-2 py-2 rounded-md text-sm cursor-pointer ${
+                selectedId === session._id ? "bg-blue-50" : "hover:bg-gray-50"
+              }`}
+            >
+              <span className="px-1.5 py-0.5 text-xs font-medium rounded bg-gray-100 text-gray-700">
+                {KIND_LABELS[session.kind]}
+              </span>
+              <span className="flex-1 min-w-0 truncate font-mono" title={session.url}>{session.url}</span>
+              <span className={`text-xs ${STATUS_COLORS[session.status]}`}>{session.status}</span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (selectedId === session._id) setSelectedId(null);
+                  void deleteSession({ sessionId: session._id });
+                }}
+                title="Delete session"
+                className="hidden group-hover:block text-red-500 hover:text-red-700"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex-1 min-w-0">
+          {selectedId ? (
+            <StreamLog key={selectedId} sessionId={selectedId} />
+          ) : (
+            <div className="text-center py-12 text-gray-500">Connect to a stream to see its messages</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface StreamLogProps {
+  sessionId: Id<"streamSessions">;
+}
+
+function StreamLog({ sessionId }: StreamLogProps) {
+  const log = useQuery(api.streams.getStreamLog, { sessionId });
+  const closeStream = useMutation(api.streams.closeStream);
+  const sendMessage = useMutation(api.streams.sendStreamMessage);
+
+  const [filter, setFilter] = useState("");
+  const [direction, setDirection] = useState<StreamDirection | "all">("all");
+  // While paused the view keeps showing the messages received until then
+  const [pausedAt, setPausedAt] = useState<number | null>(null);
+  const [frame, setFrame] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const messages = log?.messages ?? [];
+  const shown = pausedAt === null ? messages : messages.slice(0, pausedAt);
+  const needle = filter.trim().toLowerCase();
+  const visible = shown.filter(
+    (message) =>
+      (direction === "all" || message.direction === direction) &&
+      (!needle || message.data.toLowerCase().includes(needle) || message.event?.toLowerCase().includes(needle))
+  );
+
+  useEffect(() => {
+    if (pausedAt === null) bottomRef.current?.scrollIntoView({ block: "nearest" });
+  }, [visible.length, pausedAt]);
+
+  if (log === undefined) return <div className="animate-pulse bg-gray-100 h-64 rounded-lg"></div>;
+  if (log === null) return <div className="text-center py-12 text-gray-500">Stream not found</div>;
+
+  const { session } = log;
+  const live = session.status === "connecting" || session.status === "open";
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!frame) return;
+    try {
+      await sendMessage({ sessionId, data: frame });
+      setFrame("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send message");
+    }
+  };
+
+  const handleExport = (format: "json" | "ndjson") => {
+    const entries = visible.map((message) => ({
+      at: new Date(message.at).toISOString(),
+      direction: message.direction,
+      ...(message.event !== undefined && { event: message.event }),
+      data: message.data,
+      ...(message.truncated && { truncated: true }),
+    }));
+    const name = `stream-${new Date(session.createdAt).toISOString().replace(/[:.]/g, "-")}`;
+    if (format === "json") {
+      download(JSON.stringify(entries, null, 2), `${name}.json`, "application/json");
+    } else {
+      download(entries.map((entry) => JSON.stringify(entry)).join("\n") + "\n", `${name}.ndjson`, "application/x-ndjson");
+    }
+  };
+
+  const describe = (message: StreamMessage) => {
+    if (message.direction !== "out" || !message.pending) return null;
+    return live ? "sending" : "not sent";
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className={`font-medium ${STATUS_COLORS[session.status]}`}>{session.status}</span>
+        {session.error && <span className="text-red-600">{session.error}</span>}
+        <span className="flex-1 text-gray-500">
+          {session.messageCount} messages
+          {session.closedAt && ` in ${((session.closedAt - session.createdAt) / 1000).toFixed(1)}s`}
+        </span>
+        {live && (
+          <button
+            onClick={() => void closeStream({ sessionId })}
+            disabled={session.closeRequested}
+            className="px-3 py-1 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+          >
+            {session.closeRequested ? "Disconnecting..." : "Disconnect"}
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter messages"
+          className={`${inputClass} flex-1 min-w-[10rem]`}
+        />
+        <select
+          value={direction}
+          onChange={(e) => setDirection(e.target.value as StreamDirection | "all")}
+          className={inputClass}
+        >
+          <option value="all">All</option>
+          <option value="in">Received</option>
+          <option value="out">Sent</option>
+          <option value="info">Connection</option>
+        </select>
+        <button
+          onClick={() => setPausedAt(pausedAt === null ? messages.length : null)}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          {pausedAt === null ? "⏸ Pause" : `▶ Resume${messages.length > pausedAt ? ` (${messages.length - pausedAt} new)` : ""}`}
+        </button>
+        <button
+          onClick={() => handleExport("json")}
+          disabled={visible.length === 0}
+          className="px-3 py-2 text-sm text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 disabled:opacity-50"
+        >
+          Export JSON
+        </button>
+        <button
+          onClick={() => handleExport("ndjson")}
+          disabled={visible.length === 0}
+          className="px-3 py-2 text-sm text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 disabled:opacity-50"
+        >
+          Export NDJSON
+        </button>
+      </div>
+
+      <div className="border border-gray-200 rounded-md h-96 overflow-y-auto font-mono text-xs divide-y divide-gray-100">
+        {visible.length === 0 && (
+          <p className="p-3 text-gray-500 font-sans text-sm">
+            {messages.length === 0 ? "Waiting for messages..." : "No messages match the filter."}
+          </p>
+        )}
+        {visible.map((message) => {
+          const { mark, className } = DIRECTION_MARKS[message.direction];
+          const note = describe(message);
+          return (
+            <div key={message._id} className={`flex gap-2 px-3 py-1 ${message.direction === "info" ? "text-gray-500" : ""}`}>
+              <span className="text-gray-400 shrink-0">{formatTime(message.at)}</span>
+              <span className={`shrink-0 ${className}`}>{mark}</span>
+              {message.event && message.event !== "message" && (
+                <span className="shrink-0 px-1 rounded bg-purple-100 text-purple-800">{message.event}</span>
+              )}
+              <span className="flex-1 whitespace-pre-wrap break-all">
+                {message.data}
+                {message.truncated && <span className="text-amber-600"> … (truncated)</span>}
+              </span>
+              {note && <span className="shrink-0 text-gray-400">{note}</span>}
+            </div>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+
+      {session.kind === "websocket" && (
+        <form onSubmit={(e) => void handleSend(e)} className="flex gap-2">
+          <textarea
+            value={frame}
+            onChange={(e) => setFrame(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) void handleSend(e);
+            }}
+            rows={2}
+            placeholder="Message to send (Ctrl+Enter)"
+            disabled={!live}
+            className={`${inputClass} flex-1 font-mono disabled:bg-gray-50`}
+          />
+          <button
+            type="submit"
+            disabled={!live || !frame}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Send
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
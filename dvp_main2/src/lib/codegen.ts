@@ -0,0 +1,561 @@
+import type { RequestFields } from "../../convex/validators";
+import { splitTemplate } from "../../convex/variables";
+import { DEFAULT_CONTENT_TYPES } from "../../convex/requestBody";
+import { shellQuote } from "./curl";
+
+// Code snippets for the request in the builder. Secrets never appear in a
+// snippet: auth credentials, secret-looking headers and {{variables}} (whose
+// environment values may be secrets) are read from environment variables.
+
+export type CodeLanguage = "fetch" | "axios" | "python" | "go" | "httpie";
+
+export const CODE_LANGUAGES: { id: CodeLanguage; label: string }[] = [
+  { id: "fetch", label: "JavaScript fetch" },
+  { id: "axios", label: "Node axios" },
+  { id: "python", label: "Python requests" },
+  { id: "go", label: "Go net/http" },
+  { id: "httpie", label: "HTTPie" },
+];
+
+// A string built from literal text and environment variable reads
+type Segment = string | { env: string };
+type Expr = Segment[];
+
+type CodeBody =
+  // `value` is set when the JSON has no placeholders and can be inlined
+  | { type: "json"; value?: unknown; raw: Expr }
+  | { type: "raw"; content: Expr }
+  | { type: "form"; fields: { key: Expr; value: Expr }[] }
+  | {
+      type: "multipart";
+      parts: ({ kind: "text"; key: Expr; value: Expr } | { kind: "file"; key: Expr; fileName: string })[];
+    }
+  | { type: "file"; fileName: string };
+
+interface CodeModel {
+  method: string;
+  url: Expr;
+  headers: { name: string; value: Expr }[];
+  basicAuth?: { username: Expr; password: Expr };
+  body?: CodeBody;
+  envVars: string[];
+}
+
+export interface GeneratedCode {
+  code: string;
+  // Environment variables the snippet reads
+  envVars: string[];
+}
+
+const SECRET_HEADER = /authorization|cookie|token|secret|api[-_]?key|password|session/i;
+
+// Scheme prefixes kept in the snippet when a header value becomes a variable
+const AUTH_SCHEME = /^(Bearer|Basic|Token|Digest)\s+/i;
+
+export function envName(name: string) {
+  const normalized = name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase().replace(/[^A-Z0-9]+/g, "_");
+  const trimmed = normalized.replace(/^_+|_+$/g, "");
+  return /^[0-9]/.test(trimmed) ? `_${trimmed}` : trimmed || "VALUE";
+}
+
+function buildModel(request: RequestFields): CodeModel {
+  const envVars = new Set<string>();
+  const env = (name: string): Segment => {
+    envVars.add(name);
+    return { env: name };
+  };
+  const template = (text: string): Expr =>
+    splitTemplate(text).map((part) => (typeof part === "string" ? part : env(envName(part.variable))));
+
+  const url = template(request.url);
+  const headers: CodeModel["headers"] = [];
+  for (const [name, value] of Object.entries(request.headers)) {
+    if (SECRET_HEADER.test(name)) {
+      const scheme = value.match(AUTH_SCHEME)?.[0] ?? "";
+      headers.push({ name, value: [scheme, env(envName(name))].filter((s) => s !== "") });
+    } else {
+      headers.push({ name, value: template(value) });
+    }
+  }
+  const hasHeader = (name: string) => headers.some((h) => h.name.toLowerCase() === name.toLowerCase());
+
+  let basicAuth: CodeModel["basicAuth"];
+  const auth = request.auth;
+  if (auth?.type === "bearer") {
+    headers.push({ name: "Authorization", value: ["Bearer ", env("API_TOKEN")] });
+  } else if (auth?.type === "oauth2") {
+    headers.push({ name: "Authorization", value: ["Bearer ", env("ACCESS_TOKEN")] });
+  } else if (auth?.type === "basic") {
+    basicAuth = { username: [env("API_USERNAME")], password: [env("API_PASSWORD")] };
+  } else if (auth?.type === "apiKey") {
+    const value = env(envName(auth.key));
+    if (auth.addTo === "header") {
+      headers.push({ name: auth.key, value: [value] });
+    } else {
+      const separator = request.url.includes("?") ? "&" : "?";
+      url.push(`${separator}${encodeURIComponent(auth.key)}=`, value);
+    }
+  }
+
+  let body: CodeBody | undefined;
+  const requestBody = request.body;
+  if (requestBody) {
+    switch (requestBody.type) {
+      case "json": {
+        const raw = template(requestBody.content);
+        let value: unknown;
+        if (raw.every((s) => typeof s === "string")) {
+          try {
+            value = JSON.parse(requestBody.content);
+          } catch {
+            // Sent as typed
+          }
+        }
+        body = { type: "json", value, raw };
+        break;
+      }
+      case "graphql": {
+        const variablesText = requestBody.variables.trim();
+        let variables: unknown;
+        try {
+          variables = variablesText ? JSON.parse(variablesText) : undefined;
+        } catch {
+          // Typically a placeholder used as a bare value, e.g. {"id": {{id}}}
+          variables = undefined;
+        }
+        const payload = {
+          query: requestBody.query,
+          ...(variables !== undefined && { variables }),
+          ...(requestBody.operationName && { operationName: requestBody.operationName }),
+        };
+        const json = JSON.stringify(payload);
+        const raw = template(
+          variablesText && variables === undefined ? `${json.slice(0, -1)},"variables":${variablesText}}` : json
+        );
+        body = { type: "json", value: raw.every((s) => typeof s === "string") ? payload : undefined, raw };
+        break;
+      }
+      case "xml":
+      case "text":
+        body = { type: "raw", content: template(requestBody.content) };
+        break;
+      case "formUrlEncoded":
+        body = {
+          type: "form",
+          fields: requestBody.fields
+            .filter((field) => field.enabled)
+            .map((field) => ({ key: template(field.key), value: template(field.value) })),
+        };
+        break;
+      case "multipart":
+        body = {
+          type: "multipart",
+          parts: requestBody.parts
+            .filter((part) => part.enabled)
+            .map((part) =>
+              part.kind === "text"
+                ? { kind: "text" as const, key: template(part.key), value: template(part.value) }
+                : { kind: "file" as const, key: template(part.key), fileName: part.fileName }
+            ),
+        };
+        break;
+      case "binary":
+        body = { type: "file", fileName: requestBody.fileName };
+        break;
+    }
+
+    // Form and multipart content types are set by each HTTP client itself
+    const contentType =
+      requestBody.type === "text" ? requestBody.contentType :
+      requestBody.type === "binary" ? requestBody.contentType ?? DEFAULT_CONTENT_TYPES.binary :
+      requestBody.type === "formUrlEncoded" || requestBody.type === "multipart" ? undefined :
+      DEFAULT_CONTENT_TYPES[requestBody.type];
+    if (contentType && !hasHeader("content-type")) {
+      headers.unshift({ name: "Content-Type", value: [contentType] });
+    }
+  }
+
+  return { method: request.method, url, headers, basicAuth, body, envVars: [...envVars].sort() };
+}
+
+const isLiteral = (expr: Expr): expr is string[] => expr.every((s) => typeof s === "string");
+
+const indent = (text: string, prefix: string) =>
+  text
+    .split("\n")
+    .map((line, i) => (i === 0 ? line : prefix + line))
+    .join("\n");
+
+// JavaScript
+
+// The environment variable when an expression is nothing else
+const onlyEnv = (expr: Expr) => (expr.length === 1 && typeof expr[0] !== "string" ? expr[0].env : undefined);
+
+function jsString(expr: Expr): string {
+  if (isLiteral(expr)) return JSON.stringify(expr.join(""));
+  const env = onlyEnv(expr);
+  if (env) return `process.env.${env}`;
+  const content = expr
+    .map((s) =>
+      typeof s === "string"
+        ? s.replace(/[`\\]/g, "\\$&").replace(/\$\{/g, "\\${").replace(/\n/g, "\\n").replace(/\r/g, "\\r")
+        : `\${process.env.${s.env}}`
+    )
+    .join("");
+  return `\`${content}\``;
+}
+
+function jsHeaders(model: CodeModel): string[] {
+  return model.headers.map((h) => `${JSON.stringify(h.name)}: ${jsString(h.value)},`);
+}
+
+function jsPreamble(model: CodeModel, extraImports: string[] = []): string[] {
+  const lines = [...extraImports];
+  const usesFiles = model.body?.type === "file" || (model.body?.type === "multipart" && model.body.parts.some((p) => p.kind === "file"));
+  if (usesFiles) lines.push(`import fs from "node:fs";`);
+  if (lines.length > 0) lines.push("");
+  if (model.envVars.length > 0) {
+    lines.push(`// Requires environment variables: ${model.envVars.join(", ")}`);
+  }
+  return lines;
+}
+
+// Statements that build the body, and the expression passed to the client
+function jsBody(body: CodeBody, forAxios: boolean): { setup: string[]; expression: string } {
+  switch (body.type) {
+    case "json":
+      if (body.value !== undefined) {
+        const literal = JSON.stringify(body.value, null, 2);
+        return { setup: [], expression: forAxios ? literal : `JSON.stringify(${literal})` };
+      }
+      return { setup: [], expression: jsString(body.raw) };
+    case "raw":
+      return { setup: [], expression: jsString(body.content) };
+    case "form": {
+      const pairs = body.fields.map((f) => `  [${jsString(f.key)}, ${jsString(f.value)}],`);
+      return { setup: [], expression: `new URLSearchParams([\n${pairs.join("\n")}\n])` };
+    }
+    case "multipart": {
+      const setup = ["const formData = new FormData();"];
+      for (const part of body.parts) {
+        setup.push(
+          part.kind === "text"
+            ? `formData.append(${jsString(part.key)}, ${jsString(part.value)});`
+            : `formData.append(${jsString(part.key)}, await fs.openAsBlob(${JSON.stringify(part.fileName)}), ${JSON.stringify(part.fileName)});`
+        );
+      }
+      setup.push("");
+      return { setup, expression: "formData" };
+    }
+    case "file":
+      return forAxios
+        ? { setup: [], expression: `fs.createReadStream(${JSON.stringify(body.fileName)})` }
+        : { setup: [], expression: `await fs.openAsBlob(${JSON.stringify(body.fileName)})` };
+  }
+}
+
+function jsBasicAuthHeader(model: CodeModel): string | undefined {
+  if (!model.basicAuth) return undefined;
+  const credentials = jsString([...model.basicAuth.username, ":", ...model.basicAuth.password]);
+  return `"Authorization": "Basic " + btoa(${credentials}),`;
+}
+
+function generateFetch(model: CodeModel): string {
+  const lines = jsPreamble(model);
+  const body = model.body ? jsBody(model.body, false) : undefined;
+  if (body) lines.push(...body.setup);
+
+  const headers = jsHeaders(model);
+  const basic = jsBasicAuthHeader(model);
+  if (basic) headers.push(basic);
+
+  lines.push(`const response = await fetch(${jsString(model.url)}, {`);
+  lines.push(`  method: ${JSON.stringify(model.method)},`);
+  if (headers.length > 0) {
+    lines.push("  headers: {", ...headers.map((h) => `    ${h}`), "  },");
+  }
+  if (body) lines.push(`  body: ${indent(body.expression, "  ")},`);
+  lines.push("});", "", "console.log(response.status, await response.text());");
+  return lines.join("\n");
+}
+
+function generateAxios(model: CodeModel): string {
+  const lines = jsPreamble(model, [`import axios from "axios";`]);
+  const body = model.body ? jsBody(model.body, true) : undefined;
+  if (body) lines.push(...body.setup);
+
+  const headers = jsHeaders(model);
+  lines.push("const response = await axios({");
+  lines.push(`  method: ${JSON.stringify(model.method.toLowerCase())},`);
+  lines.push(`  url: ${jsString(model.url)},`);
+  if (headers.length > 0) {
+    lines.push("  headers: {", ...headers.map((h) => `    ${h}`), "  },");
+  }
+  if (model.basicAuth) {
+    lines.push(
+      "  auth: {",
+      `    username: ${jsString(model.basicAuth.username)},`,
+      `    password: ${jsString(model.basicAuth.password)},`,
+      "  },"
+    );
+  }
+  if (body) lines.push(`  data: ${indent(body.expression, "  ")},`);
+  // Report every status instead of throwing on 4xx/5xx
+  lines.push("  validateStatus: () => true,");
+  lines.push("});", "", "console.log(response.status, response.data);");
+  return lines.join("\n");
+}
+
+// Python
+
+function pyString(expr: Expr): string {
+  if (isLiteral(expr)) return JSON.stringify(expr.join(""));
+  const env = onlyEnv(expr);
+  if (env) return `os.environ["${env}"]`;
+  const content = expr
+    .map((s) =>
+      typeof s === "string"
+        ? JSON.stringify(s).slice(1, -1).replace(/\{/g, "{{").replace(/\}/g, "}}")
+        : `{os.environ['${s.env}']}`
+    )
+    .join("");
+  return `f"${content}"`;
+}
+
+function pyValue(value: unknown, depth = 0): string {
+  const pad = "    ".repeat(depth + 1);
+  const closePad = "    ".repeat(depth);
+  if (value === null) return "None";
+  if (value === true) return "True";
+  if (value === false) return "False";
+  if (typeof value === "string" || typeof value === "number") return JSON.stringify(value);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    return `[\n${value.map((item) => `${pad}${pyValue(item, depth + 1)},`).join("\n")}\n${closePad}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) return "{}";
+  return `{\n${entries.map(([k, v]) => `${pad}${JSON.stringify(k)}: ${pyValue(v, depth + 1)},`).join("\n")}\n${closePad}}`;
+}
+
+function generatePython(model: CodeModel): string {
+  const lines: string[] = [];
+  if (model.envVars.length > 0) lines.push("import os", "");
+  lines.push("import requests", "");
+
+  const args: string[] = [pyString(model.url)];
+  if (model.headers.length > 0) {
+    const headers = model.headers.map((h) => `${JSON.stringify(h.name)}: ${pyString(h.value)},`);
+    args.push(`headers={\n${headers.map((h) => `    ${h}`).join("\n")}\n}`);
+  }
+  if (model.basicAuth) {
+    args.push(`auth=(${pyString(model.basicAuth.username)}, ${pyString(model.basicAuth.password)})`);
+  }
+
+  const body = model.body;
+  if (body?.type === "json") {
+    args.push(body.value !== undefined ? `json=${pyValue(body.value)}` : `data=${pyString(body.raw)}`);
+  } else if (body?.type === "raw") {
+    args.push(`data=${pyString(body.content)}`);
+  } else if (body?.type === "form") {
+    const fields = body.fields.map((f) => `    (${pyString(f.key)}, ${pyString(f.value)}),`);
+    args.push(`data=[\n${fields.join("\n")}\n]`);
+  } else if (body?.type === "multipart") {
+    const fields = body.parts.flatMap((p) => (p.kind === "text" ? [`    (${pyString(p.key)}, ${pyString(p.value)}),`] : []));
+    const files = body.parts.flatMap((p) =>
+      p.kind === "file" ? [`    (${pyString(p.key)}, open(${JSON.stringify(p.fileName)}, "rb")),`] : []
+    );
+    if (fields.length > 0) args.push(`data=[\n${fields.join("\n")}\n]`);
+    if (files.length > 0) args.push(`files=[\n${files.join("\n")}\n]`);
+  } else if (body?.type === "file") {
+    args.push(`data=open(${JSON.stringify(body.fileName)}, "rb")`);
+  }
+
+  if (model.envVars.length > 0) {
+    lines.push(`# Requires environment variables: ${model.envVars.join(", ")}`);
+  }
+  lines.push(`response = requests.${model.method.toLowerCase()}(`);
+  args.forEach((arg) => lines.push(`    ${indent(arg, "    ")},`));
+  lines.push(")", "", "print(response.status_code, response.text)");
+  return lines.join("\n");
+}
+
+// Go
+
+function goString(expr: Expr): string {
+  if (expr.length === 0) return `""`;
+  return expr
+    .map((s) => (typeof s === "string" ? JSON.stringify(s) : `os.Getenv(${JSON.stringify(s.env)})`))
+    .join(" + ");
+}
+
+// Raw string literals keep multi-line JSON readable
+function goLiteral(text: string): string {
+  return text.includes("\n") && !text.includes("`") ? `\`${text}\`` : JSON.stringify(text);
+}
+
+function generateGo(model: CodeModel): string {
+  const imports = new Set(["fmt", "io", "net/http"]);
+  if (model.envVars.length > 0) imports.add("os");
+  const setup: string[] = [];
+  let bodyExpression = "nil";
+  const extraHeaders: string[] = [];
+  const body = model.body;
+
+  if (body?.type === "json" || body?.type === "raw") {
+    imports.add("strings");
+    const expr = body.type === "json" ? body.raw : body.content;
+    const literal =
+      body.type === "json" && body.value !== undefined ? goLiteral(JSON.stringify(body.value, null, 2)) :
+      isLiteral(expr) ? goLiteral(expr.join("")) :
+      goString(expr);
+    setup.push(`body := strings.NewReader(${literal})`);
+    bodyExpression = "body";
+  } else if (body?.type === "form") {
+    imports.add("net/url").add("strings");
+    setup.push("form := url.Values{}");
+    body.fields.forEach((f) => setup.push(`form.Add(${goString(f.key)}, ${goString(f.value)})`));
+    setup.push("body := strings.NewReader(form.Encode())");
+    extraHeaders.push(`req.Header.Set("Content-Type", "application/x-www-form-urlencoded")`);
+    bodyExpression = "body";
+  } else if (body?.type === "multipart") {
+    imports.add("bytes").add("mime/multipart");
+    setup.push("body := &bytes.Buffer{}", "writer := multipart.NewWriter(body)");
+    for (const part of body.parts) {
+      if (part.kind === "text") {
+        setup.push(`writer.WriteField(${goString(part.key)}, ${goString(part.value)})`);
+      } else {
+        imports.add("os");
+        setup.push(
+          "{",
+          `\tfile, err := os.Open(${JSON.stringify(part.fileName)})`,
+          "\tif err != nil {",
+          "\t\tpanic(err)",
+          "\t}",
+          "\tdefer file.Close()",
+          `\tpart, err := writer.CreateFormFile(${goString(part.key)}, ${JSON.stringify(part.fileName)})`,
+          "\tif err != nil {",
+          "\t\tpanic(err)",
+          "\t}",
+          "\tio.Copy(part, file)",
+          "}"
+        );
+      }
+    }
+    setup.push("writer.Close()");
+    extraHeaders.push(`req.Header.Set("Content-Type", writer.FormDataContentType())`);
+    bodyExpression = "body";
+  } else if (body?.type === "file") {
+    imports.add("os");
+    setup.push(
+      `body, err := os.Open(${JSON.stringify(body.fileName)})`,
+      "if err != nil {",
+      "\tpanic(err)",
+      "}",
+      "defer body.Close()"
+    );
+    bodyExpression = "body";
+  }
+
+  const main: string[] = [];
+  if (model.envVars.length > 0) {
+    main.push(`// Requires environment variables: ${model.envVars.join(", ")}`);
+  }
+  if (setup.length > 0) main.push(...setup, "");
+  main.push(
+    `req, err := http.NewRequest(${JSON.stringify(model.method)}, ${goString(model.url)}, ${bodyExpression})`,
+    "if err != nil {",
+    "\tpanic(err)",
+    "}"
+  );
+  model.headers.forEach((h) => main.push(`req.Header.Set(${JSON.stringify(h.name)}, ${goString(h.value)})`));
+  main.push(...extraHeaders);
+  if (model.basicAuth) {
+    main.push(`req.SetBasicAuth(${goString(model.basicAuth.username)}, ${goString(model.basicAuth.password)})`);
+  }
+  main.push(
+    "",
+    "resp, err := http.DefaultClient.Do(req)",
+    "if err != nil {",
+    "\tpanic(err)",
+    "}",
+    "defer resp.Body.Close()",
+    "",
+    "respBody, err := io.ReadAll(resp.Body)",
+    "if err != nil {",
+    "\tpanic(err)",
+    "}",
+    "fmt.Println(resp.Status)",
+    "fmt.Println(string(respBody))"
+  );
+
+  const importLines = [...imports].sort().map((name) => `\t"${name}"`);
+  return [
+    "package main",
+    "",
+    "import (",
+    ...importLines,
+    ")",
+    "",
+    "func main() {",
+    // Continuation lines belong to raw string literals and stay as they are
+    ...main.map((line) => (line ? `\t${line}` : "")),
+    "}",
+  ].join("\n");
+}
+
+// HTTPie
+
+function shString(expr: Expr): string {
+  if (isLiteral(expr)) return shellQuote(expr.join(""));
+  const content = expr
+    .map((s) => (typeof s === "string" ? s.replace(/["\\$`]/g, "\\$&") : `\${${s.env}}`))
+    .join("");
+  return `"${content}"`;
+}
+
+function generateHttpie(model: CodeModel): string {
+  const args: string[] = [];
+  const body = model.body;
+  if (body?.type === "form") args.push("--form");
+  if (body?.type === "multipart") args.push("--multipart");
+  if (model.basicAuth) {
+    args.push(`-a ${shString([...model.basicAuth.username, ":", ...model.basicAuth.password])}`);
+  }
+  if (body?.type === "json") {
+    args.push(`--raw ${shString(body.value !== undefined ? [JSON.stringify(body.value)] : body.raw)}`);
+  } else if (body?.type === "raw") {
+    args.push(`--raw ${shString(body.content)}`);
+  }
+  args.push(`${model.method} ${shString(model.url)}`);
+  model.headers.forEach((h) => args.push(shString([`${h.name}:`, ...h.value])));
+  if (body?.type === "form") {
+    body.fields.forEach((f) => args.push(shString([...f.key, "=", ...f.value])));
+  } else if (body?.type === "multipart") {
+    body.parts.forEach((p) =>
+      args.push(p.kind === "text" ? shString([...p.key, "=", ...p.value]) : shString([...p.key, "@", p.fileName]))
+    );
+  } else if (body?.type === "file") {
+    args.push(`< ${shellQuote(body.fileName)}`);
+  }
+
+  const lines: string[] = [];
+  if (model.envVars.length > 0) {
+    lines.push(`# Requires environment variables: ${model.envVars.join(", ")}`);
+  }
+  lines.push(["http", ...args].join(" \\\n  "));
+  return lines.join("\n");
+}
+
+const GENERATORS: Record<CodeLanguage, (model: CodeModel) => string> = {
+  fetch: generateFetch,
+  axios: generateAxios,
+  python: generatePython,
+  go: generateGo,
+  httpie: generateHttpie,
+};
+
+export function generateCode(language: CodeLanguage, request: RequestFields): GeneratedCode {
+  const model = buildModel(request);
+  return { code: GENERATORS[language](model), envVars: model.envVars };
+}
@@ -0,0 +1,353 @@
+import type { HttpMethod, RequestAuth, RequestBody, StoredRequestFields } from "../../convex/validators";
+import { DEFAULT_CONTENT_TYPES, normalizeBody } from "../../convex/requestBody";
+import { HTTP_METHODS } from "./http";
+
+// Conversion between cURL command lines and requests: import of commands
+// copied from browser devtools or API docs, and "Copy as cURL" export.
+
+export interface ParsedCurl {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  body?: RequestBody;
+  auth?: RequestAuth;
+  // Parts of the command that could not be imported
+  warnings: string[];
+}
+
+// Options whose value is the next argument and that the import ignores
+const IGNORED_WITH_VALUE = new Set([
+  "-o", "--output", "-m", "--max-time", "--connect-timeout", "-x", "--proxy", "--retry",
+  "-w", "--write-out", "-c", "--cookie-jar", "-E", "--cert", "--key", "--cacert", "-r", "--range",
+]);
+
+const DATA_OPTIONS = new Set(["-d", "--data", "--data-raw", "--data-binary", "--data-ascii", "--data-urlencode"]);
+
+const ANSI_ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", "\\": "\\", "'": "'", '"': '"' };
+
+// Splits a command line into words the way a POSIX shell would for the
+// quoting styles devtools produce: '...', "...", $'...' and backslash escapes,
+// with backslash-newline continuations.
+export function tokenizeShell(command: string): string[] {
+  const input = command.replace(/\\\r?\n/g, " ");
+  const words: string[] = [];
+  let word = "";
+  let inWord = false;
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      if (inWord) words.push(word);
+      word = "";
+      inWord = false;
+      i++;
+    } else if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end < 0) throw new Error("Unterminated single quote");
+      word += input.slice(i + 1, end);
+      inWord = true;
+      i = end + 1;
+    } else if (char === "$" && input[i + 1] === "'") {
+      i += 2;
+      while (i < input.length && input[i] !== "'") {
+        if (input[i] === "\\" && i + 1 < input.length) {
+          const next = input[i + 1];
+          if (next === "x" && /^[0-9a-fA-F]{2}$/.test(input.slice(i + 2, i + 4))) {
+            word += String.fromCharCode(parseInt(input.slice(i + 2, i + 4), 16));
+            i += 4;
+          } else if (next === "u" && /^[0-9a-fA-F]{4}$/.test(input.slice(i + 2, i + 6))) {
+            word += String.fromCharCode(parseInt(input.slice(i + 2, i + 6), 16));
+            i += 6;
+          } else {
+            word += ANSI_ESCAPES[next] ?? next;
+            i += 2;
+          }
+        } else {
+          word += input[i++];
+        }
+      }
+      if (i >= input.length) throw new Error("Unterminated $'...' quote");
+      inWord = true;
+      i++;
+    } else if (char === '"') {
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        // Inside double quotes a backslash only escapes these characters
+        if (input[i] === "\\" && '"\\$`'.includes(input[i + 1])) {
+          word += input[i + 1];
+          i += 2;
+        } else {
+          word += input[i++];
+        }
+      }
+      if (i >= input.length) throw new Error("Unterminated double quote");
+      inWord = true;
+      i++;
+    } else if (char === "\\" && i + 1 < input.length) {
+      word += input[i + 1];
+      inWord = true;
+      i += 2;
+    } else {
+      word += char;
+      inWord = true;
+      i++;
+    }
+  }
+  if (inWord) words.push(word);
+  return words;
+}
+
+function encodeUrlEncodedData(value: string) {
+  // `--data-urlencode name=value` encodes only the value part
+  const eq = value.indexOf("=");
+  if (eq < 0) return encodeURIComponent(value);
+  return `${value.slice(0, eq + 1)}${encodeURIComponent(value.slice(eq + 1))}`;
+}
+
+function findHeader(headers: Record<string, string>, name: string) {
+  return Object.keys(headers).find((key) => key.toLowerCase() === name.toLowerCase());
+}
+
+// Picks a typed body for `-d` data from the Content-Type and the data itself
+function toBody(data: string, contentType: string | undefined): RequestBody {
+  const type = contentType?.split(";")[0].trim().toLowerCase();
+  // Without a Content-Type, anything that looks like a JSON document is JSON
+  if (type?.includes("json") || (!type && /^\s*[[{]/.test(data))) {
+    return { type: "json", content: data };
+  }
+  if (type?.includes("xml")) {
+    return { type: "xml", content: data };
+  }
+  if (!type || type === "application/x-www-form-urlencoded") {
+    const fields = data
+      .split("&")
+      .filter((pair) => pair.length > 0)
+      .map((pair) => {
+        const eq = pair.indexOf("=");
+        const decode = (part: string) => {
+          try {
+            return decodeURIComponent(part.replace(/\+/g, " "));
+          } catch {
+            return part;
+          }
+        };
+        return eq < 0
+          ? { key: decode(pair), value: "", enabled: true }
+          : { key: decode(pair.slice(0, eq)), value: decode(pair.slice(eq + 1)), enabled: true };
+      });
+    return { type: "formUrlEncoded", fields };
+  }
+  return { type: "text", content: data, contentType: type };
+}
+
+export function parseCurl(command: string): ParsedCurl {
+  const words = tokenizeShell(command.trim());
+  if (words[0] !== "curl") {
+    throw new Error("The command must start with curl");
+  }
+
+  let url: string | undefined;
+  let method: string | undefined;
+  const headers: Record<string, string> = {};
+  const data: string[] = [];
+  const formParts: { key: string; value: string }[] = [];
+  const warnings: string[] = [];
+  let auth: RequestAuth | undefined;
+  let getWithData = false;
+
+  const args = words.slice(1);
+  for (let i = 0; i < args.length; i++) {
+    let arg = args[i];
+    let inlineValue: string | undefined;
+
+    // --option=value and short options with attached values such as -XPOST
+    if (arg.startsWith("--") && arg.includes("=")) {
+      inlineValue = arg.slice(arg.indexOf("=") + 1);
+      arg = arg.slice(0, arg.indexOf("="));
+    } else if (/^-[XHdubAeF]./.test(arg)) {
+      inlineValue = arg.slice(2);
+      arg = arg.slice(0, 2);
+    }
+    const value = () => {
+      if (inlineValue !== undefined) return inlineValue;
+      if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
+      return args[++i];
+    };
+
+    if (arg === "-X" || arg === "--request") {
+      method = value().toUpperCase();
+    } else if (arg === "-H" || arg === "--header") {
+      const header = value();
+      const colon = header.indexOf(":");
+      if (colon > 0) {
+        headers[header.slice(0, colon).trim()] = header.slice(colon + 1).trim();
+      }
+    } else if (DATA_OPTIONS.has(arg)) {
+      const text = value();
+      if (text.startsWith("@") && arg !== "--data-raw") {
+        warnings.push(`File data ${text} was not imported`);
+      } else {
+        data.push(arg === "--data-urlencode" ? encodeUrlEncodedData(text) : text);
+      }
+    } else if (arg === "-F" || arg === "--form") {
+      const part = value();
+      const eq = part.indexOf("=");
+      if (eq < 0) continue;
+      const partValue = part.slice(eq + 1);
+      if (partValue.startsWith("@") || partValue.startsWith("<")) {
+        warnings.push(`File part ${part.slice(0, eq)} was not imported; attach the file in the Body tab`);
+        continue;
+      }
+      formParts.push({ key: part.slice(0, eq), value: partValue });
+    } else if (arg === "-u" || arg === "--user") {
+      const credentials = value();
+      const colon = credentials.indexOf(":");
+      auth = colon < 0
+        ? { type: "basic", username: credentials, password: "" }
+        : { type: "basic", username: credentials.slice(0, colon), password: credentials.slice(colon + 1) };
+    } else if (arg === "-A" || arg === "--user-agent") {
+      headers["User-Agent"] = value();
+    } else if (arg === "-e" || arg === "--referer") {
+      headers["Referer"] = value();
+    } else if (arg === "-b" || arg === "--cookie") {
+      headers["Cookie"] = value();
+    } else if (arg === "-I" || arg === "--head") {
+      method = "HEAD";
+    } else if (arg === "-G" || arg === "--get") {
+      getWithData = true;
+    } else if (arg === "--url") {
+      url = value();
+    } else if (IGNORED_WITH_VALUE.has(arg)) {
+      value();
+    } else if (arg.startsWith("-")) {
+      // --compressed, -L, -k, -s, -v and friends do not change the request
+    } else if (url === undefined) {
+      url = arg;
+    }
+  }
+
+  if (!url) throw new Error("No URL found in the cURL command");
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(url) && !url.startsWith("{{")) {
+    // curl assumes http:// when no scheme is given
+    url = `http://${url}`;
+  }
+
+  // A bearer token in the Authorization header is imported as auth
+  const authorizationKey = findHeader(headers, "authorization");
+  if (!auth && authorizationKey) {
+    const bearer = headers[authorizationKey].match(/^Bearer\s+(.+)$/i);
+    if (bearer) {
+      auth = { type: "bearer", token: bearer[1] };
+      delete headers[authorizationKey];
+    }
+  }
+
+  let body: RequestBody | undefined;
+  if (getWithData && data.length > 0) {
+    url += (url.includes("?") ? "&" : "?") + data.join("&");
+  } else if (formParts.length > 0) {
+    body = {
+      type: "multipart",
+      parts: formParts.map(({ key, value }) => ({ kind: "text" as const, key, value, enabled: true })),
+    };
+  } else if (data.length > 0) {
+    const contentTypeKey = findHeader(headers, "content-type");
+    body = toBody(data.join("&"), contentTypeKey ? headers[contentTypeKey] : undefined);
+  }
+
+  // curl switches to POST when it sends data
+  const resolvedMethod = method ?? (body ? "POST" : "GET");
+  if (!HTTP_METHODS.includes(resolvedMethod as HttpMethod)) {
+    throw new Error(`Unsupported method ${resolvedMethod}`);
+  }
+
+  return { url, method: resolvedMethod as HttpMethod, headers, body, auth, warnings };
+}
+
+export function shellQuote(value: string) {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Builds a cURL command for a stored request. {{variables}} are left as
+// written; OAuth2 tokens are referenced as $ACCESS_TOKEN.
+export function toCurl(request: StoredRequestFields): string {
+  let url = request.url;
+  const headers = { ...request.headers };
+  const authLines: string[] = [];
+
+  const auth = request.auth;
+  if (auth?.type === "bearer") {
+    headers["Authorization"] = `Bearer ${auth.token}`;
+  } else if (auth?.type === "basic") {
+    authLines.push(`-u ${shellQuote(`${auth.username}:${auth.password}`)}`);
+  } else if (auth?.type === "apiKey") {
+    if (auth.addTo === "header") {
+      headers[auth.key] = auth.value;
+    } else {
+      url += `${url.includes("?") ? "&" : "?"}${encodeURIComponent(auth.key)}=${encodeURIComponent(auth.value)}`;
+    }
+  }
+
+  const body = normalizeBody(request.body);
+  const bodyLines: string[] = [];
+  if (body) {
+    const contentType =
+      body.type === "text" ? body.contentType :
+      body.type === "binary" ? body.contentType ?? DEFAULT_CONTENT_TYPES.binary :
+      body.type === "formUrlEncoded" ? undefined :
+      DEFAULT_CONTENT_TYPES[body.type];
+    if (contentType && !findHeader(headers, "content-type")) {
+      headers["Content-Type"] = contentType;
+    }
+
+    switch (body.type) {
+      case "json":
+      case "xml":
+      case "text":
+        bodyLines.push(`--data-raw ${shellQuote(body.content)}`);
+        break;
+      case "formUrlEncoded":
+        body.fields
+          .filter((field) => field.enabled)
+          .forEach((field) => bodyLines.push(`--data-urlencode ${shellQuote(`${field.key}=${field.value}`)}`));
+        break;
+      case "multipart":
+        body.parts
+          .filter((part) => part.enabled)
+          .forEach((part) =>
+            bodyLines.push(
+              `-F ${shellQuote(part.kind === "text" ? `${part.key}=${part.value}` : `${part.key}=@${part.fileName}`)}`
+            )
+          );
+        break;
+      case "graphql": {
+        let variables: unknown;
+        try {
+          variables = body.variables.trim() ? JSON.parse(body.variables) : undefined;
+        } catch {
+          variables = body.variables;
+        }
+        const payload = {
+          query: body.query,
+          ...(variables !== undefined && { variables }),
+          ...(body.operationName && { operationName: body.operationName }),
+        };
+        bodyLines.push(`--data-raw ${shellQuote(JSON.stringify(payload))}`);
+        break;
+      }
+      case "binary":
+        bodyLines.push(`--data-binary ${shellQuote(`@${body.fileName}`)}`);
+        break;
+    }
+  }
+
+  const command = `curl -X ${request.method} ${shellQuote(url)}`;
+  const headerLines = Object.entries(headers).map(([key, value]) => `-H ${shellQuote(`${key}: ${value}`)}`);
+  if (auth?.type === "oauth2") {
+    // Double quotes so the shell expands the variable
+    headerLines.push(`-H "Authorization: Bearer $ACCESS_TOKEN"`);
+  }
+
+  return [command, ...headerLines, ...authLines, ...bodyLines].join(" \\\n  ");
+}
@@ -0,0 +1,193 @@
+// GraphQL schema introspection and the small amount of query analysis the
+// explorer and autocomplete need. This is not a full GraphQL parser: it only
+// tracks selection-set nesting, which is enough to know which type's fields
+// to suggest at the cursor.
+
+export const INTROSPECTION_QUERY = `
+query IntrospectionQuery {
+  __schema {
+    queryType { name }
+    mutationType { name }
+    subscriptionType { name }
+    types {
+      kind
+      name
+      description
+      fields(includeDeprecated: true) {
+        name
+        description
+        isDeprecated
+        args {
+          name
+          description
+          type { ...TypeRef }
+          defaultValue
+        }
+        type { ...TypeRef }
+      }
+      inputFields {
+        name
+        description
+        type { ...TypeRef }
+        defaultValue
+      }
+      enumValues(includeDeprecated: true) { name description }
+      possibleTypes { name }
+    }
+  }
+}
+
+fragment TypeRef on __Type {
+  kind
+  name
+  ofType {
+    kind
+    name
+    ofType {
+      kind
+      name
+      ofType {
+        kind
+        name
+        ofType { kind name }
+      }
+    }
+  }
+}
+`;
+
+export interface GraphQLTypeRef {
+  kind: string;
+  name: string | null;
+  ofType?: GraphQLTypeRef | null;
+}
+
+export interface GraphQLArgument {
+  name: string;
+  description?: string | null;
+  type: GraphQLTypeRef;
+  defaultValue?: string | null;
+}
+
+export interface GraphQLField {
+  name: string;
+  description?: string | null;
+  isDeprecated?: boolean;
+  args: GraphQLArgument[];
+  type: GraphQLTypeRef;
+}
+
+export interface GraphQLType {
+  kind: string;
+  name: string;
+  description?: string | null;
+  fields?: GraphQLField[] | null;
+  inputFields?: GraphQLArgument[] | null;
+  enumValues?: { name: string; description?: string | null }[] | null;
+  possibleTypes?: { name: string }[] | null;
+}
+
+export interface GraphQLSchema {
+  queryType: { name: string } | null;
+  mutationType?: { name: string } | null;
+  subscriptionType?: { name: string } | null;
+  types: GraphQLType[];
+}
+
+// Extracts the schema from an introspection response body
+export function readIntrospection(data: any): GraphQLSchema | null {
+  const schema = data?.data?.__schema;
+  return schema && Array.isArray(schema.types) ? schema : null;
+}
+
+// The named type under any List / NonNull wrappers
+export function namedType(type: GraphQLTypeRef): string | null {
+  let current: GraphQLTypeRef | null | undefined = type;
+  while (current && !current.name) current = current.ofType;
+  return current?.name ?? null;
+}
+
+// SDL notation such as `[User!]!`
+export function typeToString(type: GraphQLTypeRef): string {
+  if (type.kind === "NON_NULL" && type.ofType) return `${typeToString(type.ofType)}!`;
+  if (type.kind === "LIST" && type.ofType) return `[${typeToString(type.ofType)}]`;
+  return type.name ?? "?";
+}
+
+export function isBuiltInType(type: GraphQLType) {
+  return type.name.startsWith("__");
+}
+
+export interface CompletionContext {
+  // Type whose fields are valid at the cursor, if known
+  parentType: string | null;
+  // Partial identifier immediately before the cursor
+  prefix: string;
+}
+
+// Works out which type's selection set the cursor is in by replaying the
+// `{` / `}` nesting of the text before it.
+export function getCompletionContext(query: string, cursor: number, schema: GraphQLSchema): CompletionContext {
+  const text = query.slice(0, cursor);
+  const prefix = text.match(/[_A-Za-z][_0-9A-Za-z]*$/)?.[0] ?? "";
+  const typesByName = new Map(schema.types.map((type) => [type.name, type]));
+
+  const stack: (string | null)[] = [];
+  let lastField: string | null = null;
+  // Type condition of a fragment or inline fragment (`on User`)
+  let typeCondition: string | null = null;
+  let previous: string | null = null;
+  let operation: "query" | "mutation" | "subscription" = "query";
+  let parenDepth = 0;
+  // Tokens: strings and comments are skipped, identifiers and punctuation kept
+  const tokens = text.match(/"(?:\\.|[^"\\])*"|#[^\n]*|[_A-Za-z][_0-9A-Za-z]*|[{}()]/g) ?? [];
+
+  for (const token of tokens) {
+    if (token.startsWith('"') || token.startsWith("#")) continue;
+    const afterOn = previous === "on";
+    previous = token;
+    if (token === "(") {
+      parenDepth++;
+    } else if (token === ")") {
+      parenDepth = Math.max(0, parenDepth - 1);
+    } else if (parenDepth > 0) {
+      continue;
+    } else if (token === "{") {
+      if (typeCondition) {
+        stack.push(typeCondition);
+      } else if (stack.length === 0) {
+        const root =
+          operation === "mutation" ? schema.mutationType :
+          operation === "subscription" ? schema.subscriptionType :
+          schema.queryType;
+        stack.push(root?.name ?? null);
+      } else {
+        const parent = stack[stack.length - 1];
+        const field = parent && lastField
+          ? typesByName.get(parent)?.fields?.find((f) => f.name === lastField)
+          : undefined;
+        stack.push(field ? namedType(field.type) : null);
+      }
+      lastField = null;
+      typeCondition = null;
+    } else if (token === "}") {
+      stack.pop();
+      if (stack.length === 0) operation = "query";
+    } else if (stack.length === 0 && (token === "query" || token === "mutation" || token === "subscription")) {
+      operation = token;
+    } else if (afterOn) {
+      typeCondition = token;
+    } else if (token !== "on" && token !== "fragment") {
+      lastField = token;
+    }
+  }
+
+  return { parentType: stack.length > 0 ? stack[stack.length - 1] : null, prefix };
+}
+
+export function getFieldSuggestions(schema: GraphQLSchema, context: CompletionContext): GraphQLField[] {
+  if (!context.parentType) return [];
+  const type = schema.types.find((t) => t.name === context.parentType);
+  const prefix = context.prefix.toLowerCase();
+  return (type?.fields ?? []).filter((field) => field.name.toLowerCase().startsWith(prefix)).slice(0, 10);
+}
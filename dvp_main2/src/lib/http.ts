@@ -0,0 +1,27 @@
+import type { HttpMethod } from "../../convex/validators";
+import { METHODS_WITH_BODY } from "../../convex/validators";
+
+export type { HttpMethod };
+
+export const HTTP_METHODS: HttpMethod[] = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"];
+
+// Text/background colours used for the method selector and history badges
+export const METHOD_COLORS: Record<HttpMethod, string> = {
+  GET: "text-green-800 bg-green-100",
+  POST: "text-blue-800 bg-blue-100",
+  PUT: "text-amber-800 bg-amber-100",
+  PATCH: "text-purple-800 bg-purple-100",
+  DELETE: "text-red-800 bg-red-100",
+  HEAD: "text-gray-800 bg-gray-100",
+  OPTIONS: "text-pink-800 bg-pink-100",
+};
+
+export function methodAllowsBody(method: HttpMethod) {
+  return METHODS_WITH_BODY.includes(method);
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
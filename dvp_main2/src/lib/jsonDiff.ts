@@ -0,0 +1,59 @@
+// Structural diff of two JSON values. Objects are compared key by key and
+// arrays index by index; paths use the same syntax as JSON path assertions.
+
+export type DiffKind = "added" | "removed" | "changed";
+
+export interface DiffEntry {
+  path: string;
+  kind: DiffKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function childPath(path: string, key: string | number) {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}['${key.replace(/'/g, "\\'")}']`;
+}
+
+export function diffJson(before: unknown, after: unknown, path = "$"): DiffEntry[] {
+  if (isObject(before) && isObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap((key) => {
+      const child = childPath(path, key);
+      if (!(key in after)) return [{ path: child, kind: "removed" as const, before: before[key] }];
+      if (!(key in before)) return [{ path: child, kind: "added" as const, after: after[key] }];
+      return diffJson(before[key], after[key], child);
+    });
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const entries: DiffEntry[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      const child = childPath(path, i);
+      if (i >= after.length) entries.push({ path: child, kind: "removed", before: before[i] });
+      else if (i >= before.length) entries.push({ path: child, kind: "added", after: after[i] });
+      else entries.push(...diffJson(before[i], after[i], child));
+    }
+    return entries;
+  }
+
+  // Primitives, or values whose type changed
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ path, kind: "changed", before, after }];
+}
+
+// Parses a body as JSON when it looks like JSON; other bodies stay text
+export function parseBody(body: string | undefined, contentType?: string): unknown {
+  if (body === undefined) return undefined;
+  const trimmed = body.trim();
+  if (contentType?.includes("json") || trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
+  }
+  return body;
+}
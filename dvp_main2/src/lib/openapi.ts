@@ -0,0 +1,350 @@
+import { parse as parseYaml } from "yaml";
+import type { HttpMethod, QueryParam, RequestAuth, RequestBody } from "../../convex/validators";
+import type { ImportedOperation } from "../../convex/openapiImport";
+
+// Converts OpenAPI 3.x and Swagger 2.0 documents into saved requests. The
+// base URL and every path, query and header parameter become {{variables}}.
+
+export interface ParsedSpec {
+  title: string;
+  version?: string;
+  description?: string;
+  operations: ImportedOperation[];
+  // Defaults for the variables the requests reference
+  variables: { key: string; value: string }[];
+  warnings: string[];
+}
+
+type Json = any;
+
+const OPERATION_METHODS: HttpMethod[] = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"];
+
+// Nested schemas deeper than this are left empty; it also stops recursive
+// schemas from looping.
+const MAX_EXAMPLE_DEPTH = 6;
+
+function readDocument(text: string): Json {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("The specification is empty");
+  try {
+    return trimmed.startsWith("{") ? JSON.parse(trimmed) : parseYaml(trimmed);
+  } catch (error) {
+    throw new Error(`Could not parse the specification: ${error instanceof Error ? error.message : "invalid syntax"}`);
+  }
+}
+
+// Follows local `$ref`s such as `#/components/schemas/Pet`
+function resolveRef(doc: Json, value: Json, seen = new Set<string>()): Json {
+  if (!value || typeof value !== "object" || typeof value.$ref !== "string") return value;
+  const ref: string = value.$ref;
+  if (!ref.startsWith("#/") || seen.has(ref)) return {};
+  seen.add(ref);
+  const target = ref
+    .slice(2)
+    .split("/")
+    .map((part) => part.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce((node: Json, part) => node?.[part], doc);
+  return resolveRef(doc, target ?? {}, seen);
+}
+
+function exampleForString(schema: Json): string {
+  switch (schema.format) {
+    case "date-time":
+      return "2024-01-01T00:00:00Z";
+    case "date":
+      return "2024-01-01";
+    case "email":
+      return "user@example.com";
+    case "uuid":
+      return "00000000-0000-0000-0000-000000000000";
+    case "uri":
+    case "url":
+      return "https://example.com";
+    default:
+      return "string";
+  }
+}
+
+// Builds an example value from a schema, preferring explicit examples
+export function exampleFromSchema(doc: Json, rawSchema: Json, depth = 0): Json {
+  const schema = resolveRef(doc, rawSchema);
+  if (!schema || typeof schema !== "object" || depth > MAX_EXAMPLE_DEPTH) return null;
+  if (schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+  if (schema.default !== undefined) return schema.default;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+  if (schema.const !== undefined) return schema.const;
+
+  if (Array.isArray(schema.allOf)) {
+    return schema.allOf.reduce((merged: Json, part: Json) => {
+      const value = exampleFromSchema(doc, part, depth + 1);
+      return value && typeof value === "object" && !Array.isArray(value) ? { ...merged, ...value } : merged;
+    }, {});
+  }
+  const alternatives = schema.oneOf ?? schema.anyOf;
+  if (Array.isArray(alternatives) && alternatives.length > 0) {
+    return exampleFromSchema(doc, alternatives[0], depth + 1);
+  }
+
+  // OpenAPI 3.1 allows a list of types, e.g. ["string", "null"]
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== "null") : schema.type;
+  switch (type ?? (schema.properties ? "object" : schema.items ? "array" : undefined)) {
+    case "object": {
+      const result: Record<string, Json> = {};
+      for (const [name, property] of Object.entries(schema.properties ?? {})) {
+        const resolved = resolveRef(doc, property);
+        if (resolved?.readOnly) continue;
+        result[name] = exampleFromSchema(doc, property, depth + 1);
+      }
+      return result;
+    }
+    case "array":
+      return schema.items ? [exampleFromSchema(doc, schema.items, depth + 1)] : [];
+    case "string":
+      return exampleForString(schema);
+    case "integer":
+    case "number":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return true;
+    default:
+      return null;
+  }
+}
+
+function toVariableName(name: string) {
+  return name.replace(/[^\w.-]/g, "_");
+}
+
+function stringify(value: Json): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function baseUrlOf(doc: Json, isSwagger: boolean): string {
+  if (isSwagger) {
+    const scheme = doc.schemes?.[0] ?? "https";
+    return doc.host ? `${scheme}://${doc.host}${doc.basePath ?? ""}` : doc.basePath ?? "";
+  }
+  const server = doc.servers?.[0];
+  if (!server?.url) return "";
+  // Server variables are replaced by their defaults
+  return String(server.url).replace(/\{([^}]+)\}/g, (match: string, name: string) =>
+    server.variables?.[name]?.default !== undefined ? String(server.variables[name].default) : match
+  );
+}
+
+// Maps a security scheme to request auth; credentials become variables
+function authFromScheme(scheme: Json, isSwagger: boolean, warnings: string[], name: string): RequestAuth | undefined {
+  if (!scheme) return undefined;
+  const type = scheme.type;
+  if ((type === "http" && scheme.scheme?.toLowerCase() === "bearer") || type === "openIdConnect") {
+    return { type: "bearer", token: "{{bearerToken}}" };
+  }
+  if ((type === "http" && scheme.scheme?.toLowerCase() === "basic") || type === "basic") {
+    return { type: "basic", username: "{{username}}", password: "{{password}}" };
+  }
+  if (type === "apiKey") {
+    if (scheme.in === "query") return { type: "apiKey", key: scheme.name, value: "{{apiKey}}", addTo: "query" };
+    if (scheme.in === "cookie") {
+      return { type: "apiKey", key: "Cookie", value: `${scheme.name}={{apiKey}}`, addTo: "header" };
+    }
+    return { type: "apiKey", key: scheme.name, value: "{{apiKey}}", addTo: "header" };
+  }
+  if (type === "oauth2") {
+    const flows = isSwagger
+      ? { [scheme.flow]: { tokenUrl: scheme.tokenUrl, scopes: scheme.scopes } }
+      : scheme.flows ?? {};
+    const clientFlow = flows.clientCredentials ?? flows.application;
+    const passwordFlow = flows.password;
+    const flow = clientFlow ?? passwordFlow;
+    if (flow?.tokenUrl) {
+      const scope = Object.keys(flow.scopes ?? {}).join(" ");
+      return {
+        type: "oauth2",
+        grantType: clientFlow ? "client_credentials" : "password",
+        tokenUrl: flow.tokenUrl,
+        clientId: "{{clientId}}",
+        clientSecret: "{{clientSecret}}",
+        ...(scope && { scope }),
+        ...(!clientFlow && { username: "{{username}}", password: "{{password}}" }),
+        clientAuthentication: "basic",
+      };
+    }
+  }
+  warnings.push(`Security scheme "${name}" is not supported; set auth on those requests by hand`);
+  return undefined;
+}
+
+// Request body from an OpenAPI 3 `requestBody` or Swagger 2 body/formData parameters
+function bodyFromContent(doc: Json, content: Json): { body?: RequestBody; contentType?: string } {
+  const types = Object.keys(content ?? {});
+  const pick = (predicate: (type: string) => boolean) => types.find(predicate);
+  const contentType =
+    pick((t) => t.includes("json")) ??
+    pick((t) => t === "application/x-www-form-urlencoded") ??
+    pick((t) => t === "multipart/form-data") ??
+    types[0];
+  if (!contentType) return {};
+
+  const media = content[contentType] ?? {};
+  const firstExample = media.examples ? resolveRef(doc, Object.values(media.examples)[0])?.value : undefined;
+  const example = media.example ?? firstExample ?? exampleFromSchema(doc, media.schema);
+
+  if (contentType.includes("json")) {
+    return { body: { type: "json", content: JSON.stringify(example ?? {}, null, 2) }, contentType };
+  }
+  if (contentType === "application/x-www-form-urlencoded" || contentType === "multipart/form-data") {
+    const fields = Object.entries(example && typeof example === "object" ? example : {}).map(([key, value]) => ({
+      key,
+      value: stringify(value),
+      enabled: true,
+    }));
+    return contentType === "multipart/form-data"
+      ? { body: { type: "multipart", parts: fields.map((field) => ({ kind: "text" as const, ...field })) } }
+      : { body: { type: "formUrlEncoded", fields } };
+  }
+  if (contentType.includes("xml")) {
+    return { body: { type: "xml", content: typeof example === "string" ? example : "" }, contentType };
+  }
+  return { body: { type: "text", content: stringify(example), contentType }, contentType };
+}
+
+export function parseOpenApi(text: string): ParsedSpec {
+  const doc = readDocument(text);
+  if (!doc || typeof doc !== "object") throw new Error("The specification must be an object");
+  const isSwagger = typeof doc.swagger === "string" && doc.swagger.startsWith("2");
+  if (!isSwagger && !(typeof doc.openapi === "string" && doc.openapi.startsWith("3"))) {
+    throw new Error("Only OpenAPI 3.x and Swagger 2.0 specifications are supported");
+  }
+
+  const warnings: string[] = [];
+  const variables = new Map<string, string>();
+  const baseUrl = baseUrlOf(doc, isSwagger);
+  variables.set("baseUrl", baseUrl);
+  if (!baseUrl) warnings.push("The specification has no server URL; set baseUrl in the environment");
+
+  const securitySchemes = (isSwagger ? doc.securityDefinitions : doc.components?.securitySchemes) ?? {};
+  const authFor = (security: Json[] | undefined): RequestAuth | undefined => {
+    // The first requirement with a supported scheme wins
+    for (const requirement of security ?? []) {
+      for (const name of Object.keys(requirement ?? {})) {
+        const auth = authFromScheme(resolveRef(doc, securitySchemes[name]), isSwagger, warnings, name);
+        if (auth) return auth;
+      }
+    }
+    return undefined;
+  };
+
+  const operations: ImportedOperation[] = [];
+  for (const [path, rawPathItem] of Object.entries<Json>(doc.paths ?? {})) {
+    const pathItem = resolveRef(doc, rawPathItem);
+    for (const method of OPERATION_METHODS) {
+      const operation = pathItem?.[method.toLowerCase()];
+      if (!operation) continue;
+
+      // Operation parameters override path-level ones with the same name and location
+      const parameters = new Map<string, Json>();
+      for (const raw of [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])]) {
+        const parameter = resolveRef(doc, raw);
+        if (parameter?.name) parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+
+      const headers: Record<string, string> = {};
+      const params: QueryParam[] = [];
+      const formFields: { key: string; value: string; enabled: boolean }[] = [];
+      let body: RequestBody | undefined;
+      let contentType: string | undefined;
+      let hasFileField = false;
+
+      for (const parameter of parameters.values()) {
+        const variable = toVariableName(parameter.name);
+        const example =
+          parameter.example ??
+          (parameter.schema ? exampleFromSchema(doc, parameter.schema) : parameter.default ?? parameter.enum?.[0]);
+        switch (parameter.in) {
+          case "path":
+            variables.set(variable, variables.get(variable) || stringify(example));
+            break;
+          case "query":
+            params.push({ key: parameter.name, value: `{{${variable}}}`, enabled: !!parameter.required });
+            variables.set(variable, variables.get(variable) || stringify(example));
+            break;
+          case "header":
+            headers[parameter.name] = `{{${variable}}}`;
+            variables.set(variable, variables.get(variable) || stringify(example));
+            break;
+          case "body":
+            body = { type: "json", content: JSON.stringify(exampleFromSchema(doc, parameter.schema) ?? {}, null, 2) };
+            contentType = operation.consumes?.[0] ?? doc.consumes?.[0];
+            break;
+          case "formData":
+            hasFileField ||= parameter.type === "file";
+            formFields.push({ key: parameter.name, value: parameter.type === "file" ? "" : stringify(example), enabled: true });
+            break;
+        }
+      }
+
+      if (formFields.length > 0) {
+        const consumes: string[] = operation.consumes ?? doc.consumes ?? [];
+        body = hasFileField || consumes.includes("multipart/form-data")
+          ? { type: "multipart", parts: formFields.map((field) => ({ kind: "text" as const, ...field })) }
+          : { type: "formUrlEncoded", fields: formFields };
+        if (hasFileField) {
+          warnings.push(`${method} ${path}: file fields were imported as empty text parts`);
+        }
+      }
+      if (operation.requestBody) {
+        const requestBody = resolveRef(doc, operation.requestBody);
+        ({ body, contentType } = bodyFromContent(doc, requestBody.content));
+      }
+      if (body && contentType && body.type !== "multipart" && body.type !== "formUrlEncoded") {
+        headers["Content-Type"] = contentType;
+      }
+
+      // {id} path templates become {{id}} placeholders
+      const templatedPath = path.replace(/\{([^}]+)\}/g, (_match: string, name: string) => `{{${toVariableName(name)}}}`);
+      const query = params
+        .filter((param) => param.enabled)
+        .map((param) => `${encodeURIComponent(param.key)}=${param.value}`)
+        .join("&");
+      const key = `${method} ${path}`;
+      const auth = authFor(operation.security ?? doc.security);
+
+      operations.push({
+        key,
+        name: operation.summary?.trim() || operation.operationId || key,
+        folder: operation.tags?.[0],
+        url: `{{baseUrl}}${templatedPath}${query ? `?${query}` : ""}`,
+        method,
+        headers,
+        body: body && (method === "GET" || method === "HEAD" || method === "OPTIONS") ? undefined : body,
+        auth,
+        params: params.length > 0 ? params : undefined,
+      });
+    }
+  }
+
+  if (operations.length === 0) throw new Error("The specification does not define any operations");
+
+  // Credentials referenced by auth settings
+  for (const operation of operations) {
+    const auth = operation.auth;
+    const names =
+      auth?.type === "bearer" ? ["bearerToken"] :
+      auth?.type === "basic" ? ["username", "password"] :
+      auth?.type === "apiKey" ? ["apiKey"] :
+      auth?.type === "oauth2" ? ["clientId", "clientSecret", ...(auth.username ? ["username", "password"] : [])] :
+      [];
+    names.forEach((name) => variables.set(name, variables.get(name) ?? ""));
+  }
+
+  return {
+    title: doc.info?.title || "Imported API",
+    version: doc.info?.version,
+    description: doc.info?.description,
+    operations,
+    variables: [...variables].map(([key, value]) => ({ key, value })),
+    warnings: [...new Set(warnings)],
+  };
+}
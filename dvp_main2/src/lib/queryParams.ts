@@ -0,0 +1,69 @@
+import type { QueryParam } from "../../convex/validators";
+
+export type { QueryParam };
+
+// {{variable}} placeholders must survive encoding so they can be resolved
+// server-side.
+const PLACEHOLDER_PATTERN = /(\{\{\s*[\w.-]+\s*\}\})/;
+
+function decode(component: string) {
+  try {
+    return decodeURIComponent(component.replace(/\+/g, " "));
+  } catch {
+    // Leave malformed escapes such as a lone "%" as typed
+    return component;
+  }
+}
+
+export function encodeComponent(component: string) {
+  return component
+    .split(PLACEHOLDER_PATTERN)
+    .map((part, i) => (i % 2 === 1 ? part : encodeURIComponent(part)))
+    .join("");
+}
+
+// Splits a URL into everything before the query string, the decoded params
+// and the fragment. Works on templated URLs that `new URL` would reject.
+export function splitUrl(url: string): { base: string; params: QueryParam[]; hash: string } {
+  const hashIndex = url.indexOf("#");
+  const hash = hashIndex >= 0 ? url.slice(hashIndex) : "";
+  const withoutHash = hashIndex >= 0 ? url.slice(0, hashIndex) : url;
+  const queryIndex = withoutHash.indexOf("?");
+  if (queryIndex < 0) {
+    return { base: withoutHash, params: [], hash };
+  }
+
+  const params = withoutHash
+    .slice(queryIndex + 1)
+    .split("&")
+    .filter((pair) => pair.length > 0)
+    .map((pair) => {
+      const eq = pair.indexOf("=");
+      return {
+        key: decode(eq >= 0 ? pair.slice(0, eq) : pair),
+        value: eq >= 0 ? decode(pair.slice(eq + 1)) : "",
+        enabled: true,
+      };
+    });
+  return { base: withoutHash.slice(0, queryIndex), params, hash };
+}
+
+export function buildUrl(base: string, params: QueryParam[], hash = "") {
+  const query = params
+    .filter((param) => param.enabled && (param.key || param.value))
+    .map((param) => `${encodeComponent(param.key)}=${encodeComponent(param.value)}`)
+    .join("&");
+  return `${base}${query ? `?${query}` : ""}${hash}`;
+}
+
+// Params after the URL was edited by hand: what the URL now contains,
+// followed by the disabled params it could not express.
+export function syncParamsFromUrl(url: string, previous: QueryParam[]) {
+  return [...splitUrl(url).params, ...previous.filter((param) => !param.enabled)];
+}
+
+// URL after the params grid was edited
+export function syncUrlFromParams(url: string, params: QueryParam[]) {
+  const { base, hash } = splitUrl(url);
+  return buildUrl(base, params, hash);
+}
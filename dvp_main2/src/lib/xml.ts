@@ -0,0 +1,49 @@
+// Pretty-prints an XML document with two-space indentation. Throws when the
+// input is not well-formed.
+export function formatXml(xml: string): string {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  const parseError = doc.getElementsByTagName("parsererror")[0];
+  if (parseError) {
+    throw new Error(parseError.textContent?.split("\n")[0] || "Invalid XML");
+  }
+
+  const declaration = xml.trimStart().match(/^<\?xml[^?]*\?>/)?.[0];
+  const lines: string[] = declaration ? [declaration] : [];
+
+  const serializeAttributes = (element: Element) =>
+    Array.from(element.attributes)
+      .map((attr) => ` ${attr.name}="${attr.value.replace(/&/g, "&amp;").replace(/"/g, "&quot;")}"`)
+      .join("");
+
+  const escapeText = (text: string) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+  const walk = (node: Node, depth: number) => {
+    const indent = "  ".repeat(depth);
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      const element = node as Element;
+      const children = Array.from(element.childNodes).filter(
+        (child) => child.nodeType !== Node.TEXT_NODE || child.textContent?.trim()
+      );
+      const open = `<${element.tagName}${serializeAttributes(element)}`;
+      if (children.length === 0) {
+        lines.push(`${indent}${open}/>`);
+      } else if (children.length === 1 && children[0].nodeType === Node.TEXT_NODE) {
+        lines.push(`${indent}${open}>${escapeText(children[0].textContent!.trim())}</${element.tagName}>`);
+      } else {
+        lines.push(`${indent}${open}>`);
+        children.forEach((child) => walk(child, depth + 1));
+        lines.push(`${indent}</${element.tagName}>`);
+      }
+    } else if (node.nodeType === Node.TEXT_NODE) {
+      lines.push(`${indent}${escapeText(node.textContent!.trim())}`);
+    } else if (node.nodeType === Node.CDATA_SECTION_NODE) {
+      lines.push(`${indent}<![CDATA[${node.textContent}]]>`);
+    } else if (node.nodeType === Node.COMMENT_NODE) {
+      lines.push(`${indent}<!--${node.textContent}-->`);
+    }
+  };
+
+  Array.from(doc.childNodes).forEach((node) => walk(node, 0));
+  return lines.join("\n");
+}